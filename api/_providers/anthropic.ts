@@ -0,0 +1,94 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { ChatRequest, ServerProvider } from './types';
+
+// ============================================================
+// Anthropic Edge Provider
+// ============================================================
+
+const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
+
+function createClient(): Anthropic {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+        throw new Error('ANTHROPIC_API_KEY not configured');
+    }
+    return new Anthropic({ apiKey });
+}
+
+/**
+ * Anthropic takes the system prompt as a top-level param.
+ */
+function toMessageParams(request: ChatRequest) {
+    const format = request.response_format;
+    const systemMessages = request.messages.filter((m) => m.role === 'system');
+    const nonSystemMessages = request.messages.filter((m) => m.role !== 'system');
+    const systemPrompt =
+        systemMessages.length > 0
+            ? systemMessages.map((m) => m.content).join('\n\n')
+            : undefined;
+
+    return {
+        model: request.model || DEFAULT_MODEL,
+        max_tokens: request.max_tokens || 4096,
+        system: systemPrompt,
+        messages: nonSystemMessages.map((m) => ({
+            role: m.role as 'user' | 'assistant',
+            content: m.content,
+        })),
+        // A JSON-schema format becomes a tool the model must call
+        ...(format?.type === 'json_schema' && {
+            tools: [{
+                name: format.json_schema.name,
+                description: format.json_schema.description,
+                input_schema: format.json_schema.schema as Anthropic.Tool.InputSchema,
+            }],
+            tool_choice: { type: 'tool' as const, name: format.json_schema.name },
+        }),
+    };
+}
+
+export const anthropicProvider: ServerProvider = {
+    id: 'anthropic',
+
+    async complete(request) {
+        const response = await createClient().messages.create(toMessageParams(request));
+
+        // Flatten content blocks; a forced tool call answers with its input
+        const toolUse = response.content.find((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use');
+        const content = toolUse
+            ? JSON.stringify(toolUse.input)
+            : response.content
+                .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+                .map((block) => block.text)
+                .join('');
+
+        return {
+            content,
+            usage: response.usage
+                ? {
+                    input: response.usage.input_tokens,
+                    output: response.usage.output_tokens,
+                }
+                : undefined,
+        };
+    },
+
+    async stream(request, emit) {
+        const stream = await createClient().messages.create({ ...toMessageParams(request), stream: true });
+
+        let input = 0;
+        let output = 0;
+        for await (const event of stream) {
+            if (event.type === 'message_start') {
+                input = event.message.usage.input_tokens;
+            } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+                emit(event.delta.text);
+            } else if (event.type === 'content_block_delta' && event.delta.type === 'input_json_delta') {
+                emit(event.delta.partial_json);
+            } else if (event.type === 'message_delta') {
+                output = event.usage.output_tokens;
+            }
+        }
+        return { input, output };
+    },
+};
@@ -0,0 +1,21 @@
+import { ServerProvider } from './types';
+import { openaiProvider, localProvider } from './openai';
+import { anthropicProvider } from './anthropic';
+
+// ============================================================
+// Edge Provider Registry
+// ============================================================
+
+export type { ChatRequest, Usage, EmitDelta, ServerProvider } from './types';
+
+const SERVER_PROVIDERS: ServerProvider[] = [openaiProvider, anthropicProvider, localProvider];
+
+export const DEFAULT_SERVER_PROVIDER = openaiProvider.id;
+
+export function getServerProvider(id: string): ServerProvider | undefined {
+    return SERVER_PROVIDERS.find((provider) => provider.id === id);
+}
+
+export function listServerProviders(): string[] {
+    return SERVER_PROVIDERS.map((provider) => provider.id);
+}
@@ -0,0 +1,141 @@
+import OpenAI from 'openai';
+import { ChatRequest, ServerProvider } from './types';
+
+// ============================================================
+// OpenAI-compatible Edge Providers - OpenAI and self-hosted servers
+// ============================================================
+
+const JSON_MODE_INSTRUCTION =
+    'Respond with a single valid JSON object only. Do not wrap it in markdown or add any other text.';
+
+interface OpenAICompatibleOptions {
+    id: string;
+    defaultModel: () => string;
+    createClient: () => OpenAI;
+    // Retry with a prompt instruction when a model rejects response_format
+    jsonModeFallback?: boolean;
+}
+
+function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): ServerProvider {
+    const withFallback = <T>(request: ChatRequest, call: (request: ChatRequest) => Promise<T>) =>
+        options.jsonModeFallback ? withJsonModeFallback(request, call) : call(request);
+
+    return {
+        id: options.id,
+
+        complete: (request) =>
+            withFallback(request, async (req) => {
+                const completion = await options.createClient().chat.completions.create({
+                    model: req.model || options.defaultModel(),
+                    messages: req.messages as OpenAI.ChatCompletionMessageParam[],
+                    temperature: 0,
+                    response_format: toResponseFormat(req.response_format),
+                });
+
+                return {
+                    content: completion.choices[0]?.message?.content || '',
+                    usage: completion.usage
+                        ? {
+                            input: completion.usage.prompt_tokens,
+                            output: completion.usage.completion_tokens,
+                        }
+                        : undefined,
+                };
+            }),
+
+        stream: (request, emit) =>
+            withFallback(request, async (req) => {
+                const stream = await options.createClient().chat.completions.create({
+                    model: req.model || options.defaultModel(),
+                    messages: req.messages as OpenAI.ChatCompletionMessageParam[],
+                    temperature: 0,
+                    response_format: toResponseFormat(req.response_format),
+                    stream: true,
+                    stream_options: { include_usage: true },
+                });
+
+                let usage: { input: number; output: number } | undefined;
+                for await (const chunk of stream) {
+                    const delta = chunk.choices[0]?.delta?.content;
+                    if (delta) emit(delta);
+                    if (chunk.usage) {
+                        usage = { input: chunk.usage.prompt_tokens, output: chunk.usage.completion_tokens };
+                    }
+                }
+                return usage;
+            }),
+    };
+}
+
+/**
+ * JSON-schema formats are enforced strictly.
+ */
+function toResponseFormat(format: ChatRequest['response_format']): OpenAI.ChatCompletionCreateParams['response_format'] {
+    if (!format) return { type: 'text' };
+    if (format.type !== 'json_schema') return format;
+    return { type: 'json_schema', json_schema: { ...format.json_schema, strict: true } };
+}
+
+/**
+ * Local models may reject response_format. Retry those requests with the
+ * JSON instruction in the system prompt instead.
+ */
+async function withJsonModeFallback<T>(
+    request: ChatRequest,
+    call: (request: ChatRequest) => Promise<T>
+): Promise<T> {
+    try {
+        return await call(request);
+    } catch (error) {
+        const status = (error as { status?: number }).status;
+        const canFallBack = request.response_format?.type === 'json_object' &&
+            (status === 400 || status === 422 || status === 500);
+        if (!canFallBack) throw error;
+
+        const messages = [...request.messages];
+        const systemIndex = messages.findIndex((m) => m.role === 'system');
+        if (systemIndex >= 0) {
+            messages[systemIndex] = {
+                ...messages[systemIndex],
+                content: `${messages[systemIndex].content}\n\n${JSON_MODE_INSTRUCTION}`,
+            };
+        } else {
+            messages.unshift({ role: 'system', content: JSON_MODE_INSTRUCTION });
+        }
+        return call({ ...request, messages, response_format: { type: 'text' } });
+    }
+}
+
+// ------------------------------------------------------------
+// Providers
+// ------------------------------------------------------------
+
+export const openaiProvider = createOpenAICompatibleProvider({
+    id: 'openai',
+    defaultModel: () => 'gpt-4o',
+    createClient: () => {
+        const apiKey = process.env.OPENAI_API_KEY;
+        if (!apiKey) {
+            throw new Error('OPENAI_API_KEY not configured');
+        }
+        return new OpenAI({ apiKey });
+    },
+});
+
+/**
+ * A self-hosted OpenAI-compatible server (Ollama, llama.cpp, vLLM)
+ * configured with LOCAL_LLM_BASE_URL.
+ */
+export const localProvider = createOpenAICompatibleProvider({
+    id: 'local',
+    defaultModel: () => process.env.LOCAL_LLM_MODEL || 'llama3.1',
+    createClient: () => {
+        const baseURL = process.env.LOCAL_LLM_BASE_URL;
+        if (!baseURL) {
+            throw new Error('LOCAL_LLM_BASE_URL not configured');
+        }
+        // Most local servers ignore the key, but the SDK requires one
+        return new OpenAI({ baseURL, apiKey: process.env.LOCAL_LLM_API_KEY || 'local' });
+    },
+    jsonModeFallback: true,
+});
@@ -0,0 +1,35 @@
+// ============================================================
+// Edge Provider Types - Shared by the chat proxy and its providers
+// ============================================================
+
+// Files under api/_providers are not deployed as functions (leading underscore)
+
+export interface ChatRequest {
+    provider?: string;
+    model?: string;
+    messages: Array<{ role: string; content: string }>;
+    response_format?: { type: 'json_object' | 'text' } | JsonSchemaFormat;
+    max_tokens?: number;
+    stream?: boolean;
+}
+
+/**
+ * OpenAI's shape; the Anthropic provider turns it into a forced tool call.
+ */
+export interface JsonSchemaFormat {
+    type: 'json_schema';
+    json_schema: { name: string; description?: string; schema: Record<string, unknown> };
+}
+
+export type Usage = { input: number; output: number };
+export type EmitDelta = (delta: string) => void;
+
+/**
+ * A provider the proxy can forward to, using keys from the server env.
+ * Mirrors the client registry in src/api/providers/registry.ts.
+ */
+export interface ServerProvider {
+    id: string;
+    complete(request: ChatRequest): Promise<{ content: string; usage?: Usage }>;
+    stream(request: ChatRequest, emit: EmitDelta): Promise<Usage | undefined>;
+}
@@ -1,5 +1,4 @@
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
+import { getServerProvider, listServerProviders, DEFAULT_SERVER_PROVIDER, ChatRequest, ServerProvider } from './_providers';
 
 // ============================================================
 // Chat API Edge Function - Multi-Provider Support
@@ -10,20 +9,6 @@ export const config = {
     runtime: 'edge',
 };
 
-// ------------------------------------------------------------
-// Types
-// ------------------------------------------------------------
-
-type Provider = 'openai' | 'anthropic';
-
-interface ChatRequest {
-    provider?: Provider;
-    model?: string;
-    messages: Array<{ role: string; content: string }>;
-    response_format?: { type: 'json_object' | 'text' };
-    max_tokens?: number;
-}
-
 // ------------------------------------------------------------
 // Rate Limiting
 // ------------------------------------------------------------
@@ -50,80 +35,81 @@ function checkRateLimit(ip: string): boolean {
 }
 
 // ------------------------------------------------------------
-// Provider Handlers
+// Streaming
 // ------------------------------------------------------------
 
-async function callOpenAI(
-    request: ChatRequest
-): Promise<{ content: string; usage?: { input: number; output: number } }> {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-        throw new Error('OPENAI_API_KEY not configured');
-    }
-
-    const openai = new OpenAI({ apiKey });
-
-    const completion = await openai.chat.completions.create({
-        model: request.model || 'gpt-4o',
-        messages: request.messages as OpenAI.ChatCompletionMessageParam[],
-        temperature: 0,
-        response_format: request.response_format || { type: 'text' },
+/**
+ * Wrap a streaming provider call in an SSE response.
+ * Emits `{ delta }` events, then `{ done, usage }`, or `{ error, code }` on failure.
+ */
+function createStreamResponse(
+    provider: ServerProvider,
+    body: ChatRequest,
+    headers: Record<string, string>
+): Response {
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream({
+        async start(controller) {
+            const send = (payload: object) => {
+                controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+            };
+
+            try {
+                const usage = await provider.stream(body, (delta) => send({ delta }));
+                send({ done: true, usage });
+            } catch (error) {
+                console.error('Chat API stream error:', error);
+                const { code, errorMessage } = classifyError(error);
+                send({ error: errorMessage, code });
+            } finally {
+                controller.close();
+            }
+        },
     });
 
-    return {
-        content: completion.choices[0]?.message?.content || '',
-        usage: completion.usage
-            ? {
-                input: completion.usage.prompt_tokens,
-                output: completion.usage.completion_tokens,
-            }
-            : undefined,
-    };
+    return new Response(stream, {
+        status: 200,
+        headers: {
+            ...headers,
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+        },
+    });
 }
 
-async function callAnthropic(
-    request: ChatRequest
-): Promise<{ content: string; usage?: { input: number; output: number } }> {
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
-        throw new Error('ANTHROPIC_API_KEY not configured');
-    }
+// ------------------------------------------------------------
+// Error Classification
+// ------------------------------------------------------------
 
-    const anthropic = new Anthropic({ apiKey });
-
-    // Extract system message (Anthropic requires it as a top-level param)
-    const systemMessages = request.messages.filter((m) => m.role === 'system');
-    const nonSystemMessages = request.messages.filter((m) => m.role !== 'system');
-    const systemPrompt =
-        systemMessages.length > 0
-            ? systemMessages.map((m) => m.content).join('\n\n')
-            : undefined;
-
-    const response = await anthropic.messages.create({
-        model: request.model || 'claude-sonnet-4-20250514',
-        max_tokens: request.max_tokens || 4096,
-        system: systemPrompt,
-        messages: nonSystemMessages.map((m) => ({
-            role: m.role as 'user' | 'assistant',
-            content: m.content,
-        })),
-    });
+// Codes match LLMErrorCode in src/api/providers/errors.ts
+type ErrorCode = 'SERVER_MISCONFIGURED' | 'RATE_LIMITED' | 'QUOTA_EXCEEDED' | 'BAD_REQUEST' | 'UNKNOWN_PROVIDER' | 'PROVIDER_ERROR';
+
+function classifyError(error: unknown): { status: number; code: ErrorCode; errorMessage: string } {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    // Classify error for client
+    let status = 500;
+    let code: ErrorCode = 'PROVIDER_ERROR';
+    let errorMessage = 'AI service error. Please try again.';
+
+    if (message.includes('API_KEY') || message.includes('not configured')) {
+        status = 500;
+        code = 'SERVER_MISCONFIGURED';
+        errorMessage = message.includes('LOCAL_LLM_BASE_URL')
+            ? 'Server configuration error: local model server not set'
+            : 'Server configuration error: API key not set';
+    } else if (message.includes('rate') || message.includes('429')) {
+        status = 429;
+        code = 'RATE_LIMITED';
+        errorMessage = 'Rate limited. Please try again later.';
+    } else if (message.includes('quota') || message.includes('insufficient')) {
+        status = 402;
+        code = 'QUOTA_EXCEEDED';
+        errorMessage = 'API quota exceeded. Check your provider account.';
+    }
 
-    // Flatten content blocks
-    const content = response.content
-        .filter((block): block is Anthropic.TextBlock => block.type === 'text')
-        .map((block) => block.text)
-        .join('');
-
-    return {
-        content,
-        usage: response.usage
-            ? {
-                input: response.usage.input_tokens,
-                output: response.usage.output_tokens,
-            }
-            : undefined,
-    };
+    return { status, code, errorMessage };
 }
 
 // ------------------------------------------------------------
@@ -156,7 +142,7 @@ export default async function handler(req: Request): Promise<Response> {
     const ip = req.headers.get('x-forwarded-for') || 'unknown';
     if (!checkRateLimit(ip)) {
         return new Response(
-            JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
+            JSON.stringify({ error: 'Rate limit exceeded. Please try again later.', code: 'RATE_LIMITED' }),
             { status: 429, headers }
         );
     }
@@ -164,24 +150,32 @@ export default async function handler(req: Request): Promise<Response> {
     try {
         // Parse request body
         const body: ChatRequest = await req.json();
-        const { provider = 'openai', messages } = body;
+        const { provider: providerId = DEFAULT_SERVER_PROVIDER, messages } = body;
 
         if (!messages || !Array.isArray(messages)) {
             return new Response(
-                JSON.stringify({ error: 'Invalid request: messages array required' }),
+                JSON.stringify({ error: 'Invalid request: messages array required', code: 'BAD_REQUEST' }),
                 { status: 400, headers }
             );
         }
 
-        // Route to appropriate provider
-        let result: { content: string; usage?: { input: number; output: number } };
+        const provider = getServerProvider(providerId);
+        if (!provider) {
+            return new Response(
+                JSON.stringify({
+                    error: `Unknown provider "${providerId}". Available: ${listServerProviders().join(', ')}`,
+                    code: 'UNKNOWN_PROVIDER',
+                }),
+                { status: 400, headers }
+            );
+        }
 
-        if (provider === 'anthropic') {
-            result = await callAnthropic(body);
-        } else {
-            result = await callOpenAI(body);
+        if (body.stream) {
+            return createStreamResponse(provider, body, headers);
         }
 
+        const result = await provider.complete(body);
+
         return new Response(JSON.stringify({ content: result.content, usage: result.usage }), {
             status: 200,
             headers,
@@ -189,23 +183,8 @@ export default async function handler(req: Request): Promise<Response> {
     } catch (error) {
         console.error('Chat API error:', error);
 
-        const message = error instanceof Error ? error.message : 'Unknown error';
-
-        // Classify error for client
-        let status = 500;
-        let errorMessage = 'AI service error. Please try again.';
-
-        if (message.includes('API_KEY') || message.includes('not configured')) {
-            status = 500;
-            errorMessage = 'Server configuration error: API key not set';
-        } else if (message.includes('rate') || message.includes('429')) {
-            status = 429;
-            errorMessage = 'Rate limited. Please try again later.';
-        } else if (message.includes('quota') || message.includes('insufficient')) {
-            status = 402;
-            errorMessage = 'API quota exceeded. Check your provider account.';
-        }
+        const { status, code, errorMessage } = classifyError(error);
 
-        return new Response(JSON.stringify({ error: errorMessage }), { status, headers });
+        return new Response(JSON.stringify({ error: errorMessage, code }), { status, headers });
     }
 }
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { ChatPanel } from './components/ChatPanel';
 import { SpecPanel } from './components/SpecPanel';
 import { PreviewPanel } from './components/PreviewPanel';
@@ -35,10 +35,18 @@ function App() {
     const messages = useStore((s) => s.messages);
     const model = useStore((s) => s.model);
     const addMessage = useStore((s) => s.addMessage);
+    const addError = useStore((s) => s.addError);
+    const pushError = useStore((s) => s.pushError);
     const setLoading = useStore((s) => s.setLoading);
     const setBuildStatus = useStore((s) => s.setBuildStatus);
     const setBuildResult = useStore((s) => s.setBuildResult);
     const setActiveAgent = useStore((s) => s.setActiveAgent);
+    const initProjects = useStore((s) => s.initProjects);
+
+    // Load the project list from IndexedDB (migrating localStorage on first run)
+    useEffect(() => {
+        initProjects();
+    }, [initProjects]);
 
     // Handle message send from ChatPanel examples
     const handleSendMessage = useCallback((message: string) => {
@@ -75,6 +83,7 @@ function App() {
                     buildResult: null,
                     buildStatus: 'building',
                     conversationPhase: 'complete',
+                    conversationSummary: null,
                     activePanel: 'preview',
                     errors: [],
                     provider,
@@ -90,11 +99,15 @@ function App() {
                     addMessage('assistant', '✅ Build complete! Check the Preview panel to see your app.');
                     setExpandedPanel('preview');
                 }
+            } else if (result.action.type === 'display_error') {
+                // Nothing was built, e.g. the spec failed validation
+                setBuildStatus('error');
+                pushError(result.action.error);
             }
         } catch (error) {
             console.error('Build error:', error);
             setBuildStatus('error');
-            addMessage('assistant', `⚠️ Build failed: ${getProviderErrorMessage(error)}`);
+            addError('BUILD_FAILED', `Build failed: ${getProviderErrorMessage(error)}`);
         } finally {
             setLoading(false);
             setActiveAgent('idle');
@@ -2,8 +2,10 @@
 // Anthropic (Claude) Provider Adapter
 // ============================================================
 
-import { LLMRequest, LLMResponse, LLMMessage } from '../../types/llm';
+import { LLMRequest, LLMResponse, LLMMessage, ProviderDefinition } from '../../types/llm';
 import { logger, Components } from '../../utils/logger';
+import { readSSE } from './sse';
+import { createLLMError, classifyHttpError, errorFromResponse } from './errors';
 
 // Use local proxy in dev to bypass CORS, direct API in production
 const ANTHROPIC_API_ENDPOINT = import.meta.env.DEV
@@ -39,6 +41,8 @@ export async function callAnthropic(
         })),
         ...(systemPrompt && { system: systemPrompt }),
         ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.stream && { stream: true }),
+        ...toolChoice(request.responseFormat),
     };
 
     const response = await fetch(ANTHROPIC_API_ENDPOINT, {
@@ -50,13 +54,17 @@ export async function callAnthropic(
             'anthropic-dangerous-direct-browser-access': 'true',
         },
         body: JSON.stringify(body),
+        signal: request.signal,
     });
 
     if (!response.ok) {
-        const errorBody = await parseErrorBody(response);
-        const errorType = classifyAnthropicError(errorBody, response.status);
-        logger.error(Components.OPENAI, `Anthropic API error: ${response.status}`, errorBody);
-        throw new Error(errorType);
+        const error = await errorFromResponse('anthropic', response);
+        logger.error(Components.OPENAI, `Anthropic API error: ${response.status}`, { code: error.code, detail: error.detail });
+        throw error;
+    }
+
+    if (request.stream) {
+        return readAnthropicStream(response, request);
     }
 
     const data = await response.json();
@@ -81,6 +89,66 @@ export async function callAnthropic(
     };
 }
 
+/**
+ * Accumulate a streamed Messages response, forwarding each text delta.
+ * Input tokens arrive with `message_start`, output tokens with `message_delta`.
+ */
+async function readAnthropicStream(
+    response: Response,
+    request: LLMRequest
+): Promise<LLMResponse> {
+    let text = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let stopReason: string | undefined;
+
+    await readSSE(response, ({ data }) => {
+        const event = JSON.parse(data);
+
+        switch (event.type) {
+            case 'message_start':
+                inputTokens = event.message?.usage?.input_tokens ?? 0;
+                break;
+            case 'content_block_delta': {
+                // Tool input streams as JSON fragments, which read just like text
+                const delta: string | undefined = event.delta?.type === 'text_delta'
+                    ? event.delta.text
+                    : event.delta?.type === 'input_json_delta'
+                        ? event.delta.partial_json
+                        : undefined;
+                if (delta) {
+                    text += delta;
+                    request.onDelta?.(delta);
+                }
+                break;
+            }
+            case 'message_delta':
+                outputTokens = event.usage?.output_tokens ?? outputTokens;
+                stopReason = event.delta?.stop_reason ?? stopReason;
+                break;
+            case 'error': {
+                // Mid-stream failures carry no status, only the error type
+                const detail: string = event.error?.message || 'stream error';
+                throw createLLMError(classifyHttpError(undefined, detail, event.error?.type), {
+                    provider: 'anthropic',
+                    detail,
+                });
+            }
+        }
+    });
+
+    logger.info(Components.OPENAI, 'Anthropic streamed call successful', {
+        model: request.model,
+        responseLength: text.length,
+        stopReason,
+    });
+
+    return {
+        text,
+        usage: { inputTokens, outputTokens },
+    };
+}
+
 /**
  * Extract system prompt from messages
  * Anthropic requires system as a top-level parameter, not in messages
@@ -107,8 +175,12 @@ function extractSystemPrompt(messages: LLMMessage[]): {
 /**
  * Flatten Anthropic content blocks into a single string
  * Anthropic returns: [{ type: "text", text: "..." }, ...]
+ * A forced tool call returns its input instead, as JSON.
  */
-function flattenContent(content: Array<{ type: string; text?: string }>): string {
+function flattenContent(content: Array<{ type: string; text?: string; input?: unknown }>): string {
+    const toolUse = content.find((block) => block.type === 'tool_use');
+    if (toolUse) return JSON.stringify(toolUse.input);
+
     return content
         .filter((block) => block.type === 'text' && block.text)
         .map((block) => block.text)
@@ -116,45 +188,53 @@ function flattenContent(content: Array<{ type: string; text?: string }>): string
 }
 
 /**
- * Parse error body from response
+ * Claude has no JSON-schema response format; the schema becomes the
+ * input of a single tool the model is required to call.
  */
-async function parseErrorBody(response: Response): Promise<Record<string, unknown>> {
-    try {
-        const text = await response.text();
-        return JSON.parse(text);
-    } catch {
-        return {};
-    }
+export function toolChoice(format: LLMRequest['responseFormat']) {
+    if (format?.type !== 'json_schema') return {};
+    return {
+        tools: [{ name: format.name, description: format.description, input_schema: format.schema }],
+        tool_choice: { type: 'tool' as const, name: format.name },
+    };
 }
 
-/**
- * Classify Anthropic error into standard error types
- */
-function classifyAnthropicError(body: Record<string, unknown>, status: number): string {
-    const error = body?.error as Record<string, unknown> | undefined;
-    const errorType = (error?.type as string) || '';
-    const errorMessage = (error?.message as string) || '';
-
-    logger.error(Components.OPENAI, 'Anthropic error classification', {
-        status,
-        errorType,
-        errorMessage,
-    });
-
-    if (status === 401) {
-        return 'ANTHROPIC_KEY_INVALID';
-    }
-
-    if (status === 429) {
-        if (errorMessage.includes('quota') || errorType === 'insufficient_quota') {
-            return 'QUOTA_EXCEEDED';
-        }
-        return 'RATE_LIMITED';
-    }
-
-    if (status === 400) {
-        return `ANTHROPIC_BAD_REQUEST: ${errorMessage}`;
-    }
-
-    return `ANTHROPIC_ERROR: ${status} - ${errorMessage}`;
-}
+// ------------------------------------------------------------
+// Provider Definition
+// ------------------------------------------------------------
+
+export const anthropicProvider: ProviderDefinition = {
+    id: 'anthropic',
+    name: 'Anthropic',
+    family: 'Claude',
+    models: [
+        {
+            id: 'claude-sonnet-4-20250514',
+            name: 'Claude Sonnet 4 (Recommended)',
+            provider: 'anthropic',
+            pricing: { input: 3, output: 15 },
+        },
+        { id: 'claude-3-5-sonnet-20241022', name: 'Claude 3.5 Sonnet', provider: 'anthropic', pricing: { input: 3, output: 15 } },
+        { id: 'claude-3-opus-20240229', name: 'Claude 3 Opus', provider: 'anthropic', pricing: { input: 15, output: 75 } },
+    ],
+    defaultModel: 'claude-sonnet-4-20250514',
+    // Every Claude model listed here
+    defaultContextWindow: 200_000,
+    // Through a forced tool call
+    structuredOutput: true,
+    key: {
+        storageKey: 'mini-artifact-anthropic-key',
+        envKey: import.meta.env.VITE_ANTHROPIC_API_KEY,
+        required: true,
+        placeholder: 'sk-ant-...',
+        maskPrefix: 'sk-ant-...',
+        consoleUrl: 'https://console.anthropic.com/settings/keys',
+        steps: ['Sign in or create an account', 'Click "Create Key"', 'Copy the key and paste it above'],
+    },
+    // Anthropic has no simple validation endpoint, so only the format is checked
+    validateKey: (key) => (key.startsWith('sk-ant-') ? null : 'Anthropic API keys start with "sk-ant-"'),
+    call: (request, apiKey) => callAnthropic(request, apiKey || ''),
+    errorMessages: {
+        BAD_REQUEST: (error) => `Claude error: ${error.detail || 'bad request'}`,
+    },
+};
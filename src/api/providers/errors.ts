@@ -0,0 +1,222 @@
+// ============================================================
+// LLM Errors - Typed failures from providers, the proxy and the queue
+// ============================================================
+//
+// Every failure of an LLM call is an LLMError with a stable code, a
+// retryable flag and the provider it came from. Adapters classify HTTP
+// responses here; user-facing wording lives in getProviderErrorMessage()
+// and in each provider's `errorMessages` overrides.
+
+import { Provider } from '../../types/llm';
+
+export type LLMErrorCode =
+    // Configuration: the user has to change a setting
+    | 'KEY_MISSING'
+    | 'KEY_INVALID'
+    | 'MODEL_NOT_FOUND'
+    | 'UNKNOWN_PROVIDER'
+    | 'SERVER_MISCONFIGURED'
+    // Account limits
+    | 'RATE_LIMITED'
+    | 'QUOTA_EXCEEDED'
+    | 'BILLING_ERROR'
+    // The provider answered with an error
+    | 'BAD_REQUEST'
+    | 'PROVIDER_ERROR'
+    | 'INVALID_RESPONSE'
+    // The request never got an answer
+    | 'UNREACHABLE'
+    | 'PROXY_UNAVAILABLE'
+    | 'REQUEST_TIMEOUT'
+    | 'REQUEST_ABORTED';
+
+const LLM_ERROR_CODES: readonly LLMErrorCode[] = [
+    'KEY_MISSING',
+    'KEY_INVALID',
+    'MODEL_NOT_FOUND',
+    'UNKNOWN_PROVIDER',
+    'SERVER_MISCONFIGURED',
+    'RATE_LIMITED',
+    'QUOTA_EXCEEDED',
+    'BILLING_ERROR',
+    'BAD_REQUEST',
+    'PROVIDER_ERROR',
+    'INVALID_RESPONSE',
+    'UNREACHABLE',
+    'PROXY_UNAVAILABLE',
+    'REQUEST_TIMEOUT',
+    'REQUEST_ABORTED',
+];
+
+export interface LLMErrorOptions {
+    provider?: Provider;
+    status?: number; // HTTP status, when there was a response
+    detail?: string; // The provider's own error message
+}
+
+export class LLMError extends Error {
+    readonly code: LLMErrorCode;
+    readonly retryable: boolean;
+    readonly provider?: Provider;
+    readonly status?: number;
+    readonly detail?: string;
+
+    constructor(code: LLMErrorCode, retryable: boolean, options: LLMErrorOptions = {}) {
+        super(options.detail ? `${code}: ${options.detail}` : code);
+        this.name = 'LLMError';
+        this.code = code;
+        this.retryable = retryable;
+        this.provider = options.provider;
+        this.status = options.status;
+        this.detail = options.detail;
+    }
+}
+
+/** Missing or wrong settings: key, model, provider or server config. */
+export class ProviderConfigError extends LLMError {
+    constructor(
+        code: 'KEY_MISSING' | 'KEY_INVALID' | 'MODEL_NOT_FOUND' | 'UNKNOWN_PROVIDER' | 'SERVER_MISCONFIGURED',
+        options?: LLMErrorOptions
+    ) {
+        super(code, false, options);
+        this.name = 'ProviderConfigError';
+    }
+}
+
+export class RateLimitError extends LLMError {
+    constructor(options?: LLMErrorOptions) {
+        super('RATE_LIMITED', true, options);
+        this.name = 'RateLimitError';
+    }
+}
+
+export class QuotaError extends LLMError {
+    constructor(code: 'QUOTA_EXCEEDED' | 'BILLING_ERROR', options?: LLMErrorOptions) {
+        super(code, false, options);
+        this.name = 'QuotaError';
+    }
+}
+
+/** An error response from the provider. Server-side failures are retried. */
+export class ProviderResponseError extends LLMError {
+    constructor(code: 'BAD_REQUEST' | 'PROVIDER_ERROR', options: LLMErrorOptions = {}) {
+        const serverSide = code === 'PROVIDER_ERROR' && (options.status === undefined || options.status >= 500);
+        super(code, serverSide, options);
+        this.name = 'ProviderResponseError';
+    }
+}
+
+/** The model answered, but not in the format that was asked for. */
+export class InvalidResponseError extends LLMError {
+    constructor(options?: LLMErrorOptions) {
+        super('INVALID_RESPONSE', true, options);
+        this.name = 'InvalidResponseError';
+    }
+}
+
+/** No response at all: the server or the proxy could not be reached. */
+export class NetworkError extends LLMError {
+    constructor(code: 'UNREACHABLE' | 'PROXY_UNAVAILABLE', options?: LLMErrorOptions) {
+        super(code, true, options);
+        this.name = 'NetworkError';
+    }
+}
+
+export class RequestTimeoutError extends LLMError {
+    constructor(options?: LLMErrorOptions) {
+        super('REQUEST_TIMEOUT', true, options);
+        this.name = 'RequestTimeoutError';
+    }
+}
+
+/** Stopped by the user, or cancelled with its project. */
+export class RequestAbortedError extends LLMError {
+    constructor(options?: LLMErrorOptions) {
+        super('REQUEST_ABORTED', false, options);
+        this.name = 'RequestAbortedError';
+    }
+}
+
+// ------------------------------------------------------------
+// Construction and Classification
+// ------------------------------------------------------------
+
+export function isLLMError(error: unknown, code?: LLMErrorCode): error is LLMError {
+    return error instanceof LLMError && (code === undefined || error.code === code);
+}
+
+export function isLLMErrorCode(code: unknown): code is LLMErrorCode {
+    return LLM_ERROR_CODES.includes(code as LLMErrorCode);
+}
+
+/**
+ * Create the error class that matches a code, e.g. one sent by the proxy.
+ */
+export function createLLMError(code: LLMErrorCode, options?: LLMErrorOptions): LLMError {
+    switch (code) {
+        case 'KEY_MISSING':
+        case 'KEY_INVALID':
+        case 'MODEL_NOT_FOUND':
+        case 'UNKNOWN_PROVIDER':
+        case 'SERVER_MISCONFIGURED':
+            return new ProviderConfigError(code, options);
+        case 'RATE_LIMITED':
+            return new RateLimitError(options);
+        case 'QUOTA_EXCEEDED':
+        case 'BILLING_ERROR':
+            return new QuotaError(code, options);
+        case 'BAD_REQUEST':
+        case 'PROVIDER_ERROR':
+            return new ProviderResponseError(code, options);
+        case 'INVALID_RESPONSE':
+            return new InvalidResponseError(options);
+        case 'UNREACHABLE':
+        case 'PROXY_UNAVAILABLE':
+            return new NetworkError(code, options);
+        case 'REQUEST_TIMEOUT':
+            return new RequestTimeoutError(options);
+        case 'REQUEST_ABORTED':
+            return new RequestAbortedError(options);
+    }
+}
+
+/**
+ * Classify an HTTP error from a provider API. `type` is the error type
+ * or code from the body (e.g. OpenAI's "insufficient_quota").
+ */
+export function classifyHttpError(status: number | undefined, detail = '', type = ''): LLMErrorCode {
+    if (status === 401 || status === 403 || type === 'authentication_error') return 'KEY_INVALID';
+    if (/billing/i.test(type)) return 'BILLING_ERROR';
+    if (status === 402 || type === 'insufficient_quota' || (status === 429 && /quota/i.test(detail))) {
+        return 'QUOTA_EXCEEDED';
+    }
+    if (status === 429 || type === 'rate_limit_error') return 'RATE_LIMITED';
+    if (status === 404 || type === 'not_found_error') return 'MODEL_NOT_FOUND';
+    if (status === 400 || status === 422 || type === 'invalid_request_error') return 'BAD_REQUEST';
+    return 'PROVIDER_ERROR';
+}
+
+/**
+ * Read an error response body and turn it into an LLMError. Understands
+ * OpenAI/Anthropic-style `{ error: { type, message } }` bodies and the
+ * proxy's `{ error, code }`.
+ */
+export async function errorFromResponse(provider: Provider, response: Response): Promise<LLMError> {
+    const text = await response.text().catch(() => '');
+    let detail = text;
+    let type = '';
+    let code: unknown;
+
+    try {
+        const body = JSON.parse(text);
+        const error = body?.error;
+        detail = typeof error === 'string' ? error : error?.message || text;
+        type = error?.type || error?.code || '';
+        code = body?.code;
+    } catch {
+        // Not JSON; keep the raw text
+    }
+
+    const options = { provider, status: response.status, detail: detail || undefined };
+    return createLLMError(isLLMErrorCode(code) ? code : classifyHttpError(response.status, detail, type), options);
+}
@@ -3,56 +3,79 @@
 // ============================================================
 
 import { LLMRequest, LLMResponse, Provider } from '../../types/llm';
-import { callOpenAI } from './openai';
-import { callAnthropic } from './anthropic';
+import { getProvider, supportsStructuredOutput } from './registry';
 import { logger, Components } from '../../utils/logger';
+import { readSSE } from './sse';
+import { enqueueRequest } from './queue';
+import { LLMError, NetworkError, ProviderConfigError, createLLMError, isLLMError, isLLMErrorCode, errorFromResponse } from './errors';
+
+export {
+    listProviders,
+    getProvider,
+    getProviderModels,
+    getDefaultModel,
+    getModelPricing,
+    supportsStructuredOutput,
+    getContextWindow,
+    DEFAULT_PROVIDER,
+} from './registry';
+export { cancelRequests, getQueueState, subscribeQueue, DEFAULT_TIMEOUT_MS } from './queue';
+export type { QueueEntry, QueueState } from './queue';
+export {
+    LLMError,
+    ProviderConfigError,
+    RateLimitError,
+    QuotaError,
+    ProviderResponseError,
+    InvalidResponseError,
+    NetworkError,
+    RequestTimeoutError,
+    RequestAbortedError,
+    createLLMError,
+    isLLMError,
+} from './errors';
+export type { LLMErrorCode, LLMErrorOptions } from './errors';
 
 // Retry configuration
 const MAX_RETRIES = 3;
 const INITIAL_DELAY_MS = 1000;
 
-// Concurrency guard
-let requestInFlight = false;
-
 // ------------------------------------------------------------
 // API Key Management (per provider)
 // ------------------------------------------------------------
 
 export function getApiKey(provider: Provider): string | null {
-    const storageKey = provider === 'openai'
-        ? 'mini-artifact-openai-key'
-        : 'mini-artifact-anthropic-key';
+    const key = getProvider(provider)?.key;
+    if (!key) return null;
 
     // 1. Check localStorage (runtime-configured)
-    const storedKey = localStorage.getItem(storageKey);
+    const storedKey = localStorage.getItem(key.storageKey);
     if (storedKey) return storedKey;
 
     // 2. Check environment variable (dev mode)
-    const envKey = provider === 'openai'
-        ? import.meta.env.VITE_OPENAI_API_KEY
-        : import.meta.env.VITE_ANTHROPIC_API_KEY;
-
-    if (envKey && envKey !== 'your-api-key-here') return envKey;
+    if (key.envKey && key.envKey !== 'your-api-key-here') return key.envKey;
 
     return null;
 }
 
+/**
+ * Whether the provider is ready to use. Providers without a required
+ * key (e.g. local servers) decide this themselves.
+ */
 export function hasApiKey(provider: Provider): boolean {
+    const definition = getProvider(provider);
+    if (definition?.isConfigured) return definition.isConfigured();
     return getApiKey(provider) !== null;
 }
 
 export function setApiKey(provider: Provider, key: string): void {
-    const storageKey = provider === 'openai'
-        ? 'mini-artifact-openai-key'
-        : 'mini-artifact-anthropic-key';
-    localStorage.setItem(storageKey, key);
+    const storageKey = getProvider(provider)?.key.storageKey;
+    if (storageKey) localStorage.setItem(storageKey, key);
 }
 
 export function clearApiKey(provider: Provider): void {
-    const storageKey = provider === 'openai'
-        ? 'mini-artifact-openai-key'
-        : 'mini-artifact-anthropic-key';
-    localStorage.removeItem(storageKey);
+    const storageKey = getProvider(provider)?.key.storageKey;
+    if (storageKey) localStorage.removeItem(storageKey);
 }
 
 // Backward compatibility - get OpenAI key from old storage location
@@ -74,38 +97,46 @@ const API_ENDPOINT = '/api/chat';
 /**
  * Call any LLM provider with unified interface
  * Tries proxy first (for production), falls back to direct API (for local dev)
+ *
+ * Calls go through the request queue: one at a time per `queueKey`,
+ * cancellable via `signal` or cancelRequests(), and bounded by `timeoutMs`.
  */
-export async function callLLM(request: LLMRequest): Promise<LLMResponse> {
-    // Concurrency guard
-    if (requestInFlight) {
-        logger.warn(Components.OPENAI, 'Request blocked - another request in flight');
-        throw new Error('REQUEST_IN_FLIGHT');
+export function callLLM(request: LLMRequest): Promise<LLMResponse> {
+    return enqueueRequest(request, sendRequest);
+}
+
+async function sendRequest(request: LLMRequest): Promise<LLMResponse> {
+    const structured = request.responseFormat?.type === 'json_schema';
+    if (structured && !supportsStructuredOutput(request.provider, request.model)) {
+        logger.debug(Components.OPENAI, `${request.model} has no structured output, using JSON mode`);
+        return sendRequest({ ...request, responseFormat: { type: 'json_object' } });
     }
 
-    requestInFlight = true;
+    const response = await routeRequest(request);
+    return structured ? { ...response, structured: true } : response;
+}
 
+async function routeRequest(request: LLMRequest): Promise<LLMResponse> {
     try {
         logger.info(Components.OPENAI, `Calling ${request.provider}`, {
             model: request.model,
             messageCount: request.messages.length,
+            stream: !!request.stream,
         });
 
+        if (getProvider(request.provider)?.direct) {
+            return await callWithRetry(request);
+        }
+
         // Try proxy first (for production)
         return await callViaProxy(request);
     } catch (proxyError) {
-        // If proxy fails with 404 or network error, try direct API
-        if (
-            proxyError instanceof Error &&
-            (proxyError.message.includes('404') ||
-                proxyError.message.includes('fetch') ||
-                proxyError.message.includes('Failed to fetch'))
-        ) {
+        // No proxy deployed (e.g. local dev): call the provider directly
+        if (isLLMError(proxyError, 'PROXY_UNAVAILABLE') && !request.signal?.aborted) {
             logger.debug(Components.OPENAI, 'Proxy unavailable, falling back to direct API');
             return await callWithRetry(request);
         }
         throw proxyError;
-    } finally {
-        requestInFlight = false;
     }
 }
 
@@ -113,35 +144,37 @@ export async function callLLM(request: LLMRequest): Promise<LLMResponse> {
  * Call via Edge Function proxy
  */
 async function callViaProxy(request: LLMRequest): Promise<LLMResponse> {
-    const response = await fetch(API_ENDPOINT, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-            provider: request.provider,
-            model: request.model,
-            messages: request.messages,
-            response_format: request.responseFormat,
-            max_tokens: request.maxTokens,
-        }),
-    });
+    let response: Response;
+    try {
+        response = await fetch(API_ENDPOINT, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                provider: request.provider,
+                model: request.model,
+                messages: request.messages,
+                response_format: toWireResponseFormat(request.responseFormat),
+                max_tokens: request.maxTokens,
+                stream: request.stream,
+            }),
+            signal: request.signal,
+        });
+    } catch (error) {
+        if (request.signal?.aborted) throw error;
+        throw new NetworkError('PROXY_UNAVAILABLE', { provider: request.provider });
+    }
 
+    if (response.status === 404) {
+        throw new NetworkError('PROXY_UNAVAILABLE', { provider: request.provider, status: 404 });
+    }
     if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        const errorMessage = (errorData as { error?: string }).error || `Proxy error: ${response.status}`;
-
-        if (response.status === 404) {
-            throw new Error('404: Proxy not available');
-        }
-        if (response.status === 429) {
-            throw new Error('RATE_LIMITED');
-        }
-        if (response.status === 402) {
-            throw new Error('QUOTA_EXCEEDED');
-        }
+        throw await errorFromResponse(request.provider, response);
+    }
 
-        throw new Error(errorMessage);
+    if (request.stream) {
+        return readProxyStream(response, request);
     }
 
     const data = await response.json();
@@ -156,35 +189,84 @@ async function callViaProxy(request: LLMRequest): Promise<LLMResponse> {
     };
 }
 
+/**
+ * The proxy takes OpenAI's response_format shape and adapts it per provider.
+ */
+function toWireResponseFormat(format: LLMRequest['responseFormat']) {
+    if (format?.type !== 'json_schema') return format;
+    return {
+        type: 'json_schema',
+        json_schema: { name: format.name, description: format.description, schema: format.schema },
+    };
+}
+
+/**
+ * Read the proxy's SSE stream: `{ delta }` events followed by a
+ * final `{ done, usage }` event, or an `{ error }` event on failure.
+ */
+async function readProxyStream(response: Response, request: LLMRequest): Promise<LLMResponse> {
+    let text = '';
+    let usage: LLMResponse['usage'];
+
+    await readSSE(response, ({ data }) => {
+        const event = JSON.parse(data) as {
+            delta?: string;
+            done?: boolean;
+            usage?: { input: number; output: number };
+            error?: string;
+            code?: string;
+        };
+
+        if (event.error) {
+            throw createLLMError(isLLMErrorCode(event.code) ? event.code : 'PROVIDER_ERROR', {
+                provider: request.provider,
+                detail: event.error,
+            });
+        }
+        if (event.delta) {
+            text += event.delta;
+            request.onDelta?.(event.delta);
+        }
+        if (event.done && event.usage) {
+            usage = {
+                inputTokens: event.usage.input,
+                outputTokens: event.usage.output,
+            };
+        }
+    });
+
+    return { text, usage };
+}
+
 /**
  * Call with exponential backoff retry
  */
 async function callWithRetry(request: LLMRequest, attempt = 0): Promise<LLMResponse> {
+    const provider = getProvider(request.provider);
+    if (!provider) {
+        throw new ProviderConfigError('UNKNOWN_PROVIDER', { provider: request.provider });
+    }
+
     const apiKey = getApiKey(request.provider);
 
-    if (!apiKey) {
+    if (!apiKey && provider.key.required) {
         logger.error(Components.OPENAI, `${request.provider} API key missing`);
-        throw new Error(`${request.provider.toUpperCase()}_KEY_MISSING`);
+        throw new ProviderConfigError('KEY_MISSING', { provider: request.provider });
     }
 
     try {
-        // Route to appropriate provider
-        if (request.provider === 'openai') {
-            return await callOpenAI(request, apiKey);
-        } else if (request.provider === 'anthropic') {
-            return await callAnthropic(request, apiKey);
-        } else {
-            throw new Error(`Unknown provider: ${request.provider}`);
-        }
+        const onDelta = request.onDelta;
+        return await provider.call(onDelta ? { ...request, onDelta: (delta) => onDelta(delta, attempt) } : request, apiKey);
     } catch (error) {
-        // Handle retryable errors
-        if (error instanceof Error && error.message === 'RATE_LIMITED' && attempt < MAX_RETRIES) {
+        // Rate limits, server errors and dropped connections may pass on a later attempt
+        if (isLLMError(error) && error.retryable && attempt < MAX_RETRIES && !request.signal?.aborted) {
             const delay = INITIAL_DELAY_MS * Math.pow(2, attempt);
-            logger.warn(Components.OPENAI, `Rate limited, retrying in ${delay}ms`, {
+            logger.warn(Components.OPENAI, `${error.code}, retrying in ${delay}ms`, {
                 attempt: attempt + 1,
                 maxRetries: MAX_RETRIES,
             });
             await sleep(delay);
+            if (request.signal?.aborted) throw error;
             return callWithRetry(request, attempt + 1);
         }
         throw error;
@@ -199,29 +281,54 @@ function sleep(ms: number): Promise<void> {
 // Error Message Helper
 // ------------------------------------------------------------
 
+/**
+ * User-facing text for an error. LLM errors use the provider's own
+ * wording when it declares one for the code, else the generic message.
+ */
 export function getProviderErrorMessage(error: unknown): string {
+    if (error instanceof LLMError) {
+        const provider = error.provider ? getProvider(error.provider) : undefined;
+        const message = provider?.errorMessages?.[error.code];
+        if (message) return typeof message === 'function' ? message(error) : message;
+        return getDefaultErrorMessage(error, provider?.name);
+    }
     if (error instanceof Error) {
-        switch (error.message) {
-            case 'OPENAI_KEY_MISSING':
-                return 'Please configure your OpenAI API key in Settings (⚙️)';
-            case 'ANTHROPIC_KEY_MISSING':
-                return 'Please configure your Anthropic API key in Settings (⚙️)';
-            case 'OPENAI_KEY_INVALID':
-                return 'Your OpenAI API key is invalid. Please check it in Settings (⚙️)';
-            case 'ANTHROPIC_KEY_INVALID':
-                return 'Your Anthropic API key is invalid. Please check it in Settings (⚙️)';
-            case 'RATE_LIMITED':
-                return 'Rate limited. Please wait 30 seconds and try again.';
-            case 'QUOTA_EXCEEDED':
-                return 'Your API quota is exceeded. Check your provider account.';
-            case 'REQUEST_IN_FLIGHT':
-                return 'A request is already in progress. Please wait for it to complete.';
-            default:
-                if (error.message.startsWith('ANTHROPIC_BAD_REQUEST:')) {
-                    return error.message.replace('ANTHROPIC_BAD_REQUEST:', 'Claude error:');
-                }
-                return error.message;
-        }
+        return error.message;
     }
     return 'An unexpected error occurred';
 }
+
+function getDefaultErrorMessage(error: LLMError, name = 'LLM'): string {
+    switch (error.code) {
+        case 'KEY_MISSING':
+            return `Please configure your ${name} API key in Settings (⚙️)`;
+        case 'KEY_INVALID':
+            return `Your ${name} API key is invalid. Please check it in Settings (⚙️)`;
+        case 'MODEL_NOT_FOUND':
+            return `${name} does not offer this model. Pick another one in Settings (⚙️)`;
+        case 'UNKNOWN_PROVIDER':
+            return `Unknown provider "${error.provider}". Pick one in Settings (⚙️)`;
+        case 'SERVER_MISCONFIGURED':
+            return `The server is not set up for ${name}. ${error.detail || ''}`.trim();
+        case 'RATE_LIMITED':
+            return 'Rate limited. Please wait 30 seconds and try again.';
+        case 'QUOTA_EXCEEDED':
+            return `Your ${name} quota is exceeded. Check your usage and billing with ${name}.`;
+        case 'BILLING_ERROR':
+            return `Your ${name} account has a billing issue. Please add a payment method with ${name}.`;
+        case 'BAD_REQUEST':
+            return `${name} rejected the request: ${error.detail || 'bad request'}`;
+        case 'PROVIDER_ERROR':
+            return `${name} returned an error${error.status ? ` (${error.status})` : ''}. ${error.detail || 'Please try again.'}`;
+        case 'INVALID_RESPONSE':
+            return "The model's reply could not be read, even after asking it to fix it. Please try again or rephrase your message.";
+        case 'UNREACHABLE':
+            return `Could not reach ${name}. Check your connection and try again.`;
+        case 'PROXY_UNAVAILABLE':
+            return 'The API proxy is not available. Please try again later.';
+        case 'REQUEST_TIMEOUT':
+            return 'The model took too long to respond. Please try again, or pick a faster model in Settings (⚙️).';
+        case 'REQUEST_ABORTED':
+            return 'Request stopped.';
+    }
+}
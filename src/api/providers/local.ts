@@ -0,0 +1,250 @@
+// ============================================================
+// Local Provider Adapter - Any OpenAI-compatible server
+// (Ollama, llama.cpp server, LM Studio, vLLM, ...)
+// ============================================================
+
+import { LLMRequest, LLMResponse, LLMMessage, ModelInfo, ProviderDefinition } from '../../types/llm';
+import { logger, Components } from '../../utils/logger';
+import { readOpenAIStream } from './openai';
+import { NetworkError, errorFromResponse } from './errors';
+
+const BASE_URL_STORAGE_KEY = 'mini-artifact-local-base-url';
+
+// Ollama's OpenAI-compatible endpoint
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+// Appended when a server rejects response_format, so the model still answers in JSON
+const JSON_MODE_INSTRUCTION =
+    'Respond with a single valid JSON object only. Do not wrap it in markdown or add any other text.';
+
+// Base URL + model pairs known to reject response_format
+const noJsonMode = new Set<string>();
+
+// ------------------------------------------------------------
+// Endpoint Configuration
+// ------------------------------------------------------------
+
+export function getLocalBaseUrl(): string {
+    return localStorage.getItem(BASE_URL_STORAGE_KEY) || DEFAULT_LOCAL_BASE_URL;
+}
+
+export function setLocalBaseUrl(url: string): void {
+    localStorage.setItem(BASE_URL_STORAGE_KEY, normalizeBaseUrl(url));
+}
+
+export function hasLocalBaseUrl(): boolean {
+    return localStorage.getItem(BASE_URL_STORAGE_KEY) !== null;
+}
+
+/**
+ * Accept "http://host:port", ".../v1" or ".../v1/" and return the /v1 root.
+ */
+export function normalizeBaseUrl(url: string): string {
+    const trimmed = url.trim().replace(/\/+$/, '');
+    return /\/v\d+$/.test(trimmed) ? trimmed : `${trimmed}/v1`;
+}
+
+// ------------------------------------------------------------
+// Model Discovery
+// ------------------------------------------------------------
+
+/**
+ * List the models served at `baseUrl` via GET /v1/models.
+ */
+export async function fetchLocalModels(
+    baseUrl: string = getLocalBaseUrl(),
+    apiKey?: string | null
+): Promise<ModelInfo[]> {
+    const url = `${normalizeBaseUrl(baseUrl)}/models`;
+    let response: Response;
+    try {
+        response = await fetch(url, { headers: authHeaders(apiKey) });
+    } catch {
+        throw new NetworkError('UNREACHABLE', { provider: 'local' });
+    }
+
+    if (!response.ok) {
+        throw await errorFromResponse('local', response);
+    }
+
+    const data = (await response.json()) as { data?: Array<{ id: string }> };
+    return (data.data || [])
+        .map((model) => ({ id: model.id, name: model.id, provider: 'local' as const }))
+        .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+// ------------------------------------------------------------
+// Chat Completions
+// ------------------------------------------------------------
+
+/**
+ * Call the configured OpenAI-compatible server directly from the browser.
+ *
+ * JSON mode is attempted first; servers or models that reject
+ * `response_format` are retried with a prompt instruction instead, and
+ * remembered so later calls skip the failing attempt.
+ */
+export async function callLocal(
+    request: LLMRequest,
+    apiKey: string | null
+): Promise<LLMResponse> {
+    const baseUrl = getLocalBaseUrl();
+    const jsonKey = `${baseUrl}|${request.model}`;
+    const wantsJson = request.responseFormat?.type === 'json_object';
+
+    logger.debug(Components.OPENAI, 'Preparing local request', {
+        model: request.model,
+        messageCount: request.messages.length,
+        baseUrl,
+    });
+
+    if (wantsJson && !noJsonMode.has(jsonKey)) {
+        const response = await postCompletion(baseUrl, apiKey, buildBody(request, true), request.signal);
+        if (response.ok) {
+            return readCompletion(response, request);
+        }
+        if (!isUnsupportedJsonMode(response.status)) {
+            return throwLocalError(response);
+        }
+
+        logger.warn(Components.OPENAI, 'Local model rejected response_format, retrying with a JSON instruction', {
+            model: request.model,
+            status: response.status,
+        });
+        noJsonMode.add(jsonKey);
+    }
+
+    const messages = wantsJson ? withJsonInstruction(request.messages) : request.messages;
+    const response = await postCompletion(baseUrl, apiKey, buildBody({ ...request, messages }, false), request.signal);
+    if (!response.ok) {
+        return throwLocalError(response);
+    }
+    return readCompletion(response, request);
+}
+
+function buildBody(request: LLMRequest, jsonMode: boolean) {
+    return {
+        model: request.model,
+        messages: request.messages.map((m) => ({
+            role: m.role,
+            content: m.content,
+        })),
+        temperature: request.temperature ?? 0,
+        ...(request.maxTokens && { max_tokens: request.maxTokens }),
+        ...(jsonMode && { response_format: { type: 'json_object' } }),
+        ...(request.stream && { stream: true, stream_options: { include_usage: true } }),
+    };
+}
+
+async function postCompletion(
+    baseUrl: string,
+    apiKey: string | null,
+    body: object,
+    signal?: AbortSignal
+): Promise<Response> {
+    try {
+        return await fetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders(apiKey) },
+            body: JSON.stringify(body),
+            signal,
+        });
+    } catch {
+        // Connection refused, or blocked by CORS
+        logger.error(Components.OPENAI, `Local server unreachable at ${baseUrl}`);
+        throw new NetworkError('UNREACHABLE', { provider: 'local' });
+    }
+}
+
+async function readCompletion(response: Response, request: LLMRequest): Promise<LLMResponse> {
+    if (request.stream) {
+        return readOpenAIStream(response, request);
+    }
+
+    const data = await response.json();
+    const text = data.choices?.[0]?.message?.content || '';
+
+    logger.info(Components.OPENAI, 'Local call successful', {
+        model: request.model,
+        responseLength: text.length,
+    });
+
+    return {
+        text,
+        usage: data.usage
+            ? {
+                inputTokens: data.usage.prompt_tokens,
+                outputTokens: data.usage.completion_tokens,
+            }
+            : undefined,
+    };
+}
+
+async function throwLocalError(response: Response): Promise<never> {
+    const error = await errorFromResponse('local', response);
+    logger.error(Components.OPENAI, `Local server error: ${response.status}`, { code: error.code, detail: error.detail });
+    throw error;
+}
+
+// ------------------------------------------------------------
+// Helpers
+// ------------------------------------------------------------
+
+// llama.cpp and older servers answer 400/422 (some 500) to unknown fields
+function isUnsupportedJsonMode(status: number): boolean {
+    return status === 400 || status === 422 || status === 500;
+}
+
+/**
+ * Add the JSON instruction to the system prompt (or as one, if absent).
+ */
+export function withJsonInstruction(messages: LLMMessage[]): LLMMessage[] {
+    const index = messages.findIndex((m) => m.role === 'system');
+    if (index < 0) {
+        return [{ role: 'system', content: JSON_MODE_INSTRUCTION }, ...messages];
+    }
+    return messages.map((m, i) =>
+        i === index ? { ...m, content: `${m.content}\n\n${JSON_MODE_INSTRUCTION}` } : m
+    );
+}
+
+function authHeaders(apiKey?: string | null): Record<string, string> {
+    // Most local servers need no key; LM Studio and vLLM accept one if configured
+    return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+}
+
+// ------------------------------------------------------------
+// Provider Definition
+// ------------------------------------------------------------
+
+export const localProvider: ProviderDefinition = {
+    id: 'local',
+    name: 'Local',
+    family: 'your local model',
+    // Replaced by the server's /v1/models list once it has been fetched
+    models: [{ id: 'llama3.1', name: 'llama3.1', provider: 'local' }],
+    defaultModel: 'llama3.1',
+    // Runs on your own hardware
+    defaultPricing: { input: 0, output: 0 },
+    // Depends on the server's settings; a conservative guess
+    defaultContextWindow: 8_192,
+    key: {
+        storageKey: 'mini-artifact-local-key',
+        required: false,
+        placeholder: 'Leave empty if the server needs none',
+        maskPrefix: '...',
+        note: `Runs against ${DEFAULT_LOCAL_BASE_URL} by default; change the server URL in Settings (⚙️).`,
+    },
+    // Servers reachable from this machine only; the hosted proxy can't see them
+    direct: true,
+    isConfigured: hasLocalBaseUrl,
+    activate: () => setLocalBaseUrl(getLocalBaseUrl()),
+    validateKey: () => null,
+    call: callLocal,
+    errorMessages: {
+        UNREACHABLE: () =>
+            `Could not reach the local model server at ${getLocalBaseUrl()}. Is it running, and does it allow requests from this page (CORS)?`,
+        KEY_INVALID: 'The local model server rejected the API key. Check it in Settings (⚙️)',
+        MODEL_NOT_FOUND: 'The local server does not have this model. Refresh the model list in Settings (⚙️)',
+    },
+};
@@ -2,8 +2,10 @@
 // OpenAI Provider Adapter
 // ============================================================
 
-import { LLMRequest, LLMResponse, LLMMessage } from '../../types/llm';
+import { LLMRequest, LLMResponse, LLMMessage, ProviderDefinition } from '../../types/llm';
 import { logger, Components } from '../../utils/logger';
+import { readSSE } from './sse';
+import { errorFromResponse } from './errors';
 
 // Use local proxy in dev to bypass CORS, direct API in production
 const OPENAI_API_ENDPOINT = import.meta.env.DEV
@@ -34,7 +36,8 @@ export async function callOpenAI(
         })),
         temperature: request.temperature ?? 0,
         ...(request.maxTokens && { max_tokens: request.maxTokens }),
-        ...(request.responseFormat && { response_format: request.responseFormat }),
+        ...(request.responseFormat && { response_format: toOpenAIResponseFormat(request.responseFormat) }),
+        ...(request.stream && { stream: true, stream_options: { include_usage: true } }),
     };
 
     const response = await fetch(OPENAI_API_ENDPOINT, {
@@ -44,19 +47,17 @@ export async function callOpenAI(
             Authorization: `Bearer ${apiKey}`,
         },
         body: JSON.stringify(body),
+        signal: request.signal,
     });
 
     if (!response.ok) {
-        const errorText = await response.text();
-        logger.error(Components.OPENAI, `API error: ${response.status}`, { errorText });
+        const error = await errorFromResponse('openai', response);
+        logger.error(Components.OPENAI, `API error: ${response.status}`, { code: error.code, detail: error.detail });
+        throw error;
+    }
 
-        if (response.status === 401) {
-            throw new Error('OPENAI_KEY_INVALID');
-        }
-        if (response.status === 429) {
-            throw new Error('OPENAI_RATE_LIMITED');
-        }
-        throw new Error(`OpenAI API Error: ${response.status} - ${errorText}`);
+    if (request.stream) {
+        return readOpenAIStream(response, request);
     }
 
     const data = await response.json();
@@ -78,6 +79,58 @@ export async function callOpenAI(
     };
 }
 
+/**
+ * Accumulate a streamed chat completion, forwarding each content delta.
+ * Usage arrives in the final chunk when `include_usage` is requested.
+ */
+export async function readOpenAIStream(
+    response: Response,
+    request: LLMRequest
+): Promise<LLMResponse> {
+    let text = '';
+    let usage: LLMResponse['usage'];
+
+    await readSSE(response, ({ data }) => {
+        if (data === '[DONE]') return;
+
+        const chunk = JSON.parse(data);
+        const delta: string = chunk.choices?.[0]?.delta?.content || '';
+        if (delta) {
+            text += delta;
+            request.onDelta?.(delta);
+        }
+        if (chunk.usage) {
+            usage = {
+                inputTokens: chunk.usage.prompt_tokens,
+                outputTokens: chunk.usage.completion_tokens,
+            };
+        }
+    });
+
+    logger.info(Components.OPENAI, 'Streamed API call successful', {
+        model: request.model,
+        responseLength: text.length,
+    });
+
+    return { text, usage };
+}
+
+/**
+ * OpenAI's response_format; json_schema formats are enforced strictly.
+ */
+export function toOpenAIResponseFormat(format: NonNullable<LLMRequest['responseFormat']>) {
+    if (format.type !== 'json_schema') return format;
+    return {
+        type: 'json_schema' as const,
+        json_schema: {
+            name: format.name,
+            description: format.description,
+            schema: format.schema,
+            strict: true,
+        },
+    };
+}
+
 /**
  * Convert unified messages to OpenAI format
  * (OpenAI supports system messages directly in the messages array)
@@ -90,3 +143,48 @@ export function convertToOpenAIMessages(
         content: m.content,
     }));
 }
+
+// ------------------------------------------------------------
+// Provider Definition
+// ------------------------------------------------------------
+
+export const openaiProvider: ProviderDefinition = {
+    id: 'openai',
+    name: 'OpenAI',
+    family: 'GPT-4',
+    models: [
+        {
+            id: 'gpt-4o',
+            name: 'GPT-4o (Recommended)',
+            provider: 'openai',
+            pricing: { input: 2.5, output: 10 },
+            structuredOutput: true,
+            contextWindow: 128_000,
+        },
+        { id: 'gpt-4-turbo', name: 'GPT-4 Turbo', provider: 'openai', pricing: { input: 10, output: 30 }, contextWindow: 128_000 },
+        { id: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo', provider: 'openai', pricing: { input: 0.5, output: 1.5 }, contextWindow: 16_385 },
+    ],
+    defaultModel: 'gpt-4o',
+    key: {
+        storageKey: 'mini-artifact-openai-key',
+        envKey: import.meta.env.VITE_OPENAI_API_KEY,
+        required: true,
+        placeholder: 'sk-...',
+        maskPrefix: 'sk-...',
+        consoleUrl: 'https://platform.openai.com/api-keys',
+        steps: ['Sign in or create an account', 'Click "Create new secret key"', 'Copy the key and paste it above'],
+        note: 'New accounts get $5 free credits.',
+    },
+    validateKey: (key) => (key.startsWith('sk-') ? null : 'OpenAI API keys start with "sk-"'),
+    verifyKey: async (key) => {
+        try {
+            const response = await fetch('https://api.openai.com/v1/models', {
+                headers: { Authorization: `Bearer ${key}` },
+            });
+            return response.ok || response.status !== 401;
+        } catch {
+            return true; // Network error - accept anyway
+        }
+    },
+    call: (request, apiKey) => callOpenAI(request, apiKey || ''),
+};
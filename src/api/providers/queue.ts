@@ -0,0 +1,173 @@
+// ============================================================
+// Request Queue - Serializes LLM calls per project
+// ============================================================
+//
+// Calls for the same queue key (the project id) run one at a time in
+// the order they were made; calls for different keys run side by
+// side. An identical call that is still waiting is coalesced with the
+// earlier one, so a double-submit sends one request. Every call gets an
+// AbortController that fires on cancel, on the caller's own signal, or
+// when the timeout elapses.
+
+import { LLMRequest, LLMResponse, Provider } from '../../types/llm';
+import { logger, Components } from '../../utils/logger';
+import { LLMError, RequestAbortedError, RequestTimeoutError } from './errors';
+
+export const DEFAULT_TIMEOUT_MS = 120_000;
+
+const DEFAULT_QUEUE_KEY = 'default';
+
+export interface QueueEntry {
+    id: number;
+    key: string;
+    provider: Provider;
+    model: string;
+    queuedAt: number;
+    startedAt: number | null; // null while waiting
+}
+
+export interface QueueState {
+    running: QueueEntry[];
+    waiting: QueueEntry[];
+}
+
+interface Job {
+    entry: QueueEntry;
+    fingerprint: string;
+    controller: AbortController;
+    promise: Promise<LLMResponse>;
+}
+
+type Listener = (state: QueueState) => void;
+
+let nextId = 1;
+const jobs: Job[] = [];
+const tails = new Map<string, Promise<unknown>>(); // Last job per key
+const listeners = new Set<Listener>();
+let state: QueueState = { running: [], waiting: [] };
+
+/**
+ * Run `call` after earlier calls with the same key have settled.
+ *
+ * `call` receives the request with a signal that aborts on
+ * cancelRequests(), on `request.signal`, or after `request.timeoutMs`;
+ * the promise then rejects with a RequestAbortedError or RequestTimeoutError.
+ */
+export function enqueueRequest(
+    request: LLMRequest,
+    call: (request: LLMRequest) => Promise<LLMResponse>
+): Promise<LLMResponse> {
+    const key = request.queueKey || DEFAULT_QUEUE_KEY;
+    const fingerprint = JSON.stringify([key, request.provider, request.model, request.messages]);
+
+    // Coalesce a repeat of a call that hasn't started yet
+    const duplicate = jobs.find((job) => job.fingerprint === fingerprint && job.entry.startedAt === null);
+    if (duplicate) {
+        logger.debug(Components.OPENAI, 'Coalesced duplicate request', { key });
+        return duplicate.promise;
+    }
+
+    const controller = new AbortController();
+    const entry: QueueEntry = {
+        id: nextId++,
+        key,
+        provider: request.provider,
+        model: request.model,
+        queuedAt: Date.now(),
+        startedAt: null,
+    };
+
+    const run = async (): Promise<LLMResponse> => {
+        if (controller.signal.aborted) {
+            throw abortReason(controller);
+        }
+
+        entry.startedAt = Date.now();
+        publish();
+
+        const timeoutMs = request.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        const timer = setTimeout(
+            () => controller.abort(new RequestTimeoutError({ provider: request.provider })),
+            timeoutMs
+        );
+        try {
+            return await call({ ...request, signal: controller.signal });
+        } catch (error) {
+            // Report why the call was aborted rather than the fetch error
+            if (controller.signal.aborted) {
+                const reason = abortReason(controller);
+                logger.warn(Components.OPENAI, `Request ${entry.id} aborted`, { reason: reason.code });
+                throw reason;
+            }
+            throw error;
+        } finally {
+            clearTimeout(timer);
+        }
+    };
+
+    // Later calls wait for this one to actually finish, but a cancelled
+    // call rejects right away even while it is still waiting its turn
+    const previous = tails.get(key) || Promise.resolve();
+    const ran = previous.then(run, run);
+    const settled = ran.catch(() => undefined);
+    tails.set(key, settled);
+
+    const aborted = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener('abort', () => reject(abortReason(controller)));
+    });
+    const promise = Promise.race([ran, aborted]);
+
+    const onCallerAbort = () => controller.abort(new RequestAbortedError({ provider: request.provider }));
+    if (request.signal?.aborted) onCallerAbort();
+    request.signal?.addEventListener('abort', onCallerAbort);
+
+    const job: Job = { entry, fingerprint, controller, promise };
+    jobs.push(job);
+    publish();
+
+    settled.then(() => {
+        request.signal?.removeEventListener('abort', onCallerAbort);
+        jobs.splice(jobs.indexOf(job), 1);
+        if (tails.get(key) === settled) tails.delete(key);
+        publish();
+    });
+
+    return promise;
+}
+
+/**
+ * Abort running and waiting calls for a key, or all of them.
+ */
+export function cancelRequests(key?: string): void {
+    jobs
+        .filter((job) => key === undefined || job.entry.key === key)
+        .forEach((job) => job.controller.abort(new RequestAbortedError({ provider: job.entry.provider })));
+}
+
+export function getQueueState(): QueueState {
+    return state;
+}
+
+/**
+ * Listen for queue changes; returns an unsubscribe function.
+ */
+export function subscribeQueue(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+function abortReason(controller: AbortController): LLMError {
+    const reason = controller.signal.reason;
+    return reason instanceof LLMError ? reason : new RequestAbortedError();
+}
+
+function publish(): void {
+    // A new object per change so React's useSyncExternalStore re-renders
+    state = {
+        running: jobs.filter((job) => job.entry.startedAt !== null).map((job) => ({ ...job.entry })),
+        waiting: jobs.filter((job) => job.entry.startedAt === null).map((job) => ({ ...job.entry })),
+    };
+    listeners.forEach((listener) => listener(state));
+}
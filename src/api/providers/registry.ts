@@ -0,0 +1,63 @@
+// ============================================================
+// Provider Registry - Every LLM provider the client can use
+// ============================================================
+//
+// To add a provider, write an adapter module that exports a
+// ProviderDefinition and list it here. Settings, onboarding and
+// the call router enumerate this list; the edge proxy has its own
+// registry in api/_providers.
+
+import { ModelInfo, ModelPricing, Provider, ProviderDefinition } from '../../types/llm';
+import { openaiProvider } from './openai';
+import { anthropicProvider } from './anthropic';
+import { localProvider } from './local';
+
+// Display order in Settings and onboarding
+const PROVIDERS: ProviderDefinition[] = [openaiProvider, anthropicProvider, localProvider];
+
+// Assumed for models that declare no context window
+export const DEFAULT_CONTEXT_WINDOW = 8_192;
+
+export const DEFAULT_PROVIDER: Provider = openaiProvider.id;
+
+export function listProviders(): ProviderDefinition[] {
+    return PROVIDERS;
+}
+
+export function getProvider(id: Provider): ProviderDefinition | undefined {
+    return PROVIDERS.find((provider) => provider.id === id);
+}
+
+export function getProviderModels(id: Provider): ModelInfo[] {
+    return getProvider(id)?.models || [];
+}
+
+export function getDefaultModel(id: Provider): string {
+    return (getProvider(id) || openaiProvider).defaultModel;
+}
+
+/**
+ * Price of a model, or null when it is unknown (e.g. a custom model id).
+ */
+export function getModelPricing(id: Provider, model: string): ModelPricing | null {
+    const provider = getProvider(id);
+    return provider?.models.find((m) => m.id === model)?.pricing || provider?.defaultPricing || null;
+}
+
+/**
+ * Whether a model can be held to a JSON Schema (json_schema response format).
+ */
+export function supportsStructuredOutput(id: Provider, model: string): boolean {
+    const provider = getProvider(id);
+    return provider?.models.find((m) => m.id === model)?.structuredOutput ?? provider?.structuredOutput ?? false;
+}
+
+/**
+ * Input tokens a model accepts, or DEFAULT_CONTEXT_WINDOW when unknown.
+ */
+export function getContextWindow(id: Provider, model: string): number {
+    const provider = getProvider(id);
+    return provider?.models.find((m) => m.id === model)?.contextWindow
+        ?? provider?.defaultContextWindow
+        ?? DEFAULT_CONTEXT_WINDOW;
+}
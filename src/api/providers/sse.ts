@@ -0,0 +1,80 @@
+// ============================================================
+// Server-Sent Events Reader - Shared by streaming providers
+// ============================================================
+
+/**
+ * A single parsed SSE event
+ */
+export interface SSEEvent {
+    event: string | null;
+    data: string;
+}
+
+/**
+ * Read a `text/event-stream` response body and invoke `onEvent`
+ * for every complete event. Resolves when the stream ends.
+ */
+export async function readSSE(
+    response: Response,
+    onEvent: (event: SSEEvent) => void
+): Promise<void> {
+    if (!response.body) {
+        throw new Error('Streaming not supported: response has no body');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // Events are separated by a blank line
+        let boundary = findEventBoundary(buffer);
+        while (boundary !== -1) {
+            const rawEvent = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary).replace(/^(\r?\n){2}/, '');
+
+            const parsed = parseSSEEvent(rawEvent);
+            if (parsed) onEvent(parsed);
+
+            boundary = findEventBoundary(buffer);
+        }
+    }
+
+    // Flush a trailing event without a final blank line
+    buffer += decoder.decode();
+    const trailing = parseSSEEvent(buffer);
+    if (trailing) onEvent(trailing);
+}
+
+function findEventBoundary(buffer: string): number {
+    const lf = buffer.indexOf('\n\n');
+    const crlf = buffer.indexOf('\r\n\r\n');
+    if (lf === -1) return crlf;
+    if (crlf === -1) return lf;
+    return Math.min(lf, crlf);
+}
+
+/**
+ * Parse one raw SSE block into its event name and joined data lines.
+ */
+export function parseSSEEvent(raw: string): SSEEvent | null {
+    let event: string | null = null;
+    const dataLines: string[] = [];
+
+    for (const line of raw.split(/\r?\n/)) {
+        if (line.startsWith('event:')) {
+            event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+            dataLines.push(line.slice(5).replace(/^ /, ''));
+        }
+    }
+
+    if (dataLines.length === 0) return null;
+
+    return { event, data: dataLines.join('\n') };
+}
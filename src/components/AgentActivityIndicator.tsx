@@ -1,5 +1,6 @@
-import React from 'react';
+import React, { useSyncExternalStore } from 'react';
 import { useStore, selectActiveAgent, selectIsLoading, type ActiveAgent } from '../store';
+import { subscribeQueue, getQueueState } from '../api/providers';
 
 // ============================================================
 // AgentActivityIndicator - Shows which agent is currently working
@@ -36,9 +37,11 @@ const agents: AgentInfo[] = [
 export function AgentActivityIndicator() {
     const activeAgent = useStore(selectActiveAgent);
     const isLoading = useStore(selectIsLoading);
+    const queue = useSyncExternalStore(subscribeQueue, getQueueState);
+    const hasRequests = queue.running.length + queue.waiting.length > 0;
 
     // Only show when there's activity
-    if (!isLoading && activeAgent === 'idle') {
+    if (!isLoading && activeAgent === 'idle' && !hasRequests) {
         return (
             <div className="agent-indicator agent-indicator--idle">
                 <span className="agent-indicator-label">Agents Ready</span>
@@ -59,7 +62,17 @@ export function AgentActivityIndicator() {
 
     return (
         <div className="agent-indicator agent-indicator--active">
-            <span className="agent-indicator-label">Working</span>
+            <span
+                className="agent-indicator-label"
+                title={queue.running.length > 0 ? `Waiting for ${queue.running[0].model}` : undefined}
+            >
+                Working
+                {queue.waiting.length > 0 && (
+                    <span className="agent-indicator-queue" title="Requests waiting for the current one to finish">
+                        {' '}+{queue.waiting.length} queued
+                    </span>
+                )}
+            </span>
             <div className="agent-icons">
                 {agents.map((agent) => {
                     const isActive = agent.id === activeAgent;
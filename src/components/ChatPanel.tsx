@@ -1,5 +1,7 @@
-import React, { useEffect, useRef } from 'react';
-import { useStore, selectMessages } from '../store';
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useStore, selectMessages, selectStreamingDraft, selectProvider, selectModel } from '../store';
+import { formatCost, formatTokens } from '../utils/usage';
+import { getContextUsage } from '../engine/arnold/context';
 
 // ============================================================
 // Example Prompts for Getting Started
@@ -30,14 +32,27 @@ interface ChatPanelProps {
 
 export function ChatPanel({ onSendMessage }: ChatPanelProps) {
     const messages = useStore(selectMessages);
+    const streamingDraft = useStore(selectStreamingDraft);
+    const conversationSummary = useStore((s) => s.conversationSummary);
+    const provider = useStore(selectProvider);
+    const model = useStore(selectModel);
     const scrollRef = useRef<HTMLDivElement>(null);
 
+    // History the next message will carry, against the model's budget
+    const context = useMemo(
+        () => getContextUsage(messages, conversationSummary, provider, model),
+        [messages, conversationSummary, provider, model]
+    );
+
+    // Question text streamed so far (spec fragments show in SpecPanel)
+    const streamingQuestion = streamingDraft?.question;
+
     // Auto-scroll to bottom on new messages
     useEffect(() => {
         if (scrollRef.current) {
             scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
         }
-    }, [messages]);
+    }, [messages, streamingQuestion]);
 
     const handleExampleClick = (text: string) => {
         if (onSendMessage) {
@@ -92,13 +107,59 @@ export function ChatPanel({ onSendMessage }: ChatPanelProps) {
                                     <span className="message-time">
                                         {formatTime(message.timestamp)}
                                     </span>
+                                    {message.usage && (
+                                        <span
+                                            className="message-usage"
+                                            title={`${message.usage.inputTokens} in / ${message.usage.outputTokens} out · ${message.usage.model}`}
+                                        >
+                                            {formatTokens(message.usage.inputTokens + message.usage.outputTokens)} tokens
+                                            {message.usage.cost !== null && ` · ${formatCost(message.usage.cost)}`}
+                                        </span>
+                                    )}
                                 </div>
                                 <div className="message-text">{message.content}</div>
                             </div>
                         </div>
                     ))
                 )}
+                {streamingQuestion && (
+                    <div className="chat-message chat-message-assistant chat-message-streaming">
+                        <div className="message-avatar">
+                            <img src="/logo.png" style={{ width: '20px', borderRadius: '4px' }} alt="AI" />
+                        </div>
+                        <div className="message-content">
+                            <div className="message-header">
+                                <span className="message-role">Artifact</span>
+                                <span className="message-time">typing…</span>
+                            </div>
+                            <div className="message-text">{streamingQuestion}</div>
+                        </div>
+                    </div>
+                )}
             </div>
+            {messages.length > 0 && (
+                <div
+                    className="chat-context"
+                    title={context.ratio >= 1
+                        ? 'Older messages will be summarized when you send the next one'
+                        : 'Estimated tokens of conversation history sent with each message'}
+                >
+                    <span className="chat-context-label">
+                        Context {formatTokens(context.tokens)} / {formatTokens(context.budget)}
+                    </span>
+                    <div className="completeness-bar chat-context-bar">
+                        <div
+                            className={`completeness-fill ${context.ratio >= 0.8 ? 'chat-context-high' : ''}`}
+                            style={{ width: `${Math.min(context.ratio, 1) * 100}%` }}
+                        />
+                    </div>
+                    {context.summarizedMessages > 0 && (
+                        <span className="chat-context-summary">
+                            {context.summarizedMessages} earlier message{context.summarizedMessages === 1 ? '' : 's'} summarized
+                        </span>
+                    )}
+                </div>
+            )}
         </div>
     );
 }
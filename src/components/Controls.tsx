@@ -1,7 +1,12 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useStore, selectCanGenerate, selectIsLoading, selectBuildResult, selectProvider, selectModel } from '../store';
-import { handleInput } from '../engine/nedry';
+import { handleInput, toAppError } from '../engine/nedry';
 import { hasApiKey, getProviderErrorMessage } from '../api/providers';
+import { createZip } from '../utils/zip';
+import { createExportFiles, createReactExportFiles, getExportSlug, downloadFile } from '../utils/export';
+import { BUILD_TARGETS } from '../engine/raptor';
+import { getBudgetWarning } from '../utils/usage';
+import { BuildTarget } from '../types';
 
 // ============================================================
 // Controls - Input Field and Action Buttons
@@ -13,25 +18,33 @@ interface ControlsProps {
 
 export function Controls({ onSendMessage }: ControlsProps) {
     const [input, setInput] = useState('');
+    const [exportTarget, setExportTarget] = useState<BuildTarget>('html');
     const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const abortRef = useRef<AbortController | null>(null); // Current chat request
 
     const canGenerate = useStore(selectCanGenerate);
     const isLoading = useStore(selectIsLoading);
     const buildResult = useStore(selectBuildResult);
     const currentSpec = useStore((s) => s.currentSpec);
     const messages = useStore((s) => s.messages);
+    const currentProjectId = useStore((s) => s.currentProjectId);
     const conversationPhase = useStore((s) => s.conversationPhase);
+    const conversationSummary = useStore((s) => s.conversationSummary);
 
     const addMessage = useStore((s) => s.addMessage);
+    const addError = useStore((s) => s.addError);
+    const pushError = useStore((s) => s.pushError);
     const setSpec = useStore((s) => s.setSpec);
     const setLoading = useStore((s) => s.setLoading);
     const setBuildStatus = useStore((s) => s.setBuildStatus);
     const setBuildResult = useStore((s) => s.setBuildResult);
     const setConversationPhase = useStore((s) => s.setConversationPhase);
+    const setConversationSummary = useStore((s) => s.setConversationSummary);
     const reset = useStore((s) => s.reset);
     const provider = useStore(selectProvider);
     const model = useStore(selectModel);
     const setActiveAgent = useStore((s) => s.setActiveAgent);
+    const setStreamingDraft = useStore((s) => s.setStreamingDraft);
 
     // Auto-resize textarea
     const adjustTextareaHeight = () => {
@@ -51,8 +64,16 @@ export function Controls({ onSendMessage }: ControlsProps) {
         const userMessage = (messageText || input).trim();
         if (!userMessage || isLoading) return;
 
+        // Soft budget: ask before spending more on this project
+        const { projects } = useStore.getState();
+        const budgetWarning = getBudgetWarning(projects.find((p) => p.id === currentProjectId)?.usage);
+        if (budgetWarning && !confirm(budgetWarning)) return;
+
         setInput('');
-        addMessage('user', userMessage);
+        const projectId = currentProjectId;
+        const userMessageId = addMessage('user', userMessage);
+        const controller = new AbortController();
+        abortRef.current = controller;
         setLoading(true);
         setActiveAgent('nedry'); // Nedry routes the message
 
@@ -62,7 +83,7 @@ export function Controls({ onSendMessage }: ControlsProps) {
                 type: 'user_message',
                 payload: userMessage,
                 currentState: {
-                    messages: [...messages, { id: '', role: 'user', content: userMessage, timestamp: '' }],
+                    messages: [...messages, { id: userMessageId, role: 'user', content: userMessage, timestamp: '' }],
                     currentSpec,
                     specHistory: [],
                     specValidation: null,
@@ -70,40 +91,64 @@ export function Controls({ onSendMessage }: ControlsProps) {
                     buildResult: null,
                     buildStatus: 'idle',
                     conversationPhase: 'gathering',
+                    conversationSummary,
                     activePanel: 'chat',
                     errors: [],
                     provider,
                     model,
                 },
+                onPartial: setStreamingDraft,
+                projectId: projectId || undefined,
+                signal: controller.signal,
             });
 
+            // Another project was opened meanwhile; this reply is not for it
+            if (useStore.getState().currentProjectId !== projectId) return;
+
             // Handle response
-            if (result.action.type === 'display_question') {
-                addMessage('assistant', result.action.question);
+            if (controller.signal.aborted) {
+                addMessage('assistant', '⏹ Stopped.');
+            } else if (result.action.type === 'display_question') {
+                addMessage('assistant', result.action.question, result.usage);
             } else if (result.action.type === 'update_ui' && result.action.update.spec) {
-                setSpec(result.action.update.spec);
+                setSpec(result.action.update.spec, { source: 'chat', messageId: userMessageId });
                 addMessage(
                     'assistant',
-                    "I've updated the specification. You can continue refining or click Generate when ready."
+                    "I've updated the specification. You can continue refining or click Generate when ready.",
+                    result.usage
                 );
             } else if (result.action.type === 'display_error') {
-                const errorMsg = getProviderErrorMessage(new Error(result.action.error.message));
-                addMessage('assistant', `⚠️ ${errorMsg}`);
+                pushError(result.action.error);
             }
 
             if (result.stateUpdate.conversationPhase) {
                 setConversationPhase(result.stateUpdate.conversationPhase);
             }
+            if (result.stateUpdate.conversationSummary !== undefined) {
+                setConversationSummary(result.stateUpdate.conversationSummary);
+            }
         } catch (error) {
             console.error('Error processing message:', error);
-            const errorMsg = getProviderErrorMessage(error);
-            addMessage('assistant', `⚠️ ${errorMsg}`);
+            // Switching projects cancels its requests; nothing to report there
+            if (useStore.getState().currentProjectId !== projectId) return;
+            if (controller.signal.aborted) {
+                addMessage('assistant', '⏹ Stopped.');
+            } else {
+                pushError(toAppError(error));
+            }
         } finally {
+            abortRef.current = null;
+            setStreamingDraft(null);
             setLoading(false);
             setActiveAgent('idle');
         }
     };
 
+    // Stop the chat request in progress
+    const handleStop = () => {
+        abortRef.current?.abort();
+    };
+
     // Handle generate
     const handleGenerate = async () => {
         if (!canGenerate || isLoading) return;
@@ -126,6 +171,7 @@ export function Controls({ onSendMessage }: ControlsProps) {
                     buildResult: null,
                     buildStatus: 'building',
                     conversationPhase: 'complete',
+                    conversationSummary: null,
                     activePanel: 'preview',
                     errors: [],
                     provider,
@@ -140,30 +186,32 @@ export function Controls({ onSendMessage }: ControlsProps) {
                 if (result.stateUpdate.buildResult.success) {
                     addMessage('assistant', '✅ Build complete! Check the Preview panel to see your app.');
                 }
+            } else if (result.action.type === 'display_error') {
+                // Nothing was built, e.g. the spec failed validation
+                setBuildStatus('error');
+                pushError(result.action.error);
             }
         } catch (error) {
             console.error('Build error:', error);
             setBuildStatus('error');
-            addMessage('assistant', `⚠️ Build failed: ${getProviderErrorMessage(error)}`);
+            addError('BUILD_FAILED', `Build failed: ${getProviderErrorMessage(error)}`);
         } finally {
             setLoading(false);
             setActiveAgent('idle');
         }
     };
 
-    // Handle export
+    // Handle export (zip with index.html, styles.css, app.js, spec, manifest, README).
+    // Both targets use the spec that was built, even if it was edited since;
+    // builds saved before it was recorded fall back to the current one.
     const handleExport = () => {
-        if (!buildResult?.html) return;
-
-        const blob = new Blob([buildResult.html], { type: 'text/html' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `${currentSpec?.meta.name || 'app'}.html`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        const spec = buildResult?.spec ?? currentSpec;
+        if (!buildResult?.html || !spec) return;
+
+        const files = exportTarget === 'react-ts'
+            ? createReactExportFiles(spec)
+            : createExportFiles(spec, buildResult);
+        downloadFile(`${getExportSlug(spec)}.zip`, createZip(files), 'application/zip');
     };
 
     // Handle reset
@@ -188,7 +236,7 @@ export function Controls({ onSendMessage }: ControlsProps) {
 
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [canGenerate, buildResult]);
+    }, [canGenerate, buildResult, exportTarget]);
 
     // Handle Enter key in textarea (Enter = submit, Shift+Enter = newline)
     const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -237,13 +285,23 @@ export function Controls({ onSendMessage }: ControlsProps) {
                     disabled={isLoading}
                     rows={1}
                 />
-                <button
-                    className="btn btn-primary controls-send"
-                    onClick={() => handleSubmit()}
-                    disabled={!input.trim() || isLoading}
-                >
-                    {isLoading ? '...' : 'Send'}
-                </button>
+                {isLoading && abortRef.current ? (
+                    <button
+                        className="btn btn-secondary controls-send"
+                        onClick={handleStop}
+                        title="Stop the current request"
+                    >
+                        ⏹ Stop
+                    </button>
+                ) : (
+                    <button
+                        className="btn btn-primary controls-send"
+                        onClick={() => handleSubmit()}
+                        disabled={!input.trim() || isLoading}
+                    >
+                        {isLoading ? '...' : 'Send'}
+                    </button>
+                )}
             </div>
 
             <div className="controls-actions">
@@ -256,11 +314,22 @@ export function Controls({ onSendMessage }: ControlsProps) {
                     {generateState.text}
                 </button>
 
+                <select
+                    className="controls-export-target"
+                    value={exportTarget}
+                    onChange={(e) => setExportTarget(e.target.value as BuildTarget)}
+                    title="Export format"
+                >
+                    {BUILD_TARGETS.map((t) => (
+                        <option key={t.id} value={t.id}>{t.name}</option>
+                    ))}
+                </select>
+
                 <button
                     className="btn btn-secondary controls-action-btn"
                     onClick={handleExport}
                     disabled={!buildResult?.success}
-                    title="Download as HTML file"
+                    title="Download as a zip project"
                 >
                     📥 Export
                 </button>
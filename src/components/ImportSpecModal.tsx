@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { parseSpecFile, SpecImportResult } from '../utils/spec-file';
+import { Specification } from '../types';
+
+interface ImportSpecModalProps {
+    isOpen: boolean;
+    title: string;
+    submitLabel: string;
+    onClose: () => void;
+    onImport: (spec: Specification) => void;
+}
+
+// ============================================================
+// ImportSpecModal - Load a JSON/YAML spec file after validation
+// ============================================================
+
+export function ImportSpecModal({ isOpen, title, submitLabel, onClose, onImport }: ImportSpecModalProps) {
+    const [fileName, setFileName] = useState('');
+    const [result, setResult] = useState<SpecImportResult | null>(null);
+
+    if (!isOpen) return null;
+
+    const handleClose = () => {
+        setFileName('');
+        setResult(null);
+        onClose();
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setFileName(file.name);
+        setResult(parseSpecFile(await file.text(), file.name));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!result?.spec) return;
+        onImport(result.spec);
+        handleClose();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            handleClose();
+        }
+    };
+
+    return (
+        <div className="modal-overlay" onKeyDown={handleKeyDown}>
+            <div className="modal-content import-spec-modal" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h2>{title}</h2>
+                    <button className="modal-close" onClick={handleClose}>×</button>
+                </div>
+                <form onSubmit={handleSubmit}>
+                    <div className="modal-body">
+                        <div className="form-group">
+                            <label htmlFor="spec-file">Spec File</label>
+                            <input
+                                id="spec-file"
+                                type="file"
+                                className="form-input"
+                                accept=".json,.yaml,.yml,application/json,application/yaml"
+                                onChange={handleFile}
+                                autoFocus
+                            />
+                        </div>
+                        <p className="form-hint">
+                            JSON or YAML exported from the Specification panel. Specs from older
+                            versions are upgraded automatically.
+                        </p>
+
+                        {result && (
+                            <div className="import-spec-report">
+                                {result.spec ? (
+                                    <p className="import-spec-ok">
+                                        ✓ {fileName}: “{result.spec.meta.name}” with{' '}
+                                        {result.spec.entities.length} entities and {result.spec.views.length} views
+                                    </p>
+                                ) : (
+                                    <p className="import-spec-failed">✕ {fileName} can't be imported</p>
+                                )}
+                                {result.migratedFrom && (
+                                    <p className="form-hint">Upgraded from spec version {result.migratedFrom}</p>
+                                )}
+                                {result.validation.errors.length > 0 && (
+                                    <div className="spec-validation-errors">
+                                        {result.validation.errors.map((error, i) => (
+                                            <p key={i} className="spec-validation-error">
+                                                ⚠️ {error.message}
+                                            </p>
+                                        ))}
+                                    </div>
+                                )}
+                                {result.validation.warnings.length > 0 && (
+                                    <ul className="import-spec-warnings">
+                                        {result.validation.warnings.map((warning, i) => (
+                                            <li key={i}>{warning.message}</li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                    <div className="modal-footer">
+                        <button type="button" className="btn btn-secondary" onClick={handleClose}>
+                            Cancel
+                        </button>
+                        <button type="submit" className="btn btn-primary" disabled={!result?.spec}>
+                            {submitLabel}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+}
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { Provider, DEFAULT_MODELS } from '../types';
-import { setApiKey, getApiKey, hasApiKey } from '../api/providers';
+import { Provider } from '../types';
+import { setApiKey, hasApiKey, listProviders, getProvider, DEFAULT_PROVIDER } from '../api/providers';
 import { useStore, selectProvider, selectSetProvider, selectSetModel } from '../store';
 
 // ============================================================
@@ -13,7 +13,7 @@ interface OnboardingModalProps {
 
 export function OnboardingModal({ onComplete }: OnboardingModalProps) {
     const [step, setStep] = useState(1);
-    const [selectedProvider, setSelectedProvider] = useState<Provider>('openai');
+    const [selectedProvider, setSelectedProvider] = useState<Provider>(DEFAULT_PROVIDER);
     const [apiKeyInput, setApiKeyInput] = useState('');
     const [error, setError] = useState('');
     const [isValidating, setIsValidating] = useState(false);
@@ -22,55 +22,37 @@ export function OnboardingModal({ onComplete }: OnboardingModalProps) {
     const setStoreProvider = useStore(selectSetProvider);
     const setStoreModel = useStore(selectSetModel);
 
-    // Check if any key already exists
+    const providers = listProviders();
+    const provider = getProvider(selectedProvider) || providers[0];
+
+    // Check if any provider is already configured
     useEffect(() => {
-        if (hasApiKey('openai') || hasApiKey('anthropic')) {
+        if (listProviders().some((p) => hasApiKey(p.id))) {
             onComplete();
         }
     }, [onComplete]);
 
-    const validateOpenAIKey = async (key: string): Promise<boolean> => {
-        try {
-            const response = await fetch('https://api.openai.com/v1/models', {
-                headers: { Authorization: `Bearer ${key}` },
-            });
-            return response.ok || response.status !== 401;
-        } catch {
-            return true; // Network error - accept anyway
-        }
-    };
-
-    const validateAnthropicKey = async (key: string): Promise<boolean> => {
-        // Anthropic doesn't have a simple validation endpoint
-        // Just check format
-        return key.startsWith('sk-ant-');
-    };
-
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setError('');
 
-        if (!apiKeyInput.trim()) {
+        const key = apiKeyInput.trim();
+        if (!key && provider.key.required) {
             setError('Please enter an API key');
             return;
         }
 
         // Validate key format
-        if (selectedProvider === 'openai' && !apiKeyInput.startsWith('sk-')) {
-            setError('OpenAI API keys start with "sk-"');
-            return;
-        }
-        if (selectedProvider === 'anthropic' && !apiKeyInput.startsWith('sk-ant-')) {
-            setError('Anthropic API keys start with "sk-ant-"');
+        const formatError = key ? provider.validateKey(key) : null;
+        if (formatError) {
+            setError(formatError);
             return;
         }
 
         setIsValidating(true);
 
         try {
-            const isValid = selectedProvider === 'openai'
-                ? await validateOpenAIKey(apiKeyInput)
-                : await validateAnthropicKey(apiKeyInput);
+            const isValid = key && provider.verifyKey ? await provider.verifyKey(key) : true;
 
             if (!isValid) {
                 setError('Invalid API key. Please check and try again.');
@@ -79,17 +61,18 @@ export function OnboardingModal({ onComplete }: OnboardingModalProps) {
             }
 
             // Save the key
-            setApiKey(selectedProvider, apiKeyInput);
+            if (key) setApiKey(provider.id, key);
+            provider.activate?.();
 
             // Set the provider and default model in store
-            setStoreProvider(selectedProvider);
-            setStoreModel(DEFAULT_MODELS[selectedProvider][0].id);
+            setStoreProvider(provider.id);
+            setStoreModel(provider.defaultModel);
 
             onComplete();
         } catch {
             // Save anyway on error
-            setApiKey(selectedProvider, apiKeyInput);
-            setStoreProvider(selectedProvider);
+            if (key) setApiKey(provider.id, key);
+            setStoreProvider(provider.id);
             onComplete();
         } finally {
             setIsValidating(false);
@@ -170,20 +153,16 @@ export function OnboardingModal({ onComplete }: OnboardingModalProps) {
                             <div className="settings-group">
                                 <label className="settings-label">Provider</label>
                                 <div className="provider-toggle">
-                                    <button
-                                        type="button"
-                                        className={`provider-btn ${selectedProvider === 'openai' ? 'active' : ''}`}
-                                        onClick={() => handleProviderSelect('openai')}
-                                    >
-                                        OpenAI
-                                    </button>
-                                    <button
-                                        type="button"
-                                        className={`provider-btn ${selectedProvider === 'anthropic' ? 'active' : ''}`}
-                                        onClick={() => handleProviderSelect('anthropic')}
-                                    >
-                                        Anthropic
-                                    </button>
+                                    {providers.map((p) => (
+                                        <button
+                                            key={p.id}
+                                            type="button"
+                                            className={`provider-btn ${selectedProvider === p.id ? 'active' : ''}`}
+                                            onClick={() => handleProviderSelect(p.id)}
+                                        >
+                                            {p.name}
+                                        </button>
+                                    ))}
                                 </div>
                             </div>
 
@@ -192,11 +171,11 @@ export function OnboardingModal({ onComplete }: OnboardingModalProps) {
                                 <p>
                                     Mini Artifact uses{' '}
                                     <strong>
-                                        {selectedProvider === 'openai' ? 'GPT-4' : 'Claude'}
+                                        {provider.family}
                                     </strong>{' '}
                                     to understand your requirements and build specifications.
                                     The API key authenticates your requests to{' '}
-                                    {selectedProvider === 'openai' ? 'OpenAI' : 'Anthropic'}.
+                                    {provider.name}.
                                 </p>
                             </div>
 
@@ -205,20 +184,20 @@ export function OnboardingModal({ onComplete }: OnboardingModalProps) {
                                 <ul className="info-list">
                                     <li>Stored only in your browser's local storage</li>
                                     <li>Never sent to our servers</li>
-                                    <li>Only used for {selectedProvider === 'openai' ? 'OpenAI' : 'Anthropic'} API calls</li>
+                                    <li>Only used for {provider.name} API calls</li>
                                 </ul>
                             </div>
 
                             <form onSubmit={handleSubmit} className="api-key-form">
                                 <div className="form-group">
                                     <label className="form-label" htmlFor="api-key">
-                                        {selectedProvider === 'openai' ? 'OpenAI' : 'Anthropic'} API Key
+                                        {provider.name} API Key{provider.key.required ? '' : ' (optional)'}
                                     </label>
                                     <input
                                         type="password"
                                         id="api-key"
                                         className="form-input"
-                                        placeholder={selectedProvider === 'openai' ? 'sk-...' : 'sk-ant-...'}
+                                        placeholder={provider.key.placeholder}
                                         value={apiKeyInput}
                                         onChange={(e) => setApiKeyInput(e.target.value)}
                                         autoFocus
@@ -227,43 +206,29 @@ export function OnboardingModal({ onComplete }: OnboardingModalProps) {
                                 </div>
 
                                 <div className="help-section">
-                                    <strong>How to get an API key:</strong>
-                                    {selectedProvider === 'openai' ? (
-                                        <ol className="help-steps">
-                                            <li>
-                                                Go to{' '}
-                                                <a
-                                                    href="https://platform.openai.com/api-keys"
-                                                    target="_blank"
-                                                    rel="noopener noreferrer"
-                                                >
-                                                    platform.openai.com/api-keys
-                                                </a>
-                                            </li>
-                                            <li>Sign in or create an account</li>
-                                            <li>Click "Create new secret key"</li>
-                                            <li>Copy the key and paste it above</li>
-                                        </ol>
-                                    ) : (
-                                        <ol className="help-steps">
-                                            <li>
-                                                Go to{' '}
-                                                <a
-                                                    href="https://console.anthropic.com/settings/keys"
-                                                    target="_blank"
-                                                    rel="noopener noreferrer"
-                                                >
-                                                    console.anthropic.com/settings/keys
-                                                </a>
-                                            </li>
-                                            <li>Sign in or create an account</li>
-                                            <li>Click "Create Key"</li>
-                                            <li>Copy the key and paste it above</li>
-                                        </ol>
+                                    {provider.key.consoleUrl && (
+                                        <>
+                                            <strong>How to get an API key:</strong>
+                                            <ol className="help-steps">
+                                                <li>
+                                                    Go to{' '}
+                                                    <a
+                                                        href={provider.key.consoleUrl}
+                                                        target="_blank"
+                                                        rel="noopener noreferrer"
+                                                    >
+                                                        {provider.key.consoleUrl.replace(/^https:\/\//, '')}
+                                                    </a>
+                                                </li>
+                                                {provider.key.steps?.map((step) => <li key={step}>{step}</li>)}
+                                            </ol>
+                                        </>
                                     )}
                                     <p className="help-note">
-                                        💡 You'll need a paid {selectedProvider === 'openai' ? 'OpenAI' : 'Anthropic'} account with API credits.
-                                        {selectedProvider === 'openai' && ' New accounts get $5 free credits.'}
+                                        💡 {[
+                                            provider.key.required && `You'll need a paid ${provider.name} account with API credits.`,
+                                            provider.key.note,
+                                        ].filter(Boolean).join(' ')}
                                     </p>
                                 </div>
 
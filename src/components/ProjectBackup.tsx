@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import { useStore } from '../store';
+import { loadAllProjects } from '../store/db';
+import {
+    createBackup,
+    getBackupFileName,
+    parseBackup,
+    mergeProjects,
+    estimateStorageUsage,
+    STORAGE_WARNING_RATIO,
+    StorageUsage,
+    ConflictStrategy,
+    ProjectBackup as Backup,
+    BackupImportSummary,
+} from '../utils/backup';
+import { downloadFile } from '../utils/export';
+
+const STRATEGY_LABELS: Record<ConflictStrategy, string> = {
+    newest: 'Keep the most recently updated copy',
+    overwrite: 'Replace with the backup copy',
+    'keep-both': 'Keep both (import as a copy)',
+};
+
+// ============================================================
+// ProjectBackup - Settings section for backup/restore of all projects
+// ============================================================
+
+export function ProjectBackup() {
+    const projects = useStore((s) => s.projects);
+    const saveCurrentProject = useStore((s) => s.saveCurrentProject);
+    const restoreProjects = useStore((s) => s.restoreProjects);
+
+    const [backup, setBackup] = useState<Backup | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [strategy, setStrategy] = useState<ConflictStrategy>('newest');
+    const [summary, setSummary] = useState<BackupImportSummary | null>(null);
+
+    const [usage, setUsage] = useState<StorageUsage | null>(null);
+    const nearQuota = !!usage && usage.ratio >= STORAGE_WARNING_RATIO;
+
+    useEffect(() => {
+        estimateStorageUsage().then(setUsage);
+    }, [projects]);
+
+    const handleDownload = async () => {
+        // Capture unsaved changes of the open project first
+        await saveCurrentProject();
+        const backupData = createBackup(await loadAllProjects());
+        downloadFile(getBackupFileName(), JSON.stringify(backupData), 'application/json');
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const result = parseBackup(await file.text());
+        setBackup(result.backup);
+        setError(result.error);
+        setSummary(null);
+    };
+
+    const handleRestore = async () => {
+        if (!backup) return;
+        await saveCurrentProject();
+        const merged = mergeProjects(await loadAllProjects(), backup.projects, strategy);
+        await restoreProjects(merged.projects);
+        setSummary(merged.summary);
+        setBackup(null);
+    };
+
+    const conflicts = backup ? backup.projects.filter((p) => projects.some((e) => e.id === p.id)).length : 0;
+
+    return (
+        <div className="settings-section">
+            <h3>💾 Backup & Restore</h3>
+            <p className="settings-hint">
+                Download every project (chat, spec history and builds) as one file, or restore
+                projects from a backup on another device.
+            </p>
+
+            {usage && (
+                <div className="backup-usage">
+                    <div className="backup-usage-label">
+                        <span>Browser storage</span>
+                        <span>
+                            {formatSize(usage.used)} of ~{formatSize(usage.quota)} ({Math.round(usage.ratio * 100)}%)
+                        </span>
+                    </div>
+                    <div className="completeness-bar">
+                        <div
+                            className={`completeness-fill ${nearQuota ? 'backup-usage-high' : ''}`}
+                            style={{ width: `${Math.min(usage.ratio, 1) * 100}%` }}
+                        />
+                    </div>
+                    {nearQuota && (
+                        <p className="backup-warning">
+                            ⚠️ Storage is nearly full. Download a backup and delete projects you no longer need.
+                        </p>
+                    )}
+                </div>
+            )}
+
+            <div className="backup-actions">
+                <button className="btn btn-primary" onClick={handleDownload} disabled={projects.length === 0}>
+                    ⬇️ Download Backup ({projects.length})
+                </button>
+                <label className="btn btn-secondary backup-file-btn">
+                    ⬆️ Restore from File
+                    <input type="file" accept=".json,application/json" onChange={handleFile} hidden />
+                </label>
+            </div>
+
+            {error && <p className="backup-warning">✕ {error}</p>}
+
+            {backup && (
+                <div className="backup-restore">
+                    <p className="settings-hint">
+                        {backup.projects.length} project(s)
+                        {backup.exportedAt && ` from ${new Date(backup.exportedAt).toLocaleString()}`}
+                        {conflicts > 0 && `, ${conflicts} already here`}
+                    </p>
+                    {conflicts > 0 && (
+                        <select
+                            className="form-input"
+                            value={strategy}
+                            onChange={(e) => setStrategy(e.target.value as ConflictStrategy)}
+                        >
+                            {(Object.keys(STRATEGY_LABELS) as ConflictStrategy[]).map((key) => (
+                                <option key={key} value={key}>{STRATEGY_LABELS[key]}</option>
+                            ))}
+                        </select>
+                    )}
+                    <button className="btn btn-primary" onClick={handleRestore}>
+                        Restore Projects
+                    </button>
+                </div>
+            )}
+
+            {summary && (
+                <p className="settings-hint">
+                    ✓ Added {summary.added.length}, replaced {summary.replaced.length}, copied{' '}
+                    {summary.copied.length}, skipped {summary.skipped.length}
+                    {summary.skipped.length > 0 && ` (newer here: ${summary.skipped.join(', ')})`}
+                </p>
+            )}
+        </div>
+    );
+}
+
+function formatSize(bytes: number): string {
+    if (bytes >= 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+    return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+}
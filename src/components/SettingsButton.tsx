@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
     useStore,
     selectProvider,
@@ -6,8 +6,20 @@ import {
     selectSetProvider,
     selectSetModel,
 } from '../store';
-import { Provider, DEFAULT_MODELS } from '../types';
-import { setApiKey, getApiKey, clearApiKey, migrateOldApiKey } from '../api/providers';
+import { Provider, ModelInfo } from '../types';
+import {
+    setApiKey,
+    getApiKey,
+    clearApiKey,
+    migrateOldApiKey,
+    getProviderErrorMessage,
+    listProviders,
+    getProviderModels,
+} from '../api/providers';
+import { getLocalBaseUrl, setLocalBaseUrl, fetchLocalModels } from '../api/providers/local';
+import { ProjectBackup } from './ProjectBackup';
+import { UsageSummary } from './UsageSummary';
+import { clearSession } from '../store/db';
 
 // ============================================================
 // SettingsButton - Comprehensive Settings Panel
@@ -44,65 +56,90 @@ export function SettingsButton({ children, className }: SettingsButtonProps) {
         }
     }, [isOpen]);
 
-    // API key state for each provider
-    const [openaiKey, setOpenaiKey] = useState(() => getApiKey('openai') || '');
-    const [anthropicKey, setAnthropicKey] = useState(() => getApiKey('anthropic') || '');
-    const [openaiKeyInput, setOpenaiKeyInput] = useState(openaiKey);
-    const [anthropicKeyInput, setAnthropicKeyInput] = useState(anthropicKey);
-    const [savedOpenai, setSavedOpenai] = useState(false);
-    const [savedAnthropic, setSavedAnthropic] = useState(false);
-    const [activeTab, setActiveTab] = useState<'api' | 'about' | 'help'>('api');
-
-    const handleSaveOpenai = () => {
-        if (openaiKeyInput.trim()) {
-            setApiKey('openai', openaiKeyInput);
-            setOpenaiKey(openaiKeyInput);
-        } else {
-            clearApiKey('openai');
-            setOpenaiKey('');
-        }
-        setSavedOpenai(true);
-        setTimeout(() => setSavedOpenai(false), 2000);
-    };
+    const providers = listProviders();
+    const keyedProviders = providers.filter((p) => p.key.required);
 
-    const handleSaveAnthropic = () => {
-        if (anthropicKeyInput.trim()) {
-            setApiKey('anthropic', anthropicKeyInput);
-            setAnthropicKey(anthropicKeyInput);
+    // API key state for each provider, by provider id
+    const [savedKeys, setSavedKeys] = useState<Record<string, string>>(() =>
+        Object.fromEntries(providers.map((p) => [p.id, getApiKey(p.id) || '']))
+    );
+    const [keyInputs, setKeyInputs] = useState<Record<string, string>>(savedKeys);
+    const [justSaved, setJustSaved] = useState<Provider | null>(null);
+    // Local (OpenAI-compatible) server state
+    const [localBaseUrl, setLocalBaseUrlInput] = useState(() => getLocalBaseUrl());
+    const [localKeyInput, setLocalKeyInput] = useState(() => getApiKey('local') || '');
+    const [localModels, setLocalModels] = useState<ModelInfo[] | null>(null);
+    const [localStatus, setLocalStatus] = useState<string | null>(null);
+    const [isLoadingModels, setIsLoadingModels] = useState(false);
+    const [activeTab, setActiveTab] = useState<'api' | 'usage' | 'data' | 'about' | 'help'>('api');
+
+    const handleSaveKey = (id: Provider) => {
+        const key = (keyInputs[id] || '').trim();
+        if (key) {
+            setApiKey(id, key);
         } else {
-            clearApiKey('anthropic');
-            setAnthropicKey('');
+            clearApiKey(id);
         }
-        setSavedAnthropic(true);
-        setTimeout(() => setSavedAnthropic(false), 2000);
+        setSavedKeys((keys) => ({ ...keys, [id]: key }));
+        setJustSaved(id);
+        setTimeout(() => setJustSaved(null), 2000);
     };
 
     const handleProviderChange = (newProvider: Provider) => {
         setProvider(newProvider);
     };
 
+    // List the models served by the local endpoint (GET /v1/models)
+    const loadLocalModels = useCallback(async () => {
+        setIsLoadingModels(true);
+        setLocalStatus(null);
+        try {
+            const models = await fetchLocalModels(getLocalBaseUrl(), getApiKey('local'));
+            setLocalModels(models);
+            setLocalStatus(models.length ? `✓ ${models.length} model(s) available` : 'Server has no models installed');
+            const { provider: activeProvider, model: activeModel } = useStore.getState();
+            if (models.length && activeProvider === 'local' && !models.some((m) => m.id === activeModel)) {
+                setModel(models[0].id);
+            }
+        } catch (error) {
+            setLocalModels(null);
+            setLocalStatus(`❌ ${getProviderErrorMessage(error)}`);
+        } finally {
+            setIsLoadingModels(false);
+        }
+    }, [setModel]);
+
+    const handleSaveLocal = () => {
+        setLocalBaseUrl(localBaseUrl);
+        setLocalBaseUrlInput(getLocalBaseUrl());
+        if (localKeyInput.trim()) {
+            setApiKey('local', localKeyInput.trim());
+        } else {
+            clearApiKey('local');
+        }
+        loadLocalModels();
+    };
+
+    // Refresh the local model list whenever settings open on the local provider
+    useEffect(() => {
+        if (isOpen && provider === 'local') {
+            loadLocalModels();
+        }
+    }, [isOpen, provider, loadLocalModels]);
+
     const handleModelChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
         setModel(e.target.value);
     };
 
-    const handleClearAll = () => {
+    const handleClearAll = async () => {
         if (confirm('Clear all data? This will reset the conversation, specification, and API keys.')) {
-            clearApiKey('openai');
-            clearApiKey('anthropic');
-            sessionStorage.removeItem('mini-artifact-store');
+            providers.forEach((p) => clearApiKey(p.id));
+            await clearSession();
             window.location.reload();
         }
     };
 
-    const maskedOpenaiKey = openaiKey
-        ? `sk-...${openaiKey.slice(-4)}`
-        : 'Not configured';
-
-    const maskedAnthropicKey = anthropicKey
-        ? `sk-ant-...${anthropicKey.slice(-4)}`
-        : 'Not configured';
-
-    const currentModels = DEFAULT_MODELS[provider];
+    const currentModels = provider === 'local' && localModels?.length ? localModels : getProviderModels(provider);
 
     const Trigger = children ? (
         <div className={className} onClick={() => setIsOpen(true)}>
@@ -140,6 +177,18 @@ export function SettingsButton({ children, className }: SettingsButtonProps) {
                             >
                                 🔑 API Key
                             </button>
+                            <button
+                                className={`settings-tab ${activeTab === 'usage' ? 'active' : ''}`}
+                                onClick={() => setActiveTab('usage')}
+                            >
+                                📊 Usage
+                            </button>
+                            <button
+                                className={`settings-tab ${activeTab === 'data' ? 'active' : ''}`}
+                                onClick={() => setActiveTab('data')}
+                            >
+                                💾 Data
+                            </button>
                             <button
                                 className={`settings-tab ${activeTab === 'help' ? 'active' : ''}`}
                                 onClick={() => setActiveTab('help')}
@@ -161,20 +210,16 @@ export function SettingsButton({ children, className }: SettingsButtonProps) {
                                 <div className="settings-section">
                                     <h3>🔌 Provider</h3>
                                     <div style={{ display: 'flex', gap: '8px', marginBottom: '16px' }}>
-                                        <button
-                                            className={`btn ${provider === 'openai' ? 'btn-primary' : 'btn-secondary'}`}
-                                            onClick={() => handleProviderChange('openai')}
-                                            style={{ flex: 1 }}
-                                        >
-                                            OpenAI
-                                        </button>
-                                        <button
-                                            className={`btn ${provider === 'anthropic' ? 'btn-primary' : 'btn-secondary'}`}
-                                            onClick={() => handleProviderChange('anthropic')}
-                                            style={{ flex: 1 }}
-                                        >
-                                            Anthropic
-                                        </button>
+                                        {providers.map((p) => (
+                                            <button
+                                                key={p.id}
+                                                className={`btn ${provider === p.id ? 'btn-primary' : 'btn-secondary'}`}
+                                                onClick={() => handleProviderChange(p.id)}
+                                                style={{ flex: 1 }}
+                                            >
+                                                {p.name}
+                                            </button>
+                                        ))}
                                     </div>
 
                                     {/* Model Selection */}
@@ -196,65 +241,90 @@ export function SettingsButton({ children, className }: SettingsButtonProps) {
                                     </div>
                                 </div>
 
-                                {/* OpenAI API Key */}
-                                <div className="settings-section">
-                                    <h3>🔑 OpenAI API Key {openaiKey ? '✅' : ''}</h3>
-                                    <p className="settings-hint">
-                                        Status: <strong style={{ color: openaiKey ? '#22c55e' : '#ef4444' }}>
-                                            {openaiKey ? `Configured (${maskedOpenaiKey})` : '❌ Not configured'}
-                                        </strong>
-                                    </p>
-                                    <div className="form-group">
-                                        <input
-                                            type="password"
-                                            className="form-input"
-                                            placeholder="sk-..."
-                                            value={openaiKeyInput}
-                                            onChange={(e) => setOpenaiKeyInput(e.target.value)}
-                                        />
-                                    </div>
-                                    <button className="btn btn-secondary" onClick={handleSaveOpenai}>
-                                        {savedOpenai ? '✓ Saved' : 'Update Key'}
-                                    </button>
-                                    <div className="info-box info-box-small">
-                                        <p>
-                                            Get a key at{' '}
-                                            <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer">
-                                                platform.openai.com
-                                            </a>
-                                        </p>
-                                    </div>
-                                </div>
-
-                                {/* Anthropic API Key */}
-                                <div className="settings-section">
-                                    <h3>🔑 Anthropic API Key {anthropicKey ? '✅' : ''}</h3>
-                                    <p className="settings-hint">
-                                        Status: <strong style={{ color: anthropicKey ? '#22c55e' : '#ef4444' }}>
-                                            {anthropicKey ? `Configured (${maskedAnthropicKey})` : '❌ Not configured'}
-                                        </strong>
-                                    </p>
-                                    <div className="form-group">
-                                        <input
-                                            type="password"
-                                            className="form-input"
-                                            placeholder="sk-ant-..."
-                                            value={anthropicKeyInput}
-                                            onChange={(e) => setAnthropicKeyInput(e.target.value)}
-                                        />
-                                    </div>
-                                    <button className="btn btn-secondary" onClick={handleSaveAnthropic}>
-                                        {savedAnthropic ? '✓ Saved' : 'Update Key'}
-                                    </button>
-                                    <div className="info-box info-box-small">
-                                        <p>
-                                            Get a key at{' '}
-                                            <a href="https://console.anthropic.com/" target="_blank" rel="noopener noreferrer">
-                                                console.anthropic.com
-                                            </a>
+                                {/* Local Model Server */}
+                                {provider === 'local' && (
+                                    <div className="settings-section">
+                                        <h3>🖥️ Local Model Server</h3>
+                                        <p className="settings-hint">
+                                            Any OpenAI-compatible endpoint: Ollama, llama.cpp server, LM Studio or vLLM.
                                         </p>
+                                        <div className="form-group">
+                                            <label htmlFor="local-base-url">Base URL</label>
+                                            <input
+                                                id="local-base-url"
+                                                type="text"
+                                                className="form-input"
+                                                placeholder="http://localhost:11434/v1"
+                                                value={localBaseUrl}
+                                                onChange={(e) => setLocalBaseUrlInput(e.target.value)}
+                                            />
+                                        </div>
+                                        <div className="form-group">
+                                            <label htmlFor="local-api-key">API Key (optional)</label>
+                                            <input
+                                                id="local-api-key"
+                                                type="password"
+                                                className="form-input"
+                                                placeholder="Leave empty if the server needs none"
+                                                value={localKeyInput}
+                                                onChange={(e) => setLocalKeyInput(e.target.value)}
+                                            />
+                                        </div>
+                                        <button
+                                            className="btn btn-secondary"
+                                            onClick={handleSaveLocal}
+                                            disabled={isLoadingModels}
+                                        >
+                                            {isLoadingModels ? 'Connecting…' : 'Save & Load Models'}
+                                        </button>
+                                        {localStatus && <p className="settings-hint">{localStatus}</p>}
+                                        <div className="info-box info-box-small">
+                                            <p>
+                                                The browser calls the server directly. For Ollama, allow this page with{' '}
+                                                <code>OLLAMA_ORIGINS={window.location.origin}</code>.
+                                            </p>
+                                        </div>
                                     </div>
-                                </div>
+                                )}
+
+                                {/* API Keys */}
+                                {keyedProviders.map((p) => {
+                                    const savedKey = savedKeys[p.id];
+                                    return (
+                                        <div key={p.id} className="settings-section">
+                                            <h3>🔑 {p.name} API Key {savedKey ? '✅' : ''}</h3>
+                                            <p className="settings-hint">
+                                                Status: <strong style={{ color: savedKey ? '#22c55e' : '#ef4444' }}>
+                                                    {savedKey
+                                                        ? `Configured (${p.key.maskPrefix}${savedKey.slice(-4)})`
+                                                        : '❌ Not configured'}
+                                                </strong>
+                                            </p>
+                                            <div className="form-group">
+                                                <input
+                                                    type="password"
+                                                    className="form-input"
+                                                    placeholder={p.key.placeholder}
+                                                    value={keyInputs[p.id] || ''}
+                                                    onChange={(e) => setKeyInputs((inputs) => ({ ...inputs, [p.id]: e.target.value }))}
+                                                />
+                                            </div>
+                                            <button className="btn btn-secondary" onClick={() => handleSaveKey(p.id)}>
+                                                {justSaved === p.id ? '✓ Saved' : 'Update Key'}
+                                            </button>
+                                            {p.key.consoleUrl && (
+                                                <div className="info-box info-box-small">
+                                                    <p>
+                                                        Get a key at{' '}
+                                                        <a href={p.key.consoleUrl} target="_blank" rel="noopener noreferrer">
+                                                            {new URL(p.key.consoleUrl).hostname}
+                                                        </a>
+                                                    </p>
+                                                </div>
+                                            )}
+                                        </div>
+                                    );
+                                })}
 
                                 {/* Security Warning */}
                                 <div className="info-box" style={{ background: '#fff3cd', border: '1px solid #ffc107' }}>
@@ -275,6 +345,20 @@ export function SettingsButton({ children, className }: SettingsButtonProps) {
                             </div>
                         )}
 
+                        {/* Usage Tab */}
+                        {activeTab === 'usage' && (
+                            <div className="settings-content">
+                                <UsageSummary />
+                            </div>
+                        )}
+
+                        {/* Data Tab */}
+                        {activeTab === 'data' && (
+                            <div className="settings-content">
+                                <ProjectBackup />
+                            </div>
+                        )}
+
                         {/* Help Tab */}
                         {activeTab === 'help' && (
                             <div className="settings-content">
@@ -538,7 +622,7 @@ export function SettingsButton({ children, className }: SettingsButtonProps) {
                                         </div>
                                         <div className="tech-item">
                                             <strong>State</strong>
-                                            <span>Zustand with localStorage persistence</span>
+                                            <span>Zustand with IndexedDB persistence</span>
                                         </div>
                                         <div className="tech-item">
                                             <strong>AI Providers</strong>
@@ -1,13 +1,18 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { SettingsButton } from './SettingsButton';
 import { NewProjectModal } from './NewProjectModal';
+import { ImportSpecModal } from './ImportSpecModal';
 import { ThemeToggle } from './ThemeToggle';
 import { logger, Components } from '../utils/logger';
+import { validateSpec } from '../engine/nedry/validator';
+import { estimateStorageUsage, STORAGE_WARNING_RATIO } from '../utils/backup';
 import { useStore, selectActivePanel, selectExpandedPanel, selectProjects, selectCurrentProjectId } from '../store';
-import { Settings, FileCode, MessageSquare, Eye, Hammer, Plus, FolderOpen, Trash2 } from 'lucide-react';
+import { Settings, FileCode, MessageSquare, Eye, Hammer, Plus, Upload, FolderOpen, Trash2 } from 'lucide-react';
+import { Specification } from '../types';
 
 export function Sidebar() {
     const [showNewProjectModal, setShowNewProjectModal] = useState(false);
+    const [showImportModal, setShowImportModal] = useState(false);
 
     const activePanel = useStore(selectActivePanel);
     const expandedPanel = useStore(selectExpandedPanel);
@@ -18,6 +23,9 @@ export function Sidebar() {
     const createProject = useStore((s) => s.createProject);
     const switchProject = useStore((s) => s.switchProject);
     const deleteProject = useStore((s) => s.deleteProject);
+    const setSpec = useStore((s) => s.setSpec);
+    const setSpecValidation = useStore((s) => s.setSpecValidation);
+    const setConversationPhase = useStore((s) => s.setConversationPhase);
 
     const handleExportLogs = () => {
         logger.downloadLogs();
@@ -40,6 +48,15 @@ export function Sidebar() {
         createProject(name);
     };
 
+    // Seed a new project from an imported spec file
+    const handleImportSpec = (spec: Specification) => {
+        createProject(spec.meta.name || 'Imported Project');
+        setSpec(spec, { source: 'import' });
+        setSpecValidation(validateSpec(spec));
+        setConversationPhase('refining');
+        logger.info(Components.UI, `Imported spec "${spec.meta.name}" as a new project`);
+    };
+
     const handleDeleteProject = (e: React.MouseEvent, projectId: string) => {
         e.stopPropagation();
         if (confirm('Delete this project? This cannot be undone.')) {
@@ -49,6 +66,12 @@ export function Sidebar() {
 
     const errorCount = logger.getErrorCount();
 
+    // Projects are saved whenever they change, so re-measure then
+    const [storageRatio, setStorageRatio] = useState(0);
+    useEffect(() => {
+        estimateStorageUsage().then((usage) => setStorageRatio(usage.ratio));
+    }, [projects]);
+
     return (
         <aside className="sidebar">
             {/* Header */}
@@ -66,13 +89,22 @@ export function Sidebar() {
             <div className="sidebar-section">
                 <div className="sidebar-section-header">
                     <span className="sidebar-section-title">Projects</span>
-                    <button
-                        className="sidebar-add-btn"
-                        onClick={() => setShowNewProjectModal(true)}
-                        title="New Project"
-                    >
-                        <Plus size={14} />
-                    </button>
+                    <div className="sidebar-section-actions">
+                        <button
+                            className="sidebar-add-btn"
+                            onClick={() => setShowImportModal(true)}
+                            title="Import Spec as New Project"
+                        >
+                            <Upload size={14} />
+                        </button>
+                        <button
+                            className="sidebar-add-btn"
+                            onClick={() => setShowNewProjectModal(true)}
+                            title="New Project"
+                        >
+                            <Plus size={14} />
+                        </button>
+                    </div>
                 </div>
                 <div className="project-list">
                     {projects.length === 0 ? (
@@ -105,6 +137,11 @@ export function Sidebar() {
                         ))
                     )}
                 </div>
+                {storageRatio >= STORAGE_WARNING_RATIO && (
+                    <div className="storage-warning" title="Download a backup from Settings → Data">
+                        ⚠️ Storage {Math.round(storageRatio * 100)}% full. Back up and remove old projects.
+                    </div>
+                )}
             </div>
 
             {/* Navigation */}
@@ -175,6 +212,15 @@ export function Sidebar() {
                 onClose={() => setShowNewProjectModal(false)}
                 onSubmit={handleNewProject}
             />
+
+            {/* Import Spec Modal */}
+            <ImportSpecModal
+                isOpen={showImportModal}
+                title="📥 Import Spec"
+                submitLabel="Create Project"
+                onClose={() => setShowImportModal(false)}
+                onImport={handleImportSpec}
+            />
         </aside>
     );
 }
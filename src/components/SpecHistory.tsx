@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { useStore, selectSpecHistory, selectMessages } from '../store';
+import { validateSpec } from '../engine/nedry/validator';
+import { diffSpecs, summarizeChanges, SpecChange } from '../utils/spec-diff';
+import { SpecVersion } from '../types';
+
+// ============================================================
+// SpecHistory - Version timeline with diff and restore
+// ============================================================
+
+export function SpecHistory() {
+    const history = useStore(selectSpecHistory);
+    const messages = useStore(selectMessages);
+    const restoreSpecVersion = useStore((s) => s.restoreSpecVersion);
+    const setSpecValidation = useStore((s) => s.setSpecValidation);
+
+    const latest = history[history.length - 1];
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [baseId, setBaseId] = useState<string | null>(null);
+
+    if (history.length === 0) {
+        return (
+            <div className="spec-empty">
+                <div className="spec-empty-icon">🕘</div>
+                <p className="spec-empty-text">No versions yet</p>
+                <p className="spec-empty-hint">Every change to the spec is recorded here</p>
+            </div>
+        );
+    }
+
+    // Default: compare the latest version with the one before it
+    const selectedIndex = Math.max(0, history.findIndex((v) => v.id === (selectedId || latest.id)));
+    const selected = history[selectedIndex];
+    const base = baseId
+        ? history.find((v) => v.id === baseId) || null
+        : history[selectedIndex - 1] || null;
+    const changes = diffSpecs(base?.spec || null, selected.spec);
+
+    const handleRestore = (version: SpecVersion, index: number) => {
+        if (!confirm(`Restore version ${index + 1}? The current spec is kept in history.`)) return;
+        restoreSpecVersion(version.id);
+        setSpecValidation(validateSpec(version.spec));
+        setSelectedId(null);
+        setBaseId(null);
+    };
+
+    const getMessageExcerpt = (version: SpecVersion): string | null => {
+        if (!version.messageId) return null;
+        const message = messages.find((m) => m.id === version.messageId);
+        if (!message) return null;
+        return message.content.length > 80 ? `${message.content.slice(0, 80)}…` : message.content;
+    };
+
+    return (
+        <div className="spec-history">
+            {/* Timeline (newest first) */}
+            <ol className="spec-history-list">
+                {history.map((version, index) => ({ version, index })).reverse().map(({ version, index }) => {
+                    const excerpt = getMessageExcerpt(version);
+                    const previous = history[index - 1];
+                    const summary = summarizeChanges(diffSpecs(previous?.spec || null, version.spec));
+
+                    return (
+                        <li
+                            key={version.id}
+                            className={`spec-history-item ${version.id === selected.id ? 'selected' : ''}`}
+                            onClick={() => {
+                                setSelectedId(version.id);
+                                setBaseId(null);
+                            }}
+                        >
+                            <div className="spec-history-item-header">
+                                <span className="spec-history-version">v{index + 1}</span>
+                                <span className="spec-card-badge">{getSourceLabel(version, history)}</span>
+                                <span className="spec-history-time">{formatDateTime(version.createdAt)}</span>
+                                {version.id === latest.id ? (
+                                    <span className="spec-history-current">Current</span>
+                                ) : (
+                                    <button
+                                        className="btn btn-sm btn-secondary"
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            handleRestore(version, index);
+                                        }}
+                                    >
+                                        ↩️ Restore
+                                    </button>
+                                )}
+                            </div>
+                            {excerpt && <p className="spec-history-message">💬 “{excerpt}”</p>}
+                            <p className="spec-history-summary">{summary}</p>
+                        </li>
+                    );
+                })}
+            </ol>
+
+            {/* Diff of the selected version */}
+            <div className="spec-history-diff">
+                <div className="spec-history-diff-header">
+                    <span>Changes in v{selectedIndex + 1} compared to</span>
+                    <select
+                        className="spec-input"
+                        value={base?.id || ''}
+                        onChange={(e) => setBaseId(e.target.value || null)}
+                    >
+                        <option value="">(empty spec)</option>
+                        {history.map((v, i) =>
+                            v.id === selected.id ? null : (
+                                <option key={v.id} value={v.id}>v{i + 1}</option>
+                            )
+                        )}
+                    </select>
+                </div>
+                {changes.length === 0 ? (
+                    <p className="spec-empty-hint">No differences</p>
+                ) : (
+                    <ul className="spec-diff-list">
+                        {changes.map((change, i) => (
+                            <DiffRow key={i} change={change} />
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
+
+function DiffRow({ change }: { change: SpecChange }) {
+    const symbol = change.kind === 'added' ? '+' : change.kind === 'removed' ? '−' : '~';
+
+    return (
+        <li className={`spec-diff-item spec-diff-${change.kind}`}>
+            <span className="spec-diff-symbol">{symbol}</span>
+            <div>
+                <span className="spec-diff-label">{change.label}</span>
+                {change.details?.map((detail, i) => (
+                    <div key={i} className="spec-diff-detail">{detail}</div>
+                ))}
+            </div>
+        </li>
+    );
+}
+
+function getSourceLabel(version: SpecVersion, history: SpecVersion[]): string {
+    switch (version.source) {
+        case 'chat':
+            return 'chat';
+        case 'restore': {
+            const index = history.findIndex((v) => v.id === version.restoredFrom);
+            return index >= 0 ? `restored v${index + 1}` : 'restored';
+        }
+        case 'import':
+            return 'imported';
+        default:
+            return 'manual';
+    }
+}
+
+function formatDateTime(timestamp: string): string {
+    const date = new Date(timestamp);
+    return date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+export default SpecHistory;
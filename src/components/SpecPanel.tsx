@@ -1,7 +1,41 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { useStore, selectCurrentSpec } from '../store';
-import { validateSpec, calculateCompleteness } from '../engine/nedry/validator';
-import { Specification, Entity, View, Action } from '../types';
+import { useStore, selectCurrentSpec, selectStreamingDraft } from '../store';
+import { validateSpec, calculateCompleteness, getActionStepErrors } from '../engine/nedry/validator';
+import { normalizeActionSteps } from '../engine/arnold';
+import { handleInput } from '../engine/nedry';
+import { getReferenceFields } from '../engine/nedry/router';
+import { SpecHistory } from './SpecHistory';
+import { ImportSpecModal } from './ImportSpecModal';
+import { serializeSpec, serializeSpecSchema, getSpecFileName, SpecFileFormat } from '../utils/spec-file';
+import { downloadFile } from '../utils/export';
+import { Specification, Entity, Property, Relationship, View, Action, ActionStep, PROPERTY_TYPES } from '../types';
+import {
+    addEntity,
+    updateEntity,
+    removeEntity,
+    moveEntity,
+    addView,
+    updateView,
+    removeView,
+    moveView,
+    addAction,
+    updateAction,
+    removeAction,
+    moveAction,
+    createProperty,
+    createRelationship,
+    setPropertyType,
+    setViewColumn,
+    parseOptions,
+    replaceAt,
+    removeAt,
+    moveItem,
+} from '../utils/spec-edits';
+
+const RELATIONSHIP_TYPES: Relationship['type'][] = ['one-to-one', 'one-to-many', 'many-to-many'];
+const DELETE_RULES: NonNullable<Relationship['onDelete']>[] = ['restrict', 'cascade'];
+const VIEW_TYPES: View['type'][] = ['list', 'form', 'detail', 'dashboard'];
+const ACTION_TRIGGERS: Action['trigger'][] = ['button', 'form_submit', 'auto'];
 
 // ============================================================
 // SpecPanel - Human-Readable Specification Display
@@ -12,13 +46,25 @@ interface SpecPanelProps {
 }
 
 export function SpecPanel({ hideHeader = false }: SpecPanelProps) {
-    const currentSpec = useStore(selectCurrentSpec);
+    const storedSpec = useStore(selectCurrentSpec);
+    const streamingSpec = useStore(selectStreamingDraft)?.spec;
     const setSpec = useStore((s) => s.setSpec);
+    const setSpecValidation = useStore((s) => s.setSpecValidation);
+    const specValidation = useStore((s) => s.specValidation);
+    const messages = useStore((s) => s.messages);
+    const provider = useStore((s) => s.provider);
+    const model = useStore((s) => s.model);
     const conversationPhase = useStore((s) => s.conversationPhase);
     const [showJson, setShowJson] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
+    const [showImport, setShowImport] = useState(false);
     const [editedMeta, setEditedMeta] = useState<{ name: string; description: string } | null>(null);
     const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
 
+    // While Arnold streams, show the spec fragments received so far
+    const isStreaming = !!streamingSpec;
+    const currentSpec = streamingSpec || storedSpec;
+
     const completeness = currentSpec ? calculateCompleteness(currentSpec) : 0;
 
     // Sync edited meta with current spec
@@ -40,10 +86,40 @@ export function SpecPanel({ hideHeader = false }: SpecPanelProps) {
         }
     };
 
+    // Route a manual edit through Nedry so the spec is re-validated
+    const applySpecEdit = useCallback(async (nextSpec: Specification) => {
+        const result = await handleInput({
+            type: 'spec_update',
+            payload: nextSpec,
+            currentState: {
+                messages,
+                currentSpec: storedSpec,
+                specHistory: [],
+                specValidation: null,
+                buildInstructions: null,
+                buildResult: null,
+                buildStatus: 'idle',
+                conversationPhase,
+                conversationSummary: null,
+                activePanel: 'spec',
+                errors: [],
+                provider,
+                model,
+            },
+        });
+
+        if (result.stateUpdate.currentSpec) {
+            setSpec(result.stateUpdate.currentSpec);
+        }
+        if (result.stateUpdate.specValidation) {
+            setSpecValidation(result.stateUpdate.specValidation);
+        }
+    }, [messages, storedSpec, conversationPhase, provider, model, setSpec, setSpecValidation]);
+
     // Save changes to the spec
     const saveMetaChanges = useCallback(() => {
         if (currentSpec && editedMeta && hasUnsavedChanges) {
-            setSpec({
+            applySpecEdit({
                 ...currentSpec,
                 meta: {
                     ...currentSpec.meta,
@@ -53,7 +129,7 @@ export function SpecPanel({ hideHeader = false }: SpecPanelProps) {
             });
             setHasUnsavedChanges(false);
         }
-    }, [currentSpec, editedMeta, hasUnsavedChanges, setSpec]);
+    }, [currentSpec, editedMeta, hasUnsavedChanges, applySpecEdit]);
 
     // Discard changes
     const discardChanges = () => {
@@ -66,28 +142,71 @@ export function SpecPanel({ hideHeader = false }: SpecPanelProps) {
         }
     };
 
+    const handleDownloadSpec = (format: SpecFileFormat) => {
+        if (!storedSpec) return;
+        downloadFile(
+            getSpecFileName(storedSpec, format),
+            serializeSpec(storedSpec, format),
+            format === 'yaml' ? 'application/yaml' : 'application/json'
+        );
+    };
+
+    // Imported files were validated by the modal; keep them as their own history entry
+    const handleImportSpec = (spec: Specification) => {
+        setSpec(spec, { source: 'import' });
+        setSpecValidation(validateSpec(spec));
+        setShowHistory(false);
+    };
+
+    const viewToggles = (
+        <>
+            <button
+                className="panel-toggle-btn"
+                onClick={() => setShowImport(true)}
+                disabled={isStreaming}
+                title="Import spec from JSON or YAML"
+            >
+                📥
+            </button>
+            <button
+                className={`panel-toggle-btn ${showHistory ? 'active' : ''}`}
+                onClick={() => setShowHistory(!showHistory)}
+                title={showHistory ? 'Show specification' : 'Show version history'}
+            >
+                🕘
+            </button>
+            <button
+                className="panel-toggle-btn"
+                onClick={() => {
+                    setShowJson(!showJson);
+                    setShowHistory(false);
+                }}
+                title={showJson ? 'Show structured view' : 'Show JSON'}
+            >
+                {showJson ? '📝' : '{ }'}
+            </button>
+        </>
+    );
+
     return (
         <div className="spec-panel">
             {!hideHeader && (
                 <div className="panel-header">
                     <h2 className="panel-title">📋 Specification</h2>
                     <div className="panel-header-actions">
-                        <span className={`panel-status panel-status-${conversationPhase}`}>
-                            {getPhaseLabel(conversationPhase)}
+                        <span className={`panel-status panel-status-${isStreaming ? 'streaming' : conversationPhase}`}>
+                            {isStreaming ? '📡 Receiving' : getPhaseLabel(conversationPhase)}
                         </span>
-                        <button
-                            className="panel-toggle-btn"
-                            onClick={() => setShowJson(!showJson)}
-                            title={showJson ? 'Show structured view' : 'Show JSON'}
-                        >
-                            {showJson ? '📝' : '{ }'}
-                        </button>
+                        {viewToggles}
                     </div>
                 </div>
             )}
 
             <div className="spec-content">
-                {currentSpec ? (
+                {hideHeader && <div className="spec-toolbar">{viewToggles}</div>}
+                {showHistory ? (
+                    <SpecHistory />
+                ) : currentSpec ? (
                     <>
                         {/* Completeness Bar */}
                         <div className="spec-completeness">
@@ -108,14 +227,37 @@ export function SpecPanel({ hideHeader = false }: SpecPanelProps) {
                             <div className="spec-json-wrapper">
                                 <div className="spec-json-header">
                                     <span className="spec-json-label">Raw Specification (JSON)</span>
-                                    <button
-                                        className="btn btn-sm btn-secondary"
-                                        onClick={() => {
-                                            navigator.clipboard.writeText(JSON.stringify(currentSpec, null, 2));
-                                        }}
-                                    >
-                                        📋 Copy
-                                    </button>
+                                    <div className="spec-edit-actions">
+                                        <button
+                                            className="btn btn-sm btn-secondary"
+                                            onClick={() => {
+                                                navigator.clipboard.writeText(JSON.stringify(currentSpec, null, 2));
+                                            }}
+                                        >
+                                            📋 Copy
+                                        </button>
+                                        <button
+                                            className="btn btn-sm btn-secondary"
+                                            onClick={() => handleDownloadSpec('json')}
+                                            disabled={isStreaming}
+                                        >
+                                            ⬇️ JSON
+                                        </button>
+                                        <button
+                                            className="btn btn-sm btn-secondary"
+                                            onClick={() => handleDownloadSpec('yaml')}
+                                            disabled={isStreaming}
+                                        >
+                                            ⬇️ YAML
+                                        </button>
+                                        <button
+                                            className="btn btn-sm btn-secondary"
+                                            onClick={() => downloadFile('specification.schema.json', serializeSpecSchema(), 'application/schema+json')}
+                                            title="JSON Schema for spec files"
+                                        >
+                                            📐 Schema
+                                        </button>
+                                    </div>
                                 </div>
                                 <pre className="spec-json">
                                     <code>{JSON.stringify(currentSpec, null, 2)}</code>
@@ -128,7 +270,7 @@ export function SpecPanel({ hideHeader = false }: SpecPanelProps) {
                                 <section className="spec-section">
                                     <div className="spec-section-header">
                                         <h3 className="spec-section-title">📱 App Info</h3>
-                                        {hasUnsavedChanges && (
+                                        {hasUnsavedChanges && !isStreaming && (
                                             <div className="spec-edit-actions">
                                                 <button
                                                     className="btn btn-sm btn-primary"
@@ -170,18 +312,47 @@ export function SpecPanel({ hideHeader = false }: SpecPanelProps) {
                                     </div>
                                 </section>
 
-                                {/* Entities - Read-only display */}
+                                {/* Validation issues from the last edit */}
+                                {!isStreaming && specValidation && specValidation.errors.length > 0 && (
+                                    <div className="spec-validation-errors">
+                                        {specValidation.errors.map((error, i) => (
+                                            <p key={i} className="spec-validation-error">
+                                                ⚠️ {error.message}
+                                            </p>
+                                        ))}
+                                    </div>
+                                )}
+
+                                {/* Entities */}
                                 <section className="spec-section">
                                     <div className="spec-section-header">
                                         <h3 className="spec-section-title">
                                             📦 Entities ({currentSpec.entities.length})
                                         </h3>
+                                        {!isStreaming && (
+                                            <button
+                                                className="btn btn-sm btn-secondary"
+                                                onClick={() => applySpecEdit(addEntity(currentSpec))}
+                                            >
+                                                + Entity
+                                            </button>
+                                        )}
                                     </div>
                                     <p className="spec-section-hint">
-                                        Data structures for your app, defined through conversation.
+                                        Data structures for your app. Edit them here or describe changes in the chat.
                                     </p>
-                                    {currentSpec.entities.map((entity) => (
-                                        <EntityCard key={entity.id} entity={entity} />
+                                    {currentSpec.entities.map((entity, index) => (
+                                        <EntityCard
+                                            key={entity.id}
+                                            entity={entity}
+                                            spec={currentSpec}
+                                            readOnly={isStreaming}
+                                            onSave={(next) => applySpecEdit(updateEntity(currentSpec, index, next))}
+                                            onDelete={() => applySpecEdit(removeEntity(currentSpec, index))}
+                                            onMove={(to) => applySpecEdit(moveEntity(currentSpec, index, to))}
+                                            index={index}
+                                            count={currentSpec.entities.length}
+                                        />
                                     ))}
                                     {currentSpec.entities.length === 0 && (
                                         <p className="spec-empty-hint">
@@ -190,18 +361,36 @@ export function SpecPanel({ hideHeader = false }: SpecPanelProps) {
                                     )}
                                 </section>
 
-                                {/* Views - Read-only display */}
+                                {/* Views */}
                                 <section className="spec-section">
                                     <div className="spec-section-header">
                                         <h3 className="spec-section-title">
                                             👁️ Views ({currentSpec.views.length})
                                         </h3>
+                                        {!isStreaming && (
+                                            <button
+                                                className="btn btn-sm btn-secondary"
+                                                onClick={() => applySpecEdit(addView(currentSpec))}
+                                            >
+                                                + View
+                                            </button>
+                                        )}
                                     </div>
                                     <p className="spec-section-hint">
                                         UI screens that display your data.
                                     </p>
-                                    {currentSpec.views.map((view) => (
-                                        <ViewCard key={view.id} view={view} />
+                                    {currentSpec.views.map((view, index) => (
+                                        <ViewCard
+                                            key={view.id}
+                                            view={view}
+                                            spec={currentSpec}
+                                            readOnly={isStreaming}
+                                            onSave={(next) => applySpecEdit(updateView(currentSpec, index, next))}
+                                            onDelete={() => applySpecEdit(removeView(currentSpec, index))}
+                                            onMove={(to) => applySpecEdit(moveView(currentSpec, index, to))}
+                                            index={index}
+                                            count={currentSpec.views.length}
+                                        />
                                     ))}
                                     {currentSpec.views.length === 0 && (
                                         <p className="spec-empty-hint">
@@ -210,18 +399,36 @@ export function SpecPanel({ hideHeader = false }: SpecPanelProps) {
                                     )}
                                 </section>
 
-                                {/* Actions - Read-only display */}
+                                {/* Actions */}
                                 <section className="spec-section">
                                     <div className="spec-section-header">
                                         <h3 className="spec-section-title">
                                             ⚡ Actions ({currentSpec.actions.length})
                                         </h3>
+                                        {!isStreaming && (
+                                            <button
+                                                className="btn btn-sm btn-secondary"
+                                                onClick={() => applySpecEdit(addAction(currentSpec))}
+                                            >
+                                                + Action
+                                            </button>
+                                        )}
                                     </div>
                                     <p className="spec-section-hint">
                                         Operations users can perform on your data.
                                     </p>
-                                    {currentSpec.actions.map((action) => (
-                                        <ActionCard key={action.id} action={action} />
+                                    {currentSpec.actions.map((action, index) => (
+                                        <ActionCard
+                                            key={action.id}
+                                            action={action}
+                                            spec={currentSpec}
+                                            readOnly={isStreaming}
+                                            onSave={(next) => applySpecEdit(updateAction(currentSpec, index, next))}
+                                            onDelete={() => applySpecEdit(removeAction(currentSpec, index))}
+                                            onMove={(to) => applySpecEdit(moveAction(currentSpec, index, to))}
+                                            index={index}
+                                            count={currentSpec.actions.length}
+                                        />
                                     ))}
                                     {currentSpec.actions.length === 0 && (
                                         <p className="spec-empty-hint">
@@ -233,8 +440,8 @@ export function SpecPanel({ hideHeader = false }: SpecPanelProps) {
                                 {/* Help text */}
                                 <div className="spec-help-box">
                                     <p>
-                                        <strong>💡 Tip:</strong> You can edit the App Info above directly.
-                                        To modify Entities, Views, or Actions, describe the changes you want in the Chat
+                                        <strong>💡 Tip:</strong> Click ✏️ on any entity, view or action to edit it.
+                                        Every change is re-validated. You can also describe changes in the Chat
                                         and Artifact will update the specification.
                                     </p>
                                 </div>
@@ -254,17 +461,189 @@ export function SpecPanel({ hideHeader = false }: SpecPanelProps) {
                     </div>
                 )}
             </div>
+
+            <ImportSpecModal
+                isOpen={showImport}
+                title="📥 Import Spec"
+                submitLabel="Replace Spec"
+                onClose={() => setShowImport(false)}
+                onImport={handleImportSpec}
+            />
         </div>
     );
 }
 
-// Entity Card Component - Read-only
-function EntityCard({ entity }: { entity: Entity }) {
+// ------------------------------------------------------------
+// Card Components - Read-only display with inline editors
+// ------------------------------------------------------------
+
+interface EditableCardProps<T> {
+    readOnly: boolean;
+    onSave: (next: T) => void;
+    onDelete: () => void;
+    onMove: (to: number) => void;
+    index: number;
+    count: number;
+}
+
+// Reorder / edit / delete buttons shared by every card
+function CardToolbar({
+    index,
+    count,
+    onMove,
+    onEdit,
+    onDelete,
+}: {
+    index: number;
+    count: number;
+    onMove: (to: number) => void;
+    onEdit: () => void;
+    onDelete: () => void;
+}) {
+    return (
+        <div className="spec-card-toolbar">
+            <button className="spec-icon-btn" onClick={() => onMove(index - 1)} disabled={index === 0} title="Move up">↑</button>
+            <button className="spec-icon-btn" onClick={() => onMove(index + 1)} disabled={index === count - 1} title="Move down">↓</button>
+            <button className="spec-icon-btn" onClick={onEdit} title="Edit">✏️</button>
+            <button className="spec-icon-btn spec-icon-btn-danger" onClick={onDelete} title="Delete">✕</button>
+        </div>
+    );
+}
+
+// Save / Cancel footer for an open editor
+function EditorActions({ onSave, onCancel }: { onSave: () => void; onCancel: () => void }) {
+    return (
+        <div className="spec-editor-actions">
+            <button className="btn btn-sm btn-primary" onClick={onSave}>💾 Save</button>
+            <button className="btn btn-sm btn-secondary" onClick={onCancel}>✕ Cancel</button>
+        </div>
+    );
+}
+
+// Entity Card Component
+function EntityCard({
+    entity,
+    spec,
+    readOnly,
+    onSave,
+    onDelete,
+    onMove,
+    index,
+    count,
+}: { entity: Entity; spec: Specification } & EditableCardProps<Entity>) {
+    const [draft, setDraft] = useState<Entity | null>(null);
+
+    const confirmDelete = () => {
+        if (confirm(`Delete entity "${entity.name}"? Views and relationships that use it are removed too.`)) {
+            onDelete();
+        }
+    };
+
+    if (draft) {
+        const setProperties = (properties: Property[]) => setDraft({ ...draft, properties });
+        const setRelationships = (relationships: Relationship[]) => setDraft({ ...draft, relationships });
+
+        return (
+            <div className="spec-card spec-card-editing">
+                <div className="spec-field">
+                    <label>Entity Name</label>
+                    <input
+                        type="text"
+                        className="spec-input"
+                        value={draft.name}
+                        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    />
+                </div>
+
+                <div className="spec-field">
+                    <label>Properties</label>
+                    {draft.properties.map((prop, i) => (
+                        <PropertyEditor
+                            key={i}
+                            property={prop}
+                            index={i}
+                            count={draft.properties.length}
+                            onChange={(next) => setProperties(replaceAt(draft.properties, i, next))}
+                            onDelete={() => setProperties(removeAt(draft.properties, i))}
+                            onMove={(to) => setProperties(moveItem(draft.properties, i, to))}
+                        />
+                    ))}
+                    <button
+                        className="btn btn-sm btn-secondary"
+                        onClick={() => setProperties([...draft.properties, createProperty(draft.properties)])}
+                    >
+                        + Property
+                    </button>
+                </div>
+
+                <div className="spec-field">
+                    <label>Relationships</label>
+                    {draft.relationships.map((rel, i) => (
+                        <div key={i} className="spec-editor-row">
+                            <select
+                                className="spec-input"
+                                value={rel.type}
+                                onChange={(e) => setRelationships(replaceAt(draft.relationships, i, { ...rel, type: e.target.value as Relationship['type'] }))}
+                            >
+                                {RELATIONSHIP_TYPES.map((t) => <option key={t} value={t}>{t}</option>)}
+                            </select>
+                            <select
+                                className="spec-input"
+                                value={rel.targetEntity}
+                                onChange={(e) => setRelationships(replaceAt(draft.relationships, i, { ...rel, targetEntity: e.target.value }))}
+                            >
+                                {spec.entities.map((e) => <option key={e.id} value={e.id}>{e.name}</option>)}
+                            </select>
+                            <select
+                                className="spec-input"
+                                value={rel.onDelete || 'restrict'}
+                                onChange={(e) => setRelationships(replaceAt(draft.relationships, i, { ...rel, onDelete: e.target.value as Relationship['onDelete'] }))}
+                                title="When a linked item is deleted"
+                            >
+                                {DELETE_RULES.map((r) => <option key={r} value={r}>on delete: {r}</option>)}
+                            </select>
+                            <button
+                                className="spec-icon-btn spec-icon-btn-danger"
+                                onClick={() => setRelationships(removeAt(draft.relationships, i))}
+                                title="Remove relationship"
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        className="btn btn-sm btn-secondary"
+                        onClick={() => setRelationships([...draft.relationships, createRelationship(spec, draft)])}
+                    >
+                        + Relationship
+                    </button>
+                </div>
+
+                <EditorActions
+                    onSave={() => {
+                        onSave(draft);
+                        setDraft(null);
+                    }}
+                    onCancel={() => setDraft(null)}
+                />
+            </div>
+        );
+    }
+
     return (
         <div className="spec-card">
             <div className="spec-card-header">
                 <span className="spec-card-icon">📦</span>
                 <span className="spec-card-title">{entity.name}</span>
+                {!readOnly && (
+                    <CardToolbar
+                        index={index}
+                        count={count}
+                        onMove={onMove}
+                        onEdit={() => setDraft(entity)}
+                        onDelete={confirmDelete}
+                    />
+                )}
             </div>
             <div className="spec-card-body">
                 <div className="spec-property-list">
@@ -275,14 +654,159 @@ function EntityCard({ entity }: { entity: Entity }) {
                             {prop.required && <span className="spec-property-required">*</span>}
                         </div>
                     ))}
+                    {entity.relationships.map((rel, i) => (
+                        <div key={`rel-${i}`} className="spec-property">
+                            <span className="spec-property-name">→ {getEntityName(rel.targetEntity, spec)}</span>
+                            <span className="spec-property-type">{rel.type}{rel.onDelete === 'cascade' ? ', cascade' : ''}</span>
+                        </div>
+                    ))}
                 </div>
             </div>
         </div>
     );
 }
 
-// View Card Component - Read-only
-function ViewCard({ view }: { view: View }) {
+// Single property row inside the entity editor
+function PropertyEditor({
+    property,
+    index,
+    count,
+    onChange,
+    onDelete,
+    onMove,
+}: {
+    property: Property;
+    index: number;
+    count: number;
+    onChange: (next: Property) => void;
+    onDelete: () => void;
+    onMove: (to: number) => void;
+}) {
+    // Keep raw text so typing a trailing comma is not swallowed. Rows are
+    // keyed by index, so after a move or delete this row may show another
+    // property: its options win when the text no longer describes them.
+    const [rawOptionsText, setOptionsText] = useState((property.options || []).join(', '));
+    const options = property.options || [];
+    const optionsText = parseOptions(rawOptionsText).join(',') === options.join(',') ? rawOptionsText : options.join(', ');
+
+    return (
+        <div className="spec-property-editor">
+            <div className="spec-editor-row">
+                <input
+                    type="text"
+                    className="spec-input"
+                    value={property.name}
+                    onChange={(e) => onChange({ ...property, name: e.target.value })}
+                    placeholder="Property name"
+                />
+                <select
+                    className="spec-input"
+                    value={property.type}
+                    onChange={(e) => {
+                        const next = setPropertyType(property, e.target.value as Property['type']);
+                        setOptionsText((next.options || []).join(', '));
+                        onChange(next);
+                    }}
+                >
+                    {PROPERTY_TYPES.map((t) => <option key={t} value={t}>{t}</option>)}
+                </select>
+                <label className="spec-checkbox-label" title="Required">
+                    <input
+                        type="checkbox"
+                        checked={property.required}
+                        onChange={(e) => onChange({ ...property, required: e.target.checked })}
+                    />
+                    req
+                </label>
+                <button className="spec-icon-btn" onClick={() => onMove(index - 1)} disabled={index === 0} title="Move up">↑</button>
+                <button className="spec-icon-btn" onClick={() => onMove(index + 1)} disabled={index === count - 1} title="Move down">↓</button>
+                <button className="spec-icon-btn spec-icon-btn-danger" onClick={onDelete} title="Remove property">✕</button>
+            </div>
+            {property.type === 'enum' && (
+                <input
+                    type="text"
+                    className="spec-input spec-options-input"
+                    value={optionsText}
+                    onChange={(e) => {
+                        setOptionsText(e.target.value);
+                        onChange({ ...property, options: parseOptions(e.target.value) });
+                    }}
+                    placeholder="Options, comma separated"
+                />
+            )}
+            {property.type === 'currency' && (
+                <input
+                    type="text"
+                    className="spec-input spec-options-input"
+                    value={property.currency || ''}
+                    maxLength={3}
+                    onChange={(e) => {
+                        const code = e.target.value.toUpperCase();
+                        const next: Property = { ...property, currency: code };
+                        if (!code) delete next.currency;
+                        onChange(next);
+                    }}
+                    placeholder="Currency code (USD)"
+                />
+            )}
+        </div>
+    );
+}
+
+// View Card Component
+function ViewCard({
+    view,
+    spec,
+    readOnly,
+    onSave,
+    onDelete,
+    onMove,
+    index,
+    count,
+}: { view: View; spec: Specification } & EditableCardProps<View>) {
+    const [draft, setDraft] = useState<View | null>(null);
+
+    if (draft) {
+        return (
+            <div className="spec-card spec-card-editing">
+                <div className="spec-editor-row">
+                    <input
+                        type="text"
+                        className="spec-input"
+                        value={draft.name}
+                        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                        placeholder="View name"
+                    />
+                    <select
+                        className="spec-input"
+                        value={draft.type}
+                        onChange={(e) => setDraft({ ...draft, type: e.target.value as View['type'] })}
+                    >
+                        {VIEW_TYPES.map((t) => <option key={t} value={t}>{t}</option>)}
+                    </select>
+                    <select
+                        className="spec-input"
+                        value={draft.entity}
+                        onChange={(e) => setDraft({ ...draft, entity: e.target.value })}
+                    >
+                        <option value="">No entity</option>
+                        {spec.entities.map((e) => <option key={e.id} value={e.id}>{e.name}</option>)}
+                    </select>
+                </div>
+                {draft.type === 'list' && draft.entity && (
+                    <ListViewOptions view={draft} spec={spec} onChange={setDraft} />
+                )}
+                <EditorActions
+                    onSave={() => {
+                        onSave(draft);
+                        setDraft(null);
+                    }}
+                    onCancel={() => setDraft(null)}
+                />
+            </div>
+        );
+    }
+
     return (
         <div className="spec-card spec-card-small">
             <span className="spec-card-icon">
@@ -290,21 +814,220 @@ function ViewCard({ view }: { view: View }) {
             </span>
             <span className="spec-card-title">{view.name}</span>
             <span className="spec-card-badge">{view.type}</span>
+            {!readOnly && (
+                <CardToolbar
+                    index={index}
+                    count={count}
+                    onMove={onMove}
+                    onEdit={() => setDraft(view)}
+                    onDelete={onDelete}
+                />
+            )}
         </div>
     );
 }
 
-// Action Card Component - Read-only
-function ActionCard({ action }: { action: Action }) {
+// Layout, page size and visible columns of a list view
+function ListViewOptions({ view, spec, onChange }: { view: View; spec: Specification; onChange: (view: View) => void }) {
+    const entity = spec.entities.find((e) => e.id === view.entity);
+    if (!entity) return null;
+
+    const references = getReferenceFields(spec).filter((r) => r.entityId === entity.id);
+    const fields = [
+        ...entity.properties.map((p) => p.name).filter((name) => !references.some((r) => r.field === name)),
+        ...references.map((r) => r.field),
+    ];
+    const labelOf = (field: string) => references.find((r) => r.field === field)?.targetName || field;
+
+    return (
+        <>
+            <div className="spec-editor-row">
+                <select
+                    className="spec-input"
+                    value={view.layout || 'table'}
+                    onChange={(e) => onChange({ ...view, layout: e.target.value as NonNullable<View['layout']> })}
+                >
+                    <option value="table">Table</option>
+                    <option value="cards">Cards</option>
+                </select>
+                <input
+                    type="number"
+                    className="spec-input"
+                    min={1}
+                    value={view.pageSize ?? ''}
+                    onChange={(e) => {
+                        const next: View = { ...view, pageSize: Math.max(1, Math.floor(Number(e.target.value))) };
+                        if (!e.target.value) delete next.pageSize;
+                        onChange(next);
+                    }}
+                    placeholder="20 per page"
+                    title="Items per page"
+                />
+            </div>
+            <div className="spec-editor-row spec-columns">
+                {fields.map((field) => (
+                    <label key={field} className="spec-checkbox-label">
+                        <input
+                            type="checkbox"
+                            checked={!view.columns?.length || view.columns.includes(field)}
+                            onChange={(e) => onChange(setViewColumn(view, fields, field, e.target.checked))}
+                        />
+                        {labelOf(field)}
+                    </label>
+                ))}
+            </div>
+        </>
+    );
+}
+
+// Action Card Component
+function ActionCard({
+    action,
+    spec,
+    readOnly,
+    onSave,
+    onDelete,
+    onMove,
+    index,
+    count,
+}: { action: Action; spec: Specification } & EditableCardProps<Action>) {
+    const [draft, setDraft] = useState<Action | null>(null);
+    const [stepsText, setStepsText] = useState('');
+    const [stepsError, setStepsError] = useState<string | null>(null);
+
+    const startEditing = () => {
+        setDraft(action);
+        setStepsText(JSON.stringify(action.steps || [], null, 2));
+        setStepsError(null);
+    };
+
+    const saveDraft = (current: Action) => {
+        let steps: ActionStep[];
+        try {
+            const parsed: unknown = JSON.parse(stepsText || '[]');
+            if (!Array.isArray(parsed)) throw new Error('Steps must be a JSON array');
+            // Normalizing drops what it does not understand; report it instead
+            const unknown = parsed.findIndex((raw) => normalizeActionSteps([raw]).length === 0);
+            if (unknown > -1) throw new Error(`Step ${unknown + 1} needs a known "op"`);
+            steps = normalizeActionSteps(parsed);
+        } catch (error) {
+            setStepsError(error instanceof Error ? error.message : 'Invalid JSON');
+            return;
+        }
+
+        const next = { ...current, steps };
+        const errors = getActionStepErrors(spec, next);
+        if (errors.length > 0) {
+            setStepsError(errors.map((e) => e.message).join('; '));
+            return;
+        }
+        onSave(next);
+        setDraft(null);
+    };
+
+    if (draft) {
+        return (
+            <div className="spec-card spec-card-editing">
+                <div className="spec-editor-row">
+                    <input
+                        type="text"
+                        className="spec-input"
+                        value={draft.name}
+                        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                        placeholder="Action name"
+                    />
+                    <select
+                        className="spec-input"
+                        value={draft.trigger}
+                        onChange={(e) => setDraft({ ...draft, trigger: e.target.value as Action['trigger'] })}
+                    >
+                        {ACTION_TRIGGERS.map((t) => <option key={t} value={t}>{t}</option>)}
+                    </select>
+                </div>
+                <div className="spec-field">
+                    <label>Logic</label>
+                    <textarea
+                        className="spec-textarea"
+                        rows={2}
+                        value={draft.logic}
+                        onChange={(e) => setDraft({ ...draft, logic: e.target.value })}
+                        placeholder="What happens when this action runs"
+                    />
+                </div>
+                <div className="spec-field">
+                    <label>Entity</label>
+                    <select
+                        className="spec-input"
+                        value={draft.entity || ''}
+                        onChange={(e) => setDraft({ ...draft, entity: e.target.value || undefined })}
+                    >
+                        <option value="">(none)</option>
+                        {spec.entities.map((e) => <option key={e.id} value={e.id}>{e.name}</option>)}
+                    </select>
+                </div>
+                <div className="spec-field">
+                    <label>Steps (JSON)</label>
+                    <textarea
+                        className="spec-textarea spec-code-input"
+                        rows={4}
+                        value={stepsText}
+                        onChange={(e) => setStepsText(e.target.value)}
+                        placeholder='[{ "op": "set", "property": "status", "value": "done" }]'
+                    />
+                    {stepsError && <p className="spec-validation-error">{stepsError}</p>}
+                </div>
+                <EditorActions
+                    onSave={() => saveDraft(draft)}
+                    onCancel={() => setDraft(null)}
+                />
+            </div>
+        );
+    }
+
     return (
         <div className="spec-card spec-card-small">
             <span className="spec-card-icon">⚡</span>
             <span className="spec-card-title">{action.name}</span>
             <span className="spec-card-badge">{action.trigger}</span>
+            {action.steps && action.steps.length > 0 && (
+                <span className="spec-card-badge" title={action.steps.map(describeStep).join('\n')}>
+                    {action.steps.length} step{action.steps.length === 1 ? '' : 's'}
+                </span>
+            )}
+            {!readOnly && (
+                <CardToolbar
+                    index={index}
+                    count={count}
+                    onMove={onMove}
+                    onEdit={startEditing}
+                    onDelete={onDelete}
+                />
+            )}
         </div>
     );
 }
 
+function describeStep(step: ActionStep): string {
+    switch (step.op) {
+        case 'set':
+            return `set ${step.property} to ${String(step.value)}`;
+        case 'set_all':
+            return `set ${step.property} to ${String(step.value)} on all items`;
+        case 'toggle':
+            return `toggle ${step.property}`;
+        case 'increment':
+            return `increment ${step.property} by ${step.by ?? 1}`;
+        case 'duplicate':
+            return 'duplicate item';
+        case 'navigate':
+            return `go to ${step.view}`;
+    }
+}
+
+function getEntityName(entityId: string, spec: Specification): string {
+    return spec.entities.find((e) => e.id === entityId)?.name || entityId;
+}
+
 function getPhaseLabel(phase: string): string {
     switch (phase) {
         case 'gathering': return '🔍 Gathering';
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { useStore } from '../store';
+import { getProvider } from '../api/providers';
+import {
+    mergeUsage,
+    getTotalCost,
+    getTotalTokens,
+    getUsageBudget,
+    setUsageBudget,
+    formatCost,
+    formatTokens,
+} from '../utils/usage';
+
+// ============================================================
+// UsageSummary - Settings section with token and cost totals
+// ============================================================
+
+export function UsageSummary() {
+    const projects = useStore((s) => s.projects);
+
+    const [budget, setBudget] = useState<number | null>(() => getUsageBudget());
+    const [budgetInput, setBudgetInput] = useState(() => (budget ? String(budget) : ''));
+
+    const byModel = mergeUsage(projects);
+    const totalCost = getTotalCost(byModel);
+    const unpricedCalls = byModel.reduce((sum, entry) => sum + entry.unpricedCalls, 0);
+    const usedProjects = projects
+        .filter((p) => p.usage?.length)
+        .sort((a, b) => getTotalCost(b.usage) - getTotalCost(a.usage));
+
+    const handleSaveBudget = () => {
+        const value = Number(budgetInput);
+        const next = value > 0 ? value : null;
+        setUsageBudget(next);
+        setBudget(next);
+        setBudgetInput(next ? String(next) : '');
+    };
+
+    return (
+        <div className="settings-section">
+            <h3>📊 Token Usage</h3>
+            <p className="settings-hint">
+                Estimated from each provider's list prices. Check your provider dashboard for billed amounts.
+            </p>
+
+            {byModel.length === 0 ? (
+                <p className="settings-hint">No LLM calls recorded yet.</p>
+            ) : (
+                <>
+                    <div className="usage-totals">
+                        <div>
+                            <strong>{formatCost(totalCost)}</strong>
+                            <span>estimated cost</span>
+                        </div>
+                        <div>
+                            <strong>{formatTokens(getTotalTokens(byModel))}</strong>
+                            <span>tokens</span>
+                        </div>
+                        <div>
+                            <strong>{byModel.reduce((sum, entry) => sum + entry.calls, 0)}</strong>
+                            <span>calls</span>
+                        </div>
+                    </div>
+
+                    <table className="usage-table">
+                        <thead>
+                            <tr>
+                                <th>Model</th>
+                                <th>Calls</th>
+                                <th>Input</th>
+                                <th>Output</th>
+                                <th>Cost</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {byModel.map((entry) => (
+                                <tr key={`${entry.provider}/${entry.model}`}>
+                                    <td>
+                                        {entry.model}
+                                        <span className="usage-provider">{getProvider(entry.provider)?.name || entry.provider}</span>
+                                    </td>
+                                    <td>{entry.calls}</td>
+                                    <td>{formatTokens(entry.inputTokens)}</td>
+                                    <td>{formatTokens(entry.outputTokens)}</td>
+                                    <td>{entry.unpricedCalls === entry.calls ? '—' : formatCost(entry.cost)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+
+                    <table className="usage-table">
+                        <thead>
+                            <tr>
+                                <th>Project</th>
+                                <th>Tokens</th>
+                                <th>Cost</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {usedProjects.map((project) => {
+                                const cost = getTotalCost(project.usage);
+                                return (
+                                    <tr key={project.id} className={budget !== null && cost >= budget ? 'usage-over-budget' : ''}>
+                                        <td>{project.name}</td>
+                                        <td>{formatTokens(getTotalTokens(project.usage))}</td>
+                                        <td>{formatCost(cost)}</td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+
+                    {unpricedCalls > 0 && (
+                        <p className="settings-hint">
+                            {unpricedCalls} call(s) used models without a known price and are not included in the cost.
+                        </p>
+                    )}
+                </>
+            )}
+
+            <div className="form-group usage-budget">
+                <label htmlFor="usage-budget">Budget per project (USD)</label>
+                <div className="usage-budget-row">
+                    <input
+                        id="usage-budget"
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        className="form-input"
+                        placeholder="No budget"
+                        value={budgetInput}
+                        onChange={(e) => setBudgetInput(e.target.value)}
+                    />
+                    <button className="btn btn-secondary" onClick={handleSaveBudget}>
+                        {budgetInput ? 'Set Budget' : 'Clear'}
+                    </button>
+                </div>
+                <p className="settings-hint">
+                    {budget !== null
+                        ? `You'll be asked to confirm before sending once a project reaches ${formatCost(budget)}.`
+                        : 'Optional. Messages are never blocked; you are asked to confirm once a project reaches it.'}
+                </p>
+            </div>
+        </div>
+    );
+}
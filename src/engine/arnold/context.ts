@@ -0,0 +1,123 @@
+// ============================================================
+// Mini-Arnold - Conversation Context Budget
+// ============================================================
+//
+// The conversation history is trimmed to a per-model token budget before
+// each call. Messages that no longer fit are folded into the project's
+// ConversationSummary, which is sent in their place.
+
+import { ConversationSummary, Message, Provider } from '../../types';
+import { getContextWindow } from '../../api/providers/registry';
+
+// Rough tokenizer-free estimate; good enough for budgeting
+const CHARS_PER_TOKEN = 4;
+
+// Role and formatting overhead per message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Share of the context window the history may use; the rest holds the
+// system prompt, the spec outline and the reply
+const HISTORY_SHARE = 0.5;
+
+// Even large windows stop here: long histories are slow and expensive
+const MAX_HISTORY_TOKENS = 24_000;
+
+// After summarizing, the recent messages kept verbatim fill at most this
+// share of the budget, so the next turns fit without summarizing again
+const KEEP_SHARE = 0.5;
+
+export interface ContextPlan {
+    summary: ConversationSummary | null; // The summary in effect, if it still covers any message
+    recent: Message[]; // Sent as they are
+    toSummarize: Message[]; // Older messages that no longer fit and are not yet in the summary
+    tokens: number; // Estimated tokens of the summary and the recent messages
+    budget: number;
+}
+
+export interface ContextUsage {
+    tokens: number;
+    budget: number;
+    ratio: number; // tokens / budget
+    summarizedMessages: number; // Messages represented by the summary
+}
+
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(messages: Pick<Message, 'content'>[]): number {
+    return messages.reduce((sum, m) => sum + estimateTokens(m.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+}
+
+/**
+ * Tokens of conversation history to send to a model.
+ */
+export function getHistoryBudget(provider: Provider, model: string): number {
+    return Math.min(Math.floor(getContextWindow(provider, model) * HISTORY_SHARE), MAX_HISTORY_TOKENS);
+}
+
+/**
+ * Split the history into what is sent as-is and what has to be folded
+ * into the summary first. The newest message is always kept.
+ */
+export function planContext(
+    history: Message[],
+    summary: ConversationSummary | null,
+    budget: number
+): ContextPlan {
+    const covered = getCoveredCount(history, summary);
+    const current = covered > 0 ? summary : null;
+    const uncovered = history.slice(covered);
+    const summaryTokens = current ? estimateTokens(current.text) : 0;
+    const uncoveredTokens = estimateMessageTokens(uncovered);
+
+    if (summaryTokens + uncoveredTokens <= budget) {
+        return { summary: current, recent: uncovered, toSummarize: [], tokens: summaryTokens + uncoveredTokens, budget };
+    }
+
+    const keep = takeNewest(uncovered, Math.floor(budget * KEEP_SHARE));
+    const recent = uncovered.slice(uncovered.length - keep);
+    return {
+        summary: current,
+        recent,
+        toSummarize: uncovered.slice(0, uncovered.length - keep),
+        tokens: summaryTokens + estimateMessageTokens(recent),
+        budget,
+    };
+}
+
+/**
+ * How full the next request's history budget is, for the chat indicator.
+ */
+export function getContextUsage(
+    history: Message[],
+    summary: ConversationSummary | null,
+    provider: Provider,
+    model: string
+): ContextUsage {
+    const budget = getHistoryBudget(provider, model);
+    const covered = getCoveredCount(history, summary);
+    const tokens = (covered > 0 && summary ? estimateTokens(summary.text) : 0) + estimateMessageTokens(history.slice(covered));
+    return { tokens, budget, ratio: tokens / budget, summarizedMessages: covered };
+}
+
+/**
+ * Number of leading messages the summary stands in for. A summary whose
+ * last message is gone (e.g. the chat was cleared) covers nothing.
+ */
+function getCoveredCount(history: Message[], summary: ConversationSummary | null): number {
+    if (!summary) return 0;
+    return history.findIndex((m) => m.id === summary.throughMessageId) + 1;
+}
+
+// Count of messages, from the end, that fit in `tokens` (at least one)
+function takeNewest(messages: Message[], tokens: number): number {
+    let used = 0;
+    let count = 0;
+    for (let i = messages.length - 1; i >= 0; i--) {
+        used += estimateMessageTokens([messages[i]]);
+        if (used > tokens && count > 0) break;
+        count++;
+    }
+    return count;
+}
@@ -1,11 +1,24 @@
-import { callLLM, getProviderErrorMessage } from '../../api/providers';
-import { SYSTEM_PROMPT, buildUserPrompt, buildConversationContext } from './prompts';
+import { callLLM } from '../../api/providers';
+import { InvalidResponseError } from '../../api/providers/errors';
+import { SYSTEM_PROMPT, buildUserPrompt, buildConversationContext, buildRepairPrompt } from './prompts';
+import { parsePartialJson } from './partial-json';
+import { repairJson } from './json-repair';
+import { ARNOLD_RESPONSE_FORMAT } from './schema';
+import { validateSpecShape } from '../nedry/validator';
 import {
     ArnoldInput,
     ArnoldOutput,
+    ArnoldPartialOutput,
     Specification,
     Message,
+    ActionStep,
+    ActionValue,
+    Property,
+    PROPERTY_TYPES,
     createTimestamp,
+    LLMMessage,
+    LLMDeltaHandler,
+    SpecPatchOperation,
 } from '../../types';
 import { logger, Components } from '../../utils/logger';
 
@@ -13,6 +26,9 @@ import { logger, Components } from '../../utils/logger';
 // Mini-Arnold - Documentation Engine
 // ============================================================
 
+// Extra calls allowed to correct a reply that isn't valid JSON
+export const MAX_REPAIR_ATTEMPTS = 2;
+
 /**
  * Process a user message and generate a specification or clarifying question.
  *
@@ -25,113 +41,149 @@ export async function processMessage(input: ArnoldInput): Promise<ArnoldOutput>
         messageLength: input.message.length,
         hasSpec: !!input.currentSpec,
         historyLength: input.conversationHistory.length,
+        hasSummary: !!input.conversationSummary,
     });
 
     try {
         // Build the conversation history for context
         const conversationMessages = buildConversationContext(
-            input.conversationHistory.map((m) => ({ role: m.role, content: m.content }))
+            input.conversationHistory.map((m) => ({ role: m.role, content: m.content })),
+            input.conversationSummary
         );
 
         // Build the user prompt with current spec context
         const userPrompt = buildUserPrompt(input.message, input.currentSpec);
 
         // Prepare API request
-        const messages = [
+        const messages: LLMMessage[] = [
             { role: 'system' as const, content: SYSTEM_PROMPT },
             ...conversationMessages,
             { role: 'user' as const, content: userPrompt },
         ];
 
-        logger.debug(Components.ARNOLD, `Calling ${input.provider}`, { totalMessages: messages.length });
-
-        // Call LLM with JSON response format
-        const response = await callLLM({
-            provider: input.provider,
-            model: input.model,
-            messages,
-            responseFormat: { type: 'json_object' },
-        });
-
-        const responseText = response.text;
-
-        // Parse the response
-        const parsed = parseArnoldResponse(responseText);
-
-        logger.info(Components.ARNOLD, 'Response parsed successfully', {
-            type: parsed.type,
-            confidence: parsed.confidence,
-            hasSpec: !!parsed.spec,
+        logger.debug(Components.ARNOLD, `Calling ${input.provider}`, {
+            totalMessages: messages.length,
+            streaming: !!input.onPartial,
         });
 
-        return parsed;
+        let responseText = '';
+        let usage: ArnoldOutput['usage'];
+
+        // Re-prompt with the parse error when the reply can't be read
+        for (let attempt = 0; ; attempt++) {
+            // Stream when the caller wants partial results
+            const onDelta = input.onPartial ? createPartialEmitter(input.onPartial) : undefined;
+
+            // Call LLM with JSON response format
+            const response = await callLLM({
+                provider: input.provider,
+                model: input.model,
+                messages,
+                responseFormat: ARNOLD_RESPONSE_FORMAT,
+                stream: !!onDelta,
+                onDelta,
+                signal: input.signal,
+                queueKey: input.projectId,
+            });
+
+            responseText = response.text;
+            usage = addTokens(usage, response.usage);
+
+            try {
+                const parsed = parseArnoldResponse(responseText, !!response.structured);
+
+                logger.info(Components.ARNOLD, 'Response parsed successfully', {
+                    type: parsed.type,
+                    confidence: parsed.confidence,
+                    hasSpec: !!parsed.spec,
+                    patchOperations: parsed.patch?.length ?? 0,
+                    attempts: attempt + 1,
+                    usage,
+                });
+
+                return { ...parsed, usage };
+            } catch (error) {
+                const reason = error instanceof Error ? error.message : String(error);
+                logger.warn(Components.ARNOLD, `Unreadable response (attempt ${attempt + 1} of ${MAX_REPAIR_ATTEMPTS + 1})`, {
+                    reason,
+                    raw: responseText,
+                });
+
+                if (attempt >= MAX_REPAIR_ATTEMPTS) {
+                    throw new InvalidResponseError({ provider: input.provider, detail: reason });
+                }
+
+                messages.push(
+                    { role: 'assistant' as const, content: responseText },
+                    { role: 'user' as const, content: buildRepairPrompt(reason) }
+                );
+            }
+        }
     } catch (error) {
+        // Provider failures are LLMErrors; Nedry reports them to the user
         logger.error(Components.ARNOLD, 'Processing error', { error });
-        console.error('Arnold: Full error:', error);
-
-        // Handle specific error types
-        if (error instanceof Error) {
-            console.error('Arnold: Error message:', error.message);
-
-            if (error.message === 'API_KEY_MISSING') {
-                return {
-                    type: 'question',
-                    question: "🔑 **API Key Required**\n\nPlease configure your OpenAI API key in Settings (⚙️) to start building specifications.\n\nI need access to GPT-4 to understand your requirements and build a structured specification.",
-                    confidence: 0,
-                };
-            }
-            if (error.message === 'API_KEY_INVALID') {
-                return {
-                    type: 'question',
-                    question: "⚠️ **Invalid API Key**\n\nYour OpenAI API key appears to be invalid. Please check it in Settings (⚙️).\n\nMake sure you're using a valid key from platform.openai.com/api-keys",
-                    confidence: 0,
-                };
-            }
-            if (error.message === 'RATE_LIMITED') {
-                return {
-                    type: 'question',
-                    question: "⏳ **Temporarily Rate Limited**\n\nOpenAI has temporarily rate-limited your requests. The system retried automatically but limits persist. Please wait 30 seconds and try again.",
-                    confidence: 0,
-                };
-            }
-            if (error.message === 'QUOTA_EXCEEDED') {
-                return {
-                    type: 'question',
-                    question: "🚫 **Quota Exceeded**\n\nYour OpenAI account has exceeded its quota. Please check your usage and billing at [platform.openai.com](https://platform.openai.com).",
-                    confidence: 0,
-                };
-            }
-            if (error.message === 'BILLING_ERROR') {
-                return {
-                    type: 'question',
-                    question: "💳 **Billing Issue**\n\nYour OpenAI account has a billing issue. Please add a payment method at [platform.openai.com](https://platform.openai.com).",
-                    confidence: 0,
-                };
-            }
-            if (error.message === 'REQUEST_IN_FLIGHT') {
-                return {
-                    type: 'question',
-                    question: "⏳ **Request In Progress**\n\nA request is already being processed. Please wait for it to complete.",
-                    confidence: 0,
-                };
-            }
+        throw error;
+    }
+}
 
-            // Return the actual error for debugging
-            return {
-                type: 'question',
-                question: `⚠️ **Error**: ${error.message}\n\nPlease check the browser console for more details.`,
-                confidence: 0,
-            };
+// ------------------------------------------------------------
+// Streaming
+// ------------------------------------------------------------
+
+/**
+ * Build a delta handler that re-parses the accumulated text and reports
+ * the question and spec fragments received so far.
+ */
+function createPartialEmitter(onPartial: (partial: ArnoldPartialOutput) => void): LLMDeltaHandler {
+    let text = '';
+    let lastEmitted = '';
+    let currentAttempt = 0;
+
+    return (delta, attempt = 0) => {
+        // A retried call streams its response from the start
+        if (attempt !== currentAttempt) {
+            currentAttempt = attempt;
+            text = '';
         }
+        text += delta;
 
-        // Generic fallback
-        return {
-            type: 'question',
-            question:
-                "I encountered an issue understanding that. Could you rephrase your request?",
-            confidence: 0,
-        };
+        const partial = parsePartialResponse(text);
+        if (!partial) return;
+
+        // Skip deltas that did not change anything visible (e.g. mid-key)
+        const serialized = JSON.stringify(partial);
+        if (serialized === lastEmitted) return;
+        lastEmitted = serialized;
+
+        onPartial(partial);
+    };
+}
+
+/**
+ * Parse an incomplete Arnold response into whatever fields are readable.
+ */
+export function parsePartialResponse(text: string): ArnoldPartialOutput | null {
+    const parsed = parsePartialJson(stripMarkdownCodeBlocks(text));
+    if (!parsed || typeof parsed !== 'object') return null;
+
+    const raw = parsed as Record<string, unknown>;
+    const partial: ArnoldPartialOutput = {};
+
+    if (typeof raw.type === 'string' && ['question', 'spec_update', 'spec_complete'].includes(raw.type)) {
+        partial.type = raw.type as ArnoldOutput['type'];
+    }
+    if (typeof raw.question === 'string') {
+        partial.question = raw.question;
+    }
+    if (raw.spec && typeof raw.spec === 'object') {
+        try {
+            partial.spec = normalizeSpec(raw.spec as Record<string, unknown>);
+        } catch {
+            // Fragment not yet normalizable; wait for more text
+        }
     }
+
+    return partial;
 }
 
 // ------------------------------------------------------------
@@ -163,45 +215,110 @@ function stripMarkdownCodeBlocks(text: string): string {
     return cleaned.trim();
 }
 
-function parseArnoldResponse(responseText: string): ArnoldOutput {
-    try {
-        // Strip markdown code blocks if present (Claude often wraps JSON this way)
-        const cleanedText = stripMarkdownCodeBlocks(responseText);
-        const parsed = JSON.parse(cleanedText);
+/**
+ * Read Arnold's JSON reply, repairing common defects first. Throws with
+ * a reason the model can act on when the reply is unusable.
+ *
+ * A `structured` reply was generated against ARNOLD_RESPONSE_SCHEMA, so
+ * its spec is used as-is once the shape checks out; normalizeSpec()
+ * patches everything else.
+ */
+function parseArnoldResponse(responseText: string, structured = false): ArnoldOutput {
+    const repaired = repairJson(responseText);
+    if (!repaired || !repaired.value || typeof repaired.value !== 'object') {
+        throw new Error('The response is not a JSON object');
+    }
+    if (repaired.repairs.length > 0) {
+        logger.debug(Components.ARNOLD, 'Repaired response JSON', { repairs: repaired.repairs });
+    }
 
-        // Validate response structure
-        if (!parsed.type || !['question', 'spec_update', 'spec_complete'].includes(parsed.type)) {
-            throw new Error('Invalid response type');
-        }
+    // Strict schemas send absent optional fields as null
+    const parsed = dropNulls(repaired.value) as Record<string, unknown>;
+
+    // Validate response structure
+    if (typeof parsed.type !== 'string' || !['question', 'spec_update', 'spec_complete'].includes(parsed.type)) {
+        throw new Error('"type" must be "question", "spec_update" or "spec_complete"');
+    }
+    if (parsed.type === 'question' && (typeof parsed.question !== 'string' || !parsed.question.trim())) {
+        throw new Error('A "question" response needs the question text in "question"');
+    }
 
-        // Ensure confidence is a number between 0 and 1
-        const confidence = typeof parsed.confidence === 'number'
-            ? Math.max(0, Math.min(1, parsed.confidence))
-            : 0.5;
+    // Ensure confidence is a number between 0 and 1
+    const confidence = typeof parsed.confidence === 'number'
+        ? Math.max(0, Math.min(1, parsed.confidence))
+        : 0.5;
 
-        // Process the spec if present
-        let spec: Specification | undefined;
-        if (parsed.spec) {
-            spec = normalizeSpec(parsed.spec);
-        }
+    // Process the spec if present
+    let spec: Specification | undefined;
+    if (parsed.spec && typeof parsed.spec === 'object') {
+        const raw = parsed.spec as Record<string, unknown>;
+        spec = (structured && readStructuredSpec(raw)) || normalizeSpec(raw);
+    }
 
-        return {
-            type: parsed.type,
-            question: parsed.question,
-            spec,
-            confidence,
-        };
-    } catch (error) {
-        console.error('Failed to parse Arnold response:', error);
-        console.error('Raw response:', responseText);
+    return {
+        type: parsed.type as ArnoldOutput['type'],
+        question: parsed.question as string | undefined,
+        spec,
+        patch: readPatch(parsed.patch),
+        confidence,
+    };
+}
 
-        // Return a fallback asking for clarification
-        return {
-            type: 'question',
-            question: "I need more information. What kind of app would you like to build?",
-            confidence: 0,
-        };
+/**
+ * Well-formed patch operations; Nedry checks that they apply. Throws when
+ * any operation is malformed, since applying the rest would leave the
+ * change half done.
+ */
+function readPatch(raw: unknown): SpecPatchOperation[] | undefined {
+    if (!Array.isArray(raw) || raw.length === 0) return undefined;
+    raw.forEach((operation, index) => {
+        if (
+            !operation ||
+            !['add', 'replace', 'remove'].includes(operation.op) ||
+            typeof operation.path !== 'string'
+        ) {
+            throw new Error(
+                `Patch operation ${index + 1} needs "op" set to "add", "replace" or "remove" and a "path" string`
+            );
+        }
+    });
+    return raw as SpecPatchOperation[];
+}
+
+/**
+ * A schema-conforming spec, with the creation time filled in, or null
+ * when it doesn't match the schema after all.
+ */
+function readStructuredSpec(raw: Record<string, unknown>): Specification | null {
+    const meta = (raw.meta || {}) as Record<string, unknown>;
+    const spec = { ...raw, meta: { ...meta, createdAt: meta.createdAt || createTimestamp() } };
+
+    const shapeErrors = validateSpecShape(spec);
+    if (shapeErrors.length > 0) {
+        logger.warn(Components.ARNOLD, 'Structured spec does not match the schema, normalizing', {
+            errors: shapeErrors.map((e) => e.message),
+        });
+        return null;
     }
+    return spec as unknown as Specification;
+}
+
+function dropNulls(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(dropNulls);
+    if (!value || typeof value !== 'object') return value;
+    return Object.fromEntries(
+        Object.entries(value)
+            .filter(([, entry]) => entry !== null)
+            .map(([key, entry]) => [key, dropNulls(entry)])
+    );
+}
+
+function addTokens(total: ArnoldOutput['usage'], usage: ArnoldOutput['usage']): ArnoldOutput['usage'] {
+    if (!total || !usage) return usage || total;
+    return {
+        inputTokens: total.inputTokens + usage.inputTokens,
+        outputTokens: total.outputTokens + usage.outputTokens,
+    };
 }
 
 // ------------------------------------------------------------
@@ -239,17 +356,57 @@ function normalizeEntities(entities: unknown): Specification['entities'] {
 function normalizeProperties(properties: unknown): Specification['entities'][0]['properties'] {
     if (!Array.isArray(properties)) return [];
 
-    return properties.map((prop: Record<string, unknown>) => ({
-        name: (prop.name as string) || 'unnamed',
-        type: validatePropertyType(prop.type as string),
-        required: Boolean(prop.required),
-        options: Array.isArray(prop.options) ? prop.options : undefined,
-    }));
+    return properties.map((prop: Record<string, unknown>) => {
+        const type = validatePropertyType(prop.type as string);
+        return {
+            name: (prop.name as string) || 'unnamed',
+            type,
+            required: Boolean(prop.required),
+            options: Array.isArray(prop.options) ? prop.options : undefined,
+            ...(type === 'currency' && typeof prop.currency === 'string' && /^[a-z]{3}$/i.test(prop.currency)
+                ? { currency: prop.currency.toUpperCase() }
+                : {}),
+            ...normalizeConstraints(prop),
+        };
+    });
+}
+
+// Constraints with the wrong type of value are dropped; the validator
+// reports the ones that do not fit the property
+function normalizeConstraints(prop: Record<string, unknown>): Partial<Property> {
+    const constraints: Partial<Property> = {};
+    for (const key of ['min', 'max', 'minLength', 'maxLength'] as const) {
+        if (typeof prop[key] === 'number' && isFinite(prop[key] as number)) constraints[key] = prop[key] as number;
+    }
+    if (typeof prop.pattern === 'string' && prop.pattern) constraints.pattern = prop.pattern;
+    if (prop.unique === true) constraints.unique = true;
+    if (['string', 'number', 'boolean'].includes(typeof prop.default)) {
+        constraints.default = prop.default as Property['default'];
+    }
+    return constraints;
 }
 
-function validatePropertyType(type: string): 'string' | 'number' | 'boolean' | 'date' | 'enum' {
-    const validTypes = ['string', 'number', 'boolean', 'date', 'enum'];
-    return validTypes.includes(type) ? (type as 'string' | 'number' | 'boolean' | 'date' | 'enum') : 'string';
+// Names models use for the property types
+const PROPERTY_TYPE_ALIASES: Record<string, Property['type']> = {
+    textarea: 'longtext',
+    integer: 'number',
+    float: 'number',
+    decimal: 'number',
+    money: 'currency',
+    price: 'currency',
+    stars: 'rating',
+    bool: 'boolean',
+    datetime: 'date',
+    select: 'enum',
+    link: 'url',
+    tel: 'phone',
+    photo: 'image',
+};
+
+function validatePropertyType(type: string): Property['type'] {
+    const name = typeof type === 'string' ? type.toLowerCase() : '';
+    if ((PROPERTY_TYPES as readonly string[]).includes(name)) return name as Property['type'];
+    return PROPERTY_TYPE_ALIASES[name] || 'string';
 }
 
 function normalizeRelationships(relationships: unknown): Specification['entities'][0]['relationships'] {
@@ -258,6 +415,7 @@ function normalizeRelationships(relationships: unknown): Specification['entities
     return relationships.map((rel: Record<string, unknown>) => ({
         targetEntity: (rel.targetEntity as string) || '',
         type: validateRelationType(rel.type as string),
+        ...(rel.onDelete === 'cascade' || rel.onDelete === 'restrict' ? { onDelete: rel.onDelete } : {}),
     }));
 }
 
@@ -274,6 +432,11 @@ function normalizeViews(views: unknown): Specification['views'] {
         name: (view.name as string) || `View ${index + 1}`,
         type: validateViewType(view.type as string),
         entity: (view.entity as string) || '',
+        ...(Array.isArray(view.columns) && view.columns.length
+            ? { columns: view.columns.filter((c): c is string => typeof c === 'string') }
+            : {}),
+        ...(view.layout === 'table' || view.layout === 'cards' ? { layout: view.layout } : {}),
+        ...(Number.isInteger(view.pageSize) && (view.pageSize as number) > 0 ? { pageSize: view.pageSize as number } : {}),
     }));
 }
 
@@ -290,9 +453,57 @@ function normalizeActions(actions: unknown): Specification['actions'] {
         name: (action.name as string) || `Action ${index + 1}`,
         trigger: validateTriggerType(action.trigger as string),
         logic: (action.logic as string) || '',
+        ...(typeof action.entity === 'string' && action.entity ? { entity: action.entity } : {}),
+        ...(Array.isArray(action.steps) ? { steps: normalizeActionSteps(action.steps) } : {}),
     }));
 }
 
+/**
+ * Coerce raw steps into the action DSL, dropping unknown ops.
+ * Whether properties and views exist is checked later by Nedry.
+ */
+export function normalizeActionSteps(steps: unknown[]): ActionStep[] {
+    const normalized: ActionStep[] = [];
+
+    steps.forEach((raw) => {
+        if (!raw || typeof raw !== 'object') return;
+        const step = raw as Record<string, unknown>;
+        const property = typeof step.property === 'string' ? step.property : '';
+
+        switch (step.op) {
+            case 'set':
+            case 'set_all':
+                normalized.push({ op: step.op, property, value: normalizeActionValue(step.value) });
+                break;
+            case 'toggle':
+                normalized.push({ op: 'toggle', property });
+                break;
+            case 'increment':
+                normalized.push(
+                    typeof step.by === 'number'
+                        ? { op: 'increment', property, by: step.by }
+                        : { op: 'increment', property }
+                );
+                break;
+            case 'duplicate':
+                normalized.push({ op: 'duplicate' });
+                break;
+            case 'navigate':
+                normalized.push({ op: 'navigate', view: typeof step.view === 'string' ? step.view : '' });
+                break;
+        }
+    });
+
+    return normalized;
+}
+
+function normalizeActionValue(value: unknown): ActionValue {
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        return value;
+    }
+    return '';
+}
+
 function validateTriggerType(type: string): 'button' | 'form_submit' | 'auto' {
     const validTypes = ['button', 'form_submit', 'auto'];
     return validTypes.includes(type) ? (type as 'button' | 'form_submit' | 'auto') : 'button';
@@ -0,0 +1,125 @@
+// ============================================================
+// Mini-Arnold - JSON Repair
+// ============================================================
+
+export interface RepairResult {
+    value: unknown;
+    repairs: string[]; // What had to be fixed, for the logs
+}
+
+/**
+ * Parse model output that should be a JSON object but may not be clean.
+ *
+ * Tries, in order: the text as-is, the object embedded in surrounding
+ * prose or a code block, and the same without trailing commas. Returns
+ * null when nothing parses. A truncated object (e.g. max_tokens reached)
+ * is not closed up: what is missing could change its meaning, so the
+ * caller asks again instead.
+ */
+export function repairJson(text: string): RepairResult | null {
+    const direct = tryParse(text.trim());
+    if (direct !== undefined) return { value: direct, repairs: [] };
+
+    const repairs: string[] = [];
+
+    let candidate = extractJsonObject(text);
+    if (candidate === null) return null;
+    if (candidate !== text.trim()) repairs.push('extracted JSON from surrounding text');
+
+    const extracted = tryParse(candidate);
+    if (extracted !== undefined) return { value: extracted, repairs };
+
+    const withoutCommas = removeTrailingCommas(candidate);
+    if (withoutCommas !== candidate) {
+        repairs.push('removed trailing commas');
+        candidate = withoutCommas;
+        const parsed = tryParse(candidate);
+        if (parsed !== undefined) return { value: parsed, repairs };
+    }
+
+    return null;
+}
+
+/**
+ * The first `{ ... }` in the text, through its matching brace or to the
+ * end of the text when it never closes. Braces inside strings are ignored.
+ */
+export function extractJsonObject(text: string): string | null {
+    const start = text.indexOf('{');
+    if (start === -1) return null;
+
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+
+        if (inString) {
+            if (escaped) {
+                escaped = false;
+            } else if (ch === '\\') {
+                escaped = true;
+            } else if (ch === '"') {
+                inString = false;
+            }
+            continue;
+        }
+
+        if (ch === '"') {
+            inString = true;
+        } else if (ch === '{') {
+            depth++;
+        } else if (ch === '}') {
+            depth--;
+            if (depth === 0) return text.slice(start, i + 1);
+        }
+    }
+
+    // Never closed; strip a trailing code fence so only the JSON is left
+    return text.slice(start).replace(/\s*```\s*$/, '');
+}
+
+/**
+ * Drop commas directly before a closing brace or bracket, outside strings.
+ */
+export function removeTrailingCommas(text: string): string {
+    let result = '';
+    let inString = false;
+    let escaped = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+
+        if (inString) {
+            if (escaped) {
+                escaped = false;
+            } else if (ch === '\\') {
+                escaped = true;
+            } else if (ch === '"') {
+                inString = false;
+            }
+            result += ch;
+            continue;
+        }
+
+        if (ch === '"') {
+            inString = true;
+        } else if (ch === ',') {
+            let next = i + 1;
+            while (next < text.length && /\s/.test(text[next])) next++;
+            if (text[next] === '}' || text[next] === ']') continue;
+        }
+        result += ch;
+    }
+
+    return result;
+}
+
+function tryParse(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,90 @@
+// ============================================================
+// Mini-Arnold - Partial JSON Parser
+// ============================================================
+
+/**
+ * Best-effort parse of a JSON object that is still being streamed.
+ *
+ * Closes any open string, object and array so the prefix received so far
+ * can be read. When the tail is not closable (a dangling key, a half-written
+ * number or literal), it falls back to the last complete value.
+ * Returns null when nothing usable has arrived yet.
+ */
+export function parsePartialJson(text: string): unknown {
+    const start = text.indexOf('{');
+    if (start === -1) return null;
+
+    const source = text.slice(start);
+    const closers: string[] = [];
+    const cutPoints: Array<{ index: number; suffix: string }> = [];
+    let inString = false;
+    let escaped = false;
+
+    for (let i = 0; i < source.length; i++) {
+        const ch = source[i];
+
+        if (inString) {
+            if (escaped) {
+                escaped = false;
+            } else if (ch === '\\') {
+                escaped = true;
+            } else if (ch === '"') {
+                inString = false;
+            }
+            continue;
+        }
+
+        switch (ch) {
+            case '"':
+                inString = true;
+                break;
+            case '{':
+            case '[':
+                closers.push(ch === '{' ? '}' : ']');
+                cutPoints.push({ index: i + 1, suffix: closingSuffix(closers) });
+                break;
+            case '}':
+            case ']':
+                closers.pop();
+                if (closers.length === 0) {
+                    return tryParse(source.slice(0, i + 1)) ?? null;
+                }
+                cutPoints.push({ index: i + 1, suffix: closingSuffix(closers) });
+                break;
+            case ',':
+                cutPoints.push({ index: i, suffix: closingSuffix(closers) });
+                break;
+        }
+    }
+
+    // Try keeping the partial string value (lets question text grow live)
+    if (inString) {
+        const body = escaped ? source.slice(0, -1) : source;
+        const parsed = tryParse(body + '"' + closingSuffix(closers));
+        if (parsed !== undefined) return parsed;
+    } else {
+        const parsed = tryParse(source + closingSuffix(closers));
+        if (parsed !== undefined) return parsed;
+    }
+
+    // Fall back to the most recent point where every value was complete
+    for (let i = cutPoints.length - 1; i >= 0; i--) {
+        const { index, suffix } = cutPoints[i];
+        const parsed = tryParse(source.slice(0, index) + suffix);
+        if (parsed !== undefined) return parsed;
+    }
+
+    return null;
+}
+
+function closingSuffix(closers: string[]): string {
+    return [...closers].reverse().join('');
+}
+
+function tryParse(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+}
@@ -1,3 +1,5 @@
+import { Specification } from '../../types';
+
 // ============================================================
 // Mini-Arnold System Prompts
 // ============================================================
@@ -40,10 +42,10 @@ Always respond in JSON format with this structure:
         "id": "entity_id",
         "name": "Entity Name",
         "properties": [
-          { "name": "propertyName", "type": "string|number|boolean|date|enum", "required": true, "options": [] }
+          { "name": "propertyName", "type": "string|longtext|number|currency|rating|boolean|date|enum|email|url|phone|image", "required": true, "options": [] }
         ],
         "relationships": [
-          { "targetEntity": "other_entity_id", "type": "one-to-one|one-to-many|many-to-many" }
+          { "targetEntity": "other_entity_id", "type": "one-to-one|one-to-many|many-to-many", "onDelete": "restrict|cascade" }
         ]
       }
     ],
@@ -51,23 +53,72 @@ Always respond in JSON format with this structure:
       { "id": "view_id", "name": "View Name", "type": "list|form|detail|dashboard", "entity": "entity_id" }
     ],
     "actions": [
-      { "id": "action_id", "name": "Action Name", "trigger": "button|form_submit|auto", "logic": "Description of what happens" }
+      { "id": "action_id", "name": "Action Name", "trigger": "button|form_submit|auto", "logic": "Description of what happens", "entity": "entity_id", "steps": [] }
     ],
     "patterns": ["pattern-id-1", "pattern-id-2"]
   },
   "confidence": 0.0-1.0
 }
 
+Changing an existing spec:
+When the request shows a current specification, do not repeat it. Leave out "spec" and send "patch", a list of operations with only what changes:
+"patch": [
+  { "op": "add", "path": "/entities/task/properties/-", "value": { "name": "dueDate", "type": "date", "required": false } },
+  { "op": "replace", "path": "/entities/task/properties/status/options", "value": ["todo", "doing", "done"] },
+  { "op": "remove", "path": "/views/task_detail" },
+  { "op": "add", "path": "/entities/-", "value": { "id": "tag", "name": "Tag", "properties": [...], "relationships": [] } }
+]
+- "op" is "add", "replace" or "remove"; "remove" takes no value
+- "path" starts at the spec root. Name list items by their id (entities, views, actions), name (properties) or targetEntity (relationships); "-" appends to a list
+- Every "value" must be complete: a whole entity, property, view or action, or a plain value for a single field
+
+Property types:
+- string: short text (names, titles); longtext: notes, descriptions and other multi-line text
+- number: plain numbers and counts; currency: money amounts, with "currency" set to an ISO code such as "EUR" (default "USD")
+- rating: a score from 1 to 5 stars
+- boolean, date, enum: yes/no, calendar dates and a fixed list of "options"
+- email, url, phone: contact details; image: the URL of a picture
+Use the most specific type: "price" is currency, "website" is url, "notes" is longtext.
+
+Property constraints (optional; include only what the user asks for or clearly implies):
+- "min", "max": bounds for number, currency and rating ("price must be positive" is "min": 0)
+- "minLength", "maxLength": character limits for text ("title max 80 chars" is "maxLength": 80)
+- "pattern": a regular expression the whole text must match, e.g. "[A-Z]{3}-[0-9]+"
+- "unique": true when no two items may share the value
+- "default": the value new items start with, e.g. "todo" for a status enum or "$today" for a date
+
+List views (optional fields):
+- "columns": the property names to show, in order, when not all of them are useful at a glance
+- "layout": "table" (default) or "cards" for items with images or long text
+- "pageSize": items per page (default 20)
+Detail views open when an item in a list is clicked and show all its fields, Edit/Delete and related items. They are not in the menu.
+
+Relationships:
+- Declare a relationship on the owning side: a Project with many Tasks is { "targetEntity": "task", "type": "one-to-many" } on project
+- Do not add id properties for relationships (e.g. "projectId"); reference fields and pickers are generated from relationships
+- onDelete: "restrict" (default) blocks deleting an item that others still reference, "cascade" deletes or unlinks them
+
+Action steps (what an action actually does, run in order):
+- { "op": "set", "property": "status", "value": "done" } - set a property on the item (use "$today" for today's date)
+- { "op": "toggle", "property": "completed" } - flip a boolean property on the item
+- { "op": "increment", "property": "count", "by": 1 } - add to a number, currency or rating property on the item
+- { "op": "duplicate" } - copy the item
+- { "op": "set_all", "property": "completed", "value": true } - set a property on every item of the entity (e.g. "mark all complete")
+- { "op": "navigate", "view": "view_id" } - show another view
+Triggers: "button" adds a button (per item when steps target an item), "form_submit" runs after the entity's form is saved, "auto" runs when the app starts.
+Only reference properties and views that exist in the spec.
+
 Patterns available:
 - app-shell: Basic HTML structure
 - navigation: Top nav bar
 - view-list: Table/list display
 - view-form: Create/edit form
 - view-detail: Single item view
+- view-dashboard: Counts, breakdowns and totals across entities
 - entity-card: Card component
 - action-button: Button trigger
 - action-delete: Delete with confirm
-- input-text, input-checkbox, input-date, input-select: Form inputs
+- input-text, input-textarea, input-checkbox, input-date, input-select: Form inputs
 - state-manager: localStorage state
 - style-base: Base CSS
 
@@ -84,7 +135,7 @@ Confidence Guidelines:
 
 export function buildUserPrompt(
     message: string,
-    currentSpec: object | null
+    currentSpec: Specification | null
 ): string {
     if (!currentSpec) {
         return `User request: "${message}"
@@ -98,28 +149,129 @@ Remember to include the spec object in your response even if incomplete.`;
 
     return `User request: "${message}"
 
-Current specification state:
-${JSON.stringify(currentSpec, null, 2)}
+Current specification (outline):
+${describeSpecOutline(currentSpec)}
 
-Based on this new input, update the specification. Consider:
+Based on this new input, change the specification. Consider:
 1. Does this add new entities or properties?
 2. Does this clarify any ambiguous requirements?
 3. Does this complete any missing information?
 
-Update the spec accordingly and adjust confidence level.`;
+Send only the changes as "patch" operations and adjust the confidence level.`;
+}
+
+const CONSTRAINT_KEYS = ['min', 'max', 'minLength', 'maxLength', 'pattern', 'unique', 'default'] as const;
+
+/**
+ * Compact outline of a spec: every id and name a patch path can use,
+ * without the JSON punctuation of the full document.
+ */
+export function describeSpecOutline(spec: Specification): string {
+    const lines = [`App: "${spec.meta.name}"${spec.meta.description ? ` - ${spec.meta.description}` : ''}`];
+
+    lines.push('Entities:');
+    spec.entities.forEach((entity) => {
+        const properties = entity.properties.map((p) => {
+            const details = [
+                p.type === 'enum' && p.options?.length ? `enum: ${p.options.join('|')}`
+                    : p.type === 'currency' && p.currency ? `currency: ${p.currency}`
+                        : p.type,
+            ];
+            if (p.required) details.push('required');
+            CONSTRAINT_KEYS.forEach((key) => {
+                if (p[key] !== undefined) details.push(`${key}: ${JSON.stringify(p[key])}`);
+            });
+            return `${p.name} (${details.join(', ')})`;
+        });
+        lines.push(`- ${entity.id} "${entity.name}": ${properties.join(', ') || 'no properties'}`);
+        entity.relationships.forEach((r) => {
+            lines.push(`  relationship: ${r.type} -> ${r.targetEntity}${r.onDelete ? ` (onDelete: ${r.onDelete})` : ''}`);
+        });
+    });
+
+    lines.push('Views:');
+    spec.views.forEach((view) => {
+        const options = [
+            view.columns ? `columns: ${view.columns.join('|')}` : '',
+            view.layout ? `layout: ${view.layout}` : '',
+            view.pageSize ? `pageSize: ${view.pageSize}` : '',
+        ].filter(Boolean);
+        lines.push(`- ${view.id} "${view.name}": ${view.type} of ${view.entity}${options.length ? ` (${options.join(', ')})` : ''}`);
+    });
+
+    lines.push('Actions:');
+    spec.actions.forEach((action) => {
+        const target = action.entity ? ` on ${action.entity}` : '';
+        const steps = action.steps?.length ? ` steps ${JSON.stringify(action.steps)}` : '';
+        lines.push(`- ${action.id} "${action.name}": ${action.trigger}${target}${steps} - ${action.logic}`);
+    });
+
+    lines.push(`Patterns: ${spec.patterns.join(', ') || 'none'}`);
+    return lines.join('\n');
 }
 
 // ------------------------------------------------------------
 // Conversation Context Builder
 // ------------------------------------------------------------
 
+/**
+ * History messages for the request, led by the summary of any earlier
+ * messages that were left out.
+ */
 export function buildConversationContext(
-    messages: Array<{ role: string; content: string }>
+    messages: Array<{ role: string; content: string }>,
+    summary?: string
 ): Array<{ role: 'user' | 'assistant' | 'system'; content: string }> {
-    return messages
+    const history = messages
         .filter((m) => m.role === 'user' || m.role === 'assistant')
         .map((m) => ({
             role: m.role as 'user' | 'assistant',
             content: m.content,
         }));
+
+    return summary
+        ? [{ role: 'system' as const, content: `Summary of the earlier conversation:\n${summary}` }, ...history]
+        : history;
+}
+
+// ------------------------------------------------------------
+// Conversation Summary
+// ------------------------------------------------------------
+
+export const SUMMARY_PROMPT = `You condense the start of a conversation between a user and Mini-Arnold, an assistant that turns app ideas into specifications. The summary replaces those messages in later requests, so keep everything needed to continue:
+- What the app is for and who uses it
+- Decisions the user made: entities, fields, relationships, views, actions and their behavior
+- Requirements the user stated that the spec may not show yet
+- Questions that are still open, and answers the user gave
+
+Leave out greetings, repetition and anything the user later changed their mind about. Write plain text in short bullet points, at most 300 words. Do not mention that this is a summary.`;
+
+/**
+ * Request text for folding `messages` into an existing summary.
+ */
+export function buildSummaryRequest(
+    messages: Array<{ role: string; content: string }>,
+    previousSummary?: string
+): string {
+    const transcript = messages
+        .filter((m) => m.role === 'user' || m.role === 'assistant')
+        .map((m) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
+        .join('\n\n');
+
+    return previousSummary
+        ? `Summary so far:\n${previousSummary}\n\nConversation that followed:\n${transcript}\n\nWrite the updated summary.`
+        : `Conversation:\n${transcript}\n\nWrite the summary.`;
+}
+
+// ------------------------------------------------------------
+// Repair Prompt
+// ------------------------------------------------------------
+
+/**
+ * Follow-up sent when the previous reply could not be parsed.
+ */
+export function buildRepairPrompt(reason: string): string {
+    return `Your previous response could not be used: ${reason}.
+
+Reply again with the complete response as a single valid JSON object in the format described in the system prompt. Do not add any text, comments or markdown around it, and make sure every string, array and object is closed.`;
 }
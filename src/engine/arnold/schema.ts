@@ -0,0 +1,29 @@
+// ============================================================
+// Mini-Arnold - Response Schema
+// ============================================================
+
+import { SPEC_JSON_SCHEMA, SPEC_PATCH_SCHEMA, toStructuredOutputSchema } from '../nedry/schema';
+import { LLMRequest } from '../../types';
+
+/**
+ * Arnold's reply envelope around the published Specification and patch
+ * schemas, in the strict form providers enforce for structured output.
+ */
+export const ARNOLD_RESPONSE_SCHEMA = toStructuredOutputSchema({
+    type: 'object',
+    required: ['type', 'confidence'],
+    properties: {
+        type: { enum: ['question', 'spec_update', 'spec_complete'] },
+        question: { type: 'string' },
+        spec: SPEC_JSON_SCHEMA,
+        patch: SPEC_PATCH_SCHEMA,
+        confidence: { type: 'number' },
+    },
+});
+
+export const ARNOLD_RESPONSE_FORMAT: NonNullable<LLMRequest['responseFormat']> = {
+    type: 'json_schema',
+    name: 'arnold_response',
+    description: 'Reply to the user with a clarifying question and/or the updated app specification.',
+    schema: ARNOLD_RESPONSE_SCHEMA,
+};
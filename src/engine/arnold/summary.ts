@@ -0,0 +1,60 @@
+// ============================================================
+// Mini-Arnold - Conversation Summary
+// ============================================================
+
+import { callLLM } from '../../api/providers';
+import { SUMMARY_PROMPT, buildSummaryRequest } from './prompts';
+import { ConversationSummary, LLMResponse, Message, Provider, createTimestamp } from '../../types';
+import { logger, Components } from '../../utils/logger';
+
+// Room for the ~300 words the prompt asks for
+const SUMMARY_MAX_TOKENS = 800;
+
+export interface SummarizeInput {
+    messages: Message[]; // Oldest first; the last one becomes throughMessageId
+    previous: ConversationSummary | null; // Folded into the new summary
+    provider: Provider;
+    model: string;
+    projectId?: string;
+    signal?: AbortSignal;
+}
+
+export interface SummarizeOutput {
+    summary: ConversationSummary;
+    usage?: LLMResponse['usage'];
+}
+
+/**
+ * Condense older messages, and the summary of those before them, into a
+ * new summary with the same model the conversation uses.
+ */
+export async function summarizeConversation(input: SummarizeInput): Promise<SummarizeOutput> {
+    const last = input.messages[input.messages.length - 1];
+    if (!last) throw new Error('There are no messages to summarize');
+
+    logger.info(Components.ARNOLD, 'Summarizing conversation', {
+        messages: input.messages.length,
+        hasPreviousSummary: !!input.previous,
+    });
+
+    const response = await callLLM({
+        provider: input.provider,
+        model: input.model,
+        messages: [
+            { role: 'system', content: SUMMARY_PROMPT },
+            { role: 'user', content: buildSummaryRequest(input.messages, input.previous?.text) },
+        ],
+        maxTokens: SUMMARY_MAX_TOKENS,
+        responseFormat: { type: 'text' },
+        signal: input.signal,
+        queueKey: input.projectId,
+    });
+
+    const text = response.text.trim();
+    if (!text) throw new Error('The summary came back empty');
+
+    return {
+        summary: { text, throughMessageId: last.id, createdAt: createTimestamp() },
+        usage: response.usage,
+    };
+}
@@ -1,6 +1,9 @@
 import { processMessage } from '../arnold';
+import { getHistoryBudget, planContext } from '../arnold/context';
+import { summarizeConversation } from '../arnold/summary';
 import { build } from '../raptor';
 import { validateSpec } from './validator';
+import { applySpecPatch } from './patch';
 import { matchPatterns, sortPatternsByDependency } from './router';
 import {
     NedryInput,
@@ -8,10 +11,15 @@ import {
     AppState,
     AppError,
     BuildResult,
+    ConversationSummary,
+    LLMResponse,
+    Message,
     createId,
     createTimestamp,
 } from '../../types';
 import { logger, Components } from '../../utils/logger';
+import { createMessageUsage } from '../../utils/usage';
+import { LLMError, getProviderErrorMessage } from '../../api/providers';
 
 // ============================================================
 // Mini-Nedry - Orchestration Layer
@@ -36,7 +44,7 @@ export async function handleInput(input: NedryInput): Promise<NedryOutput> {
         switch (type) {
             case 'user_message':
                 logger.debug(Components.NEDRY, 'Routing to Arnold for message processing');
-                return await handleUserMessage(payload as string, currentState);
+                return await handleUserMessage(payload as string, currentState, input);
 
             case 'spec_update':
                 logger.debug(Components.NEDRY, 'Handling spec update');
@@ -56,9 +64,7 @@ export async function handleInput(input: NedryInput): Promise<NedryOutput> {
         }
     } catch (error) {
         logger.error(Components.NEDRY, 'Handling error', { error });
-        return createErrorOutput(
-            error instanceof Error ? error.message : 'An unexpected error occurred'
-        );
+        return createErrorOutput(error);
     }
 }
 
@@ -68,17 +74,33 @@ export async function handleInput(input: NedryInput): Promise<NedryOutput> {
 
 async function handleUserMessage(
     message: string,
-    currentState: AppState
+    currentState: AppState,
+    { onPartial, projectId, signal }: Pick<NedryInput, 'onPartial' | 'projectId' | 'signal'>
 ): Promise<NedryOutput> {
+    // Fit the history to the model, summarizing what no longer fits
+    const context = await prepareContext(currentState, { projectId, signal });
+
     // Route to Arnold for spec building
     const arnoldResult = await processMessage({
         message,
-        conversationHistory: currentState.messages,
+        conversationHistory: context.history,
+        conversationSummary: context.summary?.text,
         currentSpec: currentState.currentSpec,
         provider: currentState.provider,
         model: currentState.model,
+        onPartial,
+        projectId,
+        signal,
     });
 
+    const tokens = addTokens(context.usage, arnoldResult.usage);
+    const usage = tokens ? createMessageUsage(currentState.provider, currentState.model, tokens) : undefined;
+
+    // Saved with the project whenever it changed
+    const summaryUpdate: Partial<AppState> = context.summary !== currentState.conversationSummary
+        ? { conversationSummary: context.summary }
+        : {};
+
     // Handle different response types
     if (arnoldResult.type === 'question') {
         return {
@@ -88,12 +110,40 @@ async function handleUserMessage(
             },
             stateUpdate: {
                 conversationPhase: 'gathering',
+                ...summaryUpdate,
             },
+            usage,
         };
     }
 
-    // Spec update or complete
-    const newSpec = arnoldResult.spec || currentState.currentSpec;
+    // Spec update or complete: a patch to the current spec, or a whole new one
+    let newSpec = arnoldResult.spec || currentState.currentSpec;
+    if (arnoldResult.patch && !currentState.currentSpec) {
+        logger.warn(Components.NEDRY, 'Rejected spec patch without a current spec', {
+            operations: arnoldResult.patch,
+        });
+        const output = createErrorOutput(
+            'The suggested changes could not be applied because there is no spec yet to change.',
+            'SPEC_PATCH_REJECTED'
+        );
+        return { ...output, stateUpdate: summaryUpdate, usage };
+    }
+    if (arnoldResult.patch && currentState.currentSpec) {
+        const patched = applySpecPatch(currentState.currentSpec, arnoldResult.patch);
+        if (patched.errors.length > 0) {
+            logger.warn(Components.NEDRY, 'Rejected spec patch', {
+                operations: arnoldResult.patch,
+                errors: patched.errors,
+            });
+            const output = createErrorOutput(
+                `The suggested changes could not be applied, so the spec was left as it was. ${patched.errors[0].message}`,
+                'SPEC_PATCH_REJECTED'
+            );
+            return { ...output, stateUpdate: summaryUpdate, usage };
+        }
+        logger.debug(Components.NEDRY, `Applied ${arnoldResult.patch.length} patch operation(s)`);
+        newSpec = patched.spec;
+    }
 
     // Validate the new spec
     const validation = validateSpec(newSpec);
@@ -118,10 +168,57 @@ async function handleUserMessage(
             currentSpec: newSpec,
             specValidation: validation,
             conversationPhase,
+            ...summaryUpdate,
         },
+        usage,
     };
 }
 
+interface PreparedContext {
+    history: Message[];
+    summary: ConversationSummary | null;
+    usage?: LLMResponse['usage']; // Tokens spent on summarizing
+}
+
+/**
+ * Trim the history to the model's budget. Messages that no longer fit are
+ * folded into the conversation summary; if that call fails they are left
+ * out without one.
+ */
+async function prepareContext(
+    currentState: AppState,
+    { projectId, signal }: Pick<NedryInput, 'projectId' | 'signal'>
+): Promise<PreparedContext> {
+    const { provider, model } = currentState;
+    const plan = planContext(currentState.messages, currentState.conversationSummary, getHistoryBudget(provider, model));
+
+    if (plan.toSummarize.length === 0) {
+        return { history: plan.recent, summary: plan.summary };
+    }
+
+    logger.debug(Components.NEDRY, `History exceeds ${plan.budget} tokens, summarizing ${plan.toSummarize.length} message(s)`);
+    try {
+        const result = await summarizeConversation({
+            messages: plan.toSummarize,
+            previous: plan.summary,
+            provider,
+            model,
+            projectId,
+            signal,
+        });
+        return { history: plan.recent, summary: result.summary, usage: result.usage };
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        logger.warn(Components.NEDRY, 'Could not summarize the conversation, dropping older messages', { error });
+        return { history: plan.recent, summary: plan.summary };
+    }
+}
+
+function addTokens(a: LLMResponse['usage'], b: LLMResponse['usage']): LLMResponse['usage'] {
+    if (!a || !b) return a || b;
+    return { inputTokens: a.inputTokens + b.inputTokens, outputTokens: a.outputTokens + b.outputTokens };
+}
+
 function handleSpecUpdate(
     payload: unknown,
     _currentState: AppState
@@ -181,6 +278,9 @@ async function handleBuildRequest(currentState: AppState): Promise<NedryOutput>
         html: raptorResult.html,
         css: raptorResult.css,
         javascript: raptorResult.javascript,
+        markup: raptorResult.markup,
+        spec: currentSpec,
+        manifest: raptorResult.manifest,
         errors: raptorResult.errors?.map((e) => e.message),
     };
 
@@ -234,28 +334,39 @@ function handleError(error: AppError, currentState: AppState): NedryOutput {
 // Utility Functions
 // ------------------------------------------------------------
 
-function createErrorOutput(message: string): NedryOutput {
+/**
+ * Convert a thrown error into an AppError for the error list. Provider
+ * failures keep their code, retryability and provider.
+ */
+export function toAppError(error: unknown, code = 'NEDRY_ERROR'): AppError {
+    const base = { id: createId(), timestamp: createTimestamp(), recoverable: true };
+
+    if (error instanceof LLMError) {
+        return {
+            ...base,
+            code: error.code,
+            message: getProviderErrorMessage(error),
+            retryable: error.retryable,
+            provider: error.provider,
+        };
+    }
+
+    return {
+        ...base,
+        code,
+        message: typeof error === 'string' ? error : getProviderErrorMessage(error),
+    };
+}
+
+function createErrorOutput(error: unknown, code?: string): NedryOutput {
+    const appError = toAppError(error, code);
     return {
         action: {
             type: 'display_error',
-            error: {
-                id: createId(),
-                code: 'NEDRY_ERROR',
-                message,
-                timestamp: createTimestamp(),
-                recoverable: true,
-            },
+            error: appError,
         },
         stateUpdate: {},
-        errors: [
-            {
-                id: createId(),
-                code: 'NEDRY_ERROR',
-                message,
-                timestamp: createTimestamp(),
-                recoverable: true,
-            },
-        ],
+        errors: [appError],
     };
 }
 
@@ -0,0 +1,120 @@
+// ============================================================
+// Mini-Nedry - Spec Version Migrations
+// ============================================================
+
+export const CURRENT_SPEC_VERSION = '1.0.0';
+
+export interface MigrationResult {
+    spec: Record<string, unknown>;
+    migratedFrom: string | null; // Original version when a migration ran
+    error: string | null;
+}
+
+type Migration = (spec: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Upgrades keyed by the major.minor they apply to, run in order until the
+ * spec reaches CURRENT_SPEC_VERSION.
+ */
+const MIGRATIONS: { from: string; to: string; migrate: Migration }[] = [
+    { from: '0.1', to: '0.2', migrate: migrateMetaFields },
+    { from: '0.2', to: '1.0.0', migrate: migrateEntityFields },
+];
+
+/**
+ * Bring raw spec data from an older `version` up to the current format.
+ *
+ * Specs without a version are treated as 0.1. Specs from a newer major
+ * version, or an older one no migration starts from, cannot be read and
+ * are reported as an error.
+ */
+export function migrateSpec(raw: Record<string, unknown>): MigrationResult {
+    const original = typeof raw.version === 'string' && raw.version ? raw.version : '0.1';
+    const major = parseInt(original, 10);
+    const currentMajor = parseInt(CURRENT_SPEC_VERSION, 10);
+
+    if (isNaN(major)) {
+        return { spec: raw, migratedFrom: null, error: `Unrecognised spec version "${original}"` };
+    }
+    if (major > currentMajor) {
+        return {
+            spec: raw,
+            migratedFrom: null,
+            error: `Spec version ${original} is newer than this app supports (${CURRENT_SPEC_VERSION})`,
+        };
+    }
+    if (major === currentMajor) {
+        return { spec: raw, migratedFrom: null, error: null };
+    }
+
+    let spec = { ...raw };
+    let version = original;
+    for (const step of MIGRATIONS) {
+        if (version === step.from || version.startsWith(`${step.from}.`)) {
+            spec = step.migrate(spec);
+            version = step.to;
+        }
+    }
+    if (version !== CURRENT_SPEC_VERSION) {
+        return {
+            spec: raw,
+            migratedFrom: null,
+            error: `Spec version ${original} cannot be upgraded to ${CURRENT_SPEC_VERSION}`,
+        };
+    }
+
+    return { spec: { ...spec, version: CURRENT_SPEC_VERSION }, migratedFrom: original, error: null };
+}
+
+// ------------------------------------------------------------
+// Migrations
+// ------------------------------------------------------------
+
+/**
+ * 0.1 kept name/description at the top level and had no actions or patterns.
+ */
+function migrateMetaFields(spec: Record<string, unknown>): Record<string, unknown> {
+    const { name, description, ...rest } = spec;
+    const meta = (spec.meta as Record<string, unknown>) || {};
+
+    return {
+        ...rest,
+        meta: {
+            name: meta.name ?? name ?? '',
+            description: meta.description ?? description ?? '',
+            createdAt: meta.createdAt ?? new Date().toISOString(),
+        },
+        views: spec.views ?? [],
+        actions: spec.actions ?? [],
+        patterns: spec.patterns ?? [],
+    };
+}
+
+/**
+ * 0.2 called entity properties `fields`; `required` and relationships
+ * were optional. Entries that are not objects are passed through for
+ * validateSpecShape() to report.
+ */
+function migrateEntityFields(spec: Record<string, unknown>): Record<string, unknown> {
+    const entities = Array.isArray(spec.entities) ? spec.entities : [];
+
+    return {
+        ...spec,
+        entities: entities.map((entity: unknown) => {
+            if (!isRecord(entity)) return entity;
+            const { fields, ...rest } = entity;
+            const properties = entity.properties ?? fields;
+            return {
+                ...rest,
+                properties: Array.isArray(properties)
+                    ? properties.map((prop: unknown) => (isRecord(prop) ? { required: false, ...prop } : prop))
+                    : [],
+                relationships: entity.relationships ?? [],
+            };
+        }),
+    };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
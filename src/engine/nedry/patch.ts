@@ -0,0 +1,141 @@
+import { Specification, SpecPatchOperation, ValidationError } from '../../types';
+import { validateSpecShape } from './validator';
+
+// ============================================================
+// Mini-Nedry - Spec Patches
+// ============================================================
+//
+// Arnold describes changes to an existing spec as JSON-Patch-style
+// operations instead of re-sending the whole spec. Paths are JSON
+// Pointers where array items may also be named by their key: the id of
+// an entity, view or action, the name of a property, or the target of a
+// relationship. `/entities/task/properties/-` appends a property to the
+// "task" entity.
+
+export interface PatchResult {
+    spec: Specification;
+    errors: ValidationError[]; // Empty when every operation applied
+}
+
+// Fields that name an array item, tried in order
+const ITEM_KEYS = ['id', 'name', 'targetEntity'];
+
+/**
+ * Apply operations to a spec, all or nothing: if any operation fails, or
+ * the result no longer matches the spec schema, the original is returned
+ * with the errors.
+ */
+export function applySpecPatch(spec: Specification, operations: SpecPatchOperation[]): PatchResult {
+    let next: unknown = spec;
+    const errors: ValidationError[] = [];
+
+    operations.forEach((operation, index) => {
+        if (errors.length > 0) return;
+        try {
+            next = applyOperation(next, parsePath(operation.path), operation);
+        } catch (error) {
+            errors.push({
+                code: 'INVALID_PATCH',
+                message: `Operation ${index + 1} (${operation.op} ${operation.path}): ${(error as Error).message}`,
+                path: operation.path,
+            });
+        }
+    });
+
+    if (errors.length === 0) {
+        errors.push(...validateSpecShape(next));
+    }
+
+    return errors.length > 0 ? { spec, errors } : { spec: next as Specification, errors };
+}
+
+/**
+ * Split a JSON Pointer into unescaped segments.
+ */
+export function parsePath(path: string): string[] {
+    if (!path.startsWith('/')) {
+        throw new Error('path must start with "/"');
+    }
+    return path
+        .slice(1)
+        .split('/')
+        .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+// ------------------------------------------------------------
+// Operations
+// ------------------------------------------------------------
+
+function applyOperation(node: unknown, segments: string[], operation: SpecPatchOperation): unknown {
+    const [segment, ...rest] = segments;
+
+    if (rest.length > 0) {
+        if (Array.isArray(node)) {
+            const index = findIndex(node, segment);
+            return node.map((item, i) => (i === index ? applyOperation(item, rest, operation) : item));
+        }
+        const record = asRecord(node, segment);
+        if (!(segment in record)) throw new Error(`"${segment}" does not exist`);
+        return { ...record, [segment]: applyOperation(record[segment], rest, operation) };
+    }
+
+    if (operation.op !== 'remove' && operation.value === undefined) {
+        throw new Error('a value is required');
+    }
+
+    return Array.isArray(node) ? applyToArray(node, segment, operation) : applyToObject(asRecord(node, segment), segment, operation);
+}
+
+function applyToArray(list: unknown[], segment: string, operation: SpecPatchOperation): unknown[] {
+    if (operation.op === 'add') {
+        if (segment === '-') return [...list, operation.value];
+        if (/^\d+$/.test(segment)) {
+            const index = Number(segment);
+            if (index > list.length) throw new Error(`index ${index} is out of range`);
+            return [...list.slice(0, index), operation.value, ...list.slice(index)];
+        }
+        // Adding by key: the key must be new
+        if (list.some((item) => matchesKey(item, segment))) throw new Error(`"${segment}" already exists`);
+        return [...list, operation.value];
+    }
+
+    const index = findIndex(list, segment);
+    return operation.op === 'remove'
+        ? list.filter((_, i) => i !== index)
+        : list.map((item, i) => (i === index ? operation.value : item));
+}
+
+function applyToObject(record: Record<string, unknown>, key: string, operation: SpecPatchOperation): Record<string, unknown> {
+    if (operation.op === 'remove') {
+        if (!(key in record)) throw new Error(`"${key}" does not exist`);
+        const next = { ...record };
+        delete next[key];
+        return next;
+    }
+    // Replacing a field that is not set yet (e.g. an optional one) adds it
+    return { ...record, [key]: operation.value };
+}
+
+// ------------------------------------------------------------
+// Helpers
+// ------------------------------------------------------------
+
+function findIndex(list: unknown[], segment: string): number {
+    const index = /^\d+$/.test(segment)
+        ? Number(segment)
+        : list.findIndex((item) => matchesKey(item, segment));
+    if (index < 0 || index >= list.length) throw new Error(`no item "${segment}"`);
+    return index;
+}
+
+function matchesKey(item: unknown, key: string): boolean {
+    if (!item || typeof item !== 'object') return item === key;
+    const record = item as Record<string, unknown>;
+    const field = ITEM_KEYS.find((name) => typeof record[name] === 'string');
+    return field !== undefined && record[field] === key;
+}
+
+function asRecord(node: unknown, segment: string): Record<string, unknown> {
+    if (!node || typeof node !== 'object') throw new Error(`cannot address "${segment}" in a ${typeof node}`);
+    return node as Record<string, unknown>;
+}
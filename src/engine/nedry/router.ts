@@ -1,4 +1,4 @@
-import { Specification, PatternReference } from '../../types';
+import { Specification, PatternReference, ReferenceField, Entity, Property, View, TEXT_PROPERTY_TYPES } from '../../types';
 
 // ============================================================
 // Mini-Nedry - Pattern Router
@@ -11,6 +11,7 @@ import { Specification, PatternReference } from '../../types';
  */
 export function matchPatterns(spec: Specification): PatternReference[] {
     const patterns: PatternReference[] = [];
+    const references = getReferenceFields(spec);
 
     // 1. Always include utility patterns first (dependencies)
     patterns.push({
@@ -27,6 +28,7 @@ export function matchPatterns(spec: Specification): PatternReference[] {
             appName: spec.meta.name,
             entities: spec.entities,
             views: spec.views,
+            references,
         },
     });
 
@@ -76,6 +78,10 @@ export function matchPatterns(spec: Specification): PatternReference[] {
                         viewName: view.name,
                         entity: entity || null,
                         properties: entity?.properties || [],
+                        controls: entity ? getListControls(entity, references) : null,
+                        columns: entity ? getListColumns(entity, view, references) : [],
+                        layout: view.layout || 'table',
+                        pageSize: view.pageSize || DEFAULT_PAGE_SIZE,
                     },
                 });
                 break;
@@ -88,13 +94,14 @@ export function matchPatterns(spec: Specification): PatternReference[] {
                         viewId: view.id,
                         viewName: view.name,
                         entity: entity || null,
-                        properties: entity?.properties || [],
+                        properties: entity ? getEditableProperties(entity, references) : [],
+                        references: references.filter((r) => r.entityId === entity?.id),
                     },
                 });
 
                 // Also add input patterns for form fields
                 if (entity) {
-                    addInputPatterns(patterns, entity, view.id);
+                    addInputPatterns(patterns, entity, view.id, references);
                 }
                 break;
 
@@ -106,29 +113,28 @@ export function matchPatterns(spec: Specification): PatternReference[] {
                         viewId: view.id,
                         viewName: view.name,
                         entity: entity || null,
-                        properties: entity?.properties || [],
+                        properties: entity ? getEditableProperties(entity, references) : [],
+                        references: references.filter((r) => r.entityId === entity?.id),
+                        related: references.filter((r) => r.targetEntity === entity?.id),
                     },
                 });
                 break;
 
             case 'dashboard':
-                // Dashboard uses list view for now
                 patterns.push({
-                    patternId: 'view-list',
+                    patternId: 'view-dashboard',
                     targetId: view.id,
                     config: {
                         viewId: view.id,
                         viewName: view.name,
-                        entity: entity || null,
-                        properties: entity?.properties || [],
-                        isDashboard: true,
+                        sections: getDashboardSections(spec, entity),
                     },
                 });
                 break;
         }
     });
 
-    // 5. Actions are now handled by app-core pattern
+    // 5. Actions are compiled by app-core from their steps (see spec.actions)
     // No need for separate action-button or action-delete patterns
 
     return patterns;
@@ -141,9 +147,10 @@ export function matchPatterns(spec: Specification): PatternReference[] {
 function addInputPatterns(
     patterns: PatternReference[],
     entity: Specification['entities'][0],
-    viewId: string
+    viewId: string,
+    references: ReferenceField[]
 ): void {
-    entity.properties.forEach((prop) => {
+    getEditableProperties(entity, references).forEach((prop) => {
         const inputPattern = getInputPatternForType(prop.type);
 
         patterns.push({
@@ -167,11 +174,163 @@ function getInputPatternForType(type: string): string {
             return 'input-date';
         case 'enum':
             return 'input-select';
+        case 'longtext':
+            return 'input-textarea';
         default:
+            // Typed by fieldType: email, url, phone, number, ...
             return 'input-text';
     }
 }
 
+// ------------------------------------------------------------
+// List Helpers
+// ------------------------------------------------------------
+
+interface ListControls {
+    searchFields: string[]; // Text properties the search box looks in
+    filters: Array<{ name: string; options: Array<{ value: string; label: string }> }>; // Enum and boolean dropdowns
+    dateProperty: string | null; // Filtered by a from/to range
+    sortFields: string[];
+}
+
+interface ListColumn {
+    name: string; // Property or reference field
+    label: string;
+    sortable: boolean;
+}
+
+// Types whose values do not sort in a useful order
+const UNSORTABLE_TYPES: Property['type'][] = ['longtext', 'image'];
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * The columns a list view shows: the view's own choice, in its order, or
+ * every property followed by the reference fields. Unknown names are
+ * skipped.
+ */
+function getListColumns(entity: Entity, view: View, references: ReferenceField[]): ListColumn[] {
+    const columns: ListColumn[] = [
+        ...getEditableProperties(entity, references).map((p) => ({
+            name: p.name,
+            label: p.name,
+            sortable: !UNSORTABLE_TYPES.includes(p.type),
+        })),
+        ...references
+            .filter((r) => r.entityId === entity.id)
+            .map((r) => ({ name: r.field, label: r.targetName, sortable: false })),
+    ];
+    if (!view.columns?.length) return columns;
+    return view.columns
+        .map((name) => columns.find((c) => c.name === name))
+        .filter((c): c is ListColumn => c !== undefined);
+}
+
+/**
+ * Search, filter and sort controls for an entity's list view.
+ */
+function getListControls(entity: Entity, references: ReferenceField[]): ListControls {
+    const properties = getEditableProperties(entity, references);
+
+    return {
+        searchFields: properties.filter((p) => TEXT_PROPERTY_TYPES.includes(p.type) && p.type !== 'image').map((p) => p.name),
+        filters: properties
+            .filter((p) => p.type === 'boolean' || (p.type === 'enum' && p.options?.length))
+            .map((p) => ({
+                name: p.name,
+                options: p.type === 'boolean'
+                    ? [{ value: 'true', label: 'Yes' }, { value: 'false', label: 'No' }]
+                    : p.options!.map((o) => ({ value: o, label: o })),
+            })),
+        dateProperty: properties.find((p) => p.type === 'date')?.name || null,
+        sortFields: properties.filter((p) => !UNSORTABLE_TYPES.includes(p.type)).map((p) => p.name),
+    };
+}
+
+// ------------------------------------------------------------
+// Dashboard Helpers
+// ------------------------------------------------------------
+
+interface DashboardSection {
+    entityId: string;
+    entityName: string;
+    numbers: string[]; // Number properties (sum / average)
+    enums: Array<{ name: string; options: string[] }>; // Enum breakdowns
+    dateProperty: string; // Orders "recent items"
+}
+
+/**
+ * One summary section per entity, starting with the view's own entity.
+ */
+function getDashboardSections(spec: Specification, focus: Entity | undefined): DashboardSection[] {
+    const entities = focus ? [focus, ...spec.entities.filter((e) => e.id !== focus.id)] : spec.entities;
+
+    return entities.map((entity) => ({
+        entityId: entity.id,
+        entityName: entity.name,
+        numbers: entity.properties.filter((p) => p.type === 'number' || p.type === 'currency').map((p) => p.name),
+        enums: entity.properties
+            .filter((p) => p.type === 'enum' && p.options?.length)
+            .map((p) => ({ name: p.name, options: p.options! })),
+        dateProperty: entity.properties.find((p) => p.type === 'date')?.name || 'createdAt',
+    }));
+}
+
+// ------------------------------------------------------------
+// Relationship Helpers
+// ------------------------------------------------------------
+
+/**
+ * Derive foreign-key fields from the spec's relationships.
+ *
+ * - one-to-many A → B: each B stores `aId`
+ * - one-to-one A → B: A stores `bId`
+ * - many-to-many A → B: A stores `bIds`
+ *
+ * Relationships to unknown entities and duplicate fields are skipped.
+ */
+export function getReferenceFields(spec: Specification): ReferenceField[] {
+    const fields: ReferenceField[] = [];
+
+    spec.entities.forEach((entity) => {
+        entity.relationships.forEach((rel) => {
+            const target = spec.entities.find((e) => e.id === rel.targetEntity);
+            if (!target) return;
+
+            const [owner, referenced] = rel.type === 'one-to-many' ? [target, entity] : [entity, target];
+            const multiple = rel.type === 'many-to-many';
+            const field = toReferenceFieldName(referenced.id, multiple);
+            if (fields.some((f) => f.entityId === owner.id && f.field === field)) return;
+
+            fields.push({
+                entityId: owner.id,
+                entityName: owner.name,
+                field,
+                targetEntity: referenced.id,
+                targetName: referenced.name,
+                multiple,
+                onDelete: rel.onDelete || 'restrict',
+            });
+        });
+    });
+
+    return fields;
+}
+
+/**
+ * Properties rendered as plain inputs. Properties that duplicate a
+ * reference field (e.g. a "projectId" string) are replaced by the picker.
+ */
+function getEditableProperties(entity: Entity, references: ReferenceField[]): Property[] {
+    const referenceFields = references.filter((r) => r.entityId === entity.id).map((r) => r.field);
+    return entity.properties.filter((p) => !referenceFields.includes(p.name));
+}
+
+function toReferenceFieldName(entityId: string, multiple: boolean): string {
+    const camel = entityId.replace(/[-_\s]+(\w)/g, (_match, letter: string) => letter.toUpperCase());
+    return camel.charAt(0).toLowerCase() + camel.slice(1) + (multiple ? 'Ids' : 'Id');
+}
+
 // ------------------------------------------------------------
 // Pattern Resolution
 // ------------------------------------------------------------
@@ -198,9 +357,11 @@ export function sortPatternsByDependency(patterns: PatternReference[]): PatternR
         'input-checkbox': 5,
         'input-date': 5,
         'input-select': 5,
+        'input-textarea': 5,
         'view-list': 6,
         'view-form': 6,
         'view-detail': 6,
+        'view-dashboard': 6,
         'action-button': 7,
         'action-delete': 7,
     };
@@ -0,0 +1,258 @@
+// ============================================================
+// Mini-Nedry - Specification JSON Schema
+// ============================================================
+
+import { PROPERTY_TYPES } from '../../types';
+
+export const SPEC_SCHEMA_ID = 'https://mini-artifact.dev/schemas/specification-1.0.0.json';
+
+const VALUE_SCHEMA = { type: ['string', 'number', 'boolean'] };
+
+const ACTION_STEP_SCHEMA = {
+    type: 'object',
+    required: ['op'],
+    oneOf: [
+        {
+            properties: { op: { const: 'set' }, property: { type: 'string' }, value: VALUE_SCHEMA },
+            required: ['op', 'property', 'value'],
+        },
+        {
+            properties: { op: { const: 'toggle' }, property: { type: 'string' } },
+            required: ['op', 'property'],
+        },
+        {
+            properties: { op: { const: 'increment' }, property: { type: 'string' }, by: { type: 'number' } },
+            required: ['op', 'property'],
+        },
+        {
+            properties: { op: { const: 'duplicate' } },
+            required: ['op'],
+        },
+        {
+            properties: { op: { const: 'set_all' }, property: { type: 'string' }, value: VALUE_SCHEMA },
+            required: ['op', 'property', 'value'],
+        },
+        {
+            properties: { op: { const: 'navigate' }, view: { type: 'string' } },
+            required: ['op', 'view'],
+        },
+    ],
+};
+
+/**
+ * JSON Schema (draft 2020-12) for the Specification type.
+ *
+ * Published with spec exports so files can be checked by other tools;
+ * keep in step with the interfaces in src/types.
+ */
+export const SPEC_JSON_SCHEMA = {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: SPEC_SCHEMA_ID,
+    title: 'Mini Artifact Specification',
+    type: 'object',
+    required: ['version', 'meta', 'entities', 'views', 'actions', 'patterns'],
+    properties: {
+        $schema: { type: 'string' },
+        version: { type: 'string', pattern: '^\\d+\\.\\d+\\.\\d+$' },
+        meta: {
+            type: 'object',
+            required: ['name'],
+            properties: {
+                name: { type: 'string' },
+                description: { type: 'string' },
+                createdAt: { type: 'string' },
+            },
+        },
+        entities: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['id', 'name', 'properties', 'relationships'],
+                properties: {
+                    id: { type: 'string' },
+                    name: { type: 'string' },
+                    properties: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            required: ['name', 'type', 'required'],
+                            properties: {
+                                name: { type: 'string' },
+                                type: { enum: PROPERTY_TYPES },
+                                required: { type: 'boolean' },
+                                options: { type: 'array', items: { type: 'string' } },
+                                currency: { type: 'string', pattern: '^[A-Z]{3}$' },
+                                min: { type: 'number' },
+                                max: { type: 'number' },
+                                minLength: { type: 'number' },
+                                maxLength: { type: 'number' },
+                                pattern: { type: 'string' },
+                                unique: { type: 'boolean' },
+                                default: VALUE_SCHEMA,
+                            },
+                        },
+                    },
+                    relationships: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            required: ['targetEntity', 'type'],
+                            properties: {
+                                targetEntity: { type: 'string' },
+                                type: { enum: ['one-to-one', 'one-to-many', 'many-to-many'] },
+                                onDelete: { enum: ['cascade', 'restrict'] },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        views: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['id', 'name', 'type', 'entity'],
+                properties: {
+                    id: { type: 'string' },
+                    name: { type: 'string' },
+                    type: { enum: ['list', 'form', 'detail', 'dashboard'] },
+                    entity: { type: 'string' },
+                    columns: { type: 'array', items: { type: 'string' } },
+                    layout: { enum: ['table', 'cards'] },
+                    pageSize: { type: 'number' },
+                },
+            },
+        },
+        actions: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['id', 'name', 'trigger'],
+                properties: {
+                    id: { type: 'string' },
+                    name: { type: 'string' },
+                    trigger: { enum: ['button', 'form_submit', 'auto'] },
+                    logic: { type: 'string' },
+                    entity: { type: 'string' },
+                    steps: { type: 'array', items: ACTION_STEP_SCHEMA },
+                },
+            },
+        },
+        patterns: { type: 'array', items: { type: 'string' } },
+    },
+} as const;
+
+const SPEC_NODES = SPEC_JSON_SCHEMA.properties;
+const ENTITY_NODES = SPEC_NODES.entities.items.properties;
+
+/**
+ * JSON Schema for a list of SpecPatchOperations. A value is a scalar, a
+ * list of strings (options, patterns) or one of the spec's own objects.
+ */
+export const SPEC_PATCH_SCHEMA = {
+    type: 'array',
+    items: {
+        type: 'object',
+        required: ['op', 'path'],
+        properties: {
+            op: { enum: ['add', 'replace', 'remove'] },
+            path: { type: 'string' },
+            value: {
+                oneOf: [
+                    { type: ['string', 'number', 'boolean'] },
+                    { type: 'array', items: { type: 'string' } },
+                    SPEC_NODES.meta,
+                    SPEC_NODES.entities.items,
+                    ENTITY_NODES.properties.items,
+                    ENTITY_NODES.relationships.items,
+                    SPEC_NODES.views.items,
+                    SPEC_NODES.actions.items,
+                    ACTION_STEP_SCHEMA,
+                ],
+            },
+        },
+    },
+} as const;
+
+// ------------------------------------------------------------
+// Structured Output
+// ------------------------------------------------------------
+
+interface JsonSchemaNode {
+    type?: string | readonly string[];
+    required?: readonly string[];
+    properties?: Record<string, JsonSchemaNode>;
+    items?: JsonSchemaNode;
+    enum?: readonly unknown[];
+    const?: unknown;
+    oneOf?: readonly JsonSchemaNode[];
+    [keyword: string]: unknown;
+}
+
+// Keywords that describe the document rather than the data
+const META_KEYWORDS = ['$schema', '$id', 'title'];
+
+/**
+ * Rewrite a schema into the subset accepted by strict structured output
+ * (OpenAI `json_schema` with `strict: true`, which Anthropic tool input
+ * schemas accept too): every property is required, optional ones become
+ * nullable, objects are closed, `oneOf` becomes `anyOf` and `const`
+ * becomes a one-value `enum`.
+ */
+export function toStructuredOutputSchema(schema: object): Record<string, unknown> {
+    return convertNode(schema as JsonSchemaNode);
+}
+
+function convertNode(node: JsonSchemaNode): Record<string, unknown> {
+    // Each alternative becomes a complete schema of the parent's type
+    if (node.oneOf) {
+        return { anyOf: node.oneOf.map((branch) => convertNode({ type: node.type, ...branch })) };
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [keyword, value] of Object.entries(node)) {
+        if (META_KEYWORDS.includes(keyword) || keyword === 'const') continue;
+        result[keyword] = value;
+    }
+
+    if (node.const !== undefined) {
+        result.enum = [node.const];
+    }
+    const values = node.enum || (node.const !== undefined ? [node.const] : undefined);
+    if (values && !node.type) {
+        result.type = typeof values[0];
+    }
+
+    if (node.items) {
+        result.items = convertNode(node.items);
+    }
+
+    const isObject = node.type === 'object' || node.properties !== undefined;
+    if (isObject) {
+        const required = node.required || [];
+        const properties: Record<string, unknown> = {};
+        for (const [name, property] of Object.entries(node.properties || {})) {
+            if (META_KEYWORDS.includes(name)) continue;
+            const converted = convertNode(property);
+            properties[name] = required.includes(name) ? converted : makeNullable(converted);
+        }
+        result.type = 'object';
+        result.properties = properties;
+        result.required = Object.keys(properties);
+        result.additionalProperties = false;
+    }
+
+    return result;
+}
+
+function makeNullable(schema: Record<string, unknown>): Record<string, unknown> {
+    if (schema.anyOf) {
+        return { anyOf: [...(schema.anyOf as unknown[]), { type: 'null' }] };
+    }
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    return {
+        ...schema,
+        type: [...types, 'null'],
+        ...(schema.enum ? { enum: [...(schema.enum as unknown[]), null] } : {}),
+    };
+}
@@ -1,4 +1,16 @@
-import { Specification, ValidationResult, ValidationError, ValidationWarning } from '../../types';
+import {
+    Specification,
+    Action,
+    Property,
+    ValidationResult,
+    ValidationError,
+    ValidationWarning,
+    RATING_MAX,
+    NUMERIC_PROPERTY_TYPES,
+    TEXT_PROPERTY_TYPES,
+} from '../../types';
+import { SPEC_JSON_SCHEMA } from './schema';
+import { getReferenceFields } from './router';
 
 // ============================================================
 // Mini-Nedry - Spec Validator
@@ -68,6 +80,24 @@ export function validateSpec(spec: Specification | null): ValidationResult {
         // Check for duplicate property names
         const propNames = new Set<string>();
         entity.properties.forEach((prop, propIndex) => {
+            if (!prop.name || prop.name.trim() === '') {
+                errors.push({
+                    code: 'MISSING_PROPERTY_NAME',
+                    message: `Property at index ${propIndex} in entity "${entity.name}" has no name`,
+                    path: `entities[${index}].properties[${propIndex}].name`,
+                });
+            }
+
+            if (prop.type === 'enum' && (!prop.options || prop.options.length === 0)) {
+                warnings.push({
+                    code: 'ENUM_WITHOUT_OPTIONS',
+                    message: `Enum property "${prop.name}" in entity "${entity.name}" has no options`,
+                    path: `entities[${index}].properties[${propIndex}].options`,
+                });
+            }
+
+            validatePropertyConstraints(entity.name, prop, `entities[${index}].properties[${propIndex}]`, errors, warnings);
+
             if (propNames.has(prop.name)) {
                 warnings.push({
                     code: 'DUPLICATE_PROPERTY',
@@ -92,6 +122,7 @@ export function validateSpec(spec: Specification | null): ValidationResult {
     });
 
     // View validation
+    const references = getReferenceFields(spec);
     spec.views.forEach((view, index) => {
         if (!view.name || view.name.trim() === '') {
             errors.push({
@@ -102,15 +133,38 @@ export function validateSpec(spec: Specification | null): ValidationResult {
         }
 
         // Check entity reference
-        if (view.entity) {
-            const entityExists = spec.entities.some((e) => e.id === view.entity);
-            if (!entityExists) {
-                warnings.push({
-                    code: 'INVALID_VIEW_ENTITY',
-                    message: `View "${view.name}" references unknown entity "${view.entity}"`,
-                    path: `views[${index}].entity`,
-                });
-            }
+        const viewEntity = spec.entities.find((e) => e.id === view.entity);
+        if (view.entity && !viewEntity) {
+            warnings.push({
+                code: 'INVALID_VIEW_ENTITY',
+                message: `View "${view.name}" references unknown entity "${view.entity}"`,
+                path: `views[${index}].entity`,
+            });
+        }
+
+        // Columns may name properties or reference fields
+        if (view.columns && viewEntity) {
+            const fields = [
+                ...viewEntity.properties.map((p) => p.name),
+                ...references.filter((r) => r.entityId === viewEntity.id).map((r) => r.field),
+            ];
+            view.columns.forEach((column, columnIndex) => {
+                if (!fields.includes(column)) {
+                    warnings.push({
+                        code: 'INVALID_VIEW_COLUMN',
+                        message: `View "${view.name}" shows unknown column "${column}"`,
+                        path: `views[${index}].columns[${columnIndex}]`,
+                    });
+                }
+            });
+        }
+
+        if (view.pageSize !== undefined && (!Number.isInteger(view.pageSize) || view.pageSize < 1)) {
+            errors.push({
+                code: 'INVALID_PAGE_SIZE',
+                message: `View "${view.name}" needs a page size of at least 1`,
+                path: `views[${index}].pageSize`,
+            });
         }
     });
 
@@ -131,6 +185,8 @@ export function validateSpec(spec: Specification | null): ValidationResult {
                 path: `actions[${index}].trigger`,
             });
         }
+
+        validateActionSteps(spec, action, index, errors, warnings);
     });
 
     // Optional warnings
@@ -158,6 +214,342 @@ export function validateSpec(spec: Specification | null): ValidationResult {
     };
 }
 
+// ------------------------------------------------------------
+// Action Step Validation
+// ------------------------------------------------------------
+
+const ITEM_STEP_OPS = ['set', 'toggle', 'increment', 'duplicate', 'set_all'];
+
+/**
+ * Errors in a single action's steps, e.g. to check an edit before it is
+ * saved into the spec.
+ */
+export function getActionStepErrors(spec: Specification, action: Action): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const index = spec.actions.findIndex((a) => a.id === action.id);
+    validateActionSteps(spec, action, index > -1 ? index : spec.actions.length, errors, []);
+    return errors;
+}
+
+/**
+ * Check that each action step targets an existing entity, property or view
+ * and that set values fit the property type.
+ */
+function validateActionSteps(
+    spec: Specification,
+    action: Action,
+    index: number,
+    errors: ValidationError[],
+    warnings: ValidationWarning[]
+): void {
+    const label = action.name || index;
+
+    if (!action.steps || action.steps.length === 0) {
+        warnings.push({
+            code: 'ACTION_NOT_EXECUTABLE',
+            message: `Action "${label}" has no steps and will not appear in the app`,
+            path: `actions[${index}].steps`,
+        });
+        return;
+    }
+
+    const entity = spec.entities.find((e) => e.id === action.entity);
+    const needsEntity = action.steps.some((step) => ITEM_STEP_OPS.includes(step.op));
+    if (needsEntity && !entity) {
+        errors.push({
+            code: 'INVALID_ACTION_ENTITY',
+            message: action.entity
+                ? `Action "${label}" references unknown entity "${action.entity}"`
+                : `Action "${label}" changes items but has no entity`,
+            path: `actions[${index}].entity`,
+        });
+    }
+
+    action.steps.forEach((step, stepIndex) => {
+        const path = `actions[${index}].steps[${stepIndex}]`;
+
+        if (step.op === 'navigate') {
+            if (!spec.views.some((v) => v.id === step.view)) {
+                errors.push({
+                    code: 'INVALID_ACTION_STEP',
+                    message: `Action "${label}" navigates to unknown view "${step.view}"`,
+                    path,
+                });
+            }
+            return;
+        }
+
+        if (!ITEM_STEP_OPS.includes(step.op)) {
+            errors.push({
+                code: 'INVALID_ACTION_STEP',
+                message: `Action "${label}" has unknown step "${(step as { op: string }).op}"`,
+                path,
+            });
+            return;
+        }
+
+        if (step.op === 'duplicate' || !entity) return;
+
+        const property = entity.properties.find((p) => p.name === step.property);
+        if (!property) {
+            errors.push({
+                code: 'INVALID_ACTION_STEP',
+                message: `Action "${label}" uses unknown property "${step.property}" on "${entity.name}"`,
+                path,
+            });
+            return;
+        }
+
+        const typeError = getStepTypeError(step, property);
+        if (typeError) {
+            errors.push({
+                code: 'INVALID_ACTION_STEP',
+                message: `Action "${label}": ${typeError}`,
+                path,
+            });
+        }
+    });
+}
+
+function getStepTypeError(
+    step: NonNullable<Action['steps']>[number],
+    property: Specification['entities'][0]['properties'][0]
+): string | null {
+    switch (step.op) {
+        case 'toggle':
+            return property.type === 'boolean' ? null : `"${property.name}" must be a boolean to toggle`;
+        case 'increment':
+            return NUMERIC_PROPERTY_TYPES.includes(property.type) ? null : `"${property.name}" must be a number to increment`;
+        case 'set':
+        case 'set_all':
+            return getValueError(property, step.value);
+        default:
+            return null;
+    }
+}
+
+/**
+ * Check that a value stored by the spec itself (a set step or a default)
+ * fits the property's type and constraints.
+ */
+function getValueError(property: Property, value: string | number | boolean): string | null {
+    switch (property.type) {
+        case 'boolean':
+            return typeof value === 'boolean' ? null : `"${property.name}" expects true or false`;
+        case 'number':
+        case 'currency':
+            if (typeof value !== 'number') return `"${property.name}" expects a number`;
+            break;
+        case 'rating':
+            if (!Number.isInteger(value) || Number(value) < 1 || Number(value) > RATING_MAX) {
+                return `"${property.name}" expects a rating from 1 to ${RATING_MAX}`;
+            }
+            break;
+        case 'enum':
+            return property.options?.includes(String(value))
+                ? null
+                : `"${value}" is not an option of "${property.name}"`;
+        case 'date':
+            return value === '$today' || !isNaN(Date.parse(String(value)))
+                ? null
+                : `"${property.name}" expects a date or "$today"`;
+    }
+
+    if (typeof value === 'number') {
+        if (property.min !== undefined && value < property.min) return `"${property.name}" must be at least ${property.min}`;
+        if (property.max !== undefined && value > property.max) return `"${property.name}" must be at most ${property.max}`;
+    }
+    if (typeof value === 'string' && TEXT_PROPERTY_TYPES.includes(property.type)) {
+        if (property.minLength !== undefined && value.length < property.minLength) {
+            return `"${property.name}" must be at least ${property.minLength} characters`;
+        }
+        if (property.maxLength !== undefined && value.length > property.maxLength) {
+            return `"${property.name}" must be at most ${property.maxLength} characters`;
+        }
+        const pattern = compilePattern(property.pattern);
+        if (pattern && !pattern.test(value)) return `"${value}" does not match the pattern of "${property.name}"`;
+    }
+    return null;
+}
+
+// ------------------------------------------------------------
+// Property Constraints
+// ------------------------------------------------------------
+
+/**
+ * Check that a property's constraints fit its type and each other, and
+ * that its default value satisfies them. Constraints the generated app
+ * would ignore are warnings; contradictory ones are errors.
+ */
+function validatePropertyConstraints(
+    entityName: string,
+    prop: Property,
+    path: string,
+    errors: ValidationError[],
+    warnings: ValidationWarning[]
+): void {
+    const label = `"${prop.name}" in entity "${entityName}"`;
+    const ignore = (field: string, kind: string) => {
+        warnings.push({
+            code: 'CONSTRAINT_IGNORED',
+            message: `${field} only applies to ${kind} properties; it is ignored on ${label}`,
+            path: `${path}.${field}`,
+        });
+    };
+    const invalid = (field: string, message: string) => {
+        errors.push({ code: 'INVALID_CONSTRAINT', message: `${label}: ${message}`, path: `${path}.${field}` });
+    };
+
+    const isNumeric = NUMERIC_PROPERTY_TYPES.includes(prop.type);
+    const isText = TEXT_PROPERTY_TYPES.includes(prop.type);
+
+    if (!isNumeric) {
+        if (prop.min !== undefined) ignore('min', 'number');
+        if (prop.max !== undefined) ignore('max', 'number');
+    } else if (prop.min !== undefined && prop.max !== undefined && prop.min > prop.max) {
+        invalid('min', `min (${prop.min}) is greater than max (${prop.max})`);
+    }
+
+    if (!isText) {
+        if (prop.minLength !== undefined) ignore('minLength', 'text');
+        if (prop.maxLength !== undefined) ignore('maxLength', 'text');
+        if (prop.pattern !== undefined) ignore('pattern', 'text');
+    } else {
+        for (const field of ['minLength', 'maxLength'] as const) {
+            const length = prop[field];
+            if (length !== undefined && (!Number.isInteger(length) || length < 0)) {
+                invalid(field, `${field} must be a whole number of characters`);
+            }
+        }
+        if (prop.minLength !== undefined && prop.maxLength !== undefined && prop.minLength > prop.maxLength) {
+            invalid('minLength', `minLength (${prop.minLength}) is greater than maxLength (${prop.maxLength})`);
+        }
+        if (prop.pattern !== undefined && !compilePattern(prop.pattern)) {
+            invalid('pattern', `"${prop.pattern}" is not a valid regular expression`);
+        }
+    }
+
+    if (prop.unique && prop.type === 'boolean') {
+        warnings.push({
+            code: 'UNIQUE_BOOLEAN',
+            message: `Unique boolean ${label} allows only two items`,
+            path: `${path}.unique`,
+        });
+    }
+
+    if (prop.default !== undefined) {
+        const error = getValueError(prop, prop.default);
+        if (error) {
+            errors.push({ code: 'INVALID_DEFAULT', message: `Default of ${label}: ${error}`, path: `${path}.default` });
+        }
+    }
+}
+
+// Patterns match the whole value, like the HTML pattern attribute
+function compilePattern(pattern: string | undefined): RegExp | null {
+    if (pattern === undefined) return null;
+    try {
+        return new RegExp(`^(?:${pattern})$`);
+    } catch {
+        return null;
+    }
+}
+
+// ------------------------------------------------------------
+// Shape Validation
+// ------------------------------------------------------------
+
+interface SchemaNode {
+    type?: string | readonly string[];
+    required?: readonly string[];
+    properties?: Record<string, SchemaNode>;
+    items?: SchemaNode;
+    enum?: readonly unknown[];
+    const?: unknown;
+    pattern?: string;
+    oneOf?: readonly SchemaNode[];
+}
+
+/**
+ * Check untrusted data (e.g. an imported file) against the published
+ * JSON Schema before it is treated as a Specification.
+ */
+export function validateSpecShape(raw: unknown): ValidationError[] {
+    const errors: ValidationError[] = [];
+    checkSchema(raw, SPEC_JSON_SCHEMA as unknown as SchemaNode, '', errors);
+    return errors;
+}
+
+function checkSchema(value: unknown, schema: SchemaNode, path: string, errors: ValidationError[]): void {
+    const at = path || 'spec';
+
+    if (schema.type) {
+        const types = typeof schema.type === 'string' ? [schema.type] : schema.type;
+        if (!types.includes(getJsonType(value))) {
+            errors.push({ code: 'INVALID_SHAPE', message: `${at} must be ${types.join(' or ')}`, path: at });
+            return;
+        }
+    }
+
+    if (schema.const !== undefined && value !== schema.const) {
+        errors.push({ code: 'INVALID_SHAPE', message: `${at} must be "${schema.const}"`, path: at });
+        return;
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+        errors.push({
+            code: 'INVALID_SHAPE',
+            message: `${at} must be one of ${schema.enum.join(', ')} (got "${value}")`,
+            path: at,
+        });
+        return;
+    }
+
+    if (schema.pattern && typeof value === 'string' && !new RegExp(schema.pattern).test(value)) {
+        errors.push({ code: 'INVALID_SHAPE', message: `${at} has an invalid format ("${value}")`, path: at });
+        return;
+    }
+
+    if (Array.isArray(value) && schema.items) {
+        value.forEach((item, i) => checkSchema(item, schema.items!, `${path}[${i}]`, errors));
+        return;
+    }
+
+    if (getJsonType(value) !== 'object') return;
+    const record = value as Record<string, unknown>;
+
+    schema.required?.forEach((key) => {
+        if (record[key] === undefined) {
+            errors.push({ code: 'INVALID_SHAPE', message: `${joinPath(path, key)} is required`, path: joinPath(path, key) });
+        }
+    });
+
+    Object.entries(schema.properties || {}).forEach(([key, child]) => {
+        if (record[key] !== undefined) checkSchema(record[key], child, joinPath(path, key), errors);
+    });
+
+    if (schema.oneOf) {
+        const matches = schema.oneOf.filter((option) => {
+            const optionErrors: ValidationError[] = [];
+            checkSchema(value, option, path, optionErrors);
+            return optionErrors.length === 0;
+        });
+        if (matches.length !== 1) {
+            errors.push({ code: 'INVALID_SHAPE', message: `${at} does not match any allowed form`, path: at });
+        }
+    }
+}
+
+function getJsonType(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+function joinPath(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+}
+
 // ------------------------------------------------------------
 // Completeness Calculation
 // ------------------------------------------------------------
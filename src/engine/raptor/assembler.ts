@@ -90,9 +90,11 @@ function sortByDependencies(refs: PatternReference[]): PatternReference[] {
         'input-checkbox': 5,
         'input-date': 5,
         'input-select': 5,
+        'input-textarea': 5,
         'view-list': 6,
         'view-form': 6,
         'view-detail': 6,
+        'view-dashboard': 6,
         'action-button': 7,
         'action-delete': 7,
     };
@@ -132,7 +134,9 @@ function buildContext(
             const entity = spec.entities.find((e) => e.id === entityId);
             if (entity) {
                 context.entity = entity;
-                context.properties = entity.properties;
+                if (!Array.isArray(ref.config.properties)) {
+                    context.properties = entity.properties;
+                }
             }
         }
     }
@@ -1,8 +1,10 @@
-import { RaptorInput, RaptorOutput, BuildManifest, createTimestamp } from '../../types';
+import { RaptorInput, RaptorOutput, BuildManifest, BuildTarget, Specification, createTimestamp } from '../../types';
 import { assemblePatterns } from './assembler';
 import { getPattern } from './patterns';
 import { renderTemplate } from '../../utils/templates';
 
+export { buildReactProject } from './targets/react';
+
 // ============================================================
 // Mini-Raptor - Composition Engine
 // ============================================================
@@ -25,21 +27,12 @@ export async function build(input: RaptorInput): Promise<RaptorOutput> {
         console.log('Raptor: Assembled CSS:', assembled.css.length, 'chars');
         console.log('Raptor: Assembled JS:', assembled.js.length, 'chars');
 
-        // 2. Get the app shell pattern
-        const shellPattern = getPattern('app-shell');
-        if (!shellPattern) {
+        // 2-3. Render the complete HTML document in the app shell
+        const html = renderDocument(spec, assembled.html, { styles: assembled.css, scripts: assembled.js });
+        if (html === null) {
             return createErrorOutput('App shell pattern not found');
         }
 
-        // 3. Render the complete HTML document
-        const html = renderTemplate(shellPattern.template.html, {
-            appName: spec.meta.name,
-            description: spec.meta.description,
-            content: assembled.html,
-            styles: assembled.css,
-            scripts: assembled.js,
-        });
-
         console.log('Raptor: Final HTML:', html.length, 'chars');
 
         // 4. Build manifest
@@ -58,6 +51,7 @@ export async function build(input: RaptorInput): Promise<RaptorOutput> {
             html,
             css: assembled.css,
             javascript: assembled.js,
+            markup: assembled.html,
             manifest,
         };
     } catch (error) {
@@ -68,6 +62,39 @@ export async function build(input: RaptorInput): Promise<RaptorOutput> {
     }
 }
 
+/**
+ * Output targets. 'html' is the single-page build() output used for the
+ * preview; 'react-ts' is a Vite + React + TypeScript project from
+ * buildReactProject().
+ */
+export const BUILD_TARGETS: Array<{ id: BuildTarget; name: string }> = [
+    { id: 'html', name: 'HTML / CSS / JS' },
+    { id: 'react-ts', name: 'React + TypeScript' },
+];
+
+/**
+ * Wrap assembled markup in the app shell.
+ *
+ * Pass `{ styles, scripts }` to inline them (single-file preview), or
+ * `'linked'` to reference styles.css and app.js (multi-file export).
+ * Returns null if the app-shell pattern is missing.
+ */
+export function renderDocument(
+    spec: Specification,
+    markup: string,
+    assets: { styles: string; scripts: string } | 'linked'
+): string | null {
+    const shellPattern = getPattern('app-shell');
+    if (!shellPattern) return null;
+
+    return renderTemplate(shellPattern.template.html, {
+        appName: spec.meta.name,
+        description: spec.meta.description,
+        content: markup,
+        ...(assets === 'linked' ? { linkAssets: true } : assets),
+    });
+}
+
 /**
  * Create an error output response.
  */
@@ -15,6 +15,8 @@ export const appCore: Pattern = {
         { name: 'appName', type: 'string', required: true },
         { name: 'entities', type: 'object[]', required: true },
         { name: 'views', type: 'object[]', required: true },
+        { name: 'references', type: 'object[]', required: false },
+        { name: 'actions', type: 'object[]', required: false },
     ],
     template: {
         html: '',
@@ -28,6 +30,19 @@ var App = (function() {
     // Storage key
     var STORAGE_KEY = '{{appName}}-data';
     
+    // Entities, views and relationship fields from the spec
+    var ENTITIES = {{{jsData entities}}} || [];
+    var VIEWS = {{{jsData views}}} || [];
+    var REFERENCES = {{{jsData references}}} || [];
+    var RATING_MAX = 5;
+    var TEXT_TYPES = ['string', 'longtext', 'email', 'url', 'phone', 'image'];
+    
+    // Actions with executable steps
+    var ACTIONS = ({{{jsData actions}}} || []).filter(function(action) {
+        return action.steps && action.steps.length > 0;
+    });
+    var ITEM_OPS = ['set', 'toggle', 'increment', 'duplicate'];
+    
     // In-memory fallback
     var memoryStorage = {};
     var useMemory = false;
@@ -122,21 +137,172 @@ var App = (function() {
         return null;
     }
     
+    // Delete an item, honoring each relationship's onDelete rule.
+    // Returns { removed: false, reason } when a restrict rule blocks it.
     function remove(entityId, id) {
-        var data = getStorage() || initData();
-        var items = data[entityId] || [];
+        var reason = findBlocker(entityId, id, {});
+        if (reason) {
+            return { removed: false, reason: reason };
+        }
+        removeCascade(entityId, id, {});
+        return { removed: true };
+    }
+    
+    function removeCascade(entityId, id, seen) {
+        if (seen[entityId + ':' + id]) return;
+        seen[entityId + ':' + id] = true;
         
-        data[entityId] = items.filter(function(item) {
+        var dependents = findDependents(entityId, id);
+        var data = getStorage() || initData();
+        data[entityId] = (data[entityId] || []).filter(function(item) {
             return item.id !== id;
         });
         setStorage(data);
+        
+        dependents.forEach(function(dep) {
+            dep.items.forEach(function(item) {
+                if (dep.ref.multiple) {
+                    var updates = {};
+                    updates[dep.ref.field] = item[dep.ref.field].filter(function(refId) {
+                        return refId !== id;
+                    });
+                    update(dep.ref.entityId, item.id, updates);
+                } else {
+                    removeCascade(dep.ref.entityId, item.id, seen);
+                }
+            });
+        });
+    }
+    
+    function findBlocker(entityId, id, seen) {
+        if (seen[entityId + ':' + id]) return null;
+        seen[entityId + ':' + id] = true;
+        
+        var dependents = findDependents(entityId, id);
+        for (var i = 0; i < dependents.length; i++) {
+            var dep = dependents[i];
+            if (dep.ref.onDelete === 'restrict') {
+                return 'Cannot delete: ' + dep.items.length + ' ' + dep.ref.entityName +
+                    (dep.items.length === 1 ? ' item is' : ' items are') + ' still linked to it.';
+            }
+            if (!dep.ref.multiple) {
+                for (var j = 0; j < dep.items.length; j++) {
+                    var reason = findBlocker(dep.ref.entityId, dep.items[j].id, seen);
+                    if (reason) return reason;
+                }
+            }
+        }
+        return null;
+    }
+    
+    // ============================================================
+    // Relationships
+    // ============================================================
+    
+    // Items of other entities whose reference fields point at this item
+    function findDependents(entityId, id) {
+        var result = [];
+        REFERENCES.forEach(function(ref) {
+            if (ref.targetEntity !== entityId) return;
+            var items = getAll(ref.entityId).filter(function(item) {
+                return isLinked(ref, item, id);
+            });
+            if (items.length > 0) {
+                result.push({ ref: ref, items: items });
+            }
+        });
+        return result;
+    }
+    
+    function isLinked(ref, item, id) {
+        var value = item[ref.field];
+        if (ref.multiple) {
+            return Array.isArray(value) && value.indexOf(id) > -1;
+        }
+        return value === id;
+    }
+    
+    function getReference(entityId, field) {
+        for (var i = 0; i < REFERENCES.length; i++) {
+            if (REFERENCES[i].entityId === entityId && REFERENCES[i].field === field) {
+                return REFERENCES[i];
+            }
+        }
+        return null;
+    }
+    
+    // The item's first text property, else a common title field or its id
+    function getLabel(entityId, item) {
+        if (!item) return '-';
+        var title = null;
+        ENTITIES.forEach(function(entity) {
+            if (entity.id !== entityId) return;
+            (entity.properties || []).some(function(property) {
+                if (property.type === 'string') title = property.name;
+                return title !== null;
+            });
+        });
+        return String((title && item[title]) || item.name || item.title || item.label || item.id);
+    }
+    
+    // Display text for a reference value (one id or an array of ids)
+    function formatReference(ref, value) {
+        var ids = Array.isArray(value) ? value : (value ? [value] : []);
+        if (ids.length === 0) return '-';
+        return ids.map(function(refId) {
+            return getLabel(ref.targetEntity, getById(ref.targetEntity, refId));
+        }).join(', ');
+    }
+    
+    // Fill <select data-ref-entity> pickers with the target entity's items
+    function populatePickers(form) {
+        var pickers = form.querySelectorAll('select[data-ref-entity]');
+        for (var i = 0; i < pickers.length; i++) {
+            var picker = pickers[i];
+            var targetId = picker.getAttribute('data-ref-entity');
+            var html = picker.multiple ? '' : '<option value="">None</option>';
+            getAll(targetId).forEach(function(item) {
+                html += '<option value="' + escapeHtml(item.id) + '">' + escapeHtml(getLabel(targetId, item)) + '</option>';
+            });
+            picker.innerHTML = html;
+        }
     }
     
     // ============================================================
     // View Rendering
     // ============================================================
     
+    function findView(viewId) {
+        for (var i = 0; i < VIEWS.length; i++) {
+            if (VIEWS[i].id === viewId) return VIEWS[i];
+        }
+        return null;
+    }
+    
+    // Id of the entity's view of the given type (falls back to "<entity>-<type>-view")
+    function viewFor(entityId, type) {
+        for (var i = 0; i < VIEWS.length; i++) {
+            if (VIEWS[i].entity === entityId && VIEWS[i].type === type) return VIEWS[i].id;
+        }
+        return entityId + '-' + type + '-view';
+    }
+    
+    function showList(entityId) {
+        detailItemId = null;
+        showView(viewFor(entityId, 'list'));
+    }
+    
+    var currentViewId = null;
+    
     function showView(viewId) {
+        // A detail view shows nothing without an item; go to its list
+        var view = findView(viewId);
+        if (view && view.type === 'detail' && !detailItemId) {
+            showList(view.entity);
+            return;
+        }
+        currentViewId = viewId;
+        
         // Hide all views
         var views = document.querySelectorAll('.view');
         for (var i = 0; i < views.length; i++) {
@@ -158,61 +324,591 @@ var App = (function() {
             }
         }
         
-        // Render list if it's a list view
-        if (viewId.indexOf('-list') > -1 || target && target.querySelector('.item-list')) {
-            {{#each entities}}
-            if (viewId.indexOf('{{id}}') > -1) {
-                renderList('{{id}}');
-            }
-            {{/each}}
+        // Fill the view; one outside the spec may still hold a list
+        if (view) {
+            if (view.type === 'list') renderListView(viewId);
+            if (view.type === 'dashboard' && target) renderDashboard(target);
+            if (view.type === 'detail' && detailItemId) fillDetail(view.entity, detailItemId, target);
+        } else {
+            renderListView(viewId);
         }
+        
+        replaceHash(hashFor(viewId, view));
     }
     
+    // Re-render every list view of the entity, e.g. after a delete
     function renderList(entityId) {
-        var listEl = document.getElementById(entityId + '-list');
-        var emptyEl = document.getElementById(entityId + '-empty');
-        var items = getAll(entityId);
-        
+        VIEWS.forEach(function(view) {
+            if (view.type === 'list' && view.entity === entityId) renderListView(view.id);
+        });
+    }
+    
+    // The view's element ids and data-list-* hooks all carry its id, so
+    // lists of the same entity render and page independently
+    function renderListView(viewId) {
+        var listEl = document.getElementById(viewId + '-items');
+        var emptyEl = document.getElementById(viewId + '-empty');
+        var noMatchesEl = document.getElementById(viewId + '-no-matches');
         if (!listEl) return;
         
-        if (items.length === 0) {
-            listEl.innerHTML = '';
-            if (emptyEl) emptyEl.style.display = 'block';
-            return;
-        }
+        var entityId = listEl.getAttribute('data-entity');
+        var all = getAll(entityId);
+        syncListControls(viewId);
+        var items = applyListState(viewId, all);
         
-        if (emptyEl) emptyEl.style.display = 'none';
+        // Keep the page in range, e.g. after a delete or a narrower search
+        var state = getListState(viewId);
+        var pageSize = Number(listEl.getAttribute('data-page-size')) || items.length || 1;
+        var pages = Math.max(1, Math.ceil(items.length / pageSize));
+        state.page = Math.min(Math.max(1, state.page), pages);
+        var pageItems = items.slice((state.page - 1) * pageSize, state.page * pageSize);
         
+        var table = listEl.getAttribute('data-layout') === 'table';
+        var frame = table ? listEl.closest('.item-table-wrapper') || listEl : listEl;
+        frame.style.display = items.length === 0 ? 'none' : '';
+        if (emptyEl) emptyEl.style.display = all.length === 0 ? 'block' : 'none';
+        if (noMatchesEl) noMatchesEl.style.display = all.length > 0 && items.length === 0 ? 'block' : 'none';
+        renderPagination(viewId, state.page, pages);
+        
+        var columns = (listEl.getAttribute('data-columns') || '').split(',').filter(Boolean);
         var html = '';
-        for (var i = 0; i < items.length; i++) {
-            var item = items[i];
-            html += '<div class="item-row" data-id="' + item.id + '">';
-            html += '<div class="item-content">';
+        pageItems.forEach(function(item) {
+            html += table ? tableRowHtml(entityId, item, columns) : cardHtml(entityId, item, columns);
+        });
+        listEl.innerHTML = html;
+    }
+    
+    function tableRowHtml(entityId, item, columns) {
+        var html = '<tr data-id="' + escapeAttr(item.id) + '"' + detailLinkAttrs(entityId) + '>';
+        columns.forEach(function(key) {
+            html += '<td>' + formatValue(entityId, key, item[key], true) + '</td>';
+        });
+        html += '<td class="item-actions-cell"><div class="item-actions">' + itemButtonsHtml(entityId, item) + '</div></td>';
+        return html + '</tr>';
+    }
+    
+    // The first column is the card's title; the others are labelled fields
+    function cardHtml(entityId, item, columns) {
+        var html = '<div class="card item-card" data-id="' + escapeAttr(item.id) + '"' + detailLinkAttrs(entityId) + '>';
+        columns.forEach(function(key, index) {
+            var value = formatValue(entityId, key, item[key], true);
+            if (index === 0) {
+                html += '<div class="item-card-title">' + value + '</div>';
+            } else {
+                html += '<div class="item-field"><span class="item-field-label">' + escapeHtml(columnLabel(entityId, key)) + '</span><span>' + value + '</span></div>';
+            }
+        });
+        html += '<div class="item-actions">' + itemButtonsHtml(entityId, item) + '</div>';
+        return html + '</div>';
+    }
+    
+    function columnLabel(entityId, key) {
+        var ref = getReference(entityId, key);
+        var label = ref ? ref.targetName : key;
+        return label.charAt(0).toUpperCase() + label.slice(1);
+    }
+    
+    function itemButtonsHtml(entityId, item) {
+        var html = actionButtonsHtml(getButtonActions(entityId, true), item.id);
+        html += '<button class="btn btn-sm btn-secondary" onclick="App.editItem(\\'' + entityId + '\\', \\'' + item.id + '\\')">Edit</button>';
+        html += '<button class="btn btn-sm btn-danger" onclick="App.deleteItem(\\'' + entityId + '\\', \\'' + item.id + '\\')">Delete</button>';
+        return html;
+    }
+    
+    function renderPagination(viewId, page, pages) {
+        var nav = document.querySelector('[data-list-pages="' + viewId + '"]');
+        if (!nav) return;
+        if (pages <= 1) {
+            nav.innerHTML = '';
+            return;
+        }
+        nav.innerHTML =
+            '<button type="button" class="btn btn-sm btn-secondary" data-page="' + (page - 1) + '"' + (page === 1 ? ' disabled' : '') + '>Previous</button>' +
+            '<span class="text-muted">Page ' + page + ' of ' + pages + '</span>' +
+            '<button type="button" class="btn btn-sm btn-secondary" data-page="' + (page + 1) + '"' + (page === pages ? ' disabled' : '') + '>Next</button>';
+    }
+    
+    // ============================================================
+    // Search, Filter and Sort
+    // ============================================================
+    
+    // Per list view, so two lists of one entity keep their own:
+    // { q, filters: { property: value }, from, to, sort, dir, page }
+    var listStates = {};
+    
+    function getListState(viewId) {
+        if (!listStates[viewId]) {
+            listStates[viewId] = { q: '', filters: {}, from: '', to: '', sort: '', dir: 'asc', page: 1 };
+        }
+        return listStates[viewId];
+    }
+    
+    function getListControls(viewId) {
+        return document.querySelector('[data-list-controls="' + viewId + '"]');
+    }
+    
+    function getRangeProperty(viewId) {
+        var controls = getListControls(viewId);
+        var range = controls && controls.querySelector('[data-list-range]');
+        return range ? range.getAttribute('data-list-range') : null;
+    }
+    
+    // The items that match the search and filters, in the chosen order
+    function applyListState(viewId, items) {
+        var state = getListState(viewId);
+        var controls = getListControls(viewId);
+        var search = controls && controls.querySelector('[data-list-search]');
+        var searchFields = search ? search.getAttribute('data-list-search').split(',') : [];
+        var query = state.q.trim().toLowerCase();
+        var rangeProperty = getRangeProperty(viewId);
+        
+        var matches = items.filter(function(item) {
+            if (query && !searchFields.some(function(field) {
+                return item[field] !== undefined && item[field] !== null && String(item[field]).toLowerCase().indexOf(query) > -1;
+            })) return false;
             
-            // Show first text property as title
-            var title = item.name || item.title || item.label || 'Item ' + (i + 1);
-            html += '<strong>' + escapeHtml(String(title)) + '</strong>';
+            for (var name in state.filters) {
+                if (state.filters[name] !== '' && String(item[name] === undefined ? '' : item[name]) !== state.filters[name]) return false;
+            }
             
-            // Show other properties
-            for (var key in item) {
-                if (key !== 'id' && key !== 'createdAt' && key !== 'updatedAt' && key !== 'name' && key !== 'title') {
-                    var val = item[key];
-                    if (typeof val === 'boolean') {
-                        val = val ? '✓' : '✗';
-                    }
-                    html += '<span class="item-prop">' + key + ': ' + escapeHtml(String(val || '-')) + '</span>';
-                }
+            if (rangeProperty && (state.from || state.to)) {
+                var day = item[rangeProperty] ? String(item[rangeProperty]).slice(0, 10) : '';
+                if (!day) return false;
+                if (state.from && day < state.from) return false;
+                if (state.to && day > state.to) return false;
+            }
+            return true;
+        });
+        
+        if (!state.sort) return matches;
+        var direction = state.dir === 'desc' ? -1 : 1;
+        return matches.slice().sort(function(a, b) {
+            return compareValues(a[state.sort], b[state.sort]) * direction;
+        });
+    }
+    
+    // Numbers by value and text alphabetically; empty values go last
+    function compareValues(a, b) {
+        var aEmpty = a === undefined || a === null || a === '';
+        var bEmpty = b === undefined || b === null || b === '';
+        if (aEmpty || bEmpty) return aEmpty === bEmpty ? 0 : (aEmpty ? 1 : -1);
+        if (typeof a === 'number' && typeof b === 'number') return a - b;
+        if (typeof a === 'boolean' && typeof b === 'boolean') return a === b ? 0 : (a ? -1 : 1);
+        return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+    }
+    
+    // Show the state in the controls, e.g. after it was read from the URL
+    function syncListControls(viewId) {
+        var state = getListState(viewId);
+        var controls = getListControls(viewId);
+        if (controls) {
+            var search = controls.querySelector('[data-list-search]');
+            if (search) search.value = state.q;
+            var filters = controls.querySelectorAll('[data-list-filter]');
+            for (var i = 0; i < filters.length; i++) {
+                filters[i].value = state.filters[filters[i].getAttribute('data-list-filter')] || '';
+            }
+            var from = controls.querySelector('[data-list-from]');
+            if (from) from.value = state.from;
+            var to = controls.querySelector('[data-list-to]');
+            if (to) to.value = state.to;
+        }
+        
+        var buttons = document.querySelectorAll('[data-list-sort="' + viewId + '"] [data-sort]');
+        for (var j = 0; j < buttons.length; j++) {
+            if (buttons[j].getAttribute('data-sort') === state.sort) {
+                buttons[j].setAttribute('data-dir', state.dir);
+            } else {
+                buttons[j].removeAttribute('data-dir');
+            }
+        }
+    }
+    
+    // Re-render after a control changed and keep the URL in step
+    function updateList(viewId) {
+        renderListView(viewId);
+        if (viewId === currentViewId) {
+            replaceHash(buildHash(viewId, listParams(viewId)));
+        }
+    }
+    
+    // Each sort button cycles through ascending, descending and off
+    function toggleSort(viewId, field) {
+        var state = getListState(viewId);
+        if (state.sort !== field) {
+            state.sort = field;
+            state.dir = 'asc';
+        } else if (state.dir === 'asc') {
+            state.dir = 'desc';
+        } else {
+            state.sort = '';
+            state.dir = 'asc';
+        }
+        state.page = 1;
+        updateList(viewId);
+    }
+    
+    function bindListControls() {
+        var containers = document.querySelectorAll('[data-list-controls]');
+        for (var i = 0; i < containers.length; i++) {
+            (function(controls) {
+                var viewId = controls.getAttribute('data-list-controls');
+                var state = getListState(viewId);
+                controls.addEventListener('input', function(e) {
+                    var el = e.target;
+                    if (el.hasAttribute('data-list-search')) state.q = el.value;
+                    else if (el.hasAttribute('data-list-filter')) state.filters[el.getAttribute('data-list-filter')] = el.value;
+                    else if (el.hasAttribute('data-list-from')) state.from = el.value;
+                    else if (el.hasAttribute('data-list-to')) state.to = el.value;
+                    else return;
+                    state.page = 1;
+                    updateList(viewId);
+                });
+            })(containers[i]);
+        }
+        
+        var sortBars = document.querySelectorAll('[data-list-sort]');
+        for (var j = 0; j < sortBars.length; j++) {
+            sortBars[j].addEventListener('click', function(e) {
+                var button = e.target.closest('[data-sort]');
+                if (button) toggleSort(this.getAttribute('data-list-sort'), button.getAttribute('data-sort'));
+            });
+        }
+        
+        var pagers = document.querySelectorAll('[data-list-pages]');
+        for (var k = 0; k < pagers.length; k++) {
+            pagers[k].addEventListener('click', function(e) {
+                var button = e.target.closest('[data-page]');
+                if (!button) return;
+                var viewId = this.getAttribute('data-list-pages');
+                getListState(viewId).page = Number(button.getAttribute('data-page'));
+                updateList(viewId);
+            });
+        }
+    }
+    
+    // ============================================================
+    // URL Hash
+    // ============================================================
+    
+    // The hash names the current view, plus a list's search, filters and
+    // sort: #/task-list?q=milk&status=open&sort=title&dir=desc&page=2
+    var LIST_PARAMS = ['q', 'from', 'to', 'sort', 'dir', 'page'];
+    
+    function parseHash() {
+        var hash = location.hash.replace(/^#\\/?/, '');
+        var query = hash.indexOf('?');
+        var params = {};
+        (query > -1 ? hash.slice(query + 1) : '').split('&').forEach(function(pair) {
+            if (!pair) return;
+            var eq = pair.indexOf('=');
+            var key = eq > -1 ? pair.slice(0, eq) : pair;
+            try {
+                params[decodeURIComponent(key)] = decodeURIComponent(eq > -1 ? pair.slice(eq + 1) : '');
+            } catch (e) {
+                // Malformed escape; skip the parameter
+            }
+        });
+        return { path: query > -1 ? hash.slice(0, query) : hash, params: params };
+    }
+    
+    function buildHash(path, params) {
+        var query = Object.keys(params).filter(function(key) {
+            return params[key] !== '' && params[key] !== undefined && params[key] !== null;
+        }).map(function(key) {
+            return encodeURIComponent(key) + '=' + encodeURIComponent(params[key]);
+        }).join('&');
+        return '#/' + path + (query ? '?' + query : '');
+    }
+    
+    // Update the URL without adding a history entry or re-routing
+    function replaceHash(hash) {
+        if (location.hash === hash) return;
+        try {
+            history.replaceState(null, '', hash);
+        } catch (e) {
+            // Some sandboxed frames do not allow it; the app still works
+        }
+    }
+    
+    // Detail views are addressed by item: #/task/abc123
+    function hashFor(viewId, view) {
+        if (view && view.type === 'detail' && detailItemId) {
+            return '#/' + view.entity + '/' + encodeURIComponent(detailItemId);
+        }
+        return buildHash(viewId, view && view.type === 'list' ? listParams(viewId) : {});
+    }
+    
+    function listParams(viewId) {
+        var state = getListState(viewId);
+        var params = {
+            q: state.q,
+            from: state.from,
+            to: state.to,
+            sort: state.sort,
+            dir: state.sort && state.dir === 'desc' ? 'desc' : '',
+            page: state.page > 1 ? state.page : ''
+        };
+        for (var name in state.filters) {
+            if (LIST_PARAMS.indexOf(name) === -1) params[name] = state.filters[name];
+        }
+        return params;
+    }
+    
+    function readListParams(viewId, params) {
+        var state = getListState(viewId);
+        state.q = params.q || '';
+        state.from = params.from || '';
+        state.to = params.to || '';
+        state.sort = params.sort || '';
+        state.dir = params.dir === 'desc' ? 'desc' : 'asc';
+        state.page = parseInt(params.page, 10) || 1;
+        state.filters = {};
+        var controls = getListControls(viewId);
+        var filters = controls ? controls.querySelectorAll('[data-list-filter]') : [];
+        for (var i = 0; i < filters.length; i++) {
+            var name = filters[i].getAttribute('data-list-filter');
+            if (LIST_PARAMS.indexOf(name) === -1 && params[name]) state.filters[name] = params[name];
+        }
+    }
+    
+    // Show the view or item the hash names; false when it names neither
+    function routeFromHash() {
+        var route = parseHash();
+        var slash = route.path.indexOf('/');
+        if (slash > -1) {
+            var entityId = route.path.slice(0, slash);
+            var id = null;
+            try {
+                id = decodeURIComponent(route.path.slice(slash + 1));
+            } catch (e) {
+                // Malformed escape; treated as a missing item
+            }
+            if (id && showDetail(entityId, id)) return true;
+            // The item is gone (or never existed): show what is left
+            if (!document.getElementById(viewFor(entityId, 'list'))) return false;
+            showList(entityId);
+            return true;
+        }
+        if (!route.path || !document.getElementById(route.path)) return false;
+        var view = findView(route.path);
+        if (view && view.type === 'list') readListParams(view.id, route.params);
+        showView(route.path);
+        return true;
+    }
+    
+    // ============================================================
+    // Actions
+    // ============================================================
+    
+    // True when the action works on a single item (per-row buttons)
+    function isItemAction(action) {
+        return action.steps.some(function(step) {
+            return ITEM_OPS.indexOf(step.op) > -1;
+        });
+    }
+    
+    function resolveValue(value) {
+        if (value === '$today') return new Date().toISOString().slice(0, 10);
+        return value;
+    }
+    
+    // Run an action's steps; returns the view to navigate to, if any.
+    // Item steps apply to itemId, or to every item when there is none.
+    // Values a step writes pass the same checks as the form; an item they
+    // fail for is left as it was, and the user is told why.
+    function executeAction(action, itemId) {
+        var targets = itemId ? [itemId] : getAll(action.entity).map(function(item) { return item.id; });
+        var navigateTo = null;
+        var skipped = [];
+        
+        function save(id, updates) {
+            var error = findStepError(action.entity, updates, id);
+            if (error) {
+                skipped.push(getLabel(action.entity, getById(action.entity, id)) + ': ' + error);
+            } else {
+                update(action.entity, id, updates);
+            }
+        }
+        
+        action.steps.forEach(function(step) {
+            switch (step.op) {
+                case 'set':
+                case 'toggle':
+                case 'increment':
+                    targets.forEach(function(id) {
+                        var item = getById(action.entity, id);
+                        if (!item) return;
+                        var updates = {};
+                        if (step.op === 'set') updates[step.property] = resolveValue(step.value);
+                        if (step.op === 'toggle') updates[step.property] = !item[step.property];
+                        if (step.op === 'increment') {
+                            updates[step.property] = (Number(item[step.property]) || 0) + (step.by === undefined ? 1 : step.by);
+                        }
+                        save(id, updates);
+                    });
+                    break;
+                case 'duplicate':
+                    targets.forEach(function(id) {
+                        var item = getById(action.entity, id);
+                        if (!item) return;
+                        var copy = {};
+                        for (var key in item) {
+                            if (key !== 'id' && key !== 'createdAt' && key !== 'updatedAt') copy[key] = item[key];
+                        }
+                        // Checked as a new item, so unique values block the copy
+                        var error = findStepError(action.entity, copy, null);
+                        if (error) {
+                            skipped.push(getLabel(action.entity, item) + ': ' + error);
+                        } else {
+                            add(action.entity, copy);
+                        }
+                    });
+                    break;
+                case 'set_all':
+                    getAll(action.entity).forEach(function(item) {
+                        var updates = {};
+                        updates[step.property] = resolveValue(step.value);
+                        save(item.id, updates);
+                    });
+                    break;
+                case 'navigate':
+                    navigateTo = step.view;
+                    break;
+            }
+        });
+        
+        if (skipped.length > 0) {
+            alert(action.name + ' skipped ' + skipped.length + (skipped.length === 1 ? ' item' : ' items') + ':\\n' + skipped.join('\\n'));
+        }
+        return navigateTo;
+    }
+    
+    // The first value that fails its property's checks, as a message
+    function findStepError(entityId, values, editId) {
+        for (var name in values) {
+            var error = validateField(entityId, name, values[name], editId);
+            if (error) return name + ' - ' + error;
+        }
+        return null;
+    }
+    
+    function runAction(actionId, itemId) {
+        for (var i = 0; i < ACTIONS.length; i++) {
+            if (ACTIONS[i].id === actionId) {
+                var navigateTo = executeAction(ACTIONS[i], itemId || null);
+                if (navigateTo || currentViewId) showView(navigateTo || currentViewId);
+                return;
             }
+        }
+    }
+    
+    function actionButtonsHtml(actions, itemId) {
+        var html = '';
+        actions.forEach(function(action) {
+            var args = '\\'' + action.id + '\\'' + (itemId ? ', \\'' + itemId + '\\'' : '');
+            html += '<button class="btn btn-sm btn-secondary" onclick="App.runAction(' + args + ')">' + escapeHtml(action.name) + '</button>';
+        });
+        return html;
+    }
+    
+    function getButtonActions(entityId, perItem) {
+        return ACTIONS.filter(function(action) {
+            return action.trigger === 'button' &&
+                (action.entity || '') === entityId &&
+                isItemAction(action) === perItem;
+        });
+    }
+    
+    // Collection-level buttons (e.g. "Mark all complete", "Go to report")
+    function renderActionButtons() {
+        var containers = document.querySelectorAll('[data-actions-entity]');
+        for (var i = 0; i < containers.length; i++) {
+            var entityId = containers[i].getAttribute('data-actions-entity');
+            containers[i].innerHTML = actionButtonsHtml(getButtonActions(entityId, false));
+        }
+    }
+    
+    // ============================================================
+    // Dashboard
+    // ============================================================
+    
+    // Fill every [data-stat] element from the current data
+    function renderDashboard(container) {
+        var stats = container.querySelectorAll('[data-stat]');
+        for (var i = 0; i < stats.length; i++) {
+            var el = stats[i];
+            var entityId = el.getAttribute('data-entity');
+            var property = el.getAttribute('data-property');
+            var value = el.getAttribute('data-value');
+            var items = getAll(entityId);
             
-            html += '</div>';
-            html += '<div class="item-actions">';
-            html += '<button class="btn btn-sm btn-secondary" onclick="App.editItem(\\'' + entityId + '\\', \\'' + item.id + '\\')">Edit</button>';
-            html += '<button class="btn btn-sm btn-danger" onclick="App.deleteItem(\\'' + entityId + '\\', \\'' + item.id + '\\')">Delete</button>';
-            html += '</div>';
-            html += '</div>';
+            switch (el.getAttribute('data-stat')) {
+                case 'count':
+                    el.textContent = items.length;
+                    break;
+                case 'sum':
+                    el.textContent = formatNumber(sumOf(numbersOf(items, property)));
+                    break;
+                case 'avg':
+                    var numbers = numbersOf(items, property);
+                    el.textContent = numbers.length ? formatNumber(sumOf(numbers) / numbers.length) : '-';
+                    break;
+                case 'match':
+                    el.textContent = countMatching(items, property, value);
+                    break;
+                case 'share':
+                    var share = items.length ? countMatching(items, property, value) / items.length : 0;
+                    el.style.width = Math.round(share * 100) + '%';
+                    break;
+                case 'recent':
+                    el.innerHTML = renderRecent(entityId, items, property);
+                    break;
+            }
         }
+    }
+    
+    function numbersOf(items, property) {
+        var numbers = [];
+        items.forEach(function(item) {
+            var n = parseFloat(item[property]);
+            if (!isNaN(n)) numbers.push(n);
+        });
+        return numbers;
+    }
+    
+    function sumOf(numbers) {
+        return numbers.reduce(function(total, n) { return total + n; }, 0);
+    }
+    
+    function formatNumber(n) {
+        return Math.round(n * 100) / 100;
+    }
+    
+    function countMatching(items, property, value) {
+        return items.filter(function(item) {
+            return String(item[property]) === value;
+        }).length;
+    }
+    
+    // Five newest items by the given date property
+    function renderRecent(entityId, items, property) {
+        var dated = items.filter(function(item) {
+            return item[property] && !isNaN(new Date(item[property]).getTime());
+        });
+        dated.sort(function(a, b) {
+            return new Date(b[property]).getTime() - new Date(a[property]).getTime();
+        });
+        if (dated.length === 0) return '<p class="text-muted">Nothing yet.</p>';
         
-        listEl.innerHTML = html;
+        var html = '';
+        dated.slice(0, 5).forEach(function(item) {
+            html += '<div class="dashboard-recent-item">';
+            html += '<span>' + escapeHtml(getLabel(entityId, item)) + '</span>';
+            html += '<span class="text-muted">' + escapeHtml(formatDate(item[property])) + '</span>';
+            html += '</div>';
+        });
+        return html;
     }
     
     function escapeHtml(str) {
@@ -221,29 +917,195 @@ var App = (function() {
         return div.innerHTML;
     }
     
+    function escapeAttr(str) {
+        return escapeHtml(str).replace(/"/g, '&quot;');
+    }
+    
+    // ============================================================
+    // Property Types
+    // ============================================================
+    
+    function getProperty(entityId, name) {
+        for (var i = 0; i < ENTITIES.length; i++) {
+            if (ENTITIES[i].id !== entityId) continue;
+            var properties = ENTITIES[i].properties || [];
+            for (var j = 0; j < properties.length; j++) {
+                if (properties[j].name === name) return properties[j];
+            }
+        }
+        return null;
+    }
+    
+    // Formats checked on save; empty values are left to "required"
+    var FORMATS = {
+        email: { pattern: /^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$/, message: 'Enter an email address like name@example.com' },
+        url: { pattern: /^https?:\\/\\/\\S+$/i, message: 'Enter a web address starting with http:// or https://' },
+        image: { pattern: /^(https?:\\/\\/|data:image\\/)\\S+$/i, message: 'Enter the web address of an image' },
+        phone: { pattern: /^\\+?[0-9][0-9\\s().-]{3,}$/, message: 'Enter a phone number using digits, spaces and + - ( )' }
+    };
+    
+    // Error message for a field's value, or null when it is valid: the
+    // format of its type first, then the property's constraints
+    function validateField(entityId, name, value, editId) {
+        var property = getProperty(entityId, name);
+        if (!property) return null;
+        if (value === '' || value === null || value === undefined) {
+            return property.required ? 'This field is required' : null;
+        }
+        
+        var format = FORMATS[property.type];
+        if (format && !format.pattern.test(String(value))) return format.message;
+        if (property.type === 'rating' && !(value >= 1 && value <= RATING_MAX)) return 'Choose a rating from 1 to ' + RATING_MAX;
+        
+        if (typeof value === 'number') {
+            if (property.min !== undefined && value < property.min) return 'Enter ' + property.min + ' or more';
+            if (property.max !== undefined && value > property.max) return 'Enter ' + property.max + ' or less';
+        }
+        if (TEXT_TYPES.indexOf(property.type) > -1) {
+            if (property.minLength !== undefined && value.length < property.minLength) return 'Use at least ' + property.minLength + ' characters';
+            if (property.maxLength !== undefined && value.length > property.maxLength) return 'Use at most ' + property.maxLength + ' characters';
+            if (property.pattern && !matchesPattern(property.pattern, value)) return 'This does not match the expected format';
+        }
+        if (property.unique && isTaken(entityId, name, value, editId)) return 'Another item already has this value';
+        return null;
+    }
+    
+    // Patterns match the whole value; one that does not compile is skipped
+    function matchesPattern(pattern, value) {
+        try {
+            return new RegExp('^(?:' + pattern + ')$').test(value);
+        } catch (e) {
+            return true;
+        }
+    }
+    
+    // Text is compared without case or surrounding spaces
+    function isTaken(entityId, name, value, editId) {
+        var key = String(value).trim().toLowerCase();
+        return getAll(entityId).some(function(item) {
+            return item.id !== editId && item[name] !== undefined && item[name] !== null &&
+                String(item[name]).trim().toLowerCase() === key;
+        });
+    }
+    
+    // Prefill a new item's form with the defaults from the spec
+    function applyDefaults(entityId) {
+        ENTITIES.forEach(function(entity) {
+            if (entity.id !== entityId) return;
+            (entity.properties || []).forEach(function(property) {
+                var input = document.getElementById(entityId + '-' + property.name);
+                if (!input || property.default === undefined || property.default === null) return;
+                var value = resolveValue(property.default);
+                if (input.type === 'checkbox') {
+                    input.checked = Boolean(value);
+                } else {
+                    input.value = value;
+                }
+            });
+        });
+    }
+    
+    function isSafeUrl(value, allowData) {
+        return /^https?:\\/\\//i.test(value) || (allowData && /^data:image\\//i.test(value));
+    }
+    
+    function link(href, text, external) {
+        return '<a href="' + escapeAttr(href) + '"' + (external ? ' target="_blank" rel="noopener"' : '') + '>' + escapeHtml(String(text)) + '</a>';
+    }
+    
+    function formatDate(value) {
+        // Date-only values are local days, not UTC midnight
+        var date = /^\\d{4}-\\d{2}-\\d{2}$/.test(value) ? new Date(value + 'T00:00:00') : new Date(value);
+        return isNaN(date.getTime()) ? String(value) : date.toLocaleDateString();
+    }
+    
+    function formatCurrency(value, currency) {
+        var n = Number(value);
+        if (isNaN(n)) return String(value);
+        try {
+            return n.toLocaleString(undefined, { style: 'currency', currency: currency || 'USD' });
+        } catch (e) {
+            return (currency || 'USD') + ' ' + n.toFixed(2);
+        }
+    }
+    
+    function formatRating(value) {
+        var n = Math.max(0, Math.min(RATING_MAX, Math.round(Number(value)) || 0));
+        return '<span class="rating" title="' + n + ' of ' + RATING_MAX + '">' +
+            new Array(n + 1).join('★') + new Array(RATING_MAX - n + 1).join('☆') + '</span>';
+    }
+    
+    // HTML for a stored value, by its property type. Compact output
+    // (lists) shortens long text and shows images as thumbnails.
+    function formatValue(entityId, key, value, compact) {
+        var ref = getReference(entityId, key);
+        if (ref) return escapeHtml(formatReference(ref, value));
+        if (value === undefined || value === null || value === '') return '-';
+        
+        var property = getProperty(entityId, key);
+        var text = String(value);
+        switch (property ? property.type : typeof value) {
+            case 'boolean':
+                return compact ? (value ? '✓' : '✗') : (value ? 'Yes' : 'No');
+            case 'date':
+                return escapeHtml(formatDate(value));
+            case 'currency':
+                return escapeHtml(formatCurrency(value, property.currency));
+            case 'rating':
+                return formatRating(value);
+            case 'email':
+                return link('mailto:' + text, text);
+            case 'phone':
+                return link('tel:' + text.replace(/[^0-9+]/g, ''), text);
+            case 'url':
+                return isSafeUrl(text) ? link(text, text, true) : escapeHtml(text);
+            case 'image':
+                if (!isSafeUrl(text, true)) return escapeHtml(text);
+                return '<img class="item-image' + (compact ? ' item-image-thumb' : '') + '" src="' + escapeAttr(text) + '" alt="' + escapeAttr(key) + '">';
+            case 'enum':
+                return '<span class="badge">' + escapeHtml(text) + '</span>';
+            case 'longtext':
+                return escapeHtml(compact && text.length > 80 ? text.slice(0, 80) + '…' : text);
+            default:
+                return escapeHtml(text);
+        }
+    }
+    
     // ============================================================
     // Form Operations
     // ============================================================
     
     function showAddForm(entityId) {
-        var formView = document.getElementById(entityId + '-form-view');
+        editingFromDetail = false;
+        var formView = document.getElementById(viewFor(entityId, 'form'));
         if (formView) {
             // Clear form
             var form = formView.querySelector('form');
-            if (form) form.reset();
+            if (form) {
+                form.reset();
+                populatePickers(form);
+                showFieldErrors(form, {});
+            }
             var editId = document.getElementById(entityId + '-edit-id');
             if (editId) editId.value = '';
+            applyDefaults(entityId);
             
-            showView(entityId + '-form-view');
+            showView(formView.id);
         }
     }
     
     function editItem(entityId, id) {
         var item = getById(entityId, id);
         if (!item) return;
+        editingFromDetail = false;
         
-        var formView = document.getElementById(entityId + '-form-view');
+        var formView = document.getElementById(viewFor(entityId, 'form'));
         if (formView) {
+            var form = formView.querySelector('form');
+            if (form) {
+                populatePickers(form);
+                showFieldErrors(form, {});
+            }
             var editId = document.getElementById(entityId + '-edit-id');
             if (editId) editId.value = id;
             
@@ -253,13 +1115,19 @@ var App = (function() {
                 if (input) {
                     if (input.type === 'checkbox') {
                         input.checked = Boolean(item[key]);
+                    } else if (input.type === 'select-multiple') {
+                        var selected = Array.isArray(item[key]) ? item[key] : [];
+                        for (var o = 0; o < input.options.length; o++) {
+                            input.options[o].selected = selected.indexOf(input.options[o].value) > -1;
+                        }
                     } else {
-                        input.value = item[key] || '';
+                        // 0 and false are values too; only missing ones leave the field empty
+                        input.value = item[key] === undefined || item[key] === null ? '' : item[key];
                     }
                 }
             }
             
-            showView(entityId + '-form-view');
+            showView(formView.id);
         }
     }
     
@@ -268,35 +1136,177 @@ var App = (function() {
         var isEdit = editId && editId.value;
         
         var data = {};
+        var errors = {};
+        var valid = true;
         var inputs = form.querySelectorAll('input, select, textarea');
         for (var i = 0; i < inputs.length; i++) {
             var input = inputs[i];
             var name = input.name;
+            var type = input.getAttribute('data-type');
             if (name && name !== 'edit-id') {
+                var error = null;
                 if (input.type === 'checkbox') {
                     data[name] = input.checked;
-                } else if (input.type === 'number') {
-                    data[name] = Number(input.value) || 0;
+                } else if (input.type === 'select-multiple') {
+                    data[name] = [];
+                    for (var o = 0; o < input.options.length; o++) {
+                        if (input.options[o].selected) data[name].push(input.options[o].value);
+                    }
+                } else if (input.type === 'number' || type === 'rating') {
+                    // Left empty stays empty; browsers report text they cannot read as badInput
+                    data[name] = input.value === '' ? '' : Number(input.value);
+                    if (input.validity && input.validity.badInput) error = 'Enter a number';
                 } else {
-                    data[name] = input.value;
+                    data[name] = FORMATS[type] ? input.value.trim() : input.value;
+                }
+                
+                error = error || validateField(entityId, name, data[name], isEdit ? editId.value : null);
+                if (error) {
+                    errors[name] = error;
+                    valid = false;
                 }
             }
         }
         
-        if (isEdit) {
-            update(entityId, editId.value, data);
+        showFieldErrors(form, errors);
+        if (!valid) return;
+        
+        var saved = isEdit ? update(entityId, editId.value, data) : add(entityId, data);
+        
+        // Run form_submit actions on the saved item
+        var navigateTo = null;
+        ACTIONS.forEach(function(action) {
+            if (action.trigger === 'form_submit' && action.entity === entityId && saved) {
+                navigateTo = executeAction(action, isItemAction(action) ? saved.id : null) || navigateTo;
+            }
+        });
+        
+        // Go back to the item's page or the list
+        if (navigateTo) {
+            showView(navigateTo);
+        } else if (isEdit && editingFromDetail && showDetail(entityId, editId.value)) {
+            return;
         } else {
-            add(entityId, data);
+            showList(entityId);
+        }
+    }
+    
+    // Show each message under its field; fields without one are cleared
+    function showFieldErrors(form, errors) {
+        var slots = form.querySelectorAll('[data-error-for]');
+        for (var i = 0; i < slots.length; i++) {
+            slots[i].textContent = errors[slots[i].getAttribute('data-error-for')] || '';
         }
-        
-        // Go back to list
-        showView(entityId + '-list-view');
     }
     
     function deleteItem(entityId, id) {
         if (confirm('Are you sure you want to delete this item?')) {
-            remove(entityId, id);
+            var result = remove(entityId, id);
+            if (!result.removed) {
+                alert(result.reason);
+                return false;
+            }
             renderList(entityId);
+            return true;
+        }
+        return false;
+    }
+    
+    // ============================================================
+    // Detail View
+    // ============================================================
+    
+    var detailItemId = null;
+    
+    // Set while the form edits the item the detail view shows, so saving
+    // or cancelling returns there
+    var editingFromDetail = false;
+    
+    function hasDetailView(entityId) {
+        return !!document.getElementById(viewFor(entityId, 'detail'));
+    }
+    
+    // Rows and cards of entities with a detail view open it when clicked
+    function detailLinkAttrs(entityId) {
+        return hasDetailView(entityId) ? ' data-detail-entity="' + escapeAttr(entityId) + '" tabindex="0"' : '';
+    }
+    
+    // Navigate to an item's page; the hashchange routes it
+    function openDetail(entityId, id) {
+        var hash = '#/' + entityId + '/' + encodeURIComponent(id);
+        if (location.hash === hash) {
+            showDetail(entityId, id);
+        } else {
+            location.hash = hash;
+        }
+    }
+    
+    // Returns false when the item or the entity's detail view is missing
+    function showDetail(entityId, id) {
+        var view = document.getElementById(viewFor(entityId, 'detail'));
+        if (!getById(entityId, id) || !view) return false;
+        
+        detailItemId = id;
+        showView(view.id);
+        return true;
+    }
+    
+    function fillDetail(entityId, id, view) {
+        var item = getById(entityId, id);
+        if (!item || !view) return;
+        
+        var titles = view.querySelectorAll('[data-detail-title]');
+        for (var t = 0; t < titles.length; t++) {
+            titles[t].textContent = getLabel(entityId, item);
+        }
+        
+        // Field values
+        var fields = view.querySelectorAll('[data-field]');
+        for (var i = 0; i < fields.length; i++) {
+            var field = fields[i].getAttribute('data-field');
+            fields[i].innerHTML = formatValue(entityId, field, item[field], false);
+        }
+        
+        // Linked items from other entities
+        var lists = view.querySelectorAll('[data-related-entity]');
+        for (var j = 0; j < lists.length; j++) {
+            var related = getReference(lists[j].getAttribute('data-related-entity'), lists[j].getAttribute('data-related-field'));
+            if (!related) continue;
+            var linked = getAll(related.entityId).filter(function(other) {
+                return isLinked(related, other, id);
+            });
+            
+            var html = '';
+            linked.forEach(function(other) {
+                html += '<div class="item-row" data-id="' + escapeAttr(other.id) + '"' + detailLinkAttrs(related.entityId) + '>';
+                html += '<div class="item-content"><strong>' + escapeHtml(getLabel(related.entityId, other)) + '</strong></div>';
+                html += '</div>';
+            });
+            lists[j].innerHTML = html || '<p class="text-muted">None yet.</p>';
+        }
+        
+        // Per-item action buttons
+        var actionEls = view.querySelectorAll('[data-item-actions]');
+        for (var k = 0; k < actionEls.length; k++) {
+            actionEls[k].innerHTML = actionButtonsHtml(getButtonActions(entityId, true), id);
+        }
+    }
+    
+    function editDetail(entityId) {
+        if (!detailItemId) return;
+        editItem(entityId, detailItemId);
+        editingFromDetail = true;
+    }
+    
+    // The form's Cancel button
+    function cancelForm(entityId) {
+        if (editingFromDetail && detailItemId && showDetail(entityId, detailItemId)) return;
+        showList(entityId);
+    }
+    
+    function deleteDetail(entityId) {
+        if (detailItemId && deleteItem(entityId, detailItemId)) {
+            showList(entityId);
         }
     }
     
@@ -307,6 +1317,15 @@ var App = (function() {
     function init() {
         console.log('{{appName}} initialized');
         initData();
+        renderActionButtons();
+        
+        // Run auto actions once on start
+        var startView = null;
+        ACTIONS.forEach(function(action) {
+            if (action.trigger === 'auto') {
+                startView = executeAction(action, null) || startView;
+            }
+        });
         
         // Setup navigation
         var links = document.querySelectorAll('.navbar-link');
@@ -337,7 +1356,27 @@ var App = (function() {
             });
         }
         
+        bindListControls();
+        
+        // Open an item's page from its row, unless a button or link was used
+        var openFromRow = function(e) {
+            if (e.type === 'keydown' && e.key !== 'Enter') return;
+            var row = e.target.closest('[data-detail-entity]');
+            if (!row || e.target.closest('button, a, input, select, textarea')) return;
+            openDetail(row.getAttribute('data-detail-entity'), row.getAttribute('data-id'));
+        };
+        document.addEventListener('click', openFromRow);
+        document.addEventListener('keydown', openFromRow);
+        
+        // Follow links and edits to the URL; a reload restores the view
+        window.addEventListener('hashchange', routeFromHash);
+        if (routeFromHash()) return;
+        
         // Show first view
+        if (startView) {
+            showView(startView);
+            return;
+        }
         {{#each views}}
         {{#if @first}}
         showView('{{id}}');
@@ -353,6 +1392,14 @@ var App = (function() {
         update: update,
         remove: remove,
         showView: showView,
+        showList: showList,
+        showDetail: showDetail,
+        openDetail: openDetail,
+        cancelForm: cancelForm,
+        editDetail: editDetail,
+        deleteDetail: deleteDetail,
+        getLabel: getLabel,
+        runAction: runAction,
         renderList: renderList,
         showAddForm: showAddForm,
         editItem: editItem,
@@ -46,8 +46,13 @@ export const appShell: Pattern = {
     .error-display h4 {
       margin: 0 0 8px 0;
     }
+{{#unless linkAssets}}
 {{{styles}}}
+{{/unless}}
   </style>
+{{#if linkAssets}}
+  <link rel="stylesheet" href="styles.css">
+{{/if}}
 </head>
 <body>
   <div id="app">
@@ -73,9 +78,14 @@ export const appShell: Pattern = {
         container.innerHTML = '<div class="error-display"><h4>⚠️ Error</h4><p>' + (event.reason?.message || event.reason) + '</p></div>';
       }
     });
+{{#unless linkAssets}}
 
 {{{scripts}}}
+{{/unless}}
   </script>
+{{#if linkAssets}}
+  <script src="app.js"></script>
+{{/if}}
 </body>
 </html>`,
     css: '',
@@ -9,6 +9,7 @@ import { navigation } from './navigation';
 import { viewList } from './view-list';
 import { viewForm } from './view-form';
 import { viewDetail } from './view-detail';
+import { viewDashboard } from './view-dashboard';
 import { entityCard } from './entity-card';
 import { actionButton } from './action-button';
 import { actionDelete } from './action-delete';
@@ -16,6 +17,7 @@ import { inputText } from './input-text';
 import { inputCheckbox } from './input-checkbox';
 import { inputDate } from './input-date';
 import { inputSelect } from './input-select';
+import { inputTextarea } from './input-textarea';
 
 // ============================================================
 // Pattern Registry
@@ -30,6 +32,7 @@ const patterns: Map<string, Pattern> = new Map([
     ['view-list', viewList],
     ['view-form', viewForm],
     ['view-detail', viewDetail],
+    ['view-dashboard', viewDashboard],
     ['entity-card', entityCard],
     ['action-button', actionButton],
     ['action-delete', actionDelete],
@@ -37,6 +40,7 @@ const patterns: Map<string, Pattern> = new Map([
     ['input-checkbox', inputCheckbox],
     ['input-date', inputDate],
     ['input-select', inputSelect],
+    ['input-textarea', inputTextarea],
 ]);
 
 /**
@@ -90,4 +94,5 @@ export {
     inputCheckbox,
     inputDate,
     inputSelect,
+    inputTextarea,
 };
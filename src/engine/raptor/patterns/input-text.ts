@@ -3,17 +3,18 @@ import { Pattern } from '../../../types';
 export const inputText: Pattern = {
     id: 'input-text',
     name: 'Text Input',
-    description: 'Text input field',
+    description: 'Single-line input, typed by the property type (email, url, phone, number, ...)',
     category: 'utility',
     inputs: [
         { name: 'fieldName', type: 'string', required: true },
+        { name: 'fieldType', type: 'string', required: false },
         { name: 'required', type: 'boolean', required: false },
     ],
     template: {
         html: `
 <div class="form-group">
   <label class="form-label" for="input-{{fieldName}}">{{capitalize fieldName}}{{#if required}} *{{/if}}</label>
-  <input type="text" id="input-{{fieldName}}" name="{{fieldName}}" class="form-input" {{#if required}}required{{/if}}>
+  <input type="{{getInputType fieldType}}" id="input-{{fieldName}}" name="{{fieldName}}" class="form-input" placeholder="{{getInputPlaceholder fieldType fieldName}}" {{#if required}}required{{/if}}>
 </div>`,
         css: '',
         js: '',
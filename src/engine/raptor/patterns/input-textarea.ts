@@ -0,0 +1,29 @@
+import { Pattern } from '../../../types';
+
+export const inputTextarea: Pattern = {
+    id: 'input-textarea',
+    name: 'Text Area',
+    description: 'Multi-line text input for longtext properties',
+    category: 'utility',
+    inputs: [
+        { name: 'fieldName', type: 'string', required: true },
+        { name: 'required', type: 'boolean', required: false },
+    ],
+    template: {
+        html: `
+<div class="form-group">
+  <label class="form-label" for="input-{{fieldName}}">{{capitalize fieldName}}{{#if required}} *{{/if}}</label>
+  <textarea id="input-{{fieldName}}" name="{{fieldName}}" class="form-input form-textarea" rows="4" {{#if required}}required{{/if}}></textarea>
+</div>`,
+        css: `
+textarea.form-input {
+  resize: vertical;
+  font-family: inherit;
+}
+`,
+        js: '',
+    },
+    dependencies: ['style-base'],
+};
+
+export default inputTextarea;
@@ -24,8 +24,11 @@ export const navigation: Pattern = {
   </div>
   <div class="navbar-links">
     {{#each views}}
-    <a href="#" class="navbar-link" data-view="{{id}}">{{name}}</a>
+    {{#unless (eq type "detail")}}
+    <a href="#/{{id}}" class="navbar-link" data-view="{{id}}">{{name}}</a>
+    {{/unless}}
     {{/each}}
+    <span class="action-buttons" data-actions-entity=""></span>
   </div>
 </nav>`,
     css: `
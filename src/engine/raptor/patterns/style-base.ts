@@ -198,6 +198,16 @@ a:hover {
 .text-xs { font-size: 0.75rem; }
 .text-muted { color: var(--color-text-muted); }
 .hidden { display: none; }
+
+[data-detail-entity] { cursor: pointer; }
+[data-detail-entity]:hover { background: var(--color-bg-tertiary); }
+[data-detail-entity]:focus-visible { outline: 2px solid var(--color-primary); outline-offset: -2px; }
+.sr-only { position: absolute; width: 1px; height: 1px; overflow: hidden; clip: rect(0 0 0 0); white-space: nowrap; }
+.badge { display: inline-block; padding: 0.125rem 0.5rem; border-radius: 999px; background: var(--color-bg-tertiary); font-size: 0.75rem; }
+
+.rating { color: var(--color-warning); letter-spacing: 0.05em; }
+.item-image { display: block; max-width: 100%; max-height: 240px; border-radius: var(--radius); }
+.item-image-thumb { display: inline-block; width: 2.5rem; height: 2.5rem; object-fit: cover; vertical-align: middle; }
 `,
         js: '',
     },
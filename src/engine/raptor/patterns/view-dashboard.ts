@@ -0,0 +1,189 @@
+import { Pattern } from '../../../types';
+
+/**
+ * View Dashboard Pattern
+ * 
+ * Generates summary cards per entity: counts, enum breakdowns, numeric
+ * sums/averages and recent items. Values are computed at runtime by
+ * app-core from the data-stat attributes.
+ */
+export const viewDashboard: Pattern = {
+  id: 'view-dashboard',
+  name: 'Dashboard View',
+  description: 'Summary statistics across entities',
+  category: 'view',
+  inputs: [
+    { name: 'viewId', type: 'string', required: true },
+    { name: 'viewName', type: 'string', required: true },
+    { name: 'sections', type: 'object[]', required: true },
+  ],
+  template: {
+    html: `
+<div id="{{viewId}}" class="view" style="display: none;">
+  <div class="view-header">
+    <h2>{{viewName}}</h2>
+  </div>
+  
+  <div class="dashboard-counts">
+    {{#each sections}}
+    <div class="dashboard-card dashboard-count">
+      <span class="dashboard-count-value" data-stat="count" data-entity="{{entityId}}">0</span>
+      <span class="dashboard-count-label">{{pluralize entityName}}</span>
+    </div>
+    {{/each}}
+  </div>
+  
+  {{#each sections}}
+  <div class="dashboard-section">
+    <h3>{{pluralize entityName}}</h3>
+    <div class="dashboard-grid">
+      {{#each numbers}}
+      <div class="dashboard-card">
+        <h4>{{capitalize this}}</h4>
+        <div class="dashboard-metric">
+          <span class="text-muted">Total</span>
+          <strong data-stat="sum" data-entity="{{../entityId}}" data-property="{{this}}">-</strong>
+        </div>
+        <div class="dashboard-metric">
+          <span class="text-muted">Average</span>
+          <strong data-stat="avg" data-entity="{{../entityId}}" data-property="{{this}}">-</strong>
+        </div>
+      </div>
+      {{/each}}
+      
+      {{#each enums}}
+      <div class="dashboard-card">
+        <h4>By {{name}}</h4>
+        {{#each options}}
+        <div class="dashboard-bar-row">
+          <span class="dashboard-bar-label">{{this}}</span>
+          <div class="dashboard-bar">
+            <div class="dashboard-bar-fill" data-stat="share" data-entity="{{../../entityId}}" data-property="{{../name}}" data-value="{{this}}"></div>
+          </div>
+          <span class="dashboard-bar-count" data-stat="match" data-entity="{{../../entityId}}" data-property="{{../name}}" data-value="{{this}}">0</span>
+        </div>
+        {{/each}}
+      </div>
+      {{/each}}
+      
+      <div class="dashboard-card">
+        <h4>Recent</h4>
+        <div class="dashboard-recent" data-stat="recent" data-entity="{{entityId}}" data-property="{{dateProperty}}"></div>
+      </div>
+    </div>
+  </div>
+  {{/each}}
+</div>`,
+    css: `
+.dashboard-counts {
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(160px, 1fr));
+  gap: 1rem;
+  margin-bottom: 1.5rem;
+}
+
+.dashboard-card {
+  background: var(--color-bg-secondary);
+  border: 1px solid var(--color-border);
+  border-radius: var(--radius);
+  padding: 1rem;
+}
+
+.dashboard-card h4 {
+  font-size: 0.875rem;
+  margin-bottom: 0.75rem;
+  color: var(--color-text-secondary);
+}
+
+.dashboard-count {
+  display: flex;
+  flex-direction: column;
+  gap: 0.25rem;
+}
+
+.dashboard-count-value {
+  font-size: 2rem;
+  font-weight: 600;
+  color: var(--color-primary);
+}
+
+.dashboard-count-label {
+  font-size: 0.875rem;
+  color: var(--color-text-secondary);
+}
+
+.dashboard-section {
+  margin-bottom: 1.5rem;
+}
+
+.dashboard-section h3 {
+  font-size: 1rem;
+  margin-bottom: 0.75rem;
+}
+
+.dashboard-grid {
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(240px, 1fr));
+  gap: 1rem;
+}
+
+.dashboard-metric {
+  display: flex;
+  justify-content: space-between;
+  padding: 0.25rem 0;
+}
+
+.dashboard-bar-row {
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  margin-bottom: 0.5rem;
+  font-size: 0.875rem;
+}
+
+.dashboard-bar-label {
+  flex: 0 0 80px;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+}
+
+.dashboard-bar {
+  flex: 1;
+  height: 0.5rem;
+  background: var(--color-bg);
+  border-radius: var(--radius);
+  overflow: hidden;
+}
+
+.dashboard-bar-fill {
+  width: 0;
+  height: 100%;
+  background: var(--color-primary);
+}
+
+.dashboard-bar-count {
+  flex: 0 0 2rem;
+  text-align: right;
+  color: var(--color-text-secondary);
+}
+
+.dashboard-recent-item {
+  display: flex;
+  justify-content: space-between;
+  gap: 0.5rem;
+  padding: 0.375rem 0;
+  font-size: 0.875rem;
+  border-bottom: 1px solid var(--color-border);
+}
+
+.dashboard-recent-item:last-child {
+  border-bottom: none;
+}
+`,
+    js: '', // All JS handled by app-core
+  },
+  dependencies: ['style-base', 'app-core'],
+};
+
+export default viewDashboard;
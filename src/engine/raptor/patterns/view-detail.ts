@@ -1,5 +1,13 @@
 import { Pattern } from '../../../types';
 
+/**
+ * View Detail Pattern (Simplified)
+ * 
+ * Generates detail HTML only - all JS logic handled by app-core pattern.
+ * Fields are filled through data-field attributes; items of other entities
+ * that reference this one are listed through data-related-* attributes.
+ * The page is routed by item: #/<entity id>/<item id>.
+ */
 export const viewDetail: Pattern = {
     id: 'view-detail',
     name: 'Detail View',
@@ -10,29 +18,46 @@ export const viewDetail: Pattern = {
         { name: 'viewName', type: 'string', required: true },
         { name: 'entity', type: 'object', required: true },
         { name: 'properties', type: 'object[]', required: true },
+        { name: 'references', type: 'object[]', required: false },
+        { name: 'related', type: 'object[]', required: false },
     ],
     template: {
         html: `
-<div id="{{viewId}}" class="view hidden">
+<div id="{{viewId}}" class="view" style="display: none;">
   <div class="view-header">
     <h2>{{viewName}}</h2>
-    <button class="btn btn-secondary" onclick="goBackToList('{{entity.id}}')">← Back to List</button>
+    <button class="btn btn-secondary" onclick="App.showList('{{entity.id}}')">← Back to List</button>
   </div>
   
   <div class="detail-container" id="{{entity.id}}-detail">
     <div class="detail-card">
+      <h3 class="detail-title" data-detail-title></h3>
       {{#each properties}}
       <div class="detail-row">
         <span class="detail-label">{{capitalize name}}</span>
-        <span class="detail-value" id="{{../entity.id}}-detail-{{name}}">-</span>
+        <span class="detail-value" data-field="{{name}}" data-type="{{type}}">-</span>
+      </div>
+      {{/each}}
+      {{#each references}}
+      <div class="detail-row">
+        <span class="detail-label">{{#if multiple}}{{pluralize targetName}}{{else}}{{targetName}}{{/if}}</span>
+        <span class="detail-value" data-field="{{field}}" data-type="reference">-</span>
       </div>
       {{/each}}
       
       <div class="detail-actions">
-        <button class="btn btn-primary" onclick="editFromDetail('{{entity.id}}')">Edit</button>
-        <button class="btn btn-danger" onclick="deleteFromDetail('{{entity.id}}')">Delete</button>
+        <button class="btn btn-primary" onclick="App.editDetail('{{entity.id}}')">Edit</button>
+        <button class="btn btn-danger" onclick="App.deleteDetail('{{entity.id}}')">Delete</button>
+        <span class="action-buttons" data-item-actions="{{entity.id}}"></span>
       </div>
     </div>
+    
+    {{#each related}}
+    <div class="detail-related">
+      <h3>{{pluralize entityName}}</h3>
+      <div class="item-list" data-related-entity="{{entityId}}" data-related-field="{{field}}"></div>
+    </div>
+    {{/each}}
   </div>
 </div>`,
         css: `
@@ -47,6 +72,11 @@ export const viewDetail: Pattern = {
   padding: 1.5rem;
 }
 
+.detail-title {
+  font-size: 1.25rem;
+  margin-bottom: 0.5rem;
+}
+
 .detail-row {
   display: flex;
   padding: 0.75rem 0;
@@ -65,6 +95,8 @@ export const viewDetail: Pattern = {
 
 .detail-value {
   flex: 1;
+  white-space: pre-wrap;
+  overflow-wrap: anywhere;
 }
 
 .detail-actions {
@@ -74,58 +106,19 @@ export const viewDetail: Pattern = {
   padding-top: 1rem;
   border-top: 1px solid var(--color-border);
 }
-`,
-        js: `
-let current{{capitalize entity.id}}Id = null;
 
-function showDetail(entityId, itemId) {
-  const item = StateManager.getById(entityId, itemId);
-  if (!item) return;
-  
-  current{{capitalize entity.id}}Id = itemId;
-  
-  // Populate detail values
-  {{#each properties}}
-  const {{name}}El = document.getElementById('{{../entity.id}}-detail-{{name}}');
-  if ({{name}}El) {
-    {{#if (eq type "boolean")}}
-    {{name}}El.textContent = item.{{name}} ? 'Yes' : 'No';
-    {{else if (eq type "date")}}
-    {{name}}El.textContent = item.{{name}} ? new Date(item.{{name}}).toLocaleDateString() : '-';
-    {{else}}
-    {{name}}El.textContent = item.{{name}} || '-';
-    {{/if}}
-  }
-  {{/each}}
-  
-  showView('{{entity.id}}-detail-view');
-}
-
-function goBackToList(entityId) {
-  current{{capitalize entity.id}}Id = null;
-  const listView = document.querySelector('[data-view$="-list"]');
-  if (listView) listView.click();
-}
-
-function editFromDetail(entityId) {
-  if (current{{capitalize entity.id}}Id) {
-    const item = StateManager.getById(entityId, current{{capitalize entity.id}}Id);
-    if (item) {
-      showEditForm(entityId, item);
-    }
-  }
+.detail-related {
+  margin-top: 1.5rem;
 }
 
-function deleteFromDetail(entityId) {
-  if (current{{capitalize entity.id}}Id && confirm('Are you sure you want to delete this?')) {
-    StateManager.delete(entityId, current{{capitalize entity.id}}Id);
-    goBackToList(entityId);
-    render{{capitalize entity.id}}List();
-  }
+.detail-related h3 {
+  font-size: 1rem;
+  margin-bottom: 0.75rem;
 }
 `,
+        js: '', // All JS handled by app-core
     },
-    dependencies: ['style-base', 'state-manager'],
+    dependencies: ['style-base', 'app-core'],
 };
 
 export default viewDetail;
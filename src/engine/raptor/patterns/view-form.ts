@@ -16,6 +16,7 @@ export const viewForm: Pattern = {
     { name: 'viewName', type: 'string', required: true },
     { name: 'entity', type: 'object', required: true },
     { name: 'properties', type: 'object[]', required: true },
+    { name: 'references', type: 'object[]', required: false },
   ],
   template: {
     html: `
@@ -25,7 +26,7 @@ export const viewForm: Pattern = {
   </div>
   
   <div class="form-container">
-    <form data-entity="{{entity.id}}" class="form">
+    <form data-entity="{{entity.id}}" class="form" novalidate>
       <input type="hidden" id="{{entity.id}}-edit-id" name="edit-id">
       
       {{#each properties}}
@@ -39,38 +40,96 @@ export const viewForm: Pattern = {
           id="{{../entity.id}}-{{name}}" 
           name="{{name}}"
           class="form-checkbox"
+          data-type="boolean"
         >
-        {{else if (eq type "date")}}
-        <input 
-          type="date" 
+        {{else if (eq type "longtext")}}
+        <textarea 
           id="{{../entity.id}}-{{name}}" 
           name="{{name}}"
           class="form-input"
+          rows="4"
+          placeholder="Enter {{name}}"
+          {{constraintAttrs this}}
+          data-type="longtext"
           {{#if required}}required{{/if}}
-        >
-        {{else if (eq type "number")}}
-        <input 
-          type="number" 
+        ></textarea>
+        {{else if (eq type "enum")}}
+        <select 
           id="{{../entity.id}}-{{name}}" 
           name="{{name}}"
           class="form-input"
+          data-type="enum"
+          {{#if required}}required{{/if}}
+        >
+          <option value="">Select...</option>
+          {{#each options}}
+          <option value="{{this}}">{{this}}</option>
+          {{/each}}
+        </select>
+        {{else if (eq type "rating")}}
+        <select 
+          id="{{../entity.id}}-{{name}}" 
+          name="{{name}}"
+          class="form-input form-rating"
+          data-type="rating"
           {{#if required}}required{{/if}}
         >
+          <option value="">No rating</option>
+          <option value="1">★☆☆☆☆</option>
+          <option value="2">★★☆☆☆</option>
+          <option value="3">★★★☆☆</option>
+          <option value="4">★★★★☆</option>
+          <option value="5">★★★★★</option>
+        </select>
+        {{else if (eq type "currency")}}
+        <div class="form-currency">
+          <span class="form-currency-code">{{#if currency}}{{currency}}{{else}}USD{{/if}}</span>
+          <input 
+            type="number" 
+            id="{{../entity.id}}-{{name}}" 
+            name="{{name}}"
+            class="form-input"
+            step="0.01"
+            placeholder="0.00"
+            {{constraintAttrs this}}
+            data-type="currency"
+            {{#if required}}required{{/if}}
+          >
+        </div>
         {{else}}
         <input 
-          type="text" 
+          type="{{getInputType type}}" 
           id="{{../entity.id}}-{{name}}" 
           name="{{name}}"
           class="form-input"
-          placeholder="Enter {{name}}"
+          {{#if (eq type "number")}}step="any"{{/if}}
+          {{#unless (eq type "date")}}placeholder="{{getInputPlaceholder type name}}"{{/unless}}
+          {{constraintAttrs this}}
+          data-type="{{type}}"
           {{#if required}}required{{/if}}
         >
         {{/if}}
+        <p class="form-error" data-error-for="{{name}}"></p>
+      </div>
+      {{/each}}
+      
+      {{#each references}}
+      <div class="form-group">
+        <label class="form-label" for="{{../entity.id}}-{{field}}">
+          {{#if multiple}}{{pluralize targetName}}{{else}}{{targetName}}{{/if}}
+        </label>
+        <select 
+          id="{{../entity.id}}-{{field}}" 
+          name="{{field}}"
+          class="form-input"
+          data-ref-entity="{{targetEntity}}"
+          {{#if multiple}}multiple{{/if}}
+        ></select>
       </div>
       {{/each}}
       
       <div class="form-actions">
-        <button type="button" class="btn btn-secondary" onclick="App.showView('{{entity.id}}-list-view')">Cancel</button>
+        <button type="button" class="btn btn-secondary" onclick="App.cancelForm('{{entity.id}}')">Cancel</button>
         <button type="submit" class="btn btn-primary">Save {{entity.name}}</button>
       </div>
     </form>
@@ -114,6 +173,36 @@ export const viewForm: Pattern = {
   border-color: var(--color-primary);
 }
 
+select.form-input[multiple] {
+  min-height: 6rem;
+}
+
+textarea.form-input {
+  resize: vertical;
+  font-family: inherit;
+}
+
+.form-currency {
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+}
+
+.form-currency-code {
+  font-size: 0.75rem;
+  color: var(--color-text-muted);
+}
+
+.form-error {
+  margin: 0.25rem 0 0;
+  font-size: 0.75rem;
+  color: var(--color-error);
+}
+
+.form-error:empty {
+  display: none;
+}
+
 .form-checkbox {
   width: 1.25rem;
   height: 1.25rem;
@@ -15,25 +15,106 @@ export const viewList: Pattern = {
     { name: 'viewId', type: 'string', required: true },
     { name: 'viewName', type: 'string', required: true },
     { name: 'entity', type: 'object', required: true },
+    { name: 'controls', type: 'object', required: false },
+    { name: 'columns', type: 'object[]', required: false },
+    { name: 'layout', type: 'string', required: false },
+    { name: 'pageSize', type: 'number', required: false },
   ],
   template: {
     html: `
 <div id="{{viewId}}" class="view" style="display: none;">
   <div class="view-header">
     <h2>{{viewName}}</h2>
-    <button class="btn btn-primary" data-add-entity="{{entity.id}}">
-      + Add {{entity.name}}
-    </button>
+    <div class="view-actions">
+      <span class="action-buttons" data-actions-entity="{{entity.id}}"></span>
+      <button class="btn btn-primary" data-add-entity="{{entity.id}}">
+        + Add {{entity.name}}
+      </button>
+    </div>
   </div>
   
   <div class="view-content">
-    <div id="{{entity.id}}-list" class="item-list">
+    {{#if controls}}
+    <div class="list-controls" data-list-controls="{{viewId}}">
+      {{#if controls.searchFields.length}}
+      <input 
+        type="search" 
+        class="form-input list-search" 
+        placeholder="Search {{lowercase (pluralize entity.name)}}..."
+        data-list-search="{{#each controls.searchFields}}{{this}}{{#unless @last}},{{/unless}}{{/each}}"
+      >
+      {{/if}}
+      {{#each controls.filters}}
+      <select class="form-input list-filter" data-list-filter="{{name}}" aria-label="Filter by {{name}}">
+        <option value="">All {{name}}</option>
+        {{#each options}}
+        <option value="{{value}}">{{label}}</option>
+        {{/each}}
+      </select>
+      {{/each}}
+      {{#if controls.dateProperty}}
+      <div class="list-range" data-list-range="{{controls.dateProperty}}">
+        <span class="text-muted">{{capitalize controls.dateProperty}}</span>
+        <input type="date" class="form-input" data-list-from aria-label="{{capitalize controls.dateProperty}} from">
+        <span class="text-muted">to</span>
+        <input type="date" class="form-input" data-list-to aria-label="{{capitalize controls.dateProperty}} to">
+      </div>
+      {{/if}}
+    </div>
+    {{/if}}
+    
+    {{#if (eq layout "cards")}}
+    {{#if controls.sortFields.length}}
+    <div class="list-sort" data-list-sort="{{viewId}}">
+      <span class="text-muted">Sort by</span>
+      {{#each controls.sortFields}}
+      <button type="button" class="list-sort-btn" data-sort="{{this}}">{{capitalize this}}</button>
+      {{/each}}
+    </div>
+    {{/if}}
+    <div 
+      id="{{viewId}}-items" 
+      class="item-cards"
+      data-entity="{{entity.id}}"
+      data-layout="cards"
+      data-columns="{{#each columns}}{{name}}{{#unless @last}},{{/unless}}{{/each}}"
+      data-page-size="{{pageSize}}"
+    >
       <!-- Items rendered by App.renderList() -->
     </div>
+    {{else}}
+    <div class="item-table-wrapper">
+      <table class="table item-table">
+        <thead>
+          <tr data-list-sort="{{viewId}}">
+            {{#each columns}}
+            <th>{{#if sortable}}<button type="button" class="list-sort-btn" data-sort="{{name}}">{{capitalize label}}</button>{{else}}{{capitalize label}}{{/if}}</th>
+            {{/each}}
+            <th class="item-actions-cell"><span class="sr-only">Actions</span></th>
+          </tr>
+        </thead>
+        <tbody 
+          id="{{viewId}}-items"
+          data-entity="{{entity.id}}"
+          data-layout="table"
+          data-columns="{{#each columns}}{{name}}{{#unless @last}},{{/unless}}{{/each}}"
+          data-page-size="{{pageSize}}"
+        >
+          <!-- Rows rendered by App.renderList() -->
+        </tbody>
+      </table>
+    </div>
+    {{/if}}
     
-    <div id="{{entity.id}}-empty" class="empty-state">
+    <nav class="list-pagination" data-list-pages="{{viewId}}" aria-label="Pages"></nav>
+    
+    <div id="{{viewId}}-empty" class="empty-state">
       <p class="text-muted">No {{pluralize entity.name}} yet. Click the button above to add one.</p>
     </div>
+    
+    <div id="{{viewId}}-no-matches" class="empty-state" style="display: none;">
+      <p class="text-muted">No {{pluralize entity.name}} match the search and filters.</p>
+    </div>
   </div>
 </div>`,
     css: `
@@ -55,11 +136,143 @@ export const viewList: Pattern = {
   padding: 1rem;
 }
 
+.view-actions,
+.action-buttons {
+  display: flex;
+  gap: 0.5rem;
+}
+
 .empty-state {
   padding: 3rem;
   text-align: center;
 }
 
+.list-controls {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.5rem;
+  margin-bottom: 0.75rem;
+}
+
+.list-search {
+  flex: 1 1 12rem;
+}
+
+.list-filter {
+  flex: 0 1 10rem;
+}
+
+.list-range {
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+}
+
+.list-range .form-input {
+  width: auto;
+}
+
+.list-sort {
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 0.25rem;
+  margin-bottom: 0.75rem;
+  font-size: 0.875rem;
+}
+
+.list-sort-btn {
+  padding: 0.25rem 0.5rem;
+  background: none;
+  border: 1px solid transparent;
+  border-radius: var(--radius);
+  color: var(--color-text-muted);
+  cursor: pointer;
+}
+
+.list-sort-btn:hover {
+  color: var(--color-text);
+}
+
+.list-sort-btn[data-dir] {
+  border-color: var(--color-border);
+  color: var(--color-text);
+}
+
+.list-sort-btn[data-dir="asc"]::after {
+  content: ' ▲';
+}
+
+.list-sort-btn[data-dir="desc"]::after {
+  content: ' ▼';
+}
+
+.item-table-wrapper {
+  overflow-x: auto;
+}
+
+.item-table td {
+  vertical-align: middle;
+}
+
+.item-table .list-sort-btn {
+  padding: 0;
+  font: inherit;
+  text-transform: inherit;
+  letter-spacing: inherit;
+  color: inherit;
+}
+
+.item-table .list-sort-btn[data-dir] {
+  border-color: transparent;
+  color: var(--color-text);
+}
+
+.item-actions-cell {
+  width: 1%;
+  white-space: nowrap;
+}
+
+.item-cards {
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(16rem, 1fr));
+  gap: 0.75rem;
+}
+
+.item-card {
+  display: flex;
+  flex-direction: column;
+  gap: 0.5rem;
+}
+
+.item-card-title {
+  font-weight: 600;
+}
+
+.item-field {
+  display: flex;
+  justify-content: space-between;
+  gap: 0.5rem;
+  font-size: 0.875rem;
+}
+
+.item-field-label {
+  color: var(--color-text-muted);
+}
+
+.list-pagination {
+  display: flex;
+  justify-content: center;
+  align-items: center;
+  gap: 0.75rem;
+  margin-top: 0.75rem;
+  font-size: 0.875rem;
+}
+
+.list-pagination:empty {
+  display: none;
+}
+
 .item-list {
   display: flex;
   flex-direction: column;
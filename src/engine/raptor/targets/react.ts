@@ -0,0 +1,686 @@
+import {
+    Specification,
+    Entity,
+    Property,
+    View,
+    ReferenceField,
+    GeneratedFile,
+    RATING_MAX,
+    NUMERIC_PROPERTY_TYPES,
+    TEXT_PROPERTY_TYPES,
+} from '../../../types';
+import { getReferenceFields } from '../../nedry/router';
+
+// ============================================================
+// Mini-Raptor - React + TypeScript Target
+// ============================================================
+
+/**
+ * Compile a specification into a Vite + React + TypeScript project.
+ *
+ * Produces typed interfaces per entity, a typed localStorage hook and
+ * one component per view. Like build(), output is deterministic.
+ */
+export function buildReactProject(spec: Specification): GeneratedFile[] {
+    const references = getReferenceFields(spec);
+    const views = spec.views.filter((v) => v.type === 'dashboard' || spec.entities.some((e) => e.id === v.entity));
+
+    return [
+        { path: 'package.json', content: renderPackageJson(spec) },
+        { path: 'tsconfig.json', content: TSCONFIG },
+        { path: 'vite.config.ts', content: VITE_CONFIG },
+        { path: 'index.html', content: renderIndexHtml(spec) },
+        { path: 'README.md', content: renderReadme(spec) },
+        { path: 'src/main.tsx', content: MAIN_TSX },
+        { path: 'src/styles.css', content: STYLES_CSS },
+        { path: 'src/types.ts', content: renderTypes(spec, references) },
+        { path: 'src/storage.ts', content: renderStorage(spec) },
+        { path: 'src/App.tsx', content: renderApp(spec, views) },
+        ...views.map((view) => ({
+            path: `src/views/${componentName(view)}.tsx`,
+            content: renderView(spec, view, references),
+        })),
+    ];
+}
+
+// ------------------------------------------------------------
+// Naming
+// ------------------------------------------------------------
+
+function pascalCase(text: string): string {
+    const words = text.replace(/[^A-Za-z0-9]+/g, ' ').trim().split(/\s+/).filter(Boolean);
+    const name = words.map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join('');
+    return /^[A-Za-z]/.test(name) ? name : `X${name}`;
+}
+
+function typeName(entity: Entity): string {
+    return pascalCase(entity.name || entity.id);
+}
+
+function componentName(view: View): string {
+    return `${pascalCase(view.id)}View`;
+}
+
+function slug(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'app';
+}
+
+/**
+ * Property access that stays valid for names that are not identifiers.
+ */
+function access(object: string, key: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? `${object}.${key}` : `${object}[${JSON.stringify(key)}]`;
+}
+
+function fieldKey(key: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function tsType(property: Property): string {
+    switch (property.type) {
+        case 'number':
+        case 'currency':
+        case 'rating':
+            return 'number';
+        case 'boolean':
+            return 'boolean';
+        case 'enum':
+            return property.options?.length ? property.options.map((o) => JSON.stringify(o)).join(' | ') : 'string';
+        default:
+            return 'string';
+    }
+}
+
+function labelOf(entity: Entity): string {
+    const title = entity.properties.find((p) => ['name', 'title', 'label'].includes(p.name))
+        || entity.properties.find((p) => p.type === 'string');
+    return title ? `String(${access('item', title.name)} ?? item.id)` : 'item.id';
+}
+
+// ------------------------------------------------------------
+// Project Files
+// ------------------------------------------------------------
+
+function renderPackageJson(spec: Specification): string {
+    return JSON.stringify(
+        {
+            name: slug(spec.meta.name),
+            private: true,
+            version: '0.1.0',
+            type: 'module',
+            scripts: { dev: 'vite', build: 'tsc && vite build', preview: 'vite preview' },
+            dependencies: { react: '^18.3.1', 'react-dom': '^18.3.1' },
+            devDependencies: {
+                '@types/react': '^18.3.18',
+                '@types/react-dom': '^18.3.5',
+                '@vitejs/plugin-react': '^4.3.4',
+                typescript: '~5.6.2',
+                vite: '^6.0.5',
+            },
+        },
+        null,
+        2
+    ) + '\n';
+}
+
+const TSCONFIG = `{
+  "compilerOptions": {
+    "target": "ES2020",
+    "lib": ["ES2020", "DOM", "DOM.Iterable"],
+    "module": "ESNext",
+    "moduleResolution": "bundler",
+    "jsx": "react-jsx",
+    "strict": true,
+    "noEmit": true,
+    "isolatedModules": true,
+    "skipLibCheck": true
+  },
+  "include": ["src"]
+}
+`;
+
+const VITE_CONFIG = `import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+  plugins: [react()],
+});
+`;
+
+function renderIndexHtml(spec: Specification): string {
+    const title = spec.meta.name.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+    return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${title}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.tsx"></script>
+  </body>
+</html>
+`;
+}
+
+function renderReadme(spec: Specification): string {
+    return `# ${spec.meta.name}
+
+${spec.meta.description ? `${spec.meta.description}\n\n` : ''}Generated React + TypeScript project.
+
+## Getting started
+
+\`\`\`bash
+npm install
+npm run dev
+\`\`\`
+
+## Structure
+
+- \`src/types.ts\` - one interface per entity
+- \`src/storage.ts\` - typed \`useCollection\` hook backed by localStorage
+- \`src/views/\` - one component per view
+- \`src/App.tsx\` - navigation between views
+`;
+}
+
+const MAIN_TSX = `import React from 'react';
+import ReactDOM from 'react-dom/client';
+import App from './App';
+import './styles.css';
+
+ReactDOM.createRoot(document.getElementById('root')!).render(
+  <React.StrictMode>
+    <App />
+  </React.StrictMode>
+);
+`;
+
+const STYLES_CSS = `:root {
+  font-family: system-ui, -apple-system, sans-serif;
+  color: #f1f5f9;
+  background: #0f172a;
+}
+
+body {
+  margin: 0;
+}
+
+nav {
+  display: flex;
+  gap: 1rem;
+  padding: 0.75rem 1.5rem;
+  background: #1e293b;
+  border-bottom: 1px solid #475569;
+}
+
+nav button {
+  background: none;
+  border: none;
+  color: #94a3b8;
+  cursor: pointer;
+}
+
+nav button.active {
+  color: #0ea5e9;
+}
+
+main {
+  padding: 1.5rem;
+}
+
+table {
+  width: 100%;
+  border-collapse: collapse;
+}
+
+th,
+td {
+  padding: 0.5rem;
+  text-align: left;
+  border-bottom: 1px solid #475569;
+}
+
+form {
+  display: flex;
+  flex-direction: column;
+  gap: 0.75rem;
+  max-width: 500px;
+}
+
+.stat-grid {
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(160px, 1fr));
+  gap: 1rem;
+}
+
+.stat {
+  padding: 1rem;
+  background: #1e293b;
+  border-radius: 8px;
+}
+`;
+
+// ------------------------------------------------------------
+// Types & Storage
+// ------------------------------------------------------------
+
+function renderTypes(spec: Specification, references: ReferenceField[]): string {
+    const interfaces = spec.entities.map((entity) => {
+        const ownRefs = references.filter((r) => r.entityId === entity.id);
+        const refFields = ownRefs.map((r) => r.field);
+        const lines = [
+            '  id: string;',
+            '  createdAt: string;',
+            '  updatedAt?: string;',
+            ...entity.properties
+                .filter((p) => !refFields.includes(p.name))
+                .map((p) => `  ${fieldKey(p.name)}${p.required ? '' : '?'}: ${tsType(p)};`),
+            ...ownRefs.map((r) => `  ${fieldKey(r.field)}?: ${r.multiple ? 'string[]' : 'string'}; // ${r.targetName} id${r.multiple ? 's' : ''}`),
+        ];
+        return `export interface ${typeName(entity)} {\n${lines.join('\n')}\n}`;
+    });
+
+    const dataLines = spec.entities.map((e) => `  ${JSON.stringify(e.id)}: ${typeName(e)}[];`);
+
+    return `// Entity types generated from the specification
+
+${interfaces.join('\n\n')}
+
+export interface AppData {
+${dataLines.join('\n')}
+}
+
+export type EntityKey = keyof AppData;
+export type EntityOf<K extends EntityKey> = AppData[K][number];
+`;
+}
+
+function renderStorage(spec: Specification): string {
+    const empty = spec.entities.map((e) => `  ${JSON.stringify(e.id)}: [],`).join('\n');
+
+    return `import { useCallback, useEffect, useState } from 'react';
+import { AppData, EntityKey, EntityOf } from './types';
+
+const STORAGE_KEY = ${JSON.stringify(`${spec.meta.name}-data`)};
+const EVENT = 'app-data-change';
+
+const EMPTY: AppData = {
+${empty}
+};
+
+function load(): AppData {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...EMPTY, ...JSON.parse(raw) } : { ...EMPTY };
+  } catch {
+    return { ...EMPTY };
+  }
+}
+
+function save(data: AppData): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  window.dispatchEvent(new Event(EVENT));
+}
+
+function createId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 7);
+}
+
+/**
+ * Typed CRUD access to one entity collection, shared across components.
+ */
+export function useCollection<K extends EntityKey>(key: K) {
+  const [items, setItems] = useState<AppData[K]>(() => load()[key]);
+
+  useEffect(() => {
+    const refresh = () => setItems(load()[key]);
+    window.addEventListener(EVENT, refresh);
+    return () => window.removeEventListener(EVENT, refresh);
+  }, [key]);
+
+  const write = useCallback(
+    (next: EntityOf<K>[]) => {
+      const data = load();
+      (data[key] as EntityOf<K>[]) = next;
+      save(data);
+    },
+    [key]
+  );
+
+  const add = useCallback(
+    (values: Omit<EntityOf<K>, 'id' | 'createdAt'>) => {
+      const item = { ...values, id: createId(), createdAt: new Date().toISOString() } as EntityOf<K>;
+      write([...(load()[key] as EntityOf<K>[]), item]);
+      return item;
+    },
+    [key, write]
+  );
+
+  const update = useCallback(
+    (id: string, changes: Partial<EntityOf<K>>) => {
+      const updatedAt = new Date().toISOString();
+      write((load()[key] as EntityOf<K>[]).map((item) => (item.id === id ? { ...item, ...changes, updatedAt } : item)));
+    },
+    [key, write]
+  );
+
+  const remove = useCallback(
+    (id: string) => {
+      write((load()[key] as EntityOf<K>[]).filter((item) => item.id !== id));
+    },
+    [key, write]
+  );
+
+  return { items: items as EntityOf<K>[], add, update, remove };
+}
+`;
+}
+
+// ------------------------------------------------------------
+// App & Views
+// ------------------------------------------------------------
+
+function renderApp(spec: Specification, views: View[]): string {
+    const imports = views.map((v) => `import ${componentName(v)} from './views/${componentName(v)}';`).join('\n');
+    const first = views[0]?.id || '';
+    const links = views
+        .map((v) => `        <button className={view === ${JSON.stringify(v.id)} ? 'active' : ''} onClick={() => navigate(${JSON.stringify(v.id)})}>${escapeJsx(v.name)}</button>`)
+        .join('\n');
+    const routes = views
+        .map((v) => `        {view === ${JSON.stringify(v.id)} && <${componentName(v)} navigate={navigate} itemId={itemId} />}`)
+        .join('\n');
+
+    return `import { useState } from 'react';
+${imports}
+
+export type Navigate = (viewId: string, itemId?: string) => void;
+
+export default function App() {
+  const [view, setView] = useState(${JSON.stringify(first)});
+  const [itemId, setItemId] = useState<string | undefined>();
+
+  const navigate: Navigate = (viewId, id) => {
+    setView(viewId);
+    setItemId(id);
+  };
+
+  return (
+    <>
+      <nav>
+        <strong>${escapeJsx(spec.meta.name)}</strong>
+${links}
+      </nav>
+      <main>
+${routes}
+      </main>
+    </>
+  );
+}
+`;
+}
+
+function renderView(spec: Specification, view: View, references: ReferenceField[]): string {
+    if (view.type === 'dashboard') return renderDashboardView(spec, view);
+
+    const entity = spec.entities.find((e) => e.id === view.entity)!;
+    const refs = references.filter((r) => r.entityId === entity.id);
+    const properties = entity.properties.filter((p) => !refs.some((r) => r.field === p.name));
+    const findView = (type: View['type']) => spec.views.find((v) => v.entity === entity.id && v.type === type)?.id;
+
+    switch (view.type) {
+        case 'form':
+            return renderFormView(entity, view, properties, refs, findView('list'));
+        case 'detail':
+            return renderDetailView(entity, view, properties, findView('list'), findView('form'));
+        default:
+            return renderListView(entity, view, properties, findView('form'), findView('detail'));
+    }
+}
+
+function renderListView(entity: Entity, view: View, properties: Property[], formView?: string, detailView?: string): string {
+    const type = typeName(entity);
+    // The view's own columns, in its order
+    const columns = view.columns?.length
+        ? view.columns.map((name) => properties.find((p) => p.name === name)).filter((p): p is Property => p !== undefined)
+        : properties;
+    const headers = columns.map((p) => `            <th>${escapeJsx(p.name)}</th>`).join('\n');
+    const cells = columns.map((p) => `              <td>{format(${access('item', p.name)})}</td>`).join('\n');
+
+    return `import { useCollection } from '../storage';
+import { ${type} } from '../types';
+import type { Navigate } from '../App';
+
+function format(value: ${type}[keyof ${type}]): string {
+  if (value === undefined || value === '') return '-';
+  if (typeof value === 'boolean') return value ? '✓' : '✗';
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+export default function ${componentName(view)}({ navigate }: { navigate: Navigate; itemId?: string }) {
+  const { items, remove } = useCollection(${JSON.stringify(entity.id)});
+
+  return (
+    <section>
+      <h2>${escapeJsx(view.name)}</h2>
+${formView ? `      <button onClick={() => navigate(${JSON.stringify(formView)})}>+ Add ${escapeJsx(entity.name)}</button>\n` : ''}      {items.length === 0 ? (
+        <p>No items yet.</p>
+      ) : (
+        <table>
+          <thead>
+            <tr>
+${headers}
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item) => (
+              <tr key={item.id}>
+${cells}
+                <td>
+${detailView ? `                  <button onClick={() => navigate(${JSON.stringify(detailView)}, item.id)}>View</button>\n` : ''}${formView ? `                  <button onClick={() => navigate(${JSON.stringify(formView)}, item.id)}>Edit</button>\n` : ''}                  <button onClick={() => remove(item.id)}>Delete</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
+`;
+}
+
+function renderFormView(entity: Entity, view: View, properties: Property[], refs: ReferenceField[], listView?: string): string {
+    const type = typeName(entity);
+    const targets = [...new Set(refs.map((r) => r.targetEntity))];
+    const collections = targets
+        .map((t, i) => `  const { items: options${i} } = useCollection(${JSON.stringify(t)});`)
+        .join('\n');
+
+    const fields = [
+        ...properties.map((p) => renderInput(p)),
+        ...refs.map((r) => {
+            const options = `options${targets.indexOf(r.targetEntity)}`;
+            const value = access('draft', r.field);
+            const onChange = r.multiple
+                ? `(e) => set(${JSON.stringify(r.field)}, Array.from(e.target.selectedOptions, (o) => o.value))`
+                : `(e) => set(${JSON.stringify(r.field)}, e.target.value || undefined)`;
+            return `      <label>
+        ${escapeJsx(r.targetName)}
+        <select${r.multiple ? ' multiple' : ''} value={${value} ?? ${r.multiple ? '[]' : "''"}} onChange={${onChange}}>
+${r.multiple ? '' : '          <option value="">None</option>\n'}          {${options}.map((o) => <option key={o.id} value={o.id}>{String(('name' in o && o.name) || ('title' in o && o.title) || ('label' in o && o.label) || o.id)}</option>)}
+        </select>
+      </label>`;
+        }),
+    ].join('\n');
+
+    const defaults = properties
+        .filter((p) => p.default !== undefined)
+        .map((p) => `${JSON.stringify(p.name)}: ${p.default === '$today' ? 'new Date().toISOString().slice(0, 10)' : JSON.stringify(p.default)}`);
+    const initial = defaults.length > 0 ? 'newDraft()' : '{}';
+    const done = listView ? `navigate(${JSON.stringify(listView)})` : `setDraft(${initial})`;
+
+    return `import { FormEvent, useState } from 'react';
+import { useCollection } from '../storage';
+import { ${type} } from '../types';
+import type { Navigate } from '../App';
+
+type Draft = Partial<${type}>;
+${defaults.length > 0 ? `\nconst newDraft = (): Draft => ({ ${defaults.join(', ')} });\n` : ''}
+export default function ${componentName(view)}({ navigate, itemId }: { navigate: Navigate; itemId?: string }) {
+  const { items, add, update } = useCollection(${JSON.stringify(entity.id)});
+${collections}
+  const [draft, setDraft] = useState<Draft>(() => items.find((i) => i.id === itemId) ?? ${initial});
+
+  const set = <F extends keyof Draft>(field: F, value: Draft[F]) => setDraft((d) => ({ ...d, [field]: value }));
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    if (itemId) {
+      update(itemId, draft);
+    } else {
+      add(draft as Omit<${type}, 'id' | 'createdAt'>);
+    }
+    ${done};
+  };
+
+  return (
+    <form onSubmit={submit}>
+      <h2>${escapeJsx(view.name)}</h2>
+${fields}
+      <button type="submit">Save ${escapeJsx(entity.name)}</button>
+    </form>
+  );
+}
+`;
+}
+
+function renderInput(property: Property): string {
+    const key = JSON.stringify(property.name);
+    const value = access('draft', property.name);
+    const required = (property.required ? ' required' : '') + constraintProps(property);
+    let input: string;
+
+    switch (property.type) {
+        case 'boolean':
+            input = `<input type="checkbox" checked={Boolean(${value})} onChange={(e) => set(${key}, e.target.checked)} />`;
+            break;
+        case 'number':
+        case 'currency': {
+            const step = property.type === 'currency' ? '0.01' : 'any';
+            input = `<input type="number" step="${step}" value={${value} ?? ''} onChange={(e) => set(${key}, e.target.value === '' ? undefined : Number(e.target.value))}${required} />`;
+            break;
+        }
+        case 'rating':
+            input = `<input type="number" min="${property.min ?? 1}" max="${property.max ?? RATING_MAX}" step="1" value={${value} ?? ''} onChange={(e) => set(${key}, e.target.value === '' ? undefined : Number(e.target.value))}${required} />`;
+            break;
+        case 'longtext':
+            input = `<textarea rows={4} value={${value} ?? ''} onChange={(e) => set(${key}, e.target.value)}${required} />`;
+            break;
+        case 'email':
+        case 'url':
+        case 'phone':
+        case 'image': {
+            const type = { email: 'email', url: 'url', phone: 'tel', image: 'url' }[property.type];
+            input = `<input type="${type}" value={${value} ?? ''} onChange={(e) => set(${key}, e.target.value)}${required} />`;
+            break;
+        }
+        case 'date':
+            input = `<input type="date" value={${value} ?? ''} onChange={(e) => set(${key}, e.target.value)}${required} />`;
+            break;
+        case 'enum': {
+            const options = (property.options || [])
+                .map((o) => `          <option value=${JSON.stringify(o)}>${escapeJsx(o)}</option>`)
+                .join('\n');
+            return `      <label>
+        ${escapeJsx(property.name)}
+        <select value={${value} ?? ''} onChange={(e) => set(${key}, e.target.value as Draft[${key}])}${required}>
+          <option value="">Select…</option>
+${options}
+        </select>
+      </label>`;
+        }
+        default:
+            input = `<input type="text" value={${value} ?? ''} onChange={(e) => set(${key}, e.target.value)}${required} />`;
+    }
+
+    return `      <label>
+        ${escapeJsx(property.name)}
+        ${input}
+      </label>`;
+}
+
+// Native validation props for a property's constraints. Rating inputs
+// set their own min and max.
+function constraintProps(property: Property): string {
+    const props: string[] = [];
+    if (NUMERIC_PROPERTY_TYPES.includes(property.type) && property.type !== 'rating') {
+        if (property.min !== undefined) props.push(`min={${property.min}}`);
+        if (property.max !== undefined) props.push(`max={${property.max}}`);
+    }
+    if (TEXT_PROPERTY_TYPES.includes(property.type)) {
+        if (property.minLength !== undefined) props.push(`minLength={${property.minLength}}`);
+        if (property.maxLength !== undefined) props.push(`maxLength={${property.maxLength}}`);
+        // textarea has no pattern attribute
+        if (property.pattern && property.type !== 'longtext') props.push(`pattern={${JSON.stringify(property.pattern)}}`);
+    }
+    return props.map((p) => ` ${p}`).join('');
+}
+
+function renderDetailView(entity: Entity, view: View, properties: Property[], listView?: string, formView?: string): string {
+    const rows = properties
+        .map((p) => `        <dt>${escapeJsx(p.name)}</dt>\n        <dd>{String(${access('item', p.name)} ?? '-')}</dd>`)
+        .join('\n');
+
+    return `import { useCollection } from '../storage';
+import type { Navigate } from '../App';
+
+export default function ${componentName(view)}({ navigate, itemId }: { navigate: Navigate; itemId?: string }) {
+  const { items } = useCollection(${JSON.stringify(entity.id)});
+  const item = items.find((i) => i.id === itemId);
+
+  if (!item) return <p>Select an item to see its details.</p>;
+
+  return (
+    <section>
+      <h2>{${labelOf(entity)}}</h2>
+      <dl>
+${rows}
+      </dl>
+${listView ? `      <button onClick={() => navigate(${JSON.stringify(listView)})}>← Back</button>\n` : ''}${formView ? `      <button onClick={() => navigate(${JSON.stringify(formView)}, item.id)}>Edit</button>\n` : ''}    </section>
+  );
+}
+`;
+}
+
+function renderDashboardView(spec: Specification, view: View): string {
+    const hooks = spec.entities
+        .map((e, i) => `  const { items: items${i} } = useCollection(${JSON.stringify(e.id)});`)
+        .join('\n');
+    const stats = spec.entities
+        .map((e, i) => `        <div className="stat">\n          <strong>{items${i}.length}</strong> ${escapeJsx(e.name)}\n        </div>`)
+        .join('\n');
+
+    return `import { useCollection } from '../storage';
+import type { Navigate } from '../App';
+
+export default function ${componentName(view)}(_props: { navigate: Navigate; itemId?: string }) {
+${hooks}
+
+  return (
+    <section>
+      <h2>${escapeJsx(view.name)}</h2>
+      <div className="stat-grid">
+${stats}
+      </div>
+    </section>
+  );
+}
+`;
+}
+
+function escapeJsx(text: string): string {
+    return text.replace(/[{}<>&]/g, (ch) => `{${JSON.stringify(ch)}}`);
+}
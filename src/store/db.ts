@@ -0,0 +1,302 @@
+import type { PersistStorage, StorageValue } from 'zustand/middleware';
+import { Project, ProjectSummary, Message, SpecVersion, BuildResult, ConversationSummary } from '../types';
+
+// ============================================================
+// Project Database - IndexedDB persistence for projects
+// ============================================================
+//
+// Each project is split into two records so the project list can be
+// read without pulling every chat and build into memory:
+// - projects:    ProjectSummary (name, dates, phase, spec)
+// - projectData: messages, conversation summary, spec history and build result
+//
+// The `session` store holds the zustand persist state.
+
+const DB_NAME = 'mini-artifact';
+const DB_VERSION = 1;
+
+const PROJECTS = 'projects';
+const PROJECT_DATA = 'projectData';
+const SESSION = 'session';
+
+// Keys written by earlier versions, moved into the database once
+const LEGACY_PROJECTS_KEY = 'mini-artifact-projects';
+const LEGACY_SESSION_KEY = 'mini-artifact-store';
+const MIGRATED_FLAG = 'migratedFromLocalStorage';
+
+// Persist fires on every state change; coalesce writes within this window
+const SESSION_WRITE_DELAY = 250;
+
+interface ProjectData {
+    id: string;
+    messages: Message[];
+    specHistory: SpecVersion[];
+    buildResult: BuildResult | null;
+    conversationSummary?: ConversationSummary | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open the database, running the localStorage migration on first use.
+ */
+function getDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = openDb().then(async (db) => {
+            await migrateLegacyStorage(db);
+            return db;
+        });
+        // Allow a retry after a failed open (e.g. private browsing)
+        dbPromise.catch(() => {
+            dbPromise = null;
+        });
+    }
+    return dbPromise;
+}
+
+function openDb(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+            if (!db.objectStoreNames.contains(PROJECT_DATA)) db.createObjectStore(PROJECT_DATA, { keyPath: 'id' });
+            if (!db.objectStoreNames.contains(SESSION)) db.createObjectStore(SESSION);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Run `work` in a transaction and resolve once it has committed.
+ */
+async function transact<T>(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    work: (tx: IDBTransaction) => T | Promise<T>,
+    db?: IDBDatabase
+): Promise<T> {
+    const database = db || (await getDb());
+    const tx = database.transaction(storeNames, mode);
+    const done = new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+    const [result] = await Promise.all([work(tx), done]);
+    return result;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+}
+
+function splitProject(project: Project): { summary: ProjectSummary; data: ProjectData } {
+    const { messages, specHistory, buildResult, conversationSummary, ...summary } = project;
+    return {
+        summary,
+        data: { id: project.id, messages, specHistory: specHistory || [], buildResult, conversationSummary: conversationSummary || null },
+    };
+}
+
+export function toProjectSummary(project: Project): ProjectSummary {
+    return splitProject(project).summary;
+}
+
+function writeProject(tx: IDBTransaction, project: Project): void {
+    const { summary, data } = splitProject(project);
+    tx.objectStore(PROJECTS).put(summary);
+    tx.objectStore(PROJECT_DATA).put(data);
+}
+
+// ------------------------------------------------------------
+// Projects
+// ------------------------------------------------------------
+
+/**
+ * All project summaries, oldest first (the order they were created).
+ */
+export async function listProjects(): Promise<ProjectSummary[]> {
+    const summaries = await transact([PROJECTS], 'readonly', (tx) =>
+        request(tx.objectStore(PROJECTS).getAll() as IDBRequest<ProjectSummary[]>)
+    );
+    return summaries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * A full project, with its messages, history and build.
+ */
+export async function loadProject(id: string): Promise<Project | null> {
+    return transact([PROJECTS, PROJECT_DATA], 'readonly', async (tx) => {
+        const [summary, data] = await Promise.all([
+            request(tx.objectStore(PROJECTS).get(id) as IDBRequest<ProjectSummary | undefined>),
+            request(tx.objectStore(PROJECT_DATA).get(id) as IDBRequest<ProjectData | undefined>),
+        ]);
+        if (!summary) return null;
+        return {
+            ...summary,
+            messages: data?.messages || [],
+            specHistory: data?.specHistory || [],
+            buildResult: data?.buildResult || null,
+            conversationSummary: data?.conversationSummary || null,
+        };
+    });
+}
+
+export async function loadAllProjects(): Promise<Project[]> {
+    const summaries = await listProjects();
+    const projects = await Promise.all(summaries.map((summary) => loadProject(summary.id)));
+    return projects.filter((project): project is Project => project !== null);
+}
+
+export async function saveProject(project: Project): Promise<void> {
+    await transact([PROJECTS, PROJECT_DATA], 'readwrite', (tx) => writeProject(tx, project));
+}
+
+/**
+ * Update only the list record (e.g. a rename) without touching its data.
+ */
+export async function saveProjectSummary(summary: ProjectSummary): Promise<void> {
+    await transact([PROJECTS], 'readwrite', (tx) => {
+        tx.objectStore(PROJECTS).put(summary);
+    });
+}
+
+export async function deleteProjectRecords(id: string): Promise<void> {
+    await transact([PROJECTS, PROJECT_DATA], 'readwrite', (tx) => {
+        tx.objectStore(PROJECTS).delete(id);
+        tx.objectStore(PROJECT_DATA).delete(id);
+    });
+}
+
+/**
+ * Replace every project in one transaction (used by backup restore).
+ */
+export async function replaceAllProjects(projects: Project[]): Promise<void> {
+    await transact([PROJECTS, PROJECT_DATA], 'readwrite', (tx) => {
+        tx.objectStore(PROJECTS).clear();
+        tx.objectStore(PROJECT_DATA).clear();
+        projects.forEach((project) => writeProject(tx, project));
+    });
+}
+
+// ------------------------------------------------------------
+// Session Storage (zustand persist)
+// ------------------------------------------------------------
+
+/**
+ * Persist storage backed by the `session` object store. Values are
+ * stored as structured clones, and rapid updates (e.g. streaming) are
+ * coalesced into one write.
+ *
+ * Hydration is asynchronous, so writes made before a key has been read
+ * are dropped; they would otherwise replace the saved session with the
+ * initial state.
+ */
+export function createSessionStorage<S>(): PersistStorage<S> {
+    const pending = new Map<string, { value: StorageValue<S>; timer: ReturnType<typeof setTimeout> }>();
+    const hydrated = new Set<string>();
+
+    const flush = async (name: string) => {
+        const entry = pending.get(name);
+        if (!entry) return;
+        pending.delete(name);
+        try {
+            await transact([SESSION], 'readwrite', (tx) => {
+                tx.objectStore(SESSION).put(entry.value, name);
+            });
+        } catch (e) {
+            console.error('Failed to save session:', e);
+        }
+    };
+
+    return {
+        getItem: async (name) => {
+            try {
+                const value = await transact([SESSION], 'readonly', (tx) =>
+                    request(tx.objectStore(SESSION).get(name) as IDBRequest<StorageValue<S> | undefined>)
+                );
+                return value ?? null;
+            } catch {
+                return null;
+            } finally {
+                hydrated.add(name);
+            }
+        },
+        setItem: (name, value) => {
+            if (!hydrated.has(name)) return;
+            const entry = pending.get(name);
+            if (entry) clearTimeout(entry.timer);
+            pending.set(name, { value, timer: setTimeout(() => flush(name), SESSION_WRITE_DELAY) });
+        },
+        removeItem: async (name) => {
+            const entry = pending.get(name);
+            if (entry) clearTimeout(entry.timer);
+            pending.delete(name);
+            await transact([SESSION], 'readwrite', (tx) => {
+                tx.objectStore(SESSION).delete(name);
+            });
+        },
+    };
+}
+
+/**
+ * Drop the persisted session (the migration flag is kept).
+ */
+export async function clearSession(): Promise<void> {
+    await transact([SESSION], 'readwrite', async (tx) => {
+        const keys = await request(tx.objectStore(SESSION).getAllKeys());
+        keys.filter((key) => key !== MIGRATED_FLAG).forEach((key) => tx.objectStore(SESSION).delete(key));
+    });
+}
+
+// ------------------------------------------------------------
+// One-time Migration
+// ------------------------------------------------------------
+
+/**
+ * Move projects saved by saveProjects and the persisted session out of
+ * localStorage/sessionStorage. The flag in the session store makes this
+ * run once; the legacy keys are only removed after the write commits.
+ */
+async function migrateLegacyStorage(db: IDBDatabase): Promise<void> {
+    const migrated = await transact([SESSION], 'readonly', (tx) =>
+        request(tx.objectStore(SESSION).get(MIGRATED_FLAG)), db);
+    if (migrated) return;
+
+    const projects = readLegacy<Project[]>(getWebStorage('localStorage'), LEGACY_PROJECTS_KEY) || [];
+    const session =
+        readLegacy<StorageValue<unknown>>(getWebStorage('sessionStorage'), LEGACY_SESSION_KEY) ||
+        readLegacy<StorageValue<unknown>>(getWebStorage('localStorage'), LEGACY_SESSION_KEY);
+
+    await transact([PROJECTS, PROJECT_DATA, SESSION], 'readwrite', (tx) => {
+        projects.filter((p) => p && typeof p.id === 'string').forEach((project) => writeProject(tx, project));
+        if (session) tx.objectStore(SESSION).put(session, LEGACY_SESSION_KEY);
+        tx.objectStore(SESSION).put(new Date().toISOString(), MIGRATED_FLAG);
+    }, db);
+
+    getWebStorage('localStorage')?.removeItem(LEGACY_PROJECTS_KEY);
+    getWebStorage('localStorage')?.removeItem(LEGACY_SESSION_KEY);
+    getWebStorage('sessionStorage')?.removeItem(LEGACY_SESSION_KEY);
+}
+
+function getWebStorage(kind: 'localStorage' | 'sessionStorage'): Storage | null {
+    try {
+        return (globalThis as unknown as Record<string, Storage | undefined>)[kind] ?? null;
+    } catch {
+        return null;
+    }
+}
+
+function readLegacy<T>(storage: Storage | null, key: string): T | null {
+    try {
+        const stored = storage?.getItem(key);
+        return stored ? JSON.parse(stored) : null;
+    } catch {
+        return null;
+    }
+}
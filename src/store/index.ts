@@ -1,7 +1,8 @@
 import { create } from 'zustand';
-import { persist, createJSONStorage } from 'zustand/middleware';
+import { persist } from 'zustand/middleware';
 import {
     Message,
+    MessageUsage,
     Specification,
     BuildResult,
     AppError,
@@ -10,9 +11,25 @@ import {
     createId,
     createTimestamp,
     Provider,
-    DEFAULT_MODEL,
     Project,
+    ProjectSummary,
+    ArnoldPartialOutput,
+    SpecVersion,
+    SpecVersionOrigin,
+    ConversationSummary,
 } from '../types';
+import {
+    listProjects,
+    loadProject,
+    saveProject,
+    saveProjectSummary,
+    deleteProjectRecords,
+    replaceAllProjects,
+    toProjectSummary,
+    createSessionStorage,
+} from './db';
+import { listProviders, getDefaultModel, hasApiKey, cancelRequests, DEFAULT_PROVIDER } from '../api/providers';
+import { addUsage } from '../utils/usage';
 
 // ------------------------------------------------------------
 // Agent Activity Type
@@ -44,23 +61,43 @@ function applyThemeToDocument(theme: Theme): void {
 // Project Persistence Helpers
 // ------------------------------------------------------------
 
-const PROJECTS_STORAGE_KEY = 'mini-artifact-projects';
+// State for an opened project, loaded from its full record
+function getOpenProjectState(project: Project): Partial<StoreState> {
+    return {
+        currentProjectId: project.id,
+        messages: project.messages,
+        conversationSummary: project.conversationSummary || null,
+        currentSpec: project.spec,
+        specHistory: project.specHistory || [],
+        buildResult: project.buildResult,
+        conversationPhase: project.conversationPhase,
+        buildStatus: project.buildResult?.success ? 'success' : 'idle',
+    };
+}
 
-function loadProjects(): Project[] {
-    try {
-        const stored = localStorage.getItem(PROJECTS_STORAGE_KEY);
-        return stored ? JSON.parse(stored) : [];
-    } catch {
-        return [];
-    }
+// Auto-save runs often; report a failing save only once
+function reportSaveError(get: () => StoreState & StoreActions, error: unknown): void {
+    console.error('Failed to save project:', error);
+    if (get().errors.some((e) => e.code === 'PROJECT_SAVE_FAILED')) return;
+    const quota = error instanceof DOMException && error.name === 'QuotaExceededError';
+    get().addError(
+        'PROJECT_SAVE_FAILED',
+        quota
+            ? 'Could not save the project. Storage is full; download a backup and delete old projects.'
+            : 'Could not save the project to browser storage.'
+    );
 }
 
-function saveProjects(projects: Project[]): void {
-    try {
-        localStorage.setItem(PROJECTS_STORAGE_KEY, JSON.stringify(projects));
-    } catch (e) {
-        console.error('Failed to save projects:', e);
-    }
+// Oldest versions are dropped beyond this many per project
+const MAX_SPEC_HISTORY = 50;
+
+function createSpecVersion(spec: Specification, origin: SpecVersionOrigin): SpecVersion {
+    return {
+        id: createId(),
+        spec,
+        createdAt: createTimestamp(),
+        ...origin,
+    };
 }
 
 // ------------------------------------------------------------
@@ -68,17 +105,18 @@ function saveProjects(projects: Project[]): void {
 // ------------------------------------------------------------
 
 interface StoreState {
-    // Project state
-    projects: Project[];
+    // Project state (summaries; the open project's data lives below)
+    projects: ProjectSummary[];
     currentProjectId: string | null;
 
     // Conversation state
     messages: Message[];
     conversationPhase: 'gathering' | 'refining' | 'complete';
+    conversationSummary: ConversationSummary | null; // Stands in for messages beyond the context budget
 
     // Specification state
     currentSpec: Specification | null;
-    specHistory: Specification[];
+    specHistory: SpecVersion[];
     specValidation: ValidationResult | null;
 
     // Build state
@@ -100,6 +138,9 @@ interface StoreState {
     // Agent activity tracking
     activeAgent: ActiveAgent;
 
+    // Streaming Arnold response (question text / spec fragments so far)
+    streamingDraft: ArnoldPartialOutput | null;
+
     // Theme
     theme: Theme;
 
@@ -114,18 +155,22 @@ interface StoreState {
 
 interface StoreActions {
     // Project actions
+    initProjects: () => Promise<void>;
     createProject: (name?: string) => string;
-    switchProject: (projectId: string) => void;
-    deleteProject: (projectId: string) => void;
-    saveCurrentProject: () => void;
+    switchProject: (projectId: string) => Promise<void>;
+    deleteProject: (projectId: string) => Promise<void>;
+    saveCurrentProject: () => Promise<void>;
     renameProject: (projectId: string, name: string) => void;
+    restoreProjects: (projects: Project[]) => Promise<void>;
 
     // Message actions
-    addMessage: (role: 'user' | 'assistant' | 'system', content: string) => void;
+    addMessage: (role: 'user' | 'assistant' | 'system', content: string, usage?: MessageUsage) => string;
     clearMessages: () => void;
+    setConversationSummary: (summary: ConversationSummary | null) => void;
 
     // Spec actions
-    setSpec: (spec: Specification) => void;
+    setSpec: (spec: Specification, origin?: SpecVersionOrigin) => void;
+    restoreSpecVersion: (versionId: string) => void;
     updateSpec: (updates: Partial<Specification>) => void;
     clearSpec: () => void;
     setSpecValidation: (validation: ValidationResult) => void;
@@ -146,6 +191,7 @@ interface StoreActions {
 
     // Error actions
     addError: (code: string, message: string, recoverable?: boolean) => void;
+    pushError: (error: AppError) => void; // e.g. one reported by Nedry
     removeError: (id: string) => void;
     clearErrors: () => void;
 
@@ -155,6 +201,9 @@ interface StoreActions {
     // Agent activity actions
     setActiveAgent: (agent: ActiveAgent) => void;
 
+    // Streaming actions
+    setStreamingDraft: (draft: ArnoldPartialOutput | null) => void;
+
     // Theme actions
     toggleTheme: () => void;
     setTheme: (theme: Theme) => void;
@@ -172,10 +221,11 @@ interface StoreActions {
 // ------------------------------------------------------------
 
 const initialState: StoreState = {
-    projects: loadProjects(),
+    projects: [], // Loaded from IndexedDB by initProjects
     currentProjectId: null,
     messages: [],
     conversationPhase: 'gathering',
+    conversationSummary: null,
     currentSpec: null,
     specHistory: [],
     specValidation: null,
@@ -188,43 +238,17 @@ const initialState: StoreState = {
     errors: [],
     isLoading: false,
     activeAgent: 'idle',
+    streamingDraft: null,
     theme: getInitialTheme(),
     provider: getInitialProvider(),
-    model: DEFAULT_MODEL[getInitialProvider()],
+    model: getDefaultModel(getInitialProvider()),
 };
 
 /**
- * Detect which provider has a valid API key configured.
- * Priority: Anthropic > OpenAI > default to OpenAI
+ * The first registered provider that is configured, or the default.
  */
 function getInitialProvider(): Provider {
-    // Check localStorage for saved provider preference first
-    try {
-        const savedStore = sessionStorage.getItem('mini-artifact-store');
-        if (savedStore) {
-            const parsed = JSON.parse(savedStore);
-            if (parsed?.state?.provider) {
-                return parsed.state.provider as Provider;
-            }
-        }
-    } catch {
-        // Ignore parse errors
-    }
-
-    // Check which provider has API key configured
-    const hasAnthropicKey = localStorage.getItem('mini-artifact-anthropic-key') !== null;
-    const hasOpenAIKey = localStorage.getItem('mini-artifact-openai-key') !== null;
-
-    // Prefer Anthropic if available, otherwise OpenAI
-    if (hasAnthropicKey) {
-        return 'anthropic';
-    }
-    if (hasOpenAIKey) {
-        return 'openai';
-    }
-
-    // Default to OpenAI if no keys configured
-    return 'openai';
+    return listProviders().find((provider) => hasApiKey(provider.id))?.id || DEFAULT_PROVIDER;
 }
 
 // ------------------------------------------------------------
@@ -237,6 +261,15 @@ export const useStore = create<StoreState & StoreActions>()(
             ...initialState,
 
             // Project actions
+            initProjects: async () => {
+                try {
+                    set({ projects: await listProjects() });
+                } catch (e) {
+                    console.error('Failed to load projects:', e);
+                    get().addError('STORAGE_UNAVAILABLE', 'Projects could not be loaded from browser storage.');
+                }
+            },
+
             createProject: (name?: string) => {
                 const id = createId();
                 const now = createTimestamp();
@@ -251,15 +284,16 @@ export const useStore = create<StoreState & StoreActions>()(
                     spec: null,
                     buildResult: null,
                     conversationPhase: 'gathering',
+                    specHistory: [],
                 };
 
-                const updatedProjects = [...get().projects, newProject];
-                saveProjects(updatedProjects);
+                saveProject(newProject).catch((e) => reportSaveError(get, e));
 
                 set({
-                    projects: updatedProjects,
+                    projects: [...get().projects, toProjectSummary(newProject)],
                     currentProjectId: id,
                     messages: [],
+                    conversationSummary: null,
                     currentSpec: null,
                     specHistory: [],
                     buildResult: null,
@@ -271,75 +305,76 @@ export const useStore = create<StoreState & StoreActions>()(
                 return id;
             },
 
-            switchProject: (projectId: string) => {
+            switchProject: async (projectId: string) => {
+                // Replies still on their way belong to the project being left
+                const { currentProjectId } = get();
+                if (currentProjectId && currentProjectId !== projectId) {
+                    cancelRequests(currentProjectId);
+                }
+
                 // Save current project first
-                get().saveCurrentProject();
+                await get().saveCurrentProject();
 
-                const project = get().projects.find(p => p.id === projectId);
+                // Messages and builds are only read when a project is opened
+                const project = await loadProject(projectId);
                 if (!project) return;
 
                 set({
-                    currentProjectId: projectId,
-                    messages: project.messages,
-                    currentSpec: project.spec,
-                    buildResult: project.buildResult,
-                    conversationPhase: project.conversationPhase,
-                    buildStatus: project.buildResult?.success ? 'success' : 'idle',
+                    ...getOpenProjectState(project),
                     expandedPanel: null,
                 });
             },
 
-            deleteProject: (projectId: string) => {
+            deleteProject: async (projectId: string) => {
+                cancelRequests(projectId);
                 const updatedProjects = get().projects.filter(p => p.id !== projectId);
-                saveProjects(updatedProjects);
+                set({ projects: updatedProjects });
+                await deleteProjectRecords(projectId).catch((e) => console.error('Failed to delete project:', e));
 
                 // If deleting current project, switch to another or create new
                 if (get().currentProjectId === projectId) {
-                    if (updatedProjects.length > 0) {
-                        const nextProject = updatedProjects[0];
-                        set({
-                            projects: updatedProjects,
-                            currentProjectId: nextProject.id,
-                            messages: nextProject.messages,
-                            currentSpec: nextProject.spec,
-                            buildResult: nextProject.buildResult,
-                            conversationPhase: nextProject.conversationPhase,
-                        });
+                    const nextProject = updatedProjects.length > 0
+                        ? await loadProject(updatedProjects[0].id)
+                        : null;
+                    if (nextProject) {
+                        set(getOpenProjectState(nextProject));
                     } else {
                         set({
-                            projects: updatedProjects,
                             currentProjectId: null,
                             messages: [],
+                            conversationSummary: null,
                             currentSpec: null,
+                            specHistory: [],
                             buildResult: null,
                             conversationPhase: 'gathering',
                         });
                     }
-                } else {
-                    set({ projects: updatedProjects });
                 }
             },
 
-            saveCurrentProject: () => {
-                const { currentProjectId, messages, currentSpec, buildResult, conversationPhase, projects } = get();
-                if (!currentProjectId) return;
-
-                const updatedProjects = projects.map(p => {
-                    if (p.id === currentProjectId) {
-                        return {
-                            ...p,
-                            updatedAt: createTimestamp(),
-                            messages,
-                            spec: currentSpec,
-                            buildResult,
-                            conversationPhase,
-                        };
-                    }
-                    return p;
-                });
+            saveCurrentProject: async () => {
+                const { currentProjectId, messages, conversationSummary, currentSpec, specHistory, buildResult, conversationPhase, projects } = get();
+                const summary = projects.find(p => p.id === currentProjectId);
+                if (!summary) return;
+
+                // Only the open project's record is written
+                const project: Project = {
+                    ...summary,
+                    updatedAt: createTimestamp(),
+                    messages,
+                    conversationSummary,
+                    spec: currentSpec,
+                    specHistory,
+                    buildResult,
+                    conversationPhase,
+                };
 
-                saveProjects(updatedProjects);
-                set({ projects: updatedProjects });
+                set({ projects: projects.map(p => (p.id === project.id ? toProjectSummary(project) : p)) });
+                try {
+                    await saveProject(project);
+                } catch (e) {
+                    reportSaveError(get, e);
+                }
             },
 
             renameProject: (projectId: string, name: string) => {
@@ -349,37 +384,86 @@ export const useStore = create<StoreState & StoreActions>()(
                     }
                     return p;
                 });
-                saveProjects(updatedProjects);
                 set({ projects: updatedProjects });
+
+                const renamed = updatedProjects.find(p => p.id === projectId);
+                if (renamed) saveProjectSummary(renamed).catch((e) => reportSaveError(get, e));
+            },
+
+            // Replace all projects, e.g. after merging a backup
+            restoreProjects: async (projects: Project[]) => {
+                const { currentProjectId, projects: previous } = get();
+                try {
+                    await replaceAllProjects(projects);
+                } catch (e) {
+                    reportSaveError(get, e);
+                    return;
+                }
+
+                const current = projects.find((p) => p.id === currentProjectId);
+                const before = previous.find((p) => p.id === currentProjectId);
+                const changed = current && current.updatedAt !== before?.updatedAt;
+                set({
+                    projects: projects.map(toProjectSummary),
+                    ...(current && changed ? getOpenProjectState(current) : {}),
+                });
             },
 
             // Message actions
-            addMessage: (role, content) => {
+            addMessage: (role, content, usage) => {
                 const message: Message = {
                     id: createId(),
                     role,
                     content,
                     timestamp: createTimestamp(),
+                    ...(usage && { usage }),
                 };
                 set((state) => ({
                     messages: [...state.messages, message],
+                    // Project totals live on the summary so Settings can show them for every project
+                    projects: usage
+                        ? state.projects.map((p) =>
+                            p.id === state.currentProjectId ? { ...p, usage: addUsage(p.usage, usage) } : p
+                        )
+                        : state.projects,
                 }));
                 // Auto-save after message
                 setTimeout(() => get().saveCurrentProject(), 100);
+                return message.id;
             },
 
-            clearMessages: () => set({ messages: [] }),
+            clearMessages: () => set({ messages: [], conversationSummary: null }),
+
+            setConversationSummary: (summary) => {
+                set({ conversationSummary: summary });
+                setTimeout(() => get().saveCurrentProject(), 100);
+            },
 
             // Spec actions
-            setSpec: (spec) => {
-                set((state) => ({
-                    currentSpec: spec,
-                    specHistory: [...state.specHistory, spec],
-                }));
+            setSpec: (spec, origin = { source: 'manual' }) => {
+                set((state) => {
+                    // Only record a version when the spec actually changed
+                    const latest = state.specHistory[state.specHistory.length - 1];
+                    const unchanged = latest && JSON.stringify(latest.spec) === JSON.stringify(spec);
+
+                    return {
+                        currentSpec: spec,
+                        specHistory: unchanged
+                            ? state.specHistory
+                            : [...state.specHistory, createSpecVersion(spec, origin)].slice(-MAX_SPEC_HISTORY),
+                    };
+                });
                 // Auto-save after spec update
                 setTimeout(() => get().saveCurrentProject(), 100);
             },
 
+            restoreSpecVersion: (versionId) => {
+                const version = get().specHistory.find((v) => v.id === versionId);
+                if (!version) return;
+
+                get().setSpec(version.spec, { source: 'restore', restoredFrom: versionId });
+            },
+
             updateSpec: (updates) =>
                 set((state) => ({
                     currentSpec: state.currentSpec
@@ -430,18 +514,20 @@ export const useStore = create<StoreState & StoreActions>()(
             })),
 
             // Error actions
-            addError: (code, message, recoverable = true) => {
-                const error: AppError = {
+            addError: (code, message, recoverable = true) =>
+                get().pushError({
                     id: createId(),
                     code,
                     message,
                     timestamp: createTimestamp(),
                     recoverable,
-                };
+                }),
+
+            // A repeat of the same failure replaces the earlier one
+            pushError: (error) =>
                 set((state) => ({
-                    errors: [...state.errors, error],
-                }));
-            },
+                    errors: [...state.errors.filter((e) => e.code !== error.code), error],
+                })),
 
             removeError: (id) =>
                 set((state) => ({
@@ -456,6 +542,9 @@ export const useStore = create<StoreState & StoreActions>()(
             // Agent activity actions
             setActiveAgent: (agent) => set({ activeAgent: agent }),
 
+            // Streaming actions
+            setStreamingDraft: (draft) => set({ streamingDraft: draft }),
+
             // Theme actions
             toggleTheme: () => {
                 const newTheme = get().theme === 'dark' ? 'light' : 'dark';
@@ -472,7 +561,7 @@ export const useStore = create<StoreState & StoreActions>()(
             // Config actions
             setProvider: (provider) => set((state) => ({
                 provider,
-                model: DEFAULT_MODEL[provider],
+                model: getDefaultModel(provider),
             })),
             setModel: (model) => set({ model }),
 
@@ -490,9 +579,19 @@ export const useStore = create<StoreState & StoreActions>()(
         }),
         {
             name: 'mini-artifact-store',
-            storage: createJSONStorage(() => sessionStorage),
+            storage: createSessionStorage<Partial<StoreState>>(),
+            version: 1,
+            migrate: (persisted, version) => {
+                // v0 stored specHistory as bare Specification objects
+                const state = persisted as Partial<StoreState>;
+                if (version < 1) {
+                    state.specHistory = [];
+                }
+                return state as StoreState & StoreActions;
+            },
             partialize: (state) => ({
                 messages: state.messages,
+                conversationSummary: state.conversationSummary,
                 currentSpec: state.currentSpec,
                 specHistory: state.specHistory,
                 buildResult: state.buildResult,
@@ -512,6 +611,7 @@ export const useStore = create<StoreState & StoreActions>()(
 
 export const selectMessages = (state: StoreState) => state.messages;
 export const selectCurrentSpec = (state: StoreState) => state.currentSpec;
+export const selectSpecHistory = (state: StoreState) => state.specHistory;
 export const selectBuildResult = (state: StoreState) => state.buildResult;
 export const selectBuildStatus = (state: StoreState) => state.buildStatus;
 export const selectPhase = (state: StoreState) => state.phase;
@@ -523,6 +623,7 @@ export const selectVisiblePanels = (state: StoreState) => state.visiblePanels;
 export const selectProvider = (state: StoreState) => state.provider;
 export const selectModel = (state: StoreState) => state.model;
 export const selectActiveAgent = (state: StoreState) => state.activeAgent;
+export const selectStreamingDraft = (state: StoreState) => state.streamingDraft;
 export const selectTheme = (state: StoreState) => state.theme;
 export const selectProjects = (state: StoreState) => state.projects;
 export const selectCurrentProjectId = (state: StoreState) => state.currentProjectId;
@@ -3,9 +3,19 @@
 // ============================================================
 
 // Import and re-export LLM types for convenience
-import type { Provider } from './llm';
-export type { Provider, LLMMessage, LLMRequest, LLMResponse, ModelInfo } from './llm';
-export { DEFAULT_MODELS, DEFAULT_MODEL } from './llm';
+import type { Provider, LLMResponse } from './llm';
+export type {
+    Provider,
+    LLMMessage,
+    LLMRequest,
+    LLMResponse,
+    LLMDeltaHandler,
+    JsonSchemaFormat,
+    ModelInfo,
+    ModelPricing,
+    ProviderDefinition,
+    ProviderKeyConfig,
+} from './llm';
 
 // ------------------------------------------------------------
 // Message Types
@@ -16,6 +26,32 @@ export interface Message {
     role: 'user' | 'assistant' | 'system';
     content: string;
     timestamp: string;
+    usage?: MessageUsage; // Tokens spent producing this (assistant) message
+}
+
+// ------------------------------------------------------------
+// Token Usage
+// ------------------------------------------------------------
+
+export interface MessageUsage {
+    provider: Provider;
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number | null; // Estimated USD; null when the model has no known price
+}
+
+/**
+ * Running totals for one provider/model pair
+ */
+export interface UsageTotals {
+    provider: Provider;
+    model: string;
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number; // Estimated USD, priced calls only
+    unpricedCalls: number; // Calls to models without a known price
 }
 
 // ------------------------------------------------------------
@@ -31,6 +67,26 @@ export interface Project {
     spec: Specification | null;
     buildResult: BuildResult | null;
     conversationPhase: 'gathering' | 'refining' | 'complete';
+    specHistory?: SpecVersion[]; // Absent on projects saved before history existed
+    usage?: UsageTotals[]; // One entry per provider/model used in this project
+    conversationSummary?: ConversationSummary | null; // Absent until the history outgrew the context
+}
+
+/**
+ * Project without its messages, history and build. This is what the
+ * project list holds; the rest is loaded when a project is opened.
+ */
+export type ProjectSummary = Omit<Project, 'messages' | 'specHistory' | 'buildResult' | 'conversationSummary'>;
+
+/**
+ * LLM-written digest of the start of a conversation. It is sent instead
+ * of the messages it covers once the history no longer fits the model's
+ * context budget.
+ */
+export interface ConversationSummary {
+    text: string;
+    throughMessageId: string; // Last message the summary covers
+    createdAt: string;
 }
 
 // ------------------------------------------------------------
@@ -59,14 +115,53 @@ export interface Entity {
 
 export interface Property {
     name: string;
-    type: 'string' | 'number' | 'boolean' | 'date' | 'enum';
+    type: PropertyType;
     required: boolean;
     options?: string[]; // For enum type
-}
+    currency?: string; // ISO 4217 code for currency type (default: USD)
+    // Constraints, checked by generated forms
+    min?: number; // Numeric types
+    max?: number;
+    minLength?: number; // Text types
+    maxLength?: number;
+    pattern?: string; // Regular expression the whole value must match
+    unique?: boolean; // No two items may share the value
+    default?: string | number | boolean; // Prefilled in new items; "$today" for dates
+}
+
+/**
+ * Every property type, in the order editors offer them. `longtext` is
+ * multi-line text, `rating` a whole number from 1 to 5 and `image` the
+ * URL of a picture.
+ */
+export const PROPERTY_TYPES = [
+    'string',
+    'longtext',
+    'number',
+    'currency',
+    'rating',
+    'boolean',
+    'date',
+    'enum',
+    'email',
+    'url',
+    'phone',
+    'image',
+] as const;
+
+export type PropertyType = (typeof PROPERTY_TYPES)[number];
+
+// Highest value of a rating property; the lowest is 1
+export const RATING_MAX = 5;
+
+// Property types that hold a number, and those that hold text
+export const NUMERIC_PROPERTY_TYPES: readonly PropertyType[] = ['number', 'currency', 'rating'];
+export const TEXT_PROPERTY_TYPES: readonly PropertyType[] = ['string', 'longtext', 'email', 'url', 'phone', 'image'];
 
 export interface Relationship {
     targetEntity: string;
     type: 'one-to-one' | 'one-to-many' | 'many-to-many';
+    onDelete?: 'cascade' | 'restrict'; // What deleting a referenced item does (default: restrict)
 }
 
 export interface View {
@@ -74,6 +169,10 @@ export interface View {
     name: string;
     type: 'list' | 'form' | 'detail' | 'dashboard';
     entity: string; // Entity ID
+    // List views
+    columns?: string[]; // Properties and reference fields shown, in order (default: all)
+    layout?: 'table' | 'cards'; // Default: table
+    pageSize?: number; // Items per page (default: 20)
 }
 
 export interface Action {
@@ -81,8 +180,40 @@ export interface Action {
     name: string;
     trigger: 'button' | 'form_submit' | 'auto';
     logic: string; // Description of what happens
+    entity?: string; // Entity the steps operate on
+    steps?: ActionStep[]; // Executable form of `logic`
 }
 
+/**
+ * One step of the action DSL. Item steps (set, toggle, increment,
+ * duplicate) apply to the clicked/saved item, or to every item of the
+ * action's entity when there is none. The value "$today" sets today's date.
+ */
+export type ActionStep =
+    | { op: 'set'; property: string; value: ActionValue }
+    | { op: 'toggle'; property: string }
+    | { op: 'increment'; property: string; by?: number }
+    | { op: 'duplicate' }
+    | { op: 'set_all'; property: string; value: ActionValue }
+    | { op: 'navigate'; view: string };
+
+export type ActionValue = string | number | boolean;
+
+// ------------------------------------------------------------
+// Spec History
+// ------------------------------------------------------------
+
+export interface SpecVersion {
+    id: string;
+    spec: Specification;
+    createdAt: string;
+    source: 'chat' | 'manual' | 'restore' | 'import';
+    messageId?: string; // User message that caused a 'chat' change
+    restoredFrom?: string; // Version id a 'restore' came from
+}
+
+export type SpecVersionOrigin = Pick<SpecVersion, 'source' | 'messageId' | 'restoredFrom'>;
+
 // ------------------------------------------------------------
 // Mini-Arnold Interfaces
 // ------------------------------------------------------------
@@ -90,16 +221,38 @@ export interface Action {
 export interface ArnoldInput {
     message: string;
     conversationHistory: Message[];
+    conversationSummary?: string; // Stands in for older messages left out of the history
     currentSpec: Specification | null;
     provider: Provider;
     model: string;
+    onPartial?: (partial: ArnoldPartialOutput) => void; // Enables streaming
+    projectId?: string; // Queue key: one LLM call at a time per project
+    signal?: AbortSignal; // Cancels the LLM call
 }
 
 export interface ArnoldOutput {
     type: 'question' | 'spec_update' | 'spec_complete';
     question?: string;
-    spec?: Specification;
+    spec?: Specification; // A new spec, when there was none yet
+    patch?: SpecPatchOperation[]; // Changes to the current spec; applied by Nedry
     confidence: number; // 0-1
+    usage?: LLMResponse['usage']; // Tokens reported for the LLM call
+}
+
+/**
+ * A JSON-Patch-style change to a spec. Array items in `path` can be named
+ * by id, property name or relationship target; see engine/nedry/patch.ts.
+ */
+export interface SpecPatchOperation {
+    op: 'add' | 'replace' | 'remove';
+    path: string; // e.g. "/entities/task/properties/-"
+    value?: unknown;
+}
+
+export interface ArnoldPartialOutput {
+    type?: ArnoldOutput['type'];
+    question?: string;
+    spec?: Specification;
 }
 
 // ------------------------------------------------------------
@@ -110,12 +263,16 @@ export interface NedryInput {
     type: 'user_message' | 'spec_update' | 'build_request' | 'error';
     payload: unknown;
     currentState: AppState;
+    onPartial?: (partial: ArnoldPartialOutput) => void; // Streamed Arnold progress
+    projectId?: string;
+    signal?: AbortSignal; // Stop button
 }
 
 export interface NedryOutput {
     action: NedryAction;
     stateUpdate: Partial<AppState>;
     errors?: AppError[];
+    usage?: MessageUsage; // Tokens spent on this input, if it called an LLM
 }
 
 export type NedryAction =
@@ -168,6 +325,21 @@ export interface PatternReference {
     config: Record<string, unknown>;
 }
 
+/**
+ * A foreign-key field derived from a relationship.
+ * `entityId` stores the field; its value is one id (or an array of ids
+ * when `multiple`) of `targetEntity` items.
+ */
+export interface ReferenceField {
+    entityId: string;
+    entityName: string;
+    field: string; // e.g. "projectId", "tagIds"
+    targetEntity: string;
+    targetName: string;
+    multiple: boolean;
+    onDelete: 'cascade' | 'restrict';
+}
+
 export interface DeltaRequirement {
     id: string;
     description: string;
@@ -180,11 +352,22 @@ export interface BuildConfig {
     minify: boolean;
 }
 
+export type BuildTarget = 'html' | 'react-ts';
+
+/**
+ * A file of a multi-file build target.
+ */
+export interface GeneratedFile {
+    path: string;
+    content: string;
+}
+
 export interface RaptorOutput {
     success: boolean;
     html: string;
     css: string;
     javascript: string;
+    markup?: string; // Assembled body markup, before the app shell
     manifest: BuildManifest;
     errors?: BuildError[];
 }
@@ -235,10 +418,11 @@ export interface AppState {
     // Conversation state
     messages: Message[];
     conversationPhase: 'gathering' | 'refining' | 'complete';
+    conversationSummary: ConversationSummary | null;
 
     // Specification state
     currentSpec: Specification | null;
-    specHistory: Specification[];
+    specHistory: SpecVersion[];
     specValidation: ValidationResult | null;
 
     // Build state
@@ -268,6 +452,9 @@ export interface BuildResult {
     html: string;
     css: string;
     javascript: string;
+    markup?: string; // Body markup for multi-file export
+    spec?: Specification; // The spec this was built from; the current one may have changed since
+    manifest?: BuildManifest;
     combinedOutput?: string;
     errors?: string[];
     warnings?: string[];
@@ -275,10 +462,12 @@ export interface BuildResult {
 
 export interface AppError {
     id: string;
-    code: string;
+    code: string; // An LLMErrorCode for provider failures
     message: string;
     timestamp: string;
     recoverable: boolean;
+    retryable?: boolean; // Sending the same message again may succeed
+    provider?: Provider; // The LLM provider that failed
 }
 
 // ------------------------------------------------------------
@@ -2,10 +2,12 @@
 // LLM Provider Types - Unified types for multi-provider support
 // ============================================================
 
+import type { LLMError, LLMErrorCode } from '../api/providers/errors';
+
 /**
- * Supported LLM providers
+ * Id of a provider registered in src/api/providers/registry.ts
  */
-export type Provider = 'openai' | 'anthropic';
+export type Provider = string;
 
 /**
  * Unified message format for all providers
@@ -24,14 +26,38 @@ export interface LLMRequest {
     messages: LLMMessage[];
     maxTokens?: number;
     temperature?: number;
-    responseFormat?: { type: 'json_object' } | { type: 'text' };
+    responseFormat?: { type: 'json_object' } | { type: 'text' } | JsonSchemaFormat;
+    stream?: boolean;
+    onDelta?: LLMDeltaHandler;
+    signal?: AbortSignal; // Cancels the call
+    timeoutMs?: number; // Defaults to DEFAULT_TIMEOUT_MS in the request queue
+    queueKey?: string; // Calls with the same key run one at a time (the project id)
+}
+
+/**
+ * Ask for output matching a JSON Schema: OpenAI structured output or an
+ * Anthropic tool call. Sent as `json_object` to models without support.
+ */
+export interface JsonSchemaFormat {
+    type: 'json_schema';
+    name: string;
+    description?: string;
+    schema: Record<string, unknown>; // In the strict subset; see toStructuredOutputSchema
 }
 
+/**
+ * Callback invoked with each text delta of a streamed response. `attempt`
+ * goes up when a failed call is retried; the text streamed before it was
+ * discarded and the response starts over.
+ */
+export type LLMDeltaHandler = (delta: string, attempt?: number) => void;
+
 /**
  * Unified response format from LLM calls
  */
 export interface LLMResponse {
     text: string;
+    structured?: boolean; // Produced under a json_schema response format
     usage?: {
         inputTokens: number;
         outputTokens: number;
@@ -45,28 +71,61 @@ export interface ModelInfo {
     id: string;
     name: string;
     provider: Provider;
+    pricing?: ModelPricing;
+    structuredOutput?: boolean; // Overrides the provider's structuredOutput
+    contextWindow?: number; // Input tokens the model accepts
 }
 
 /**
- * Default models per provider
+ * Price in USD per million tokens
  */
-export const DEFAULT_MODELS: Record<Provider, ModelInfo[]> = {
-    openai: [
-        { id: 'gpt-4o', name: 'GPT-4o (Recommended)', provider: 'openai' },
-        { id: 'gpt-4-turbo', name: 'GPT-4 Turbo', provider: 'openai' },
-        { id: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo', provider: 'openai' },
-    ],
-    anthropic: [
-        { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4 (Recommended)', provider: 'anthropic' },
-        { id: 'claude-3-5-sonnet-20241022', name: 'Claude 3.5 Sonnet', provider: 'anthropic' },
-        { id: 'claude-3-opus-20240229', name: 'Claude 3 Opus', provider: 'anthropic' },
-    ],
-};
+export interface ModelPricing {
+    input: number;
+    output: number;
+}
 
 /**
- * Default model per provider
+ * API key handling for a provider, and the setup copy shown for it
  */
-export const DEFAULT_MODEL: Record<Provider, string> = {
-    openai: 'gpt-4o',
-    anthropic: 'claude-sonnet-4-20250514',
-};
+export interface ProviderKeyConfig {
+    storageKey: string; // localStorage key
+    envKey?: string; // Key from the Vite env (dev mode)
+    required: boolean;
+    placeholder: string;
+    maskPrefix: string; // Shown before the last 4 characters of a saved key
+    consoleUrl?: string; // Where to create a key
+    steps?: string[]; // Onboarding steps after visiting consoleUrl
+    note?: string;
+}
+
+/**
+ * Everything the client needs to offer and call a provider. Each adapter
+ * module exports one; see src/api/providers/registry.ts.
+ */
+export interface ProviderDefinition {
+    id: Provider;
+    name: string; // Display name, e.g. "Anthropic"
+    family: string; // Model family named in onboarding copy, e.g. "Claude"
+    models: ModelInfo[];
+    defaultModel: string;
+    // Price for models not in `models` (e.g. free local models)
+    defaultPricing?: ModelPricing;
+    // Context window for models not in `models`
+    defaultContextWindow?: number;
+    key: ProviderKeyConfig;
+    // Called from the browser instead of through the hosted proxy
+    direct?: boolean;
+    // Models accept json_schema response formats unless they say otherwise
+    structuredOutput?: boolean;
+    // Ready to use; defaults to "has an API key"
+    isConfigured?: () => boolean;
+    // Called when the provider is chosen during onboarding
+    activate?: () => void;
+    // Format check; returns an error message or null
+    validateKey: (key: string) => string | null;
+    // Optional online check of a key
+    verifyKey?: (key: string) => Promise<boolean>;
+    call: (request: LLMRequest, apiKey: string | null) => Promise<LLMResponse>;
+    // Wording for error codes where the generic message doesn't fit
+    errorMessages?: Partial<Record<LLMErrorCode, string | ((error: LLMError) => string)>>;
+}
@@ -0,0 +1,190 @@
+import { Project, createId } from '../types';
+import { validateSpecShape } from '../engine/nedry/validator';
+
+// ============================================================
+// Project Backup - Export/import of every project in one file
+// ============================================================
+
+export const BACKUP_FORMAT = 'mini-artifact-backup';
+export const BACKUP_VERSION = 1;
+
+export interface ProjectBackup {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    exportedAt: string;
+    projects: Project[];
+}
+
+/**
+ * How an imported project with an id that already exists is handled:
+ * - newest: keep whichever copy has the later `updatedAt`
+ * - overwrite: always take the imported copy
+ * - keep-both: add the imported copy under a new id
+ */
+export type ConflictStrategy = 'newest' | 'overwrite' | 'keep-both';
+
+export interface BackupImportSummary {
+    added: string[]; // Project names
+    replaced: string[];
+    copied: string[];
+    skipped: string[];
+}
+
+/**
+ * Bundle projects (messages, spec history and builds) into a backup.
+ */
+export function createBackup(projects: Project[], exportedAt = new Date().toISOString()): ProjectBackup {
+    return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt, projects };
+}
+
+export function getBackupFileName(date = new Date()): string {
+    return `mini-artifact-backup-${date.toISOString().slice(0, 10)}.json`;
+}
+
+/**
+ * Read a backup file. Returns an error message instead of throwing so the
+ * UI can show why a file was rejected.
+ */
+export function parseBackup(text: string): { backup: ProjectBackup | null; error: string | null } {
+    let raw: Record<string, unknown>;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        return { backup: null, error: 'File is not valid JSON' };
+    }
+
+    if (!raw || raw.format !== BACKUP_FORMAT) {
+        return { backup: null, error: 'File is not a Mini Artifact backup' };
+    }
+    if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+        return { backup: null, error: `Backup version ${raw.version} is newer than this app supports` };
+    }
+    if (!Array.isArray(raw.projects)) {
+        return { backup: null, error: 'Backup contains no projects' };
+    }
+
+    const invalid = raw.projects.findIndex((project) => !isProject(project));
+    if (invalid >= 0) {
+        return { backup: null, error: `Project ${invalid + 1} in the backup is incomplete` };
+    }
+
+    return {
+        backup: {
+            format: BACKUP_FORMAT,
+            version: raw.version,
+            exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+            projects: raw.projects as Project[],
+        },
+        error: null,
+    };
+}
+
+/**
+ * Merge imported projects into the existing list.
+ *
+ * Duplicate ids inside the backup collapse to their newest copy before
+ * the strategy is applied against existing projects.
+ */
+export function mergeProjects(
+    existing: Project[],
+    incoming: Project[],
+    strategy: ConflictStrategy
+): { projects: Project[]; summary: BackupImportSummary } {
+    const summary: BackupImportSummary = { added: [], replaced: [], copied: [], skipped: [] };
+    const projects = [...existing];
+
+    const newestIncoming = new Map<string, Project>();
+    incoming.forEach((project) => {
+        const seen = newestIncoming.get(project.id);
+        if (!seen || isNewer(project, seen)) newestIncoming.set(project.id, project);
+    });
+
+    newestIncoming.forEach((project) => {
+        const index = projects.findIndex((p) => p.id === project.id);
+
+        if (index < 0) {
+            projects.push(project);
+            summary.added.push(project.name);
+        } else if (strategy === 'keep-both') {
+            projects.push({ ...project, id: createId(), name: `${project.name} (imported)` });
+            summary.copied.push(project.name);
+        } else if (strategy === 'overwrite' || isNewer(project, projects[index])) {
+            projects[index] = project;
+            summary.replaced.push(project.name);
+        } else {
+            summary.skipped.push(project.name);
+        }
+    });
+
+    return { projects, summary };
+}
+
+// ------------------------------------------------------------
+// Storage Quota
+// ------------------------------------------------------------
+
+// Browsers allow roughly 5 MB (counted in UTF-16 code units) per origin
+export const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
+export const STORAGE_WARNING_RATIO = 0.8;
+
+export interface StorageUsage {
+    used: number;
+    quota: number;
+    ratio: number;
+}
+
+/**
+ * Approximate localStorage usage for this origin, as a share of the quota.
+ */
+export function getStorageUsage(storage: Storage = localStorage): StorageUsage {
+    let used = 0;
+    for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i) || '';
+        used += key.length + (storage.getItem(key) || '').length;
+    }
+    return { used, quota: LOCAL_STORAGE_QUOTA, ratio: used / LOCAL_STORAGE_QUOTA };
+}
+
+/**
+ * Usage of the origin's storage (IndexedDB included) as reported by the
+ * browser, falling back to the localStorage estimate where unsupported.
+ */
+export async function estimateStorageUsage(): Promise<StorageUsage> {
+    try {
+        const estimate = await navigator.storage?.estimate?.();
+        if (estimate?.quota) {
+            const used = estimate.usage || 0;
+            return { used, quota: estimate.quota, ratio: used / estimate.quota };
+        }
+    } catch {
+        // Fall through to the localStorage estimate
+    }
+    return getStorageUsage();
+}
+
+// ------------------------------------------------------------
+// Helpers
+// ------------------------------------------------------------
+
+function isNewer(a: Project, b: Project): boolean {
+    return Date.parse(a.updatedAt) > Date.parse(b.updatedAt);
+}
+
+const CONVERSATION_PHASES: Project['conversationPhase'][] = ['gathering', 'refining', 'complete'];
+
+// Everything the project list and an opened project rely on
+function isProject(value: unknown): value is Project {
+    const project = value as Project;
+    return (
+        !!project &&
+        typeof project.id === 'string' &&
+        typeof project.name === 'string' &&
+        typeof project.createdAt === 'string' &&
+        typeof project.updatedAt === 'string' &&
+        Array.isArray(project.messages) &&
+        CONVERSATION_PHASES.includes(project.conversationPhase) &&
+        (project.spec === null || validateSpecShape(project.spec).length === 0) &&
+        (project.buildResult === null || typeof project.buildResult === 'object') &&
+        (project.specHistory === undefined || Array.isArray(project.specHistory))
+    );
+}
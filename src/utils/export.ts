@@ -0,0 +1,139 @@
+import { Specification, BuildResult, BuildManifest } from '../types';
+import { renderDocument, buildReactProject } from '../engine/raptor';
+import { ZipEntry } from './zip';
+
+// ============================================================
+// Project Export - Multi-file bundle of a generated app
+// ============================================================
+
+/**
+ * Slug used for the zip name and its top-level folder.
+ */
+export function getExportSlug(spec: Specification | null): string {
+    const slug = (spec?.meta.name || 'app')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+    return slug || 'app';
+}
+
+/**
+ * Files for the exported app: index.html linking styles.css and app.js,
+ * the spec, the build manifest and a README.
+ */
+export function createExportFiles(spec: Specification, buildResult: BuildResult): ZipEntry[] {
+    const folder = getExportSlug(spec);
+
+    // Builds saved before markup was recorded fall back to the inlined page
+    const linkedHtml = buildResult.markup !== undefined
+        ? renderDocument(spec, buildResult.markup, 'linked')
+        : null;
+
+    const files: ZipEntry[] = [
+        { path: 'index.html', content: linkedHtml ?? buildResult.html },
+        { path: 'styles.css', content: buildResult.css },
+        { path: 'app.js', content: buildResult.javascript },
+        { path: 'spec.json', content: JSON.stringify(spec, null, 2) },
+    ];
+
+    if (buildResult.manifest) {
+        files.push({ path: 'manifest.json', content: JSON.stringify(buildResult.manifest, null, 2) });
+    }
+
+    files.push({ path: 'README.md', content: buildReadme(spec, buildResult.manifest) });
+
+    return files.map((file) => ({ ...file, path: `${folder}/${file.path}` }));
+}
+
+/**
+ * Files for the React + TypeScript target, inside the project folder.
+ */
+export function createReactExportFiles(spec: Specification): ZipEntry[] {
+    const folder = getExportSlug(spec);
+    return buildReactProject(spec).map((file) => ({ ...file, path: `${folder}/${file.path}` }));
+}
+
+/**
+ * Save in-memory content as a file through a temporary link.
+ */
+export function downloadFile(fileName: string, content: BlobPart, type: string): void {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Markdown README describing how to run the app and what it contains.
+ */
+export function buildReadme(spec: Specification, manifest?: BuildManifest): string {
+    const lines: string[] = [`# ${spec.meta.name || 'Untitled App'}`, ''];
+
+    if (spec.meta.description) {
+        lines.push(spec.meta.description, '');
+    }
+
+    lines.push(
+        '## Running',
+        '',
+        'Open `index.html` in a browser. No build step or server is needed;',
+        'data is saved in the browser\'s localStorage.',
+        '',
+        '## Files',
+        '',
+        '- `index.html` - page markup',
+        '- `styles.css` - styles',
+        '- `app.js` - application logic',
+        '- `spec.json` - the specification the app was generated from',
+    );
+    if (manifest) lines.push('- `manifest.json` - build details');
+    lines.push('');
+
+    if (spec.entities.length > 0) {
+        lines.push('## Entities', '');
+        spec.entities.forEach((entity) => {
+            lines.push(`### ${entity.name}`, '', '| Property | Type | Required |', '| --- | --- | --- |');
+            entity.properties.forEach((prop) => {
+                const type = prop.type === 'enum' && prop.options?.length
+                    ? `enum (${prop.options.join(', ')})`
+                    : prop.type === 'currency'
+                        ? `currency (${prop.currency || 'USD'})`
+                        : prop.type;
+                lines.push(`| ${prop.name} | ${type} | ${prop.required ? 'yes' : 'no'} |`);
+            });
+            entity.relationships.forEach((rel) => {
+                const target = spec.entities.find((e) => e.id === rel.targetEntity)?.name || rel.targetEntity;
+                lines.push('', `- ${rel.type} → ${target}`);
+            });
+            lines.push('');
+        });
+    }
+
+    if (spec.views.length > 0) {
+        lines.push('## Views', '');
+        spec.views.forEach((view) => {
+            const entity = spec.entities.find((e) => e.id === view.entity)?.name;
+            lines.push(`- **${view.name}** (${view.type}${entity ? ` of ${entity}` : ''})`);
+        });
+        lines.push('');
+    }
+
+    if (spec.actions.length > 0) {
+        lines.push('## Actions', '');
+        spec.actions.forEach((action) => {
+            lines.push(`- **${action.name}** (${action.trigger})${action.logic ? ` - ${action.logic}` : ''}`);
+        });
+        lines.push('');
+    }
+
+    if (manifest) {
+        lines.push('---', '', `Built ${manifest.builtAt} from spec ${manifest.specId}.`, '');
+    }
+
+    return lines.join('\n');
+}
@@ -0,0 +1,228 @@
+import { Specification, Entity, Property, Relationship } from '../types';
+
+// ============================================================
+// Spec Diff - Semantic comparison of two specifications
+// ============================================================
+
+export type SpecChangeKind = 'added' | 'removed' | 'changed';
+
+export type SpecChangeSection = 'meta' | 'entity' | 'property' | 'relationship' | 'view' | 'action';
+
+export interface SpecChange {
+    kind: SpecChangeKind;
+    section: SpecChangeSection;
+    path: string; // e.g. "task.title" or "views.task-list"
+    label: string; // Human-readable summary
+    details?: string[]; // Field-level changes for 'changed'
+}
+
+/**
+ * Compare two specifications element by element.
+ *
+ * Entities, views and actions are matched by id, properties by name within
+ * their entity, and relationships by target entity (in order when several
+ * point at the same target). Pass `null` as `before`
+ * to describe a first version (everything reads as added).
+ */
+export function diffSpecs(before: Specification | null, after: Specification): SpecChange[] {
+    const changes: SpecChange[] = [];
+    const base: Specification = before || {
+        version: after.version,
+        meta: { name: '', description: '', createdAt: after.meta.createdAt },
+        entities: [],
+        views: [],
+        actions: [],
+        patterns: [],
+    };
+
+    // Meta
+    (['name', 'description'] as const).forEach((field) => {
+        if (base.meta[field] !== after.meta[field]) {
+            changes.push({
+                kind: 'changed',
+                section: 'meta',
+                path: `meta.${field}`,
+                label: `App ${field}`,
+                details: [`"${base.meta[field]}" → "${after.meta[field]}"`],
+            });
+        }
+    });
+
+    // Entities (and their properties / relationships)
+    diffById(base.entities, after.entities, (id, prev, next) => {
+        const name = (next || prev)!.name;
+
+        if (!prev) {
+            changes.push({ kind: 'added', section: 'entity', path: id, label: `Entity "${name}"` });
+            return;
+        }
+        if (!next) {
+            changes.push({ kind: 'removed', section: 'entity', path: id, label: `Entity "${name}"` });
+            return;
+        }
+
+        if (prev.name !== next.name) {
+            changes.push({
+                kind: 'changed',
+                section: 'entity',
+                path: id,
+                label: `Entity "${next.name}"`,
+                details: [`name: "${prev.name}" → "${next.name}"`],
+            });
+        }
+
+        diffProperties(prev, next, changes);
+        diffRelationships(prev, next, changes);
+    });
+
+    // Views
+    diffById(base.views, after.views, (id, prev, next) => {
+        pushRecordChange(changes, 'view', `views.${id}`, `View "${(next || prev)!.name}"`, prev, next);
+    });
+
+    // Actions
+    diffById(base.actions, after.actions, (id, prev, next) => {
+        pushRecordChange(changes, 'action', `actions.${id}`, `Action "${(next || prev)!.name}"`, prev, next);
+    });
+
+    return changes;
+}
+
+/**
+ * One-line summary such as "+2 added, ~1 changed".
+ */
+export function summarizeChanges(changes: SpecChange[]): string {
+    if (changes.length === 0) return 'No changes';
+
+    const counts = { added: 0, removed: 0, changed: 0 };
+    changes.forEach((c) => counts[c.kind]++);
+
+    const parts: string[] = [];
+    if (counts.added) parts.push(`+${counts.added} added`);
+    if (counts.removed) parts.push(`−${counts.removed} removed`);
+    if (counts.changed) parts.push(`~${counts.changed} changed`);
+    return parts.join(', ');
+}
+
+// ------------------------------------------------------------
+// Helpers
+// ------------------------------------------------------------
+
+function diffById<T extends { id: string }>(
+    before: T[],
+    after: T[],
+    visit: (id: string, prev: T | undefined, next: T | undefined) => void
+): void {
+    const ids = [...new Set([...before.map((i) => i.id), ...after.map((i) => i.id)])];
+    ids.forEach((id) => {
+        visit(id, before.find((i) => i.id === id), after.find((i) => i.id === id));
+    });
+}
+
+function diffProperties(prev: Entity, next: Entity, changes: SpecChange[]): void {
+    const names = [...new Set([...prev.properties.map((p) => p.name), ...next.properties.map((p) => p.name)])];
+
+    names.forEach((name) => {
+        const before = prev.properties.find((p) => p.name === name);
+        const after = next.properties.find((p) => p.name === name);
+        const path = `${next.id}.${name}`;
+        const label = `Property "${next.name}.${name}"`;
+
+        if (!before) {
+            changes.push({ kind: 'added', section: 'property', path, label, details: [describeProperty(after!)] });
+        } else if (!after) {
+            changes.push({ kind: 'removed', section: 'property', path, label });
+        } else {
+            const details = fieldDifferences(before, after);
+            if (details.length > 0) {
+                changes.push({ kind: 'changed', section: 'property', path, label, details });
+            }
+        }
+    });
+}
+
+function diffRelationships(prev: Entity, next: Entity, changes: SpecChange[]): void {
+    const before = keyRelationships(prev.relationships);
+    const after = keyRelationships(next.relationships);
+    const keys = [...new Set([...before.keys(), ...after.keys()])];
+
+    keys.forEach((key) => {
+        const was = before.get(key);
+        const is = after.get(key);
+        const path = `${next.id}→${key}`;
+        const label = `Relationship ${next.name} → ${key}`;
+
+        if (!was) {
+            changes.push({ kind: 'added', section: 'relationship', path, label, details: [describeRelationship(is!)] });
+        } else if (!is) {
+            changes.push({ kind: 'removed', section: 'relationship', path, label });
+        } else {
+            const details = fieldDifferences(was, is);
+            if (details.length > 0) {
+                changes.push({ kind: 'changed', section: 'relationship', path, label, details });
+            }
+        }
+    });
+}
+
+/**
+ * Relationships have no id; key them by target, numbering repeats of the
+ * same target ("user", "user#2") so none of them are lost.
+ */
+function keyRelationships(relationships: Relationship[]): Map<string, Relationship> {
+    const keyed = new Map<string, Relationship>();
+    const seen = new Map<string, number>();
+
+    relationships.forEach((relationship) => {
+        const count = (seen.get(relationship.targetEntity) || 0) + 1;
+        seen.set(relationship.targetEntity, count);
+        keyed.set(count > 1 ? `${relationship.targetEntity}#${count}` : relationship.targetEntity, relationship);
+    });
+    return keyed;
+}
+
+function pushRecordChange<T extends object>(
+    changes: SpecChange[],
+    section: SpecChangeSection,
+    path: string,
+    label: string,
+    prev: T | undefined,
+    next: T | undefined
+): void {
+    if (!prev) {
+        changes.push({ kind: 'added', section, path, label });
+    } else if (!next) {
+        changes.push({ kind: 'removed', section, path, label });
+    } else {
+        const details = fieldDifferences(prev, next);
+        if (details.length > 0) {
+            changes.push({ kind: 'changed', section, path, label, details });
+        }
+    }
+}
+
+/**
+ * List top-level fields whose values differ, as "field: old → new".
+ */
+function fieldDifferences<T extends object>(before: T, after: T): string[] {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])] as Array<keyof T>;
+
+    return keys
+        .filter((k) => JSON.stringify(before[k]) !== JSON.stringify(after[k]))
+        .map((k) => `${String(k)}: ${formatValue(before[k])} → ${formatValue(after[k])}`);
+}
+
+function formatValue(value: unknown): string {
+    if (value === undefined) return '—';
+    if (Array.isArray(value)) return `[${value.join(', ')}]`;
+    if (typeof value === 'object' && value !== null) return JSON.stringify(value);
+    return String(value);
+}
+
+function describeProperty(property: Property): string {
+    return `${property.type}${property.required ? ', required' : ''}`;
+}
+
+function describeRelationship(relationship: Relationship): string {
+    return `${relationship.type}${relationship.onDelete ? `, on delete ${relationship.onDelete}` : ''}`;
+}
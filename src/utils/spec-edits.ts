@@ -0,0 +1,205 @@
+import { Specification, Entity, Property, Relationship, View, Action, NUMERIC_PROPERTY_TYPES, TEXT_PROPERTY_TYPES } from '../types';
+
+// ============================================================
+// Spec Edits - Immutable helpers for manual spec editing
+// ============================================================
+
+// ------------------------------------------------------------
+// Generic List Helpers
+// ------------------------------------------------------------
+
+export function replaceAt<T>(list: T[], index: number, item: T): T[] {
+    return list.map((existing, i) => (i === index ? item : existing));
+}
+
+export function removeAt<T>(list: T[], index: number): T[] {
+    return list.filter((_, i) => i !== index);
+}
+
+/**
+ * Move an item from one index to another. Out-of-range moves are no-ops.
+ */
+export function moveItem<T>(list: T[], from: number, to: number): T[] {
+    if (from === to || from < 0 || to < 0 || from >= list.length || to >= list.length) {
+        return list;
+    }
+    const next = [...list];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    return next;
+}
+
+/**
+ * Create an id that does not collide with any existing id.
+ */
+export function uniqueId(base: string, existing: string[]): string {
+    const slug = base
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '') || 'item';
+
+    let candidate = slug;
+    let counter = 2;
+    while (existing.includes(candidate)) {
+        candidate = `${slug}_${counter++}`;
+    }
+    return candidate;
+}
+
+// ------------------------------------------------------------
+// Entities
+// ------------------------------------------------------------
+
+export function addEntity(spec: Specification, name = 'New Entity'): Specification {
+    const entity: Entity = {
+        id: uniqueId(name, spec.entities.map((e) => e.id)),
+        name,
+        properties: [{ name: 'name', type: 'string', required: true }],
+        relationships: [],
+    };
+    return { ...spec, entities: [...spec.entities, entity] };
+}
+
+export function updateEntity(spec: Specification, index: number, entity: Entity): Specification {
+    return { ...spec, entities: replaceAt(spec.entities, index, entity) };
+}
+
+/**
+ * Remove an entity along with the views and relationships that point at it.
+ */
+export function removeEntity(spec: Specification, index: number): Specification {
+    const removed = spec.entities[index];
+    if (!removed) return spec;
+
+    return {
+        ...spec,
+        entities: removeAt(spec.entities, index).map((entity) => ({
+            ...entity,
+            relationships: entity.relationships.filter((r) => r.targetEntity !== removed.id),
+        })),
+        views: spec.views.filter((v) => v.entity !== removed.id),
+    };
+}
+
+export function moveEntity(spec: Specification, from: number, to: number): Specification {
+    return { ...spec, entities: moveItem(spec.entities, from, to) };
+}
+
+// ------------------------------------------------------------
+// Properties & Relationships (within an entity)
+// ------------------------------------------------------------
+
+export function createProperty(existing: Property[]): Property {
+    const name = uniqueId('field', existing.map((p) => p.name));
+    return { name, type: 'string', required: false };
+}
+
+/**
+ * Change a property's type, adding or dropping enum options, the currency
+ * code and constraints as needed. The default is dropped, as it was a
+ * value of the old type.
+ */
+export function setPropertyType(property: Property, type: Property['type']): Property {
+    const next: Property = { ...property, type };
+    if (type !== 'currency') delete next.currency;
+    if (!NUMERIC_PROPERTY_TYPES.includes(type)) {
+        delete next.min;
+        delete next.max;
+    }
+    if (!TEXT_PROPERTY_TYPES.includes(type)) {
+        delete next.minLength;
+        delete next.maxLength;
+        delete next.pattern;
+    }
+    if (type !== property.type) delete next.default;
+    if (type === 'enum') {
+        return { ...next, options: property.options?.length ? property.options : ['Option 1'] };
+    }
+    delete next.options;
+    return next;
+}
+
+/**
+ * Parse a comma-separated option list, dropping blanks and duplicates.
+ */
+export function parseOptions(text: string): string[] {
+    const options = text.split(',').map((o) => o.trim()).filter(Boolean);
+    return [...new Set(options)];
+}
+
+export function createRelationship(spec: Specification, entity: Entity): Relationship {
+    const target = spec.entities.find((e) => e.id !== entity.id) || entity;
+    return { targetEntity: target.id, type: 'one-to-many' };
+}
+
+// ------------------------------------------------------------
+// Views
+// ------------------------------------------------------------
+
+export function addView(spec: Specification): Specification {
+    const entity = spec.entities[0];
+    const name = entity ? `${entity.name} List` : 'New View';
+    const view: View = {
+        id: uniqueId(name, spec.views.map((v) => v.id)),
+        name,
+        type: 'list',
+        entity: entity?.id || '',
+    };
+    return { ...spec, views: [...spec.views, view] };
+}
+
+export function updateView(spec: Specification, index: number, view: View): Specification {
+    return { ...spec, views: replaceAt(spec.views, index, view) };
+}
+
+export function removeView(spec: Specification, index: number): Specification {
+    return { ...spec, views: removeAt(spec.views, index) };
+}
+
+export function moveView(spec: Specification, from: number, to: number): Specification {
+    return { ...spec, views: moveItem(spec.views, from, to) };
+}
+
+/**
+ * Show or hide a list view column. `fields` are all the columns the
+ * entity offers, in order; a view showing all of them stores no list.
+ * The last visible column cannot be hidden.
+ */
+export function setViewColumn(view: View, fields: string[], name: string, visible: boolean): View {
+    const current = view.columns?.length ? view.columns : fields;
+    const columns = visible
+        ? fields.filter((f) => f === name || current.includes(f))
+        : current.filter((f) => f !== name);
+    if (columns.length === 0) return view;
+    const next: View = { ...view, columns };
+    if (columns.length === fields.length && columns.every((c, i) => c === fields[i])) delete next.columns;
+    return next;
+}
+
+// ------------------------------------------------------------
+// Actions
+// ------------------------------------------------------------
+
+export function addAction(spec: Specification): Specification {
+    const name = 'New Action';
+    const action: Action = {
+        id: uniqueId(name, spec.actions.map((a) => a.id)),
+        name,
+        trigger: 'button',
+        logic: '',
+    };
+    return { ...spec, actions: [...spec.actions, action] };
+}
+
+export function updateAction(spec: Specification, index: number, action: Action): Specification {
+    return { ...spec, actions: replaceAt(spec.actions, index, action) };
+}
+
+export function removeAction(spec: Specification, index: number): Specification {
+    return { ...spec, actions: removeAt(spec.actions, index) };
+}
+
+export function moveAction(spec: Specification, from: number, to: number): Specification {
+    return { ...spec, actions: moveItem(spec.actions, from, to) };
+}
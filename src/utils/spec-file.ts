@@ -0,0 +1,111 @@
+import yaml from 'js-yaml';
+import { Specification, ValidationResult } from '../types';
+import { validateSpec, validateSpecShape } from '../engine/nedry/validator';
+import { migrateSpec } from '../engine/nedry/migrations';
+import { SPEC_JSON_SCHEMA, SPEC_SCHEMA_ID } from '../engine/nedry/schema';
+import { getExportSlug } from './export';
+
+// ============================================================
+// Spec Files - JSON/YAML import and export of specifications
+// ============================================================
+
+export type SpecFileFormat = 'json' | 'yaml';
+
+export interface SpecImportResult {
+    spec: Specification | null; // Null when the file cannot be accepted
+    validation: ValidationResult;
+    migratedFrom: string | null;
+}
+
+/**
+ * Serialize a spec for download. The `$schema` key points editors and
+ * other tools at the published JSON Schema.
+ */
+export function serializeSpec(spec: Specification, format: SpecFileFormat): string {
+    const document = { $schema: SPEC_SCHEMA_ID, ...spec };
+    return format === 'yaml'
+        ? yaml.dump(document, { noRefs: true, lineWidth: 100 })
+        : JSON.stringify(document, null, 2);
+}
+
+/**
+ * The JSON Schema for specification files, formatted for download.
+ */
+export function serializeSpecSchema(): string {
+    return JSON.stringify(SPEC_JSON_SCHEMA, null, 2);
+}
+
+export function getSpecFileName(spec: Specification, format: SpecFileFormat): string {
+    return `${getExportSlug(spec)}.spec.${format}`;
+}
+
+/**
+ * Parse an imported spec file.
+ *
+ * The text is read as JSON or YAML (by extension, else by content),
+ * migrated from older versions, checked against the schema and then run
+ * through validateSpec. The spec is only returned when there are no errors.
+ */
+export function parseSpecFile(text: string, fileName = ''): SpecImportResult {
+    let raw: unknown;
+    try {
+        // JSON types only: unquoted dates must stay strings, not become Date objects
+        raw = detectFormat(text, fileName) === 'yaml'
+            ? yaml.load(text, { schema: yaml.JSON_SCHEMA })
+            : JSON.parse(text);
+    } catch (e) {
+        return rejected('PARSE_ERROR', `Could not read file: ${e instanceof Error ? e.message : String(e)}`);
+    }
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return rejected('PARSE_ERROR', 'File does not contain a specification object');
+    }
+
+    const data = { ...(raw as Record<string, unknown>) };
+    delete data.$schema;
+
+    const migration = migrateSpec(data);
+    if (migration.error) {
+        return rejected('UNSUPPORTED_VERSION', migration.error, 'version');
+    }
+
+    const shapeErrors = validateSpecShape(migration.spec);
+    if (shapeErrors.length > 0) {
+        return {
+            spec: null,
+            validation: { valid: false, errors: shapeErrors, warnings: [], completeness: 0 },
+            migratedFrom: migration.migratedFrom,
+        };
+    }
+
+    const parsed = migration.spec as unknown as Specification;
+    const spec: Specification = {
+        ...parsed,
+        meta: {
+            name: parsed.meta.name,
+            description: parsed.meta.description ?? '',
+            createdAt: parsed.meta.createdAt ?? new Date().toISOString(),
+        },
+    };
+
+    const validation = validateSpec(spec);
+    return {
+        spec: validation.valid ? spec : null,
+        validation,
+        migratedFrom: migration.migratedFrom,
+    };
+}
+
+function detectFormat(text: string, fileName: string): SpecFileFormat {
+    if (/\.ya?ml$/i.test(fileName)) return 'yaml';
+    if (/\.json$/i.test(fileName)) return 'json';
+    return /^\s*[{[]/.test(text) ? 'json' : 'yaml';
+}
+
+function rejected(code: string, message: string, path?: string): SpecImportResult {
+    return {
+        spec: null,
+        validation: { valid: false, errors: [{ code, message, path }], warnings: [], completeness: 0 },
+        migratedFrom: null,
+    };
+}
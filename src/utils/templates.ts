@@ -13,6 +13,11 @@ Handlebars.registerHelper('json', function (context) {
     return JSON.stringify(context, null, 2);
 });
 
+// Compact JSON that is safe to inline inside a <script> block
+Handlebars.registerHelper('jsData', function (context) {
+    return JSON.stringify(context ?? null).replace(/</g, '\\u003c');
+});
+
 Handlebars.registerHelper('capitalize', function (str) {
     if (typeof str !== 'string') return '';
     return str.charAt(0).toUpperCase() + str.slice(1);
@@ -50,6 +55,8 @@ Handlebars.registerHelper('pluralize', function (str) {
 Handlebars.registerHelper('getInputType', function (type) {
     switch (type) {
         case 'number':
+        case 'currency':
+        case 'rating':
             return 'number';
         case 'date':
             return 'date';
@@ -57,11 +64,51 @@ Handlebars.registerHelper('getInputType', function (type) {
             return 'checkbox';
         case 'email':
             return 'email';
+        case 'url':
+        case 'image':
+            return 'url';
+        case 'phone':
+            return 'tel';
         default:
             return 'text';
     }
 });
 
+// Example value shown in an empty input
+Handlebars.registerHelper('getInputPlaceholder', function (type, name) {
+    switch (type) {
+        case 'email':
+            return 'name@example.com';
+        case 'url':
+            return 'https://example.com';
+        case 'image':
+            return 'https://example.com/picture.jpg';
+        case 'phone':
+            return '+1 555 123 4567';
+        case 'currency':
+            return '0.00';
+        default:
+            return typeof name === 'string' ? `Enter ${name}` : '';
+    }
+});
+
+// Input attributes for a property's bounds, e.g. min="0" maxlength="80".
+// They are hints for the browser; generated forms check them on save.
+Handlebars.registerHelper('constraintAttrs', function (property) {
+    const attrs: Record<string, unknown> = {
+        min: property?.min,
+        max: property?.max,
+        minlength: property?.minLength,
+        maxlength: property?.maxLength,
+    };
+    return new Handlebars.SafeString(
+        Object.entries(attrs)
+            .filter(([, value]) => typeof value === 'number')
+            .map(([name, value]) => `${name}="${value}"`)
+            .join(' ')
+    );
+});
+
 // ------------------------------------------------------------
 // Template Rendering
 // ------------------------------------------------------------
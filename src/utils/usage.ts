@@ -0,0 +1,133 @@
+import { LLMResponse, MessageUsage, Provider, ProjectSummary, UsageTotals } from '../types';
+import { getModelPricing } from '../api/providers/registry';
+
+// ============================================================
+// Token Usage - Cost estimates, totals and the soft budget
+// ============================================================
+
+const BUDGET_STORAGE_KEY = 'mini-artifact-usage-budget';
+
+/**
+ * Estimated USD cost of a call, or null when the model has no known price.
+ */
+export function estimateCost(
+    provider: Provider,
+    model: string,
+    usage: { inputTokens: number; outputTokens: number }
+): number | null {
+    const pricing = getModelPricing(provider, model);
+    if (!pricing) return null;
+    return (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+}
+
+export function createMessageUsage(
+    provider: Provider,
+    model: string,
+    usage: NonNullable<LLMResponse['usage']>
+): MessageUsage {
+    return {
+        provider,
+        model,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        cost: estimateCost(provider, model, usage),
+    };
+}
+
+/**
+ * Add one call to a list of per-model totals.
+ */
+export function addUsage(totals: UsageTotals[] = [], usage: MessageUsage): UsageTotals[] {
+    const index = totals.findIndex((t) => t.provider === usage.provider && t.model === usage.model);
+    const current: UsageTotals = index >= 0
+        ? totals[index]
+        : { provider: usage.provider, model: usage.model, calls: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpricedCalls: 0 };
+
+    const next: UsageTotals = {
+        ...current,
+        calls: current.calls + 1,
+        inputTokens: current.inputTokens + usage.inputTokens,
+        outputTokens: current.outputTokens + usage.outputTokens,
+        cost: current.cost + (usage.cost ?? 0),
+        unpricedCalls: current.unpricedCalls + (usage.cost === null ? 1 : 0),
+    };
+
+    return index >= 0 ? totals.map((t, i) => (i === index ? next : t)) : [...totals, next];
+}
+
+/**
+ * Combine the per-model totals of several projects, most expensive first.
+ */
+export function mergeUsage(projects: Pick<ProjectSummary, 'usage'>[]): UsageTotals[] {
+    const merged = new Map<string, UsageTotals>();
+    projects.forEach((project) => {
+        (project.usage || []).forEach((entry) => {
+            const key = `${entry.provider}/${entry.model}`;
+            const seen = merged.get(key);
+            merged.set(key, seen
+                ? {
+                    ...seen,
+                    calls: seen.calls + entry.calls,
+                    inputTokens: seen.inputTokens + entry.inputTokens,
+                    outputTokens: seen.outputTokens + entry.outputTokens,
+                    cost: seen.cost + entry.cost,
+                    unpricedCalls: seen.unpricedCalls + entry.unpricedCalls,
+                }
+                : entry);
+        });
+    });
+    return [...merged.values()].sort((a, b) => b.cost - a.cost || b.calls - a.calls);
+}
+
+export function getTotalCost(usage: UsageTotals[] = []): number {
+    return usage.reduce((sum, entry) => sum + entry.cost, 0);
+}
+
+export function getTotalTokens(usage: UsageTotals[] = []): number {
+    return usage.reduce((sum, entry) => sum + entry.inputTokens + entry.outputTokens, 0);
+}
+
+// ------------------------------------------------------------
+// Soft Budget
+// ------------------------------------------------------------
+
+/**
+ * Per-project spending limit in USD, or null when none is set. Reaching
+ * it only asks for confirmation; calls are never blocked.
+ */
+export function getUsageBudget(): number | null {
+    const stored = Number(localStorage.getItem(BUDGET_STORAGE_KEY));
+    return stored > 0 ? stored : null;
+}
+
+export function setUsageBudget(budget: number | null): void {
+    if (budget && budget > 0) {
+        localStorage.setItem(BUDGET_STORAGE_KEY, String(budget));
+    } else {
+        localStorage.removeItem(BUDGET_STORAGE_KEY);
+    }
+}
+
+/**
+ * Warning to show before the next call, once a project's estimated cost
+ * has reached the budget.
+ */
+export function getBudgetWarning(usage: UsageTotals[] | undefined, budget = getUsageBudget()): string | null {
+    if (budget === null) return null;
+    const spent = getTotalCost(usage);
+    if (spent < budget) return null;
+    return `This project has used an estimated ${formatCost(spent)} of its ${formatCost(budget)} budget. Send anyway?`;
+}
+
+// ------------------------------------------------------------
+// Formatting
+// ------------------------------------------------------------
+
+export function formatCost(cost: number): string {
+    if (cost > 0 && cost < 0.01) return '<$0.01';
+    return `$${cost.toFixed(2)}`;
+}
+
+export function formatTokens(tokens: number): string {
+    return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
@@ -0,0 +1,364 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { JSDOM, VirtualConsole, DOMWindow } from 'jsdom';
+import { build } from '../src/engine/raptor';
+import { matchPatterns } from '../src/engine/nedry/router';
+import { Specification } from '../src/types';
+
+// Runs the generated single-page app in jsdom and drives it through the
+// DOM and the App API, the way the preview does.
+
+type AppWindow = DOMWindow & { App: Record<string, (...args: unknown[]) => unknown> };
+
+interface LoadOptions {
+    hash?: string;
+    data?: Record<string, Record<string, unknown>[]>;
+}
+
+async function loadApp(spec: Specification, options: LoadOptions = {}) {
+    const result = await build({
+        specId: spec.version,
+        spec,
+        patterns: matchPatterns(spec),
+        deltas: [],
+        config: { includeStyles: true, includeScripts: true, minify: false },
+    });
+    expect(result.success).toBe(true);
+
+    const errors: Error[] = [];
+    const alerts: string[] = [];
+    const virtualConsole = new VirtualConsole();
+    virtualConsole.on('jsdomError', (error) => errors.push(error));
+
+    const dom = new JSDOM(result.html, {
+        url: 'http://localhost/' + (options.hash || ''),
+        runScripts: 'dangerously',
+        virtualConsole,
+        beforeParse(window) {
+            if (options.data) {
+                window.localStorage.setItem(spec.meta.name + '-data', JSON.stringify(options.data));
+            }
+            window.confirm = () => true;
+            window.alert = (message: string) => alerts.push(message);
+        },
+    });
+    expect(errors).toEqual([]);
+
+    const window = dom.window as AppWindow;
+    return { window, document: window.document, App: window.App, alerts };
+}
+
+// Text of the first cell of each rendered row or card title in a list view
+function listedTitles(document: Document, viewId: string): string[] {
+    return Array.from(document.querySelectorAll(`#${viewId} [data-id]`)).map((el) =>
+        (el.querySelector('td, .item-card-title')?.textContent || '').trim()
+    );
+}
+
+const taskSpec: Specification = {
+    version: '1.0.0',
+    meta: { name: 'Task App', description: 'Tasks', createdAt: '2024-01-01' },
+    entities: [
+        {
+            id: 'task',
+            name: 'Task',
+            properties: [
+                { name: 'title', type: 'string', required: true },
+                { name: 'status', type: 'enum', required: false, options: ['open', 'done'] },
+            ],
+            relationships: [],
+        },
+    ],
+    views: [
+        { id: 'tasks', name: 'Tasks', type: 'list', entity: 'task' },
+        { id: 'task-form', name: 'Add Task', type: 'form', entity: 'task' },
+    ],
+    actions: [],
+    patterns: [],
+};
+
+const tasks = [
+    { id: 't1', title: 'Buy milk', status: 'open' },
+    { id: 't2', title: 'Call mum', status: 'done' },
+    { id: 't3', title: 'Almond milk', status: 'done' },
+];
+
+describe('generated app', () => {
+    describe('list views', () => {
+        const twoListSpec: Specification = {
+            ...taskSpec,
+            views: [
+                { id: 'task-list', name: 'Tasks', type: 'list', entity: 'task', columns: ['title', 'status'] },
+                { id: 'task-board', name: 'Board', type: 'list', entity: 'task', layout: 'cards', columns: ['status'], pageSize: 2 },
+                { id: 'task-form', name: 'Add Task', type: 'form', entity: 'task' },
+            ],
+        };
+
+        it('renders two lists of one entity with their own columns, layout and pages', async () => {
+            const { document, App } = await loadApp(twoListSpec, { data: { task: tasks } });
+
+            expect(listedTitles(document, 'task-list')).toEqual(['Buy milk', 'Call mum', 'Almond milk']);
+            expect(document.querySelectorAll('#task-list tr[data-id] td').length).toBe(3 * 3);
+
+            App.showView('task-board');
+            expect(listedTitles(document, 'task-board')).toEqual(['open', 'done']);
+            expect(document.querySelector('#task-board [data-list-pages]')?.textContent).toContain('Page 1 of 2');
+
+            (document.querySelector('#task-board [data-page="2"]') as HTMLButtonElement).click();
+            expect(listedTitles(document, 'task-board')).toEqual(['done']);
+            expect(listedTitles(document, 'task-list')).toHaveLength(3);
+        });
+
+        it('keeps sorting separate between the two lists', async () => {
+            const { document, App } = await loadApp(twoListSpec, { data: { task: tasks } });
+
+            (document.querySelector('#task-list [data-sort="title"]') as HTMLButtonElement).click();
+            expect(listedTitles(document, 'task-list')).toEqual(['Almond milk', 'Buy milk', 'Call mum']);
+
+            App.showView('task-board');
+            expect(document.querySelector('#task-board [data-sort="title"]')?.hasAttribute('data-dir')).toBe(false);
+            expect(document.querySelectorAll('#task-board [data-id]')).toHaveLength(2);
+        });
+
+        it('keeps the view around an empty list named after its entity', async () => {
+            const { document } = await loadApp(twoListSpec);
+            const view = document.getElementById('task-list') as HTMLElement;
+
+            expect(view.style.display).toBe('block');
+            expect(view.querySelector('h2')?.textContent).toBe('Tasks');
+            expect((document.getElementById('task-list-empty') as HTMLElement).style.display).toBe('block');
+        });
+    });
+
+    describe('list controls', () => {
+        it('applies search and sort from the URL hash', async () => {
+            const { document } = await loadApp(taskSpec, { hash: '#/tasks?q=milk&sort=title&dir=desc', data: { task: tasks } });
+
+            expect(listedTitles(document, 'tasks')).toEqual(['Buy milk', 'Almond milk']);
+            expect((document.querySelector('#tasks [data-list-search]') as HTMLInputElement).value).toBe('milk');
+            expect(document.querySelector('#tasks [data-sort="title"]')?.getAttribute('data-dir')).toBe('desc');
+        });
+
+        it('applies filters from the URL hash and writes changes back', async () => {
+            const { window, document } = await loadApp(taskSpec, { hash: '#/tasks?status=done', data: { task: tasks } });
+            expect(listedTitles(document, 'tasks')).toEqual(['Call mum', 'Almond milk']);
+
+            const search = document.querySelector('#tasks [data-list-search]') as HTMLInputElement;
+            search.value = 'call';
+            search.dispatchEvent(new window.Event('input', { bubbles: true }));
+
+            expect(listedTitles(document, 'tasks')).toEqual(['Call mum']);
+            expect(window.location.hash).toBe('#/tasks?q=call&status=done');
+        });
+    });
+
+    describe('property types', () => {
+        const contactSpec: Specification = {
+            version: '1.0.0',
+            meta: { name: 'Contacts', description: 'Contacts', createdAt: '2024-01-01' },
+            entities: [
+                {
+                    id: 'contact',
+                    name: 'Contact',
+                    properties: [
+                        { name: 'name', type: 'string', required: true },
+                        { name: 'email', type: 'email', required: false },
+                        { name: 'rating', type: 'rating', required: false },
+                        { name: 'budget', type: 'currency', required: false, currency: 'EUR' },
+                    ],
+                    relationships: [],
+                },
+            ],
+            views: [
+                { id: 'contacts', name: 'Contacts', type: 'list', entity: 'contact' },
+                { id: 'contact-form', name: 'Add Contact', type: 'form', entity: 'contact' },
+            ],
+            actions: [],
+            patterns: [],
+        };
+
+        it('checks formats on save and formats values in the list', async () => {
+            const { document, App } = await loadApp(contactSpec);
+            App.showAddForm('contact');
+            const form = document.querySelector('form[data-entity="contact"]') as HTMLFormElement;
+            (document.getElementById('contact-name') as HTMLInputElement).value = 'Ada';
+            (document.getElementById('contact-email') as HTMLInputElement).value = 'ada@';
+            form.requestSubmit();
+
+            expect(document.querySelector('[data-error-for="email"]')?.textContent)
+                .toBe('Enter an email address like name@example.com');
+            expect(App.getAll('contact')).toEqual([]);
+
+            (document.getElementById('contact-email') as HTMLInputElement).value = ' ada@example.com ';
+            (document.getElementById('contact-rating') as HTMLInputElement).value = '4';
+            (document.getElementById('contact-budget') as HTMLInputElement).value = '1200';
+            form.requestSubmit();
+
+            expect(App.getAll('contact')).toEqual([
+                expect.objectContaining({ name: 'Ada', email: 'ada@example.com', rating: 4, budget: 1200 }),
+            ]);
+            const row = document.querySelector('#contacts [data-id]') as HTMLElement;
+            expect(row.querySelector('a[href="mailto:ada@example.com"]')).not.toBeNull();
+            expect(row.querySelector('.rating')?.textContent).toBe('★★★★☆');
+            expect(row.textContent).toContain((1200).toLocaleString(undefined, { style: 'currency', currency: 'EUR' }));
+        });
+    });
+
+    describe('constraints', () => {
+        const ticketSpec: Specification = {
+            version: '1.0.0',
+            meta: { name: 'Tickets', description: 'Tickets', createdAt: '2024-01-01' },
+            entities: [
+                {
+                    id: 'ticket',
+                    name: 'Ticket',
+                    properties: [
+                        { name: 'code', type: 'string', required: true, unique: true, pattern: '[A-Z]+-[0-9]+' },
+                        { name: 'votes', type: 'number', required: false, max: 3 },
+                    ],
+                    relationships: [],
+                },
+            ],
+            views: [
+                { id: 'tickets', name: 'Tickets', type: 'list', entity: 'ticket' },
+                { id: 'ticket-form', name: 'Add Ticket', type: 'form', entity: 'ticket' },
+            ],
+            actions: [
+                { id: 'copy', name: 'Copy', trigger: 'button', logic: 'Copy it', entity: 'ticket', steps: [{ op: 'duplicate' }] },
+                { id: 'vote', name: 'Vote', trigger: 'button', logic: 'Add a vote', entity: 'ticket', steps: [{ op: 'increment', property: 'votes' }] },
+                { id: 'rename', name: 'Rename', trigger: 'button', logic: 'Rename', entity: 'ticket', steps: [{ op: 'set', property: 'code', value: 'oops' }] },
+            ],
+            patterns: [],
+        };
+        const tickets = [{ id: 'a', code: 'BUG-1', votes: 3 }];
+
+        it('rejects a duplicate unique value in the form', async () => {
+            const { document, App } = await loadApp(ticketSpec, { data: { ticket: tickets } });
+            App.showAddForm('ticket');
+            (document.getElementById('ticket-code') as HTMLInputElement).value = 'BUG-1';
+            (document.querySelector('form[data-entity="ticket"]') as HTMLFormElement).requestSubmit();
+
+            expect(document.querySelector('[data-error-for="code"]')?.textContent).toBe('Another item already has this value');
+            expect(App.getAll('ticket')).toHaveLength(1);
+        });
+
+        it('keeps a stored 0 when an item is edited', async () => {
+            const { document, App } = await loadApp(ticketSpec, { data: { ticket: [{ id: 'a', code: 'BUG-1', votes: 0 }] } });
+            App.editItem('ticket', 'a');
+            expect((document.getElementById('ticket-votes') as HTMLInputElement).value).toBe('0');
+
+            (document.querySelector('form[data-entity="ticket"]') as HTMLFormElement).requestSubmit();
+
+            expect(document.querySelector('[data-error-for="votes"]')?.textContent).toBe('');
+            expect(App.getById('ticket', 'a')).toEqual(expect.objectContaining({ votes: 0 }));
+        });
+
+        it('skips action steps whose values fail the checks', async () => {
+            const { App, alerts } = await loadApp(ticketSpec, { data: { ticket: tickets } });
+
+            App.runAction('copy', 'a');
+            App.runAction('vote', 'a');
+            App.runAction('rename', 'a');
+
+            expect(App.getAll('ticket')).toEqual([expect.objectContaining({ id: 'a', code: 'BUG-1', votes: 3 })]);
+            expect(alerts).toEqual([
+                'Copy skipped 1 item:\nBUG-1: code - Another item already has this value',
+                'Vote skipped 1 item:\nBUG-1: votes - Enter 3 or less',
+                'Rename skipped 1 item:\nBUG-1: code - This does not match the expected format',
+            ]);
+        });
+    });
+
+    describe('detail page', () => {
+        const projectSpec = (onDelete: 'restrict' | 'cascade'): Specification => ({
+            version: '1.0.0',
+            meta: { name: 'Projects', description: 'Projects', createdAt: '2024-01-01' },
+            entities: [
+                {
+                    id: 'project',
+                    name: 'Project',
+                    properties: [{ name: 'name', type: 'string', required: true }],
+                    relationships: [{ targetEntity: 'task', type: 'one-to-many', onDelete }],
+                },
+                taskSpec.entities[0],
+            ],
+            views: [
+                { id: 'project-list', name: 'Projects', type: 'list', entity: 'project' },
+                { id: 'project-detail', name: 'Project', type: 'detail', entity: 'project' },
+                { id: 'task-list', name: 'Tasks', type: 'list', entity: 'task' },
+            ],
+            actions: [],
+            patterns: [],
+        });
+        const data = {
+            project: [{ id: 'p1', name: 'Home' }],
+            task: [{ id: 't1', title: 'Buy milk', projectId: 'p1' }],
+        };
+
+        it('falls back to the list when the item in the route is missing', async () => {
+            const { window, document } = await loadApp(projectSpec('restrict'), { hash: '#/project/nope', data });
+
+            expect((document.getElementById('project-list') as HTMLElement).style.display).toBe('block');
+            expect(window.location.hash).toBe('#/project-list');
+        });
+
+        it('opens an item from its row and shows its fields and linked items', async () => {
+            const { window, document } = await loadApp(projectSpec('restrict'), { hash: '#/project-list', data });
+            const routed = new Promise((resolve) => window.addEventListener('hashchange', resolve, { once: true }));
+            (document.querySelector('#project-list [data-id="p1"] td') as HTMLElement).click();
+            await routed;
+
+            const detail = document.getElementById('project-detail') as HTMLElement;
+            expect(window.location.hash).toBe('#/project/p1');
+            expect(detail.style.display).toBe('block');
+            expect(detail.querySelector('[data-detail-title]')?.textContent).toBe('Home');
+            expect(detail.querySelector('[data-related-entity="task"]')?.textContent).toContain('Buy milk');
+        });
+
+        it('keeps an item that restrict-linked items still point at', async () => {
+            const { document, App, alerts } = await loadApp(projectSpec('restrict'), { hash: '#/project/p1', data });
+
+            App.deleteDetail('project');
+
+            expect(alerts).toEqual(['Cannot delete: 1 Task item is still linked to it.']);
+            expect(App.getAll('project')).toHaveLength(1);
+            expect((document.getElementById('project-detail') as HTMLElement).style.display).toBe('block');
+        });
+
+        it('deletes cascade-linked items along with the item', async () => {
+            const { document, App } = await loadApp(projectSpec('cascade'), { hash: '#/project/p1', data });
+
+            App.deleteDetail('project');
+
+            expect(App.getAll('project')).toEqual([]);
+            expect(App.getAll('task')).toEqual([]);
+            expect((document.getElementById('project-list') as HTMLElement).style.display).toBe('block');
+        });
+    });
+
+    describe('dashboard', () => {
+        const timeZone = process.env.TZ;
+        afterEach(() => {
+            if (timeZone === undefined) delete process.env.TZ;
+            else process.env.TZ = timeZone;
+        });
+
+        it('shows date-only values in recent items as the local day', async () => {
+            // West of UTC, midnight UTC is still the previous day
+            process.env.TZ = 'America/New_York';
+            const dashboardSpec: Specification = {
+                ...taskSpec,
+                entities: [
+                    {
+                        ...taskSpec.entities[0],
+                        properties: [...taskSpec.entities[0].properties, { name: 'due', type: 'date', required: false }],
+                    },
+                ],
+                views: [{ id: 'home', name: 'Home', type: 'dashboard', entity: 'task' }, ...taskSpec.views],
+            };
+            const { document } = await loadApp(dashboardSpec, { data: { task: [{ id: 't1', title: 'Buy milk', due: '2024-05-01' }] } });
+
+            expect(document.querySelector('.dashboard-recent-item .text-muted')?.textContent)
+                .toBe(new Date(2024, 4, 1).toLocaleDateString());
+        });
+    });
+});
@@ -6,9 +6,14 @@ vi.mock('../src/api/providers', () => ({
     getProviderErrorMessage: vi.fn((e) => e.message),
 }));
 
-import { processMessage, isSpecComplete, calculateCompleteness } from '../src/engine/arnold';
+import { processMessage, isSpecComplete, calculateCompleteness, parsePartialResponse, MAX_REPAIR_ATTEMPTS } from '../src/engine/arnold';
+import { parsePartialJson } from '../src/engine/arnold/partial-json';
+import { repairJson } from '../src/engine/arnold/json-repair';
+import { ARNOLD_RESPONSE_SCHEMA } from '../src/engine/arnold/schema';
+import { planContext, getHistoryBudget, getContextUsage } from '../src/engine/arnold/context';
+import { summarizeConversation } from '../src/engine/arnold/summary';
 import { callLLM } from '../src/api/providers';
-import { Specification } from '../src/types';
+import { Message, Specification } from '../src/types';
 
 describe('Mini-Arnold', () => {
     describe('processMessage', () => {
@@ -127,6 +132,481 @@ describe('Mini-Arnold', () => {
 
             expect(result2.confidence).toBeGreaterThan(result1.confidence);
         });
+
+        it('keeps known action steps and drops unknown ones', async () => {
+            (callLLM as ReturnType<typeof vi.fn>).mockResolvedValue({
+                text: JSON.stringify({
+                    type: 'spec_update',
+                    spec: {
+                        version: '1.0.0',
+                        meta: { name: 'Todo App', description: '', createdAt: '' },
+                        entities: [],
+                        views: [],
+                        actions: [{
+                            id: 'bump',
+                            name: 'Bump',
+                            trigger: 'button',
+                            logic: 'Increase votes',
+                            entity: 'idea',
+                            steps: [{ op: 'increment', property: 'votes' }, { op: 'explode' }, 'nonsense'],
+                        }],
+                        patterns: [],
+                    },
+                    confidence: 0.5,
+                }),
+            });
+
+            const result = await processMessage({
+                message: 'Let me upvote ideas',
+                conversationHistory: [],
+                currentSpec: null,
+                provider: 'openai',
+                model: 'gpt-4o',
+            });
+
+            expect(result.spec?.actions[0].entity).toBe('idea');
+            expect(result.spec?.actions[0].steps).toEqual([{ op: 'increment', property: 'votes' }]);
+        });
+
+        it('maps property type aliases and keeps valid currency codes', async () => {
+            (callLLM as ReturnType<typeof vi.fn>).mockResolvedValue({
+                text: JSON.stringify({
+                    type: 'spec_update',
+                    spec: {
+                        version: '1.0.0',
+                        meta: { name: 'Shop', description: '', createdAt: '' },
+                        entities: [{
+                            id: 'product',
+                            name: 'Product',
+                            properties: [
+                                { name: 'price', type: 'money', currency: 'eur', required: true },
+                                { name: 'cost', type: 'currency', currency: 'euro', required: false },
+                                { name: 'notes', type: 'Textarea', required: false },
+                                { name: 'site', type: 'link', required: false },
+                                { name: 'stars', type: 'rating', required: false },
+                                { name: 'title', type: 'number', currency: 'USD', required: true },
+                                { name: 'mystery', type: 'hologram', required: false },
+                            ],
+                            relationships: [],
+                        }],
+                        views: [],
+                        actions: [],
+                        patterns: [],
+                    },
+                    confidence: 0.5,
+                }),
+            });
+
+            const result = await processMessage({
+                message: 'A shop with products',
+                conversationHistory: [],
+                currentSpec: null,
+                provider: 'openai',
+                model: 'gpt-4o',
+            });
+
+            const [price, cost, notes, site, stars, title, mystery] = result.spec!.entities[0].properties;
+            expect(price).toMatchObject({ type: 'currency', currency: 'EUR' });
+            expect(cost.type).toBe('currency');
+            expect(cost).not.toHaveProperty('currency');
+            expect(notes.type).toBe('longtext');
+            expect(site.type).toBe('url');
+            expect(stars.type).toBe('rating');
+            expect(title).not.toHaveProperty('currency');
+            expect(mystery.type).toBe('string');
+        });
+
+        it('keeps constraints with usable values', async () => {
+            (callLLM as ReturnType<typeof vi.fn>).mockResolvedValue({
+                text: JSON.stringify({
+                    type: 'spec_update',
+                    spec: {
+                        version: '1.0.0',
+                        meta: { name: 'Shop', description: '', createdAt: '' },
+                        entities: [{
+                            id: 'product',
+                            name: 'Product',
+                            properties: [
+                                { name: 'title', type: 'string', required: true, maxLength: 80, unique: true, min: null },
+                                { name: 'price', type: 'currency', required: true, min: 0, max: '100', default: 5 },
+                            ],
+                            relationships: [],
+                        }],
+                        views: [],
+                        actions: [],
+                        patterns: [],
+                    },
+                    confidence: 0.5,
+                }),
+            });
+
+            const result = await processMessage({
+                message: 'Titles max 80 chars, prices must be positive',
+                conversationHistory: [],
+                currentSpec: null,
+                provider: 'openai',
+                model: 'gpt-4o',
+            });
+
+            const [title, price] = result.spec!.entities[0].properties;
+            expect(title).toMatchObject({ maxLength: 80, unique: true });
+            expect(title).not.toHaveProperty('min');
+            expect(price).toMatchObject({ min: 0, default: 5 });
+            expect(price).not.toHaveProperty('max');
+        });
+    });
+
+    describe('self-repair', () => {
+        it('repairs prose and trailing commas without another call', () => {
+            expect(repairJson('Sure! Here it is:\n```json\n{"type": "question", "question": "Why?",}\n```')?.value)
+                .toEqual({ type: 'question', question: 'Why?' });
+            expect(repairJson('No JSON here')).toBeNull();
+        });
+
+        it('does not close up a truncated reply', () => {
+            expect(repairJson('{"type": "spec_update", "spec": {"entities": [{"id": "task"}, {"id": "list"')).toBeNull();
+            expect(repairJson('```json\n{"type": "question", "question": "Why')).toBeNull();
+        });
+
+        it('re-prompts with the parse error until the reply is readable', async () => {
+            const mock = callLLM as ReturnType<typeof vi.fn>;
+            mock.mockClear();
+            mock.mockResolvedValueOnce({ text: 'I think you want a todo app.', usage: { inputTokens: 100, outputTokens: 10 } })
+                .mockResolvedValueOnce({
+                    text: JSON.stringify({ type: 'question', question: 'Should tasks have due dates?', confidence: 0.3 }),
+                    usage: { inputTokens: 150, outputTokens: 20 },
+                });
+
+            const result = await processMessage({
+                message: 'A todo app',
+                conversationHistory: [],
+                currentSpec: null,
+                provider: 'openai',
+                model: 'gpt-4o',
+            });
+
+            expect(result.question).toBe('Should tasks have due dates?');
+            expect(result.usage).toEqual({ inputTokens: 250, outputTokens: 30 });
+
+            const retry = mock.mock.calls[1][0];
+            expect(retry.messages.at(-2)).toEqual({ role: 'assistant', content: 'I think you want a todo app.' });
+            expect(retry.messages.at(-1).content).toMatch(/^Your previous response could not be used/);
+        });
+
+        it('re-prompts when the reply was cut off', async () => {
+            const mock = callLLM as ReturnType<typeof vi.fn>;
+            mock.mockClear();
+            mock.mockResolvedValueOnce({
+                text: '{"type": "spec_update", "spec": {"meta": {"name": "Todo"}, "entities": [{"id": "task"',
+                stopReason: 'max_tokens',
+            }).mockResolvedValueOnce({
+                text: JSON.stringify({ type: 'question', question: 'Should tasks have due dates?', confidence: 0.3 }),
+            });
+
+            const result = await processMessage({
+                message: 'A todo app',
+                conversationHistory: [],
+                currentSpec: null,
+                provider: 'openai',
+                model: 'gpt-4o',
+            });
+
+            expect(mock).toHaveBeenCalledTimes(2);
+            expect(result.type).toBe('question');
+            expect(result.spec).toBeUndefined();
+        });
+
+        it('gives up after the repair attempts with a typed error', async () => {
+            const mock = callLLM as ReturnType<typeof vi.fn>;
+            mock.mockClear();
+            mock.mockResolvedValue({ text: 'Still not JSON' });
+
+            await expect(processMessage({
+                message: 'A todo app',
+                conversationHistory: [],
+                currentSpec: null,
+                provider: 'anthropic',
+                model: 'claude-sonnet-4-20250514',
+            })).rejects.toMatchObject({ code: 'INVALID_RESPONSE', provider: 'anthropic', retryable: true });
+
+            expect(mock).toHaveBeenCalledTimes(MAX_REPAIR_ATTEMPTS + 1);
+        });
+    });
+
+    describe('structured output', () => {
+        // Every object closed with all properties required, no oneOf or const
+        function expectStrict(node: unknown): void {
+            if (!node || typeof node !== 'object') return;
+            const schema = node as Record<string, unknown>;
+            expect(schema.oneOf).toBeUndefined();
+            expect(schema.const).toBeUndefined();
+            if (schema.type === 'object') {
+                expect(schema.additionalProperties).toBe(false);
+                expect(schema.required).toEqual(Object.keys(schema.properties as object));
+            }
+            Object.values(schema).forEach(expectStrict);
+        }
+
+        it('derives a strict response schema from the spec schema', () => {
+            expectStrict(ARNOLD_RESPONSE_SCHEMA);
+
+            const properties = ARNOLD_RESPONSE_SCHEMA.properties as Record<string, Record<string, unknown>>;
+            expect(properties.type.enum).toEqual(['question', 'spec_update', 'spec_complete']);
+            expect(properties.question.type).toEqual(['string', 'null']);
+        });
+
+        it('asks for a patch against an outline of the current spec', async () => {
+            const mock = callLLM as ReturnType<typeof vi.fn>;
+            mock.mockClear();
+            mock.mockResolvedValueOnce({
+                text: JSON.stringify({
+                    type: 'spec_update',
+                    patch: [
+                        { op: 'add', path: '/entities/task/properties/-', value: { name: 'due', type: 'date', required: false } },
+                        { op: 'explode', path: '/views' },
+                    ],
+                    confidence: 0.7,
+                }),
+            }).mockResolvedValueOnce({
+                text: JSON.stringify({
+                    type: 'spec_update',
+                    patch: [
+                        { op: 'add', path: '/entities/task/properties/-', value: { name: 'due', type: 'date', required: false } },
+                    ],
+                    confidence: 0.7,
+                }),
+            });
+
+            const currentSpec: Specification = {
+                version: '1.0.0',
+                meta: { name: 'Todo', description: '', createdAt: '' },
+                entities: [{ id: 'task', name: 'Task', properties: [{ name: 'title', type: 'string', required: true }], relationships: [] }],
+                views: [{ id: 'tasks', name: 'Tasks', type: 'list', entity: 'task' }],
+                actions: [],
+                patterns: [],
+            };
+
+            const result = await processMessage({
+                message: 'Tasks need a due date',
+                conversationHistory: [],
+                currentSpec,
+                provider: 'openai',
+                model: 'gpt-4o',
+            });
+
+            // The retry sends the same messages plus the rejected reply and the reason
+            const retryMessages = mock.mock.calls[1][0].messages;
+            const prompt: string = retryMessages.at(-3).content;
+            expect(prompt).toContain('- task "Task": title (string, required)');
+            expect(prompt).not.toContain('"entities"');
+
+            // A malformed operation sends the whole patch back, not just that one
+            expect(mock).toHaveBeenCalledTimes(2);
+            expect(retryMessages.at(-1).content).toContain('Patch operation 2 needs "op"');
+
+            expect(result.spec).toBeUndefined();
+            expect(result.patch).toEqual([
+                { op: 'add', path: '/entities/task/properties/-', value: { name: 'due', type: 'date', required: false } },
+            ]);
+        });
+
+        it('uses a structured spec as-is', async () => {
+            const mock = callLLM as ReturnType<typeof vi.fn>;
+            mock.mockClear();
+            mock.mockResolvedValueOnce({
+                structured: true,
+                text: JSON.stringify({
+                    type: 'spec_update',
+                    question: null,
+                    confidence: 0.6,
+                    spec: {
+                        version: '1.0.0',
+                        meta: { name: 'Ideas', description: null, createdAt: null },
+                        entities: [{
+                            id: 'idea',
+                            name: 'Idea',
+                            properties: [{ name: 'title', type: 'string', required: true, options: null }],
+                            relationships: [],
+                        }],
+                        views: [{ id: 'ideas', name: 'Ideas', type: 'list', entity: 'idea' }],
+                        actions: [],
+                        patterns: ['crud'],
+                    },
+                }),
+            });
+
+            const result = await processMessage({
+                message: 'An idea board',
+                conversationHistory: [],
+                currentSpec: null,
+                provider: 'openai',
+                model: 'gpt-4o',
+            });
+
+            expect(mock).toHaveBeenCalledWith(expect.objectContaining({
+                responseFormat: expect.objectContaining({ type: 'json_schema', name: 'arnold_response' }),
+            }));
+            expect(result.question).toBeUndefined();
+            expect(result.spec?.entities[0].properties[0]).toEqual({ name: 'title', type: 'string', required: true });
+            expect(result.spec?.meta.createdAt).toBeTruthy();
+            expect(result.spec?.patterns).toEqual(['crud']);
+        });
+    });
+
+    describe('context budget', () => {
+        // 100 characters, about 29 tokens with overhead
+        const history: Message[] = Array.from({ length: 10 }, (_, i) => ({
+            id: `m${i}`,
+            role: i % 2 === 0 ? 'user' : 'assistant',
+            content: 'x'.repeat(100),
+            timestamp: '',
+        }));
+
+        it('scales the history budget with the model', () => {
+            expect(getHistoryBudget('openai', 'gpt-3.5-turbo')).toBeLessThan(getHistoryBudget('openai', 'gpt-4o'));
+            expect(getHistoryBudget('anthropic', 'claude-sonnet-4-20250514')).toBe(getHistoryBudget('openai', 'gpt-4o'));
+            expect(getHistoryBudget('local', 'mistral')).toBe(4096);
+        });
+
+        it('sends the whole history while it fits', () => {
+            const plan = planContext(history, null, 1000);
+            expect(plan.recent).toHaveLength(10);
+            expect(plan.toSummarize).toEqual([]);
+            expect(plan.tokens).toBe(290);
+        });
+
+        it('keeps the newest messages and summarizes the rest', () => {
+            const plan = planContext(history, null, 200);
+            // Half the budget stays verbatim: three messages
+            expect(plan.recent.map((m) => m.id)).toEqual(['m7', 'm8', 'm9']);
+            expect(plan.toSummarize.map((m) => m.id)).toEqual(['m0', 'm1', 'm2', 'm3', 'm4', 'm5', 'm6']);
+        });
+
+        it('leaves out messages the summary covers', () => {
+            const summary = { text: 'y'.repeat(40), throughMessageId: 'm5', createdAt: '' };
+            const plan = planContext(history, summary, 200);
+            expect(plan.summary).toBe(summary);
+            expect(plan.recent.map((m) => m.id)).toEqual(['m6', 'm7', 'm8', 'm9']);
+            expect(plan.toSummarize).toEqual([]);
+
+            // A summary of messages that are gone is ignored
+            expect(planContext(history.slice(6), summary, 200).summary).toBeNull();
+
+            expect(getContextUsage(history, summary, 'openai', 'gpt-4o')).toMatchObject({
+                tokens: 10 + 4 * 29,
+                summarizedMessages: 6,
+            });
+        });
+
+        it('sends the summary ahead of the history', async () => {
+            const mock = callLLM as ReturnType<typeof vi.fn>;
+            mock.mockClear();
+            mock.mockResolvedValueOnce({ text: '  - Todo app with tasks\n', usage: { inputTokens: 300, outputTokens: 20 } });
+
+            const { summary, usage } = await summarizeConversation({
+                messages: history.slice(0, 4),
+                previous: { text: '- Wants a todo app', throughMessageId: 'm0', createdAt: '' },
+                provider: 'openai',
+                model: 'gpt-4o',
+            });
+            expect(summary).toMatchObject({ text: '- Todo app with tasks', throughMessageId: 'm3' });
+            expect(usage).toEqual({ inputTokens: 300, outputTokens: 20 });
+            expect(mock.mock.calls[0][0].messages[1].content).toContain('Summary so far:\n- Wants a todo app');
+
+            mock.mockResolvedValueOnce({
+                text: JSON.stringify({ type: 'question', question: 'Should tasks have due dates?', confidence: 0.4 }),
+            });
+            await processMessage({
+                message: 'Add priorities',
+                conversationHistory: history.slice(4),
+                conversationSummary: summary.text,
+                currentSpec: null,
+                provider: 'openai',
+                model: 'gpt-4o',
+            });
+
+            const messages = mock.mock.calls[1][0].messages;
+            expect(messages[1]).toEqual({ role: 'system', content: 'Summary of the earlier conversation:\n- Todo app with tasks' });
+            expect(messages).toHaveLength(1 + 1 + 6 + 1);
+        });
+    });
+
+    describe('streaming', () => {
+        it('parses truncated JSON up to the last readable value', () => {
+            expect(parsePartialJson('{"type": "question", "question": "What prop')).toEqual({
+                type: 'question',
+                question: 'What prop',
+            });
+            expect(parsePartialJson('{"a": [1, 2], "b": tr')).toEqual({ a: [1, 2] });
+            expect(parsePartialJson('no json yet')).toBeNull();
+        });
+
+        it('reads spec fragments from a partial response', () => {
+            const partial = parsePartialResponse(
+                '```json\n{"type": "spec_update", "spec": {"meta": {"name": "Todo"}, "entities": [{"id": "task", "name": "Ta'
+            );
+
+            expect(partial?.type).toBe('spec_update');
+            expect(partial?.spec?.meta.name).toBe('Todo');
+            expect(partial?.spec?.entities[0].id).toBe('task');
+        });
+
+        it('streams partial output when onPartial is provided', async () => {
+            const full = JSON.stringify({
+                type: 'question',
+                question: 'What fields should a task have?',
+                confidence: 0.3,
+            });
+
+            (callLLM as ReturnType<typeof vi.fn>).mockImplementationOnce(async (request) => {
+                for (let i = 0; i < full.length; i += 10) {
+                    request.onDelta?.(full.slice(i, i + 10));
+                }
+                return { text: full };
+            });
+
+            const partials: string[] = [];
+            const result = await processMessage({
+                message: 'A task app',
+                conversationHistory: [],
+                currentSpec: null,
+                provider: 'openai',
+                model: 'gpt-4o',
+                onPartial: (partial) => {
+                    if (partial.question) partials.push(partial.question);
+                },
+            });
+
+            expect(callLLM).toHaveBeenLastCalledWith(expect.objectContaining({ stream: true }));
+            expect(partials.length).toBeGreaterThan(1);
+            expect(partials[partials.length - 1]).toBe('What fields should a task have?');
+            expect(result.question).toBe('What fields should a task have?');
+        });
+
+        it('starts the partial output over when a call is retried', async () => {
+            const full = JSON.stringify({ type: 'question', question: 'Which fields?', confidence: 0.3 });
+
+            (callLLM as ReturnType<typeof vi.fn>).mockImplementationOnce(async (request) => {
+                // The first attempt drops mid-response
+                request.onDelta?.('{"type": "question", "question": "Which col', 0);
+                request.onDelta?.(full, 1);
+                return { text: full };
+            });
+
+            const partials: string[] = [];
+            await processMessage({
+                message: 'A task app',
+                conversationHistory: [],
+                currentSpec: null,
+                provider: 'openai',
+                model: 'gpt-4o',
+                onPartial: (partial) => {
+                    if (partial.question) partials.push(partial.question);
+                },
+            });
+
+            expect(partials).toEqual(['Which col', 'Which fields?']);
+        });
     });
 
     describe('isSpecComplete', () => {
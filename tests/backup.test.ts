@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { createBackup, parseBackup, mergeProjects, getStorageUsage, LOCAL_STORAGE_QUOTA } from '../src/utils/backup';
+import { Project } from '../src/types';
+
+function project(id: string, name: string, updatedAt: string): Project {
+    return {
+        id,
+        name,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt,
+        messages: [{ id: `${id}-m1`, role: 'user', content: 'Build a tracker', timestamp: updatedAt }],
+        spec: null,
+        buildResult: null,
+        conversationPhase: 'gathering',
+        specHistory: [],
+    };
+}
+
+describe('Project Backup', () => {
+    const local = [project('a', 'Alpha', '2024-02-01T00:00:00.000Z'), project('b', 'Beta', '2024-02-01T00:00:00.000Z')];
+
+    it('round-trips a backup and rejects other files', () => {
+        const text = JSON.stringify(createBackup(local, '2024-03-01T00:00:00.000Z'));
+        const { backup, error } = parseBackup(text);
+
+        expect(error).toBeNull();
+        expect(backup?.projects).toEqual(local);
+        expect(backup?.exportedAt).toBe('2024-03-01T00:00:00.000Z');
+
+        expect(parseBackup('not json').error).toBe('File is not valid JSON');
+        expect(parseBackup(JSON.stringify({ projects: [] })).error).toBe('File is not a Mini Artifact backup');
+        expect(parseBackup(JSON.stringify({ ...createBackup(local), projects: [{ id: 'x' }] })).error)
+            .toBe('Project 1 in the backup is incomplete');
+    });
+
+    it('rejects projects the app could not list or open', () => {
+        const withSpec: Project = {
+            ...local[0],
+            spec: {
+                version: '1.0.0',
+                meta: { name: 'Tracker', description: '', createdAt: '2024-01-01T00:00:00.000Z' },
+                entities: [{ id: 'task', name: 'Task', properties: [{ name: 'title', type: 'string', required: true }], relationships: [] }],
+                views: [{ id: 'task-list', name: 'Tasks', type: 'list', entity: 'task' }],
+                actions: [],
+                patterns: [],
+            },
+        };
+        expect(parseBackup(JSON.stringify(createBackup([withSpec]))).error).toBeNull();
+
+        const broken: unknown[] = [
+            { ...local[0], createdAt: undefined },
+            { ...local[0], conversationPhase: 'done' },
+            { ...local[0], spec: { entities: 'none' } },
+            { ...local[0], buildResult: undefined },
+        ];
+
+        broken.forEach((entry) => {
+            const text = JSON.stringify({ ...createBackup(local), projects: [local[1], entry] });
+            expect(parseBackup(text).error).toBe('Project 2 in the backup is incomplete');
+        });
+    });
+
+    it('keeps the newest copy of conflicting projects by default', () => {
+        const incoming = [
+            project('a', 'Alpha (laptop)', '2024-03-01T00:00:00.000Z'),
+            project('b', 'Beta (old)', '2024-01-01T00:00:00.000Z'),
+            project('c', 'Gamma', '2024-01-01T00:00:00.000Z'),
+        ];
+        const { projects, summary } = mergeProjects(local, incoming, 'newest');
+
+        expect(projects.map((p) => p.name)).toEqual(['Alpha (laptop)', 'Beta', 'Gamma']);
+        expect(summary).toEqual({ added: ['Gamma'], replaced: ['Alpha (laptop)'], copied: [], skipped: ['Beta (old)'] });
+    });
+
+    it('can overwrite or keep both copies', () => {
+        const incoming = [project('b', 'Beta (old)', '2024-01-01T00:00:00.000Z')];
+
+        expect(mergeProjects(local, incoming, 'overwrite').projects[1].name).toBe('Beta (old)');
+
+        const both = mergeProjects(local, incoming, 'keep-both').projects;
+        expect(both).toHaveLength(3);
+        expect(both[2].name).toBe('Beta (old) (imported)');
+        expect(both[2].id).not.toBe('b');
+    });
+
+    it('collapses duplicate ids inside a backup to the newest', () => {
+        const incoming = [
+            project('c', 'Gamma v2', '2024-03-01T00:00:00.000Z'),
+            project('c', 'Gamma v1', '2024-01-01T00:00:00.000Z'),
+        ];
+        const { projects } = mergeProjects([], incoming, 'newest');
+
+        expect(projects.map((p) => p.name)).toEqual(['Gamma v2']);
+    });
+
+    it('measures storage usage against the quota', () => {
+        const data: Record<string, string> = { key: 'x'.repeat(97) };
+        const storage = {
+            length: 1,
+            key: (i: number) => Object.keys(data)[i] ?? null,
+            getItem: (k: string) => data[k] ?? null,
+        } as unknown as Storage;
+
+        const usage = getStorageUsage(storage);
+        expect(usage.used).toBe(100);
+        expect(usage.ratio).toBe(100 / LOCAL_STORAGE_QUOTA);
+    });
+});
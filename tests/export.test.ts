@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { createZip, crc32 } from '../src/utils/zip';
+import { createExportFiles, buildReadme, getExportSlug } from '../src/utils/export';
+import { Specification, BuildResult } from '../src/types';
+
+describe('Project Export', () => {
+    const spec: Specification = {
+        version: '1.0.0',
+        meta: { name: 'Task Tracker', description: 'Track tasks', createdAt: '2024-01-01' },
+        entities: [
+            {
+                id: 'task',
+                name: 'Task',
+                properties: [
+                    { name: 'title', type: 'string', required: true },
+                    { name: 'status', type: 'enum', required: false, options: ['open', 'done'] },
+                ],
+                relationships: [],
+            },
+        ],
+        views: [{ id: 'task-list', name: 'Tasks', type: 'list', entity: 'task' }],
+        actions: [],
+        patterns: [],
+    };
+
+    const buildResult: BuildResult = {
+        success: true,
+        html: '<html>inline</html>',
+        css: '.a { color: red; }',
+        javascript: 'var App = {};',
+        markup: '<div class="view"></div>',
+        manifest: { specId: '1.0.0', builtAt: '2024-01-02T00:00:00.000Z', patternsUsed: ['app-core'], deltasGenerated: [] },
+    };
+
+    it('computes the standard CRC-32', () => {
+        expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    });
+
+    it('writes a zip with local headers, central directory and end record', () => {
+        const zip = createZip([
+            { path: 'a.txt', content: 'hello' },
+            { path: 'dir/b.txt', content: 'world!' },
+        ]);
+        const view = new DataView(zip.buffer);
+        const end = zip.length - 22;
+
+        expect(view.getUint32(0, true)).toBe(0x04034b50);
+        expect(view.getUint32(end, true)).toBe(0x06054b50);
+        expect(view.getUint16(end + 10, true)).toBe(2);
+
+        // Central directory starts right after both local entries
+        const centralOffset = view.getUint32(end + 16, true);
+        expect(centralOffset).toBe(30 + 5 + 5 + 30 + 9 + 6);
+        expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+    });
+
+    it('splits the build into linked files inside a project folder', () => {
+        const files = createExportFiles(spec, buildResult);
+        const paths = files.map((f) => f.path);
+
+        expect(paths).toEqual([
+            'task-tracker/index.html',
+            'task-tracker/styles.css',
+            'task-tracker/app.js',
+            'task-tracker/spec.json',
+            'task-tracker/manifest.json',
+            'task-tracker/README.md',
+        ]);
+
+        const index = files[0].content as string;
+        expect(index).toContain('<link rel="stylesheet" href="styles.css">');
+        expect(index).toContain('<script src="app.js"></script>');
+        expect(index).toContain('<div class="view"></div>');
+        expect(index).not.toContain(buildResult.css);
+    });
+
+    it('describes entities and views in the README', () => {
+        const readme = buildReadme(spec, buildResult.manifest);
+
+        expect(readme).toContain('# Task Tracker');
+        expect(readme).toContain('| status | enum (open, done) | no |');
+        expect(readme).toContain('- **Tasks** (list of Task)');
+        expect(getExportSlug(null)).toBe('app');
+    });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+    LLMError,
+    NetworkError,
+    QuotaError,
+    RateLimitError,
+    ProviderResponseError,
+    classifyHttpError,
+    createLLMError,
+    errorFromResponse,
+} from '../src/api/providers/errors';
+import { toAppError } from '../src/engine/nedry';
+
+function jsonResponse(body: unknown, status: number): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('LLM Errors', () => {
+    it('classifies HTTP errors by status and body type', () => {
+        expect(classifyHttpError(401)).toBe('KEY_INVALID');
+        expect(classifyHttpError(429, 'You exceeded your current quota')).toBe('QUOTA_EXCEEDED');
+        expect(classifyHttpError(429, 'Slow down')).toBe('RATE_LIMITED');
+        expect(classifyHttpError(400, '', 'billing_hard_limit_reached')).toBe('BILLING_ERROR');
+        expect(classifyHttpError(undefined, 'Overloaded', 'overloaded_error')).toBe('PROVIDER_ERROR');
+    });
+
+    it('reads provider and proxy error bodies', async () => {
+        const quota = await errorFromResponse(
+            'openai',
+            jsonResponse({ error: { message: 'Out of credit', type: 'insufficient_quota' } }, 429)
+        );
+        expect(quota).toBeInstanceOf(QuotaError);
+        expect(quota).toMatchObject({ code: 'QUOTA_EXCEEDED', provider: 'openai', status: 429, detail: 'Out of credit', retryable: false });
+
+        // The proxy sends its own code
+        const proxy = await errorFromResponse('anthropic', jsonResponse({ error: 'Rate limited.', code: 'RATE_LIMITED' }, 429));
+        expect(proxy).toBeInstanceOf(RateLimitError);
+        expect(proxy.retryable).toBe(true);
+
+        const text = await errorFromResponse('local', new Response('upstream crashed', { status: 502 }));
+        expect(text).toBeInstanceOf(ProviderResponseError);
+        expect(text).toMatchObject({ code: 'PROVIDER_ERROR', detail: 'upstream crashed', retryable: true });
+    });
+
+    it('marks only transient failures as retryable', () => {
+        expect(createLLMError('UNREACHABLE')).toBeInstanceOf(NetworkError);
+        expect(createLLMError('BAD_REQUEST').retryable).toBe(false);
+        expect(createLLMError('PROVIDER_ERROR', { status: 503 }).retryable).toBe(true);
+        expect(createLLMError('KEY_MISSING').retryable).toBe(false);
+        expect(createLLMError('REQUEST_ABORTED').retryable).toBe(false);
+        expect(createLLMError('REQUEST_TIMEOUT')).toBeInstanceOf(LLMError);
+    });
+
+    it('turns provider failures into app errors', () => {
+        const error = toAppError(createLLMError('KEY_MISSING', { provider: 'openai' }));
+        expect(error).toMatchObject({
+            code: 'KEY_MISSING',
+            message: 'Please configure your OpenAI API key in Settings (⚙️)',
+            retryable: false,
+            provider: 'openai',
+        });
+
+        expect(toAppError(new Error('Spec is empty'))).toMatchObject({ code: 'NEDRY_ERROR', message: 'Spec is empty' });
+    });
+});
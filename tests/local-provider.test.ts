@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeAll, afterEach } from 'vitest';
+import { callLocal, fetchLocalModels, normalizeBaseUrl, withJsonInstruction } from '../src/api/providers/local';
+import { LLMRequest } from '../src/types';
+
+function jsonResponse(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('Local Provider', () => {
+    beforeAll(() => {
+        const data: Record<string, string> = {};
+        Object.assign(globalThis, {
+            localStorage: {
+                getItem: (key: string) => data[key] ?? null,
+                setItem: (key: string, value: string) => {
+                    data[key] = value;
+                },
+                removeItem: (key: string) => {
+                    delete data[key];
+                },
+            },
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('normalizes base URLs to the /v1 root', () => {
+        expect(normalizeBaseUrl('http://localhost:11434')).toBe('http://localhost:11434/v1');
+        expect(normalizeBaseUrl(' http://localhost:8080/v1/ ')).toBe('http://localhost:8080/v1');
+    });
+
+    it('adds the JSON instruction to the system prompt', () => {
+        const messages = withJsonInstruction([
+            { role: 'system', content: 'You are Arnold.' },
+            { role: 'user', content: 'A todo app' },
+        ]);
+        expect(messages[0].content).toMatch(/^You are Arnold\.\n\nRespond with a single valid JSON object/);
+        expect(messages[1].content).toBe('A todo app');
+
+        expect(withJsonInstruction([{ role: 'user', content: 'Hi' }])[0].role).toBe('system');
+    });
+
+    it('lists models from /v1/models', async () => {
+        const fetchMock = vi.fn(async () => jsonResponse({ data: [{ id: 'qwen2.5' }, { id: 'llama3.1' }] }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const models = await fetchLocalModels('http://localhost:1234');
+        expect(fetchMock).toHaveBeenCalledWith('http://localhost:1234/v1/models', { headers: {} });
+        expect(models.map((m) => m.id)).toEqual(['llama3.1', 'qwen2.5']);
+    });
+
+    it('falls back to a prompt instruction when response_format is rejected', async () => {
+        const bodies: Array<Record<string, unknown>> = [];
+        vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+            const body = JSON.parse(init.body as string);
+            bodies.push(body);
+            return body.response_format
+                ? jsonResponse({ error: 'response_format not supported' }, 400)
+                : jsonResponse({ choices: [{ message: { content: '{"ok":true}' } }] });
+        }));
+
+        const request: LLMRequest = {
+            provider: 'local',
+            model: 'tinyllama',
+            messages: [{ role: 'system', content: 'Reply in JSON.' }],
+            responseFormat: { type: 'json_object' },
+        };
+
+        expect((await callLocal(request, null)).text).toBe('{"ok":true}');
+        expect(bodies).toHaveLength(2);
+        expect(bodies[1].messages).toEqual([expect.objectContaining({ content: expect.stringContaining('single valid JSON object') })]);
+
+        // The rejection is remembered for this server and model
+        await callLocal(request, null);
+        expect(bodies).toHaveLength(3);
+        expect(bodies[2].response_format).toBeUndefined();
+    });
+});
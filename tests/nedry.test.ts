@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { validateSpec, isValidForBuild, getValidationSummary } from '../src/engine/nedry/validator';
-import { matchPatterns, sortPatternsByDependency } from '../src/engine/nedry/router';
+import { validateSpec, isValidForBuild, getValidationSummary, getActionStepErrors } from '../src/engine/nedry/validator';
+import { matchPatterns, sortPatternsByDependency, getReferenceFields } from '../src/engine/nedry/router';
+import { applySpecPatch } from '../src/engine/nedry/patch';
 import { Specification } from '../src/types';
 
 describe('Mini-Nedry', () => {
@@ -67,6 +68,28 @@ describe('Mini-Nedry', () => {
             expect(result.errors.some(e => e.code === 'NO_PROPERTIES')).toBe(true);
         });
 
+        it('flags unnamed properties and enums without options', () => {
+            const spec: Specification = {
+                version: '1.0.0',
+                meta: { name: 'App', description: '', createdAt: '' },
+                entities: [{
+                    id: 'e1',
+                    name: 'Entity',
+                    properties: [
+                        { name: '', type: 'string', required: true },
+                        { name: 'status', type: 'enum', required: false, options: [] },
+                    ],
+                    relationships: [],
+                }],
+                views: [{ id: 'v1', name: 'View', type: 'list', entity: 'e1' }],
+                actions: [],
+                patterns: [],
+            };
+            const result = validateSpec(spec);
+            expect(result.errors.some(e => e.code === 'MISSING_PROPERTY_NAME')).toBe(true);
+            expect(result.warnings.some(w => w.code === 'ENUM_WITHOUT_OPTIONS')).toBe(true);
+        });
+
         it('accepts valid spec', () => {
             const spec: Specification = {
                 version: '1.0.0',
@@ -127,6 +150,116 @@ describe('Mini-Nedry', () => {
             expect(ids).toContain('view-form');
         });
 
+        it('maps dashboards to the dashboard pattern with entity stats', () => {
+            const spec: Specification = {
+                version: '1.0.0',
+                meta: { name: 'App', description: '', createdAt: '' },
+                entities: [
+                    { id: 'note', name: 'Note', properties: [{ name: 'text', type: 'string', required: true }], relationships: [] },
+                    {
+                        id: 'task',
+                        name: 'Task',
+                        properties: [
+                            { name: 'status', type: 'enum', required: true, options: ['todo', 'done'] },
+                            { name: 'hours', type: 'number', required: false },
+                            { name: 'due', type: 'date', required: false },
+                        ],
+                        relationships: [],
+                    },
+                ],
+                views: [{ id: 'overview', name: 'Overview', type: 'dashboard', entity: 'task' }],
+                actions: [],
+                patterns: [],
+            };
+            const dashboard = matchPatterns(spec).find(p => p.targetId === 'overview')!;
+
+            expect(dashboard.patternId).toBe('view-dashboard');
+            expect(dashboard.config.sections).toEqual([
+                { entityId: 'task', entityName: 'Task', numbers: ['hours'], enums: [{ name: 'status', options: ['todo', 'done'] }], dateProperty: 'due' },
+                { entityId: 'note', entityName: 'Note', numbers: [], enums: [], dateProperty: 'createdAt' },
+            ]);
+        });
+
+        it('gives list views search, filter and sort controls', () => {
+            const spec: Specification = {
+                version: '1.0.0',
+                meta: { name: 'App', description: '', createdAt: '' },
+                entities: [{
+                    id: 'task',
+                    name: 'Task',
+                    properties: [
+                        { name: 'title', type: 'string', required: true },
+                        { name: 'notes', type: 'longtext', required: false },
+                        { name: 'status', type: 'enum', required: true, options: ['todo', 'done'] },
+                        { name: 'urgent', type: 'boolean', required: false },
+                        { name: 'due', type: 'date', required: false },
+                    ],
+                    relationships: [],
+                }],
+                views: [{ id: 'task-list', name: 'Tasks', type: 'list', entity: 'task' }],
+                actions: [],
+                patterns: [],
+            };
+            const list = matchPatterns(spec).find(p => p.targetId === 'task-list')!;
+
+            expect(list.config.controls).toEqual({
+                searchFields: ['title', 'notes'],
+                filters: [
+                    { name: 'status', options: [{ value: 'todo', label: 'todo' }, { value: 'done', label: 'done' }] },
+                    { name: 'urgent', options: [{ value: 'true', label: 'Yes' }, { value: 'false', label: 'No' }] },
+                ],
+                dateProperty: 'due',
+                sortFields: ['title', 'status', 'urgent', 'due'],
+            });
+        });
+
+        it('resolves list columns from the view, falling back to every field', () => {
+            const spec: Specification = {
+                version: '1.0.0',
+                meta: { name: 'App', description: '', createdAt: '' },
+                entities: [
+                    {
+                        id: 'project',
+                        name: 'Project',
+                        properties: [{ name: 'name', type: 'string', required: true }],
+                        relationships: [{ targetEntity: 'task', type: 'one-to-many' }],
+                    },
+                    {
+                        id: 'task',
+                        name: 'Task',
+                        properties: [
+                            { name: 'title', type: 'string', required: true },
+                            { name: 'notes', type: 'longtext', required: false },
+                            { name: 'due', type: 'date', required: false },
+                        ],
+                        relationships: [],
+                    },
+                ],
+                views: [
+                    { id: 'all-tasks', name: 'Tasks', type: 'list', entity: 'task' },
+                    { id: 'due-tasks', name: 'Due', type: 'list', entity: 'task', columns: ['due', 'missing', 'title'], layout: 'cards', pageSize: 5 },
+                ],
+                actions: [],
+                patterns: [],
+            };
+            const patterns = matchPatterns(spec);
+            const all = patterns.find(p => p.targetId === 'all-tasks')!.config;
+            const due = patterns.find(p => p.targetId === 'due-tasks')!.config;
+
+            expect(all.columns).toEqual([
+                { name: 'title', label: 'title', sortable: true },
+                { name: 'notes', label: 'notes', sortable: false },
+                { name: 'due', label: 'due', sortable: true },
+                { name: 'projectId', label: 'Project', sortable: false },
+            ]);
+            expect(all).toMatchObject({ layout: 'table', pageSize: 20 });
+            expect((due.columns as Array<{ name: string }>).map(c => c.name)).toEqual(['due', 'title']);
+            expect(due).toMatchObject({ layout: 'cards', pageSize: 5 });
+
+            const result = validateSpec(spec);
+            expect(result.warnings.filter(w => w.code === 'INVALID_VIEW_COLUMN').map(w => w.path)).toEqual(['views[1].columns[1]']);
+        });
+
         it('maps actions to action patterns', () => {
             const spec: Specification = {
                 version: '1.0.0',
@@ -146,6 +279,261 @@ describe('Mini-Nedry', () => {
         });
     });
 
+    describe('action steps', () => {
+        const baseSpec: Specification = {
+            version: '1.0.0',
+            meta: { name: 'App', description: 'Tasks', createdAt: '' },
+            entities: [
+                {
+                    id: 'task',
+                    name: 'Task',
+                    properties: [
+                        { name: 'done', type: 'boolean', required: false },
+                        { name: 'status', type: 'enum', required: false, options: ['open', 'closed'] },
+                    ],
+                    relationships: [],
+                },
+            ],
+            views: [{ id: 'task-list', name: 'Tasks', type: 'list', entity: 'task' }],
+            actions: [],
+            patterns: ['view-list'],
+        };
+
+        it('accepts steps that match the spec', () => {
+            const result = validateSpec({
+                ...baseSpec,
+                actions: [{
+                    id: 'complete-all',
+                    name: 'Mark all complete',
+                    trigger: 'button',
+                    logic: '',
+                    entity: 'task',
+                    steps: [
+                        { op: 'set_all', property: 'done', value: true },
+                        { op: 'navigate', view: 'task-list' },
+                    ],
+                }],
+            });
+            expect(result.valid).toBe(true);
+        });
+
+        it('rejects steps with unknown targets or mismatched values', () => {
+            const result = validateSpec({
+                ...baseSpec,
+                actions: [{
+                    id: 'close',
+                    name: 'Close',
+                    trigger: 'button',
+                    logic: '',
+                    entity: 'task',
+                    steps: [
+                        { op: 'set', property: 'status', value: 'archived' },
+                        { op: 'increment', property: 'done' },
+                        { op: 'set', property: 'missing', value: 1 },
+                        { op: 'navigate', view: 'nowhere' },
+                    ],
+                }],
+            });
+            expect(result.valid).toBe(false);
+            expect(result.errors.filter(e => e.code === 'INVALID_ACTION_STEP')).toHaveLength(4);
+        });
+
+        it('warns about actions without steps', () => {
+            const result = validateSpec({
+                ...baseSpec,
+                actions: [{ id: 'noop', name: 'Noop', trigger: 'button', logic: 'Does something' }],
+            });
+            expect(result.warnings.map(w => w.code)).toContain('ACTION_NOT_EXECUTABLE');
+        });
+
+        it('checks a single action before it joins the spec', () => {
+            const action = { id: 'close', name: 'Close', trigger: 'button' as const, logic: '', entity: 'task' };
+
+            expect(getActionStepErrors(baseSpec, { ...action, steps: [{ op: 'toggle', property: 'done' }] })).toEqual([]);
+            expect(getActionStepErrors(baseSpec, { ...action, steps: [{ op: 'toggle', property: 'status' }] })).toEqual([
+                expect.objectContaining({ code: 'INVALID_ACTION_STEP', path: 'actions[0].steps[0]' }),
+            ]);
+        });
+    });
+
+    describe('property constraints', () => {
+        const withProperties = (properties: Specification['entities'][0]['properties']): Specification => ({
+            version: '1.0.0',
+            meta: { name: 'Shop', description: 'Products', createdAt: '' },
+            entities: [{ id: 'product', name: 'Product', properties, relationships: [] }],
+            views: [{ id: 'product-list', name: 'Products', type: 'list', entity: 'product' }],
+            actions: [],
+            patterns: ['view-list'],
+        });
+
+        it('accepts constraints that fit the property', () => {
+            const result = validateSpec(withProperties([
+                { name: 'title', type: 'string', required: true, maxLength: 80, pattern: '[A-Z].*', unique: true },
+                { name: 'price', type: 'currency', required: true, min: 0, default: 10 },
+                { name: 'added', type: 'date', required: false, default: '$today' },
+            ]));
+            expect(result.errors).toEqual([]);
+            expect(result.warnings.map(w => w.code)).not.toContain('CONSTRAINT_IGNORED');
+        });
+
+        it('rejects contradictory constraints and defaults that break them', () => {
+            const result = validateSpec(withProperties([
+                { name: 'price', type: 'number', required: true, min: 10, max: 1 },
+                { name: 'code', type: 'string', required: false, minLength: 5, maxLength: 2, pattern: '(' },
+                { name: 'stock', type: 'number', required: false, min: 0, default: -1 },
+                { name: 'sku', type: 'string', required: false, maxLength: 3, default: 'ABCDE' },
+            ]));
+            expect(result.errors.filter(e => e.code === 'INVALID_CONSTRAINT').map(e => e.path)).toEqual([
+                'entities[0].properties[0].min',
+                'entities[0].properties[1].minLength',
+                'entities[0].properties[1].pattern',
+            ]);
+            expect(result.errors.filter(e => e.code === 'INVALID_DEFAULT')).toHaveLength(2);
+        });
+
+        it('warns about constraints the property type ignores', () => {
+            const result = validateSpec(withProperties([
+                { name: 'title', type: 'string', required: true, min: 1 },
+                { name: 'price', type: 'number', required: false, maxLength: 5 },
+            ]));
+            expect(result.valid).toBe(true);
+            expect(result.warnings.filter(w => w.code === 'CONSTRAINT_IGNORED').map(w => w.path)).toEqual([
+                'entities[0].properties[0].min',
+                'entities[0].properties[1].maxLength',
+            ]);
+        });
+
+        it('checks set steps against the constraints', () => {
+            const spec = withProperties([{ name: 'price', type: 'number', required: true, min: 0 }]);
+            const result = validateSpec({
+                ...spec,
+                actions: [{
+                    id: 'refund',
+                    name: 'Refund',
+                    trigger: 'button',
+                    logic: '',
+                    entity: 'product',
+                    steps: [{ op: 'set', property: 'price', value: -5 }],
+                }],
+            });
+            expect(result.errors.map(e => e.message)).toContain('Action "Refund": "price" must be at least 0');
+        });
+    });
+
+    describe('applySpecPatch', () => {
+        const spec: Specification = {
+            version: '1.0.0',
+            meta: { name: 'Todo App', description: '', createdAt: '' },
+            entities: [
+                {
+                    id: 'task',
+                    name: 'Task',
+                    properties: [
+                        { name: 'title', type: 'string', required: true },
+                        { name: 'status', type: 'enum', required: false, options: ['todo', 'done'] },
+                    ],
+                    relationships: [],
+                },
+            ],
+            views: [
+                { id: 'task-list', name: 'Task List', type: 'list', entity: 'task' },
+                { id: 'task-detail', name: 'Task', type: 'detail', entity: 'task' },
+            ],
+            actions: [],
+            patterns: ['view-list'],
+        };
+
+        it('applies operations addressed by id and name', () => {
+            const { spec: patched, errors } = applySpecPatch(spec, [
+                { op: 'add', path: '/entities/task/properties/-', value: { name: 'due', type: 'date', required: false } },
+                { op: 'replace', path: '/entities/task/properties/status/options', value: ['todo', 'doing', 'done'] },
+                { op: 'remove', path: '/views/task-detail' },
+                { op: 'replace', path: '/meta/description', value: 'Tracks tasks' },
+            ]);
+
+            expect(errors).toEqual([]);
+            expect(patched.entities[0].properties.map((p) => p.name)).toEqual(['title', 'status', 'due']);
+            expect(patched.entities[0].properties[1].options).toEqual(['todo', 'doing', 'done']);
+            expect(patched.views.map((v) => v.id)).toEqual(['task-list']);
+            expect(patched.meta.description).toBe('Tracks tasks');
+            // The original is untouched
+            expect(spec.views).toHaveLength(2);
+        });
+
+        it('rejects the whole patch when one operation fails', () => {
+            const result = applySpecPatch(spec, [
+                { op: 'remove', path: '/views/task-list' },
+                { op: 'replace', path: '/entities/project/name', value: 'Project' },
+            ]);
+
+            expect(result.spec).toBe(spec);
+            expect(result.errors[0]).toMatchObject({ code: 'INVALID_PATCH', path: '/entities/project/name' });
+            expect(result.errors[0].message).toContain('no item "project"');
+        });
+
+        it('rejects values that break the spec shape', () => {
+            const result = applySpecPatch(spec, [
+                { op: 'add', path: '/entities/task/properties/-', value: { name: 'due', type: 'datetime' } },
+            ]);
+
+            expect(result.spec).toBe(spec);
+            expect(result.errors.length).toBeGreaterThan(0);
+        });
+    });
+
+    describe('getReferenceFields', () => {
+        const spec: Specification = {
+            version: '1.0.0',
+            meta: { name: 'App', description: '', createdAt: '' },
+            entities: [
+                {
+                    id: 'project',
+                    name: 'Project',
+                    properties: [{ name: 'name', type: 'string', required: true }],
+                    relationships: [{ targetEntity: 'task', type: 'one-to-many', onDelete: 'cascade' }],
+                },
+                {
+                    id: 'task',
+                    name: 'Task',
+                    properties: [
+                        { name: 'title', type: 'string', required: true },
+                        { name: 'projectId', type: 'string', required: false },
+                    ],
+                    relationships: [
+                        { targetEntity: 'tag_label', type: 'many-to-many' },
+                        { targetEntity: 'missing', type: 'one-to-one' },
+                    ],
+                },
+                { id: 'tag_label', name: 'Tag', properties: [{ name: 'name', type: 'string', required: true }], relationships: [] },
+            ],
+            views: [
+                { id: 'task-form', name: 'Add Task', type: 'form', entity: 'task' },
+                { id: 'project-detail', name: 'Project', type: 'detail', entity: 'project' },
+            ],
+            actions: [],
+            patterns: [],
+        };
+
+        it('places foreign keys on the right side of each relationship', () => {
+            const fields = getReferenceFields(spec);
+            expect(fields).toEqual([
+                expect.objectContaining({ entityId: 'task', field: 'projectId', targetEntity: 'project', multiple: false, onDelete: 'cascade' }),
+                expect.objectContaining({ entityId: 'task', field: 'tagLabelIds', targetEntity: 'tag_label', multiple: true, onDelete: 'restrict' }),
+            ]);
+        });
+
+        it('passes pickers to forms and related lists to detail views', () => {
+            const patterns = matchPatterns(spec);
+            const form = patterns.find(p => p.patternId === 'view-form')!;
+            const detail = patterns.find(p => p.patternId === 'view-detail')!;
+
+            expect((form.config.references as Array<{ field: string }>).map(r => r.field)).toEqual(['projectId', 'tagLabelIds']);
+            // The duplicate "projectId" property is replaced by the picker
+            expect((form.config.properties as Array<{ name: string }>).map(p => p.name)).toEqual(['title']);
+            expect((detail.config.related as Array<{ entityId: string }>).map(r => r.entityId)).toEqual(['task']);
+        });
+    });
+
     describe('sortPatternsByDependency', () => {
         it('puts utility patterns first', () => {
             const patterns = [
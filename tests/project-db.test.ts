@@ -0,0 +1,106 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+    listProjects,
+    loadProject,
+    loadAllProjects,
+    saveProject,
+    saveProjectSummary,
+    deleteProjectRecords,
+    replaceAllProjects,
+    createSessionStorage,
+    toProjectSummary,
+} from '../src/store/db';
+import { Project } from '../src/types';
+
+function project(id: string, createdAt: string): Project {
+    return {
+        id,
+        name: `Project ${id}`,
+        createdAt,
+        updatedAt: createdAt,
+        messages: [{ id: `${id}-m1`, role: 'user', content: 'Build a tracker', timestamp: createdAt }],
+        spec: null,
+        buildResult: { success: true, html: '<html></html>', css: '', javascript: '' },
+        conversationPhase: 'gathering',
+        specHistory: [],
+    };
+}
+
+function memoryStorage(data: Record<string, string>): Storage {
+    return {
+        get length() {
+            return Object.keys(data).length;
+        },
+        key: (i: number) => Object.keys(data)[i] ?? null,
+        getItem: (key: string) => data[key] ?? null,
+        setItem: (key: string, value: string) => {
+            data[key] = value;
+        },
+        removeItem: (key: string) => {
+            delete data[key];
+        },
+        clear: () => Object.keys(data).forEach((key) => delete data[key]),
+    };
+}
+
+describe('Project Database', () => {
+    const local: Record<string, string> = {};
+    const session: Record<string, string> = {};
+
+    beforeAll(() => {
+        local['mini-artifact-projects'] = JSON.stringify([project('b', '2024-02-01T00:00:00.000Z'), project('a', '2024-01-01T00:00:00.000Z')]);
+        local['mini-artifact-theme'] = 'dark';
+        session['mini-artifact-store'] = JSON.stringify({ state: { currentProjectId: 'a' }, version: 1 });
+        Object.assign(globalThis, { localStorage: memoryStorage(local), sessionStorage: memoryStorage(session) });
+    });
+
+    it('migrates localStorage projects and the persisted session once', async () => {
+        const summaries = await listProjects();
+
+        expect(summaries.map((p) => p.id)).toEqual(['a', 'b']);
+        expect(summaries[0]).not.toHaveProperty('messages');
+        expect(local['mini-artifact-projects']).toBeUndefined();
+        expect(session['mini-artifact-store']).toBeUndefined();
+        expect(local['mini-artifact-theme']).toBe('dark');
+
+        const stored = await createSessionStorage<{ currentProjectId: string }>().getItem('mini-artifact-store');
+        expect(stored).toEqual({ state: { currentProjectId: 'a' }, version: 1 });
+    });
+
+    it('loads messages and builds only with the full project', async () => {
+        const full = await loadProject('a');
+
+        expect(full?.messages).toHaveLength(1);
+        expect(full?.buildResult?.html).toBe('<html></html>');
+        expect(await loadProject('missing')).toBeNull();
+    });
+
+    it('saves, renames and deletes per-project records', async () => {
+        await saveProject(project('c', '2024-03-01T00:00:00.000Z'));
+        await saveProjectSummary({ ...toProjectSummary(project('c', '2024-03-01T00:00:00.000Z')), name: 'Renamed' });
+
+        const renamed = await loadProject('c');
+        expect(renamed?.name).toBe('Renamed');
+        expect(renamed?.messages).toHaveLength(1);
+
+        await deleteProjectRecords('c');
+        expect((await listProjects()).map((p) => p.id)).toEqual(['a', 'b']);
+    });
+
+    it('replaces every project on restore', async () => {
+        await replaceAllProjects([project('z', '2024-04-01T00:00:00.000Z')]);
+
+        const all = await loadAllProjects();
+        expect(all.map((p) => p.id)).toEqual(['z']);
+        expect(all[0].messages).toHaveLength(1);
+    });
+
+    it('ignores session writes until the key has been read', async () => {
+        const storage = createSessionStorage<{ value: number }>();
+        storage.setItem('early', { state: { value: 1 }, version: 1 });
+        await new Promise((resolve) => setTimeout(resolve, 300));
+
+        expect(await storage.getItem('early')).toBeNull();
+    });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+    listProviders,
+    getProvider,
+    getDefaultModel,
+    getProviderErrorMessage,
+    supportsStructuredOutput,
+    ProviderConfigError,
+    RateLimitError,
+} from '../src/api/providers';
+import { toOpenAIResponseFormat } from '../src/api/providers/openai';
+import { toolChoice } from '../src/api/providers/anthropic';
+
+describe('Provider Registry', () => {
+    it('lists every provider with a default model from its own list', () => {
+        const providers = listProviders();
+
+        expect(providers.map((p) => p.id)).toEqual(['openai', 'anthropic', 'local']);
+        providers.forEach((p) => {
+            expect(p.models.some((m) => m.id === p.defaultModel && m.provider === p.id)).toBe(true);
+        });
+    });
+
+    it('falls back to the default provider model for unknown ids', () => {
+        expect(getProvider('unknown')).toBeUndefined();
+        expect(getDefaultModel('anthropic')).toBe('claude-sonnet-4-20250514');
+        expect(getDefaultModel('unknown')).toBe('gpt-4o');
+    });
+
+    it('validates key formats per provider', () => {
+        expect(getProvider('openai')?.validateKey('sk-abc')).toBeNull();
+        expect(getProvider('anthropic')?.validateKey('sk-abc')).toBe('Anthropic API keys start with "sk-ant-"');
+        expect(getProvider('local')?.validateKey('')).toBeNull();
+    });
+
+    it('sends JSON-schema formats as structured output or a forced tool call', () => {
+        expect(supportsStructuredOutput('openai', 'gpt-4o')).toBe(true);
+        expect(supportsStructuredOutput('openai', 'gpt-3.5-turbo')).toBe(false);
+        expect(supportsStructuredOutput('anthropic', 'claude-3-opus-20240229')).toBe(true);
+        expect(supportsStructuredOutput('local', 'llama3.1')).toBe(false);
+
+        const format = { type: 'json_schema' as const, name: 'reply', schema: { type: 'object' } };
+        expect(toOpenAIResponseFormat(format)).toEqual({
+            type: 'json_schema',
+            json_schema: { name: 'reply', description: undefined, schema: { type: 'object' }, strict: true },
+        });
+        expect(toolChoice(format)).toMatchObject({
+            tools: [{ name: 'reply', input_schema: { type: 'object' } }],
+            tool_choice: { type: 'tool', name: 'reply' },
+        });
+        expect(toolChoice({ type: 'json_object' })).toEqual({});
+    });
+
+    it('words errors for the provider that failed', () => {
+        expect(getProviderErrorMessage(new ProviderConfigError('KEY_MISSING', { provider: 'anthropic' })))
+            .toBe('Please configure your Anthropic API key in Settings (⚙️)');
+        expect(getProviderErrorMessage(new RateLimitError({ provider: 'openai' })))
+            .toBe('Rate limited. Please wait 30 seconds and try again.');
+        // Declared by the provider itself
+        expect(getProviderErrorMessage(new ProviderConfigError('MODEL_NOT_FOUND', { provider: 'local' })))
+            .toBe('The local server does not have this model. Refresh the model list in Settings (⚙️)');
+        expect(getProviderErrorMessage(new Error('Something else'))).toBe('Something else');
+    });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { build, validatePatterns } from '../src/engine/raptor';
+import { build, validatePatterns, buildReactProject } from '../src/engine/raptor';
 import { assemblePatterns } from '../src/engine/raptor/assembler';
+import { matchPatterns } from '../src/engine/nedry/router';
 import { getPattern, getAllPatternIds, hasPattern } from '../src/engine/raptor/patterns';
 import { Specification, PatternReference } from '../src/types';
 
@@ -173,6 +174,292 @@ describe('Mini-Raptor', () => {
         });
     });
 
+    describe('relationships', () => {
+        const relatedSpec: Specification = {
+            ...testSpec,
+            entities: [
+                {
+                    id: 'project',
+                    name: 'Project',
+                    properties: [{ name: 'name', type: 'string', required: true }],
+                    relationships: [{ targetEntity: 'task', type: 'one-to-many' }],
+                },
+                testSpec.entities[0],
+            ],
+            views: [
+                { id: 'task-form', name: 'Add Task', type: 'form', entity: 'task' },
+                { id: 'project-detail', name: 'Project', type: 'detail', entity: 'project' },
+            ],
+        };
+
+        it('renders reference pickers and related item lists', () => {
+            const result = assemblePatterns(matchPatterns(relatedSpec), relatedSpec);
+
+            expect(result.html).toContain('name="projectId"');
+            expect(result.html).toContain('data-ref-entity="project"');
+            expect(result.html).toContain('data-related-entity="task"');
+            expect(result.js).toContain('"field":"projectId"');
+        });
+    });
+
+    describe('property types', () => {
+        const typedSpec: Specification = {
+            ...testSpec,
+            entities: [
+                {
+                    id: 'contact',
+                    name: 'Contact',
+                    properties: [
+                        { name: 'name', type: 'string', required: true },
+                        { name: 'email', type: 'email', required: true },
+                        { name: 'website', type: 'url', required: false },
+                        { name: 'phone', type: 'phone', required: false },
+                        { name: 'notes', type: 'longtext', required: false },
+                        { name: 'budget', type: 'currency', currency: 'EUR', required: false },
+                        { name: 'score', type: 'rating', required: false },
+                        { name: 'photo', type: 'image', required: false },
+                    ],
+                    relationships: [],
+                },
+            ],
+            views: [
+                { id: 'contact-list', name: 'Contacts', type: 'list', entity: 'contact' },
+                { id: 'contact-form', name: 'Add Contact', type: 'form', entity: 'contact' },
+            ],
+        };
+
+        it('renders a typed input for each property', () => {
+            const result = assemblePatterns(matchPatterns(typedSpec), typedSpec);
+
+            expect(result.html).toMatch(/type="email"\s+id="contact-email"/);
+            expect(result.html).toMatch(/type="tel"\s+id="contact-phone"/);
+            expect(result.html).toMatch(/<textarea\s+id="contact-notes"/);
+            expect(result.html).toMatch(/data-type="rating"/);
+            expect(result.html).toContain('step="0.01"');
+            expect(result.html).toContain('EUR');
+            expect(result.html).toContain('data-error-for="email"');
+        });
+
+        it('formats and validates values in the runtime', () => {
+            const result = assemblePatterns(matchPatterns(typedSpec), typedSpec);
+
+            expect(result.js).toContain('function formatValue');
+            expect(result.js).toContain('function validateField');
+            expect(result.js).toContain('"type":"currency","currency":"EUR"');
+        });
+
+        it('types numeric properties in the React project', () => {
+            const files = buildReactProject(typedSpec);
+            const types = files.find((f) => f.path === 'src/types.ts')!.content;
+            const form = files.find((f) => f.path === 'src/views/ContactFormView.tsx')!.content;
+
+            expect(types).toContain('  budget?: number;');
+            expect(types).toContain('  score?: number;');
+            expect(form).toContain('<textarea');
+            expect(form).toContain('type="tel"');
+        });
+    });
+
+    describe('detail page', () => {
+        const detailSpec: Specification = {
+            ...testSpec,
+            views: [
+                { id: 'task-list', name: 'Tasks', type: 'list', entity: 'task' },
+                { id: 'task-form', name: 'Edit Task', type: 'form', entity: 'task' },
+                { id: 'task-detail', name: 'Task', type: 'detail', entity: 'task' },
+            ],
+        };
+
+        it('routes items by hash and opens them from their rows', () => {
+            const result = assemblePatterns(matchPatterns(detailSpec), detailSpec);
+
+            expect(result.html).toContain('data-detail-title');
+            expect(result.html).toContain("App.cancelForm('task')");
+            expect(result.html).not.toContain('data-view="task-detail"');
+            expect(result.js).toContain("return '#/' + view.entity + '/' + encodeURIComponent(detailItemId);");
+            expect(result.js).toContain('function openDetail');
+            expect(result.js).toContain("document.addEventListener('click', openFromRow)");
+        });
+    });
+
+    describe('list controls', () => {
+        it('renders search, filters, a date range and sort buttons bound to the URL hash', () => {
+            const listSpec: Specification = {
+                ...testSpec,
+                entities: [
+                    {
+                        ...testSpec.entities[0],
+                        properties: [
+                            ...testSpec.entities[0].properties,
+                            { name: 'due', type: 'date', required: false },
+                        ],
+                    },
+                ],
+            };
+
+            const result = assemblePatterns(matchPatterns(listSpec), listSpec);
+
+            expect(result.html).toContain('data-list-search="title"');
+            expect(result.html).toContain('data-list-filter="completed"');
+            expect(result.html).toContain('data-list-range="due"');
+            expect(result.html).toContain('data-sort="title"');
+            expect(result.js).toContain('function applyListState');
+            expect(result.js).toContain("window.addEventListener('hashchange', routeFromHash)");
+        });
+    });
+
+    describe('list layout', () => {
+        const layoutSpec: Specification = {
+            ...testSpec,
+            entities: [
+                {
+                    ...testSpec.entities[0],
+                    properties: [
+                        ...testSpec.entities[0].properties,
+                        { name: 'status', type: 'enum', required: false, options: ['open', 'done'] },
+                    ],
+                },
+            ],
+            views: [{ id: 'task-list', name: 'Tasks', type: 'list', entity: 'task', columns: ['status', 'title'], pageSize: 10 }],
+        };
+
+        it('renders a paginated table with the view columns in order', () => {
+            const result = assemblePatterns(matchPatterns(layoutSpec), layoutSpec);
+
+            expect(result.html).toContain('<table class="table item-table">');
+            expect(result.html).toContain('data-columns="status,title"');
+            expect(result.html).toContain('data-page-size="10"');
+            expect(result.html).toContain('data-list-pages="task-list"');
+            expect(result.html).not.toContain('data-sort="completed"');
+            expect(result.js).toContain('function renderPagination');
+            expect(result.js).toContain('function tableRowHtml');
+        });
+
+        it('renders cards with a sort bar', () => {
+            const cardSpec: Specification = { ...layoutSpec, views: [{ ...layoutSpec.views[0], layout: 'cards' }] };
+            const result = assemblePatterns(matchPatterns(cardSpec), cardSpec);
+
+            expect(result.html).toContain('data-layout="cards"');
+            expect(result.html).not.toContain('<table');
+            expect(result.html).toContain('data-list-sort="task-list"');
+        });
+    });
+
+    describe('constraints', () => {
+        const constrainedSpec: Specification = {
+            ...testSpec,
+            entities: [
+                {
+                    id: 'product',
+                    name: 'Product',
+                    properties: [
+                        { name: 'title', type: 'string', required: true, maxLength: 80, unique: true },
+                        { name: 'price', type: 'number', required: true, min: 0, default: 1 },
+                        { name: 'code', type: 'string', required: false, pattern: '[A-Z]{3}' },
+                    ],
+                    relationships: [],
+                },
+            ],
+            views: [{ id: 'product-form', name: 'Add Product', type: 'form', entity: 'product' }],
+        };
+
+        it('checks constraints on save instead of coercing numbers', () => {
+            const result = assemblePatterns(matchPatterns(constrainedSpec), constrainedSpec);
+
+            expect(result.html).toContain('novalidate');
+            expect(result.html).toContain('maxlength="80"');
+            expect(result.html).toContain('min="0"');
+            expect(result.js).toContain('function validateField');
+            expect(result.js).toContain('function applyDefaults');
+            expect(result.js).toContain('"pattern":"[A-Z]{3}"');
+            expect(result.js).not.toContain('Number(input.value) || 0');
+        });
+
+        it('passes constraints and defaults to the React form', () => {
+            const form = buildReactProject(constrainedSpec).find((f) => f.path === 'src/views/ProductFormView.tsx')!.content;
+
+            expect(form).toContain('maxLength={80}');
+            expect(form).toContain('min={0}');
+            expect(form).toContain('pattern={"[A-Z]{3}"}');
+            expect(form).toContain('const newDraft = (): Draft => ({ "price": 1 });');
+        });
+    });
+
+    describe('view-dashboard', () => {
+        it('renders runtime stat hooks for counts, breakdowns and totals', () => {
+            const dashboardSpec: Specification = {
+                ...testSpec,
+                entities: [
+                    {
+                        ...testSpec.entities[0],
+                        properties: [
+                            ...testSpec.entities[0].properties,
+                            { name: 'priority', type: 'enum', required: false, options: ['low', 'high'] },
+                            { name: 'estimate', type: 'number', required: false },
+                        ],
+                    },
+                ],
+                views: [{ id: 'overview', name: 'Overview', type: 'dashboard', entity: 'task' }],
+            };
+
+            const result = assemblePatterns(matchPatterns(dashboardSpec), dashboardSpec);
+
+            expect(result.html).toContain('data-stat="count" data-entity="task"');
+            expect(result.html).toContain('data-property="priority" data-value="high"');
+            expect(result.html).toContain('data-stat="avg" data-entity="task" data-property="estimate"');
+            expect(result.js).toContain('function renderDashboard');
+        });
+    });
+
+    describe('actions', () => {
+        it('compiles action steps into the app runtime', () => {
+            const actionSpec: Specification = {
+                ...testSpec,
+                actions: [
+                    {
+                        id: 'toggle-done',
+                        name: 'Toggle',
+                        trigger: 'button',
+                        logic: 'Toggle completion',
+                        entity: 'task',
+                        steps: [{ op: 'toggle', property: 'completed' }],
+                    },
+                ],
+            };
+
+            const result = assemblePatterns(matchPatterns(actionSpec), actionSpec);
+
+            expect(result.js).toContain('"steps":[{"op":"toggle","property":"completed"}]');
+            expect(result.js).toContain('runAction: runAction');
+            expect(result.html).toContain('data-actions-entity="task"');
+        });
+    });
+
+    describe('buildReactProject', () => {
+        it('emits typed entities, a storage hook and one component per view', () => {
+            const reactSpec: Specification = {
+                ...testSpec,
+                views: [
+                    { id: 'task-list', name: 'Task List', type: 'list', entity: 'task' },
+                    { id: 'task-form', name: 'Add Task', type: 'form', entity: 'task' },
+                ],
+            };
+
+            const files = buildReactProject(reactSpec);
+            const paths = files.map((f) => f.path);
+            const types = files.find((f) => f.path === 'src/types.ts')!.content;
+
+            expect(paths).toContain('package.json');
+            expect(paths).toContain('src/storage.ts');
+            expect(paths).toContain('src/views/TaskListView.tsx');
+            expect(paths).toContain('src/views/TaskFormView.tsx');
+            expect(types).toContain('export interface Task {');
+            expect(types).toContain('  title: string;');
+            expect(types).toContain('  completed?: boolean;');
+            expect(buildReactProject(reactSpec)).toEqual(files);
+        });
+    });
+
     describe('validatePatterns', () => {
         it('returns valid for existing patterns', () => {
             const result = validatePatterns(['style-base', 'app-shell', 'navigation']);
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { enqueueRequest, cancelRequests, getQueueState } from '../src/api/providers/queue';
+import { LLMRequest, LLMResponse } from '../src/types';
+
+function request(content: string, extra: Partial<LLMRequest> = {}): LLMRequest {
+    return { provider: 'openai', model: 'gpt-4o', messages: [{ role: 'user', content }], ...extra };
+}
+
+// A call that resolves when told to, or rejects when its signal aborts
+function deferredCall() {
+    const started: string[] = [];
+    const release = new Map<string, () => void>();
+    const call = (req: LLMRequest) =>
+        new Promise<LLMResponse>((resolve, reject) => {
+            const content = req.messages[0].content;
+            started.push(content);
+            release.set(content, () => resolve({ text: content }));
+            req.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        });
+    return { call, started, release };
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('Request Queue', () => {
+    it('runs calls for one project in order and other projects alongside', async () => {
+        const { call, started, release } = deferredCall();
+
+        const first = enqueueRequest(request('a1', { queueKey: 'a' }), call);
+        const second = enqueueRequest(request('a2', { queueKey: 'a' }), call);
+        enqueueRequest(request('b1', { queueKey: 'b' }), call);
+        await tick();
+
+        expect(started).toEqual(['a1', 'b1']);
+        expect(getQueueState().waiting.map((e) => e.key)).toEqual(['a']);
+
+        release.get('a1')!();
+        expect((await first).text).toBe('a1');
+        await tick();
+        expect(started).toEqual(['a1', 'b1', 'a2']);
+
+        release.get('a2')!();
+        release.get('b1')!();
+        await second;
+    });
+
+    it('coalesces a repeated call that is still waiting', async () => {
+        const { call, started, release } = deferredCall();
+
+        const running = enqueueRequest(request('x', { queueKey: 'c' }), call);
+        const waiting = enqueueRequest(request('y', { queueKey: 'c' }), call);
+        const repeat = enqueueRequest(request('y', { queueKey: 'c' }), call);
+
+        expect(repeat).toBe(waiting);
+        await tick();
+        release.get('x')!();
+        await running;
+        await tick();
+        release.get('y')!();
+        await waiting;
+        expect(started).toEqual(['x', 'y']);
+    });
+
+    it('cancels running and waiting calls', async () => {
+        const { call, started } = deferredCall();
+
+        const running = enqueueRequest(request('r', { queueKey: 'd' }), call);
+        const waiting = enqueueRequest(request('w', { queueKey: 'd' }), call);
+        await tick();
+
+        cancelRequests('d');
+        await expect(running).rejects.toThrow('REQUEST_ABORTED');
+        await expect(waiting).rejects.toThrow('REQUEST_ABORTED');
+        await tick();
+        expect(started).toEqual(['r']);
+    });
+
+    it('aborts through the caller signal', async () => {
+        const { call } = deferredCall();
+        const controller = new AbortController();
+
+        const pending = enqueueRequest(request('s', { queueKey: 'f', signal: controller.signal }), call);
+        controller.abort();
+
+        await expect(pending).rejects.toThrow('REQUEST_ABORTED');
+    });
+
+    it('times out slow calls', async () => {
+        const { call } = deferredCall();
+
+        await expect(enqueueRequest(request('slow', { queueKey: 'e', timeoutMs: 10 }), call))
+            .rejects.toThrow('REQUEST_TIMEOUT');
+    });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { diffSpecs, summarizeChanges } from '../src/utils/spec-diff';
+import { Specification } from '../src/types';
+
+describe('Spec Diff', () => {
+    const before: Specification = {
+        version: '1.0.0',
+        meta: { name: 'Todo', description: 'Tasks', createdAt: '' },
+        entities: [
+            {
+                id: 'task',
+                name: 'Task',
+                properties: [
+                    { name: 'title', type: 'string', required: true },
+                    { name: 'priority', type: 'enum', required: false, options: ['low', 'high'] },
+                ],
+                relationships: [],
+            },
+        ],
+        views: [{ id: 'task-list', name: 'Tasks', type: 'list', entity: 'task' }],
+        actions: [{ id: 'add', name: 'Add', trigger: 'button', logic: '' }],
+        patterns: [],
+    };
+
+    it('reports no changes for identical specs', () => {
+        expect(diffSpecs(before, before)).toEqual([]);
+        expect(summarizeChanges([])).toBe('No changes');
+    });
+
+    it('detects added, removed and changed elements', () => {
+        const after: Specification = {
+            ...before,
+            meta: { ...before.meta, name: 'Todo Pro' },
+            entities: [
+                {
+                    ...before.entities[0],
+                    properties: [
+                        { name: 'title', type: 'string', required: true },
+                        { name: 'priority', type: 'enum', required: false, options: ['low', 'medium', 'high'] },
+                        { name: 'due', type: 'date', required: false },
+                    ],
+                },
+            ],
+            views: [{ id: 'task-list', name: 'Tasks', type: 'dashboard', entity: 'task' }],
+            actions: [],
+        };
+
+        const changes = diffSpecs(before, after);
+        const find = (path: string) => changes.find((c) => c.path === path);
+
+        expect(find('meta.name')?.kind).toBe('changed');
+        expect(find('task.due')?.kind).toBe('added');
+        expect(find('task.priority')?.details).toEqual(['options: [low, high] → [low, medium, high]']);
+        expect(find('views.task-list')?.details).toEqual(['type: list → dashboard']);
+        expect(find('actions.add')?.kind).toBe('removed');
+        expect(summarizeChanges(changes)).toBe('+1 added, −1 removed, ~3 changed');
+    });
+
+    it('compares every relationship field and keeps repeated targets apart', () => {
+        const withRelationships = (relationships: Specification['entities'][0]['relationships']): Specification => ({
+            ...before,
+            entities: [{ ...before.entities[0], relationships }],
+        });
+
+        const changes = diffSpecs(
+            withRelationships([
+                { targetEntity: 'user', type: 'one-to-one' },
+                { targetEntity: 'user', type: 'one-to-many' },
+            ]),
+            withRelationships([
+                { targetEntity: 'user', type: 'one-to-one', onDelete: 'cascade' },
+                { targetEntity: 'user', type: 'one-to-many' },
+                { targetEntity: 'user', type: 'many-to-many' },
+            ])
+        );
+
+        expect(changes).toEqual([
+            {
+                kind: 'changed',
+                section: 'relationship',
+                path: 'task→user',
+                label: 'Relationship Task → user',
+                details: ['onDelete: — → cascade'],
+            },
+            {
+                kind: 'added',
+                section: 'relationship',
+                path: 'task→user#3',
+                label: 'Relationship Task → user#3',
+                details: ['many-to-many'],
+            },
+        ]);
+    });
+
+    it('treats a first version as all additions', () => {
+        const changes = diffSpecs(null, before);
+        expect(changes.every((c) => c.kind === 'added' || c.section === 'meta')).toBe(true);
+        expect(changes.some((c) => c.path === 'task')).toBe(true);
+    });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+    addEntity,
+    removeEntity,
+    moveItem,
+    setPropertyType,
+    setViewColumn,
+    parseOptions,
+    uniqueId,
+} from '../src/utils/spec-edits';
+import { Specification } from '../src/types';
+
+describe('Spec Edits', () => {
+    const spec: Specification = {
+        version: '1.0.0',
+        meta: { name: 'Projects', description: '', createdAt: '' },
+        entities: [
+            {
+                id: 'project',
+                name: 'Project',
+                properties: [{ name: 'name', type: 'string', required: true }],
+                relationships: [{ targetEntity: 'task', type: 'one-to-many' }],
+            },
+            {
+                id: 'task',
+                name: 'Task',
+                properties: [{ name: 'title', type: 'string', required: true }],
+                relationships: [],
+            },
+        ],
+        views: [
+            { id: 'project-list', name: 'Projects', type: 'list', entity: 'project' },
+            { id: 'task-list', name: 'Tasks', type: 'list', entity: 'task' },
+        ],
+        actions: [],
+        patterns: [],
+    };
+
+    it('adds an entity with a unique id', () => {
+        const once = addEntity(spec, 'Task');
+        expect(once.entities[2].id).toBe('task_2');
+        expect(spec.entities.length).toBe(2); // input untouched
+    });
+
+    it('removes views and relationships pointing at a deleted entity', () => {
+        const result = removeEntity(spec, 1);
+        expect(result.entities.map((e) => e.id)).toEqual(['project']);
+        expect(result.entities[0].relationships).toEqual([]);
+        expect(result.views.map((v) => v.id)).toEqual(['project-list']);
+    });
+
+    it('reorders items and ignores out-of-range moves', () => {
+        expect(moveItem(['a', 'b', 'c'], 0, 2)).toEqual(['b', 'c', 'a']);
+        expect(moveItem(['a', 'b'], 1, 2)).toEqual(['a', 'b']);
+    });
+
+    it('adds and drops enum options when the type changes', () => {
+        const asEnum = setPropertyType({ name: 'status', type: 'string', required: false }, 'enum');
+        expect(asEnum.options).toEqual(['Option 1']);
+        expect(setPropertyType(asEnum, 'string')).not.toHaveProperty('options');
+
+        const price = { name: 'price', type: 'currency' as const, currency: 'EUR', required: false };
+        expect(setPropertyType(price, 'number')).not.toHaveProperty('currency');
+
+        const title = { name: 'title', type: 'string' as const, required: true, maxLength: 80, default: 'Untitled' };
+        expect(setPropertyType(title, 'number')).toEqual({ name: 'title', type: 'number', required: true });
+    });
+
+    it('stores list columns only while some are hidden', () => {
+        const view = { id: 'tasks', name: 'Tasks', type: 'list' as const, entity: 'task' };
+        const fields = ['title', 'status', 'due'];
+
+        const hidden = setViewColumn(view, fields, 'status', false);
+        expect(hidden.columns).toEqual(['title', 'due']);
+        expect(setViewColumn(hidden, fields, 'status', true)).not.toHaveProperty('columns');
+        expect(setViewColumn({ ...view, columns: ['due'] }, fields, 'due', false).columns).toEqual(['due']);
+    });
+
+    it('parses comma-separated options', () => {
+        expect(parseOptions('low, high,, low , urgent')).toEqual(['low', 'high', 'urgent']);
+    });
+
+    it('slugifies ids', () => {
+        expect(uniqueId('Due Items!', [])).toBe('due_items');
+    });
+});
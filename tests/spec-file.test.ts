@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { serializeSpec, parseSpecFile, getSpecFileName } from '../src/utils/spec-file';
+import { migrateSpec, CURRENT_SPEC_VERSION } from '../src/engine/nedry/migrations';
+import { validateSpecShape } from '../src/engine/nedry/validator';
+import { Specification } from '../src/types';
+
+describe('Spec Files', () => {
+    const spec: Specification = {
+        version: '1.0.0',
+        meta: { name: 'Task Tracker', description: 'Track tasks', createdAt: '2024-01-01' },
+        entities: [
+            {
+                id: 'task',
+                name: 'Task',
+                properties: [
+                    { name: 'title', type: 'string', required: true },
+                    { name: 'status', type: 'enum', required: false, options: ['open', 'done'] },
+                ],
+                relationships: [],
+            },
+        ],
+        views: [{ id: 'task-list', name: 'Tasks', type: 'list', entity: 'task' }],
+        actions: [
+            {
+                id: 'close',
+                name: 'Close',
+                trigger: 'button',
+                logic: 'Mark done',
+                entity: 'task',
+                steps: [{ op: 'set', property: 'status', value: 'done' }],
+            },
+        ],
+        patterns: ['view-list'],
+    };
+
+    it('round-trips JSON and YAML', () => {
+        const json = serializeSpec(spec, 'json');
+        const yaml = serializeSpec(spec, 'yaml');
+
+        expect(json).toContain('"$schema"');
+        expect(parseSpecFile(json, 'app.spec.json').spec).toEqual(spec);
+        expect(parseSpecFile(yaml, 'app.spec.yaml').spec).toEqual(spec);
+        // Format is sniffed when the name gives no hint
+        expect(parseSpecFile(yaml).spec).toEqual(spec);
+        expect(getSpecFileName(spec, 'yaml')).toBe('task-tracker.spec.yaml');
+    });
+
+    it('keeps unquoted YAML dates as strings', () => {
+        const yaml = [
+            'version: 1.0.0',
+            'meta:',
+            '  name: Events',
+            '  description: Upcoming events',
+            '  createdAt: 2024-01-01',
+            'entities:',
+            '  - id: event',
+            '    name: Event',
+            '    properties:',
+            '      - name: title',
+            '        type: string',
+            '        required: true',
+            '      - name: startsOn',
+            '        type: date',
+            '        required: false',
+            '        default: 2024-05-01',
+            '    relationships: []',
+            'views:',
+            '  - id: event-list',
+            '    name: Events',
+            '    type: list',
+            '    entity: event',
+            'actions: []',
+            'patterns: []',
+        ].join('\n');
+
+        const result = parseSpecFile(yaml, 'events.spec.yaml');
+
+        expect(result.validation.errors).toEqual([]);
+        expect(result.spec?.meta.createdAt).toBe('2024-01-01');
+        expect(result.spec?.entities[0].properties[1].default).toBe('2024-05-01');
+    });
+
+    it('migrates specs from older versions', () => {
+        const legacy = {
+            name: 'Old App',
+            description: 'From 0.1',
+            entities: [{ id: 'note', name: 'Note', fields: [{ name: 'text', type: 'string' }] }],
+            views: [{ id: 'note-list', name: 'Notes', type: 'list', entity: 'note' }],
+        };
+
+        const migration = migrateSpec(legacy);
+        expect(migration.migratedFrom).toBe('0.1');
+        expect(migration.spec.version).toBe(CURRENT_SPEC_VERSION);
+
+        const result = parseSpecFile(JSON.stringify(legacy), 'old.json');
+        expect(result.migratedFrom).toBe('0.1');
+        expect(result.spec?.meta.name).toBe('Old App');
+        expect(result.spec?.entities[0].properties).toEqual([{ name: 'text', type: 'string', required: false }]);
+        expect(result.spec?.entities[0].relationships).toEqual([]);
+        expect(result.spec?.actions).toEqual([]);
+    });
+
+    it('reports broken entries and versions without an upgrade path', () => {
+        const broken = parseSpecFile(JSON.stringify({ ...spec, version: '0.2', entities: [null] }), 'broken.json');
+        expect(broken.spec).toBeNull();
+        expect(broken.validation.errors[0].path).toBe('entities[0]');
+
+        const unknown = parseSpecFile(JSON.stringify({ ...spec, version: '0.5' }), 'old.json');
+        expect(unknown.migratedFrom).toBeNull();
+        expect(unknown.validation.errors[0].code).toBe('UNSUPPORTED_VERSION');
+    });
+
+    it('rejects newer versions and malformed files', () => {
+        expect(parseSpecFile(JSON.stringify({ ...spec, version: '2.0.0' })).validation.errors[0].code)
+            .toBe('UNSUPPORTED_VERSION');
+        expect(parseSpecFile('{ not json', 'broken.json').validation.errors[0].code).toBe('PARSE_ERROR');
+
+        const errors = validateSpecShape({
+            ...spec,
+            views: [{ id: 'v', name: 'V', type: 'kanban', entity: 'task' }],
+        });
+        expect(errors).toHaveLength(1);
+        expect(errors[0].path).toBe('views[0].type');
+    });
+
+    it('reports validateSpec errors before accepting an import', () => {
+        const invalid = {
+            ...spec,
+            actions: [{ ...spec.actions[0], steps: [{ op: 'set', property: 'priority', value: 1 }] }],
+        };
+        const result = parseSpecFile(JSON.stringify(invalid), 'invalid.json');
+
+        expect(result.spec).toBeNull();
+        expect(result.validation.valid).toBe(false);
+        expect(result.validation.errors.map((e) => e.code)).toContain('INVALID_ACTION_STEP');
+    });
+});
@@ -0,0 +1,39 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { useStore } from '../src/store';
+import { enqueueRequest } from '../src/api/providers/queue';
+import { loadProject } from '../src/store/db';
+import { LLMRequest, LLMResponse } from '../src/types';
+
+// A call that only settles when its signal aborts
+function pendingCall(req: LLMRequest): Promise<LLMResponse> {
+    return new Promise((_resolve, reject) => {
+        req.signal?.addEventListener('abort', () => reject(req.signal!.reason));
+    });
+}
+
+async function waitForSave(projectId: string) {
+    for (let i = 0; i < 20 && !(await loadProject(projectId)); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+}
+
+describe('Store', () => {
+    it('cancels the open project\'s requests when switching projects', async () => {
+        const other = useStore.getState().createProject('Other');
+        const open = useStore.getState().createProject('Open');
+        await waitForSave(other);
+
+        const reply = enqueueRequest(
+            { provider: 'openai', model: 'gpt-4o', messages: [{ role: 'user', content: 'hi' }], queueKey: open },
+            pendingCall
+        );
+
+        const aborted = expect(reply).rejects.toMatchObject({ code: 'REQUEST_ABORTED' });
+        await useStore.getState().switchProject(other);
+
+        await aborted;
+        expect(useStore.getState().currentProjectId).toBe(other);
+    });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import {
+    estimateCost,
+    createMessageUsage,
+    addUsage,
+    mergeUsage,
+    getTotalCost,
+    getBudgetWarning,
+    formatCost,
+} from '../src/utils/usage';
+
+describe('Token Usage', () => {
+    it('estimates cost from the model price table', () => {
+        // gpt-4o: $2.50 in / $10 out per million tokens
+        expect(estimateCost('openai', 'gpt-4o', { inputTokens: 1_000_000, outputTokens: 100_000 })).toBeCloseTo(3.5);
+        expect(estimateCost('local', 'qwen2.5', { inputTokens: 5000, outputTokens: 500 })).toBe(0);
+        expect(estimateCost('openai', 'gpt-unknown', { inputTokens: 10, outputTokens: 10 })).toBeNull();
+    });
+
+    it('accumulates calls per provider and model', () => {
+        const first = createMessageUsage('anthropic', 'claude-sonnet-4-20250514', { inputTokens: 1000, outputTokens: 200 });
+        const unpriced = createMessageUsage('openai', 'gpt-unknown', { inputTokens: 50, outputTokens: 5 });
+
+        const totals = addUsage(addUsage(addUsage(undefined, first), first), unpriced);
+
+        expect(totals).toHaveLength(2);
+        expect(totals[0]).toMatchObject({ calls: 2, inputTokens: 2000, outputTokens: 400, unpricedCalls: 0 });
+        expect(totals[0].cost).toBeCloseTo(0.012);
+        expect(totals[1]).toMatchObject({ calls: 1, cost: 0, unpricedCalls: 1 });
+    });
+
+    it('merges project totals, most expensive first', () => {
+        const cheap = addUsage([], createMessageUsage('openai', 'gpt-3.5-turbo', { inputTokens: 1000, outputTokens: 1000 }));
+        const dear = addUsage([], createMessageUsage('openai', 'gpt-4-turbo', { inputTokens: 1000, outputTokens: 1000 }));
+
+        const merged = mergeUsage([{ usage: cheap }, { usage: dear }, { usage: cheap }, {}]);
+
+        expect(merged.map((m) => m.model)).toEqual(['gpt-4-turbo', 'gpt-3.5-turbo']);
+        expect(merged[1].calls).toBe(2);
+        expect(getTotalCost(merged)).toBeCloseTo(0.04 + 0.004);
+    });
+
+    it('warns once a project reaches its budget', () => {
+        const usage = addUsage([], createMessageUsage('anthropic', 'claude-3-opus-20240229', { inputTokens: 100_000, outputTokens: 20_000 }));
+
+        expect(getBudgetWarning(usage, null)).toBeNull();
+        expect(getBudgetWarning(usage, 5)).toBeNull();
+        expect(getBudgetWarning(usage, 2)).toBe('This project has used an estimated $3.00 of its $2.00 budget. Send anyway?');
+        expect(formatCost(0.001)).toBe('<$0.01');
+    });
+});